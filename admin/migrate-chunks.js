@@ -0,0 +1,112 @@
+const admin = require('firebase-admin');
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const isDryRun = args.includes('--dry-run');
+const isDevMode = args.includes('--dev');
+const batchSize = 500; // Firestore batch limit is 500 operations
+const chunkSize = 16;  // Must match gameConfig.chunks.size in functions/src/config.ts
+
+// Initialize Firebase Admin SDK
+const serviceAccount = require('./serviceAccountKey.json');
+
+if (isDevMode) {
+  // When in dev mode, set emulator host
+  process.env.FIRESTORE_EMULATOR_HOST = 'localhost:8080';
+  console.log('🔧 Using Firestore emulator at localhost:8080');
+}
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+const db = admin.firestore();
+
+const TILES_COLLECTION = 'colony/v1/tiles';
+const CHUNKS_COLLECTION = 'colony/v1/chunks';
+
+// Rebuild every chunk document from the tile documents
+async function buildChunks() {
+  console.log(`\n📦 Building ${CHUNKS_COLLECTION} from ${TILES_COLLECTION} (${chunkSize}x${chunkSize} chunks)`);
+
+  const tilesSnapshot = await db.collection(TILES_COLLECTION).get();
+
+  if (tilesSnapshot.empty) {
+    console.log(`⚠️ '${TILES_COLLECTION}' is empty`);
+    return { success: true, tiles: 0, chunks: 0, errors: 0 };
+  }
+
+  console.log(`📄 Found ${tilesSnapshot.size} tiles`);
+
+  // Group the tiles by chunk, keeping everything but the coordinates the key already gives
+  const chunks = new Map();
+  let errorCount = 0;
+
+  for (const doc of tilesSnapshot.docs) {
+    const [q, r] = doc.id.split('#').map(Number);
+    if (!Number.isInteger(q) || !Number.isInteger(r)) {
+      console.error(`❌ Tile ${doc.id} doesn't have a q#r#s ID, skipping`);
+      errorCount++;
+      continue;
+    }
+
+    const chunkQ = Math.floor(q / chunkSize);
+    const chunkR = Math.floor(r / chunkSize);
+    const chunkId = `${chunkQ}#${chunkR}`;
+
+    if (!chunks.has(chunkId)) {
+      chunks.set(chunkId, { id: chunkId, chunkQ, chunkR, tiles: {} });
+    }
+
+    const chunkTile = { ...doc.data() };
+    ['id', 'q', 'r', 's'].forEach(key => delete chunkTile[key]);
+    chunks.get(chunkId).tiles[doc.id] = chunkTile;
+  }
+
+  console.log(`🧩 Tiles fall into ${chunks.size} chunks`);
+
+  if (isDryRun) {
+    console.log('🔍 DRY RUN - no data will be written');
+    return { success: true, tiles: tilesSnapshot.size, chunks: chunks.size, errors: errorCount };
+  }
+
+  // Each chunk is written whole, replacing whatever was there
+  const chunkList = Array.from(chunks.values());
+  for (let start = 0; start < chunkList.length; start += batchSize) {
+    const batch = db.batch();
+    const slice = chunkList.slice(start, start + batchSize);
+    slice.forEach(chunk => batch.set(db.doc(`${CHUNKS_COLLECTION}/${chunk.id}`), chunk));
+    await batch.commit();
+    console.log(`📝 Committed batch of ${slice.length} chunks (total: ${start + slice.length})`);
+  }
+
+  console.log(`✅ Successfully wrote ${chunks.size} chunks`);
+
+  return { success: true, tiles: tilesSnapshot.size, chunks: chunks.size, errors: errorCount };
+}
+
+// Main migration function
+async function runMigration() {
+  console.log(`🔄 Starting chunk migration in ${isDevMode ? 'EMULATOR' : 'PRODUCTION'} mode`);
+  console.log(`${isDryRun ? '🔍 DRY RUN - No data will actually be written' : '⚠️ LIVE RUN - Data will be written'}`);
+
+  const result = await buildChunks();
+
+  console.log('\n--- 📊 Migration Summary ---');
+  console.log(`📄 Tiles processed: ${result.tiles}`);
+  console.log(`🧩 Chunks written: ${result.chunks}`);
+  console.log(`❌ Errors encountered: ${result.errors}`);
+
+  return { ...result, success: result.success && result.errors === 0 };
+}
+
+// Run the migration
+runMigration()
+  .then(result => {
+    console.log(`\n${result.success ? '✅ Migration completed successfully!' : '⚠️ Migration completed with issues'}`);
+    process.exit(result.success ? 0 : 1);
+  })
+  .catch(error => {
+    console.error('❌ Migration failed with an unexpected error:', error);
+    process.exit(1);
+  });
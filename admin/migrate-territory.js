@@ -0,0 +1,181 @@
+const admin = require('firebase-admin');
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const isDryRun = args.includes('--dry-run');
+const isDevMode = args.includes('--dev');
+const batchSize = 500; // Firestore batch limit is 500 operations
+
+// Initialize Firebase Admin SDK
+const serviceAccount = require('./serviceAccountKey.json');
+
+if (isDevMode) {
+  // When in dev mode, set emulator host
+  process.env.FIRESTORE_EMULATOR_HOST = 'localhost:8080';
+  console.log('🔧 Using Firestore emulator at localhost:8080');
+}
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+const db = admin.firestore();
+
+const COLONIES_COLLECTION = 'colony/v1/colonies';
+const TILES_COLLECTION = 'colony/v1/tiles';
+
+// Parse a tile ID in q#r#s format
+function parseTileId(tileId) {
+  const [q, r, s] = tileId.split('#').map(Number);
+  return { q, r, s };
+}
+
+// Queues writes and commits them in batches of at most batchSize operations
+function createBatchWriter() {
+  let currentBatch = db.batch();
+  let operationsInBatch = 0;
+  let totalOperations = 0;
+  const pending = [];
+
+  return {
+    add(write) {
+      write(currentBatch);
+      operationsInBatch++;
+      totalOperations++;
+
+      if (operationsInBatch >= batchSize) {
+        pending.push(currentBatch.commit());
+        currentBatch = db.batch();
+        operationsInBatch = 0;
+        console.log(`📝 Committed batch of ${batchSize} writes (total: ${totalOperations})`);
+      }
+    },
+    async flush() {
+      if (operationsInBatch > 0) {
+        pending.push(currentBatch.commit());
+        console.log(`📝 Committed final batch of ${operationsInBatch} writes (total: ${totalOperations})`);
+      }
+      await Promise.all(pending);
+      return totalOperations;
+    }
+  };
+}
+
+// Move every colony's tileIds array into its territory subcollection
+async function migrateTerritory() {
+  console.log(`\n📦 Moving tileIds arrays into ${COLONIES_COLLECTION}/{colonyId}/territory`);
+
+  const coloniesSnapshot = await db.collection(COLONIES_COLLECTION).get();
+  const colonies = coloniesSnapshot.docs.filter(doc => Array.isArray(doc.data().tileIds));
+
+  if (colonies.length === 0) {
+    console.log('⚠️ No colonies still have a tileIds array');
+    return { success: true, colonies: 0, tiles: 0, conflicts: 0, errors: 0 };
+  }
+
+  console.log(`📄 Found ${colonies.length} colonies to migrate`);
+
+  // The tile documents decide ownership; tileIds entries they disagree with are dropped
+  const controllers = new Map();
+  const tilesSnapshot = await db.collection(TILES_COLLECTION).get();
+  const storedTileIds = new Set(tilesSnapshot.docs.map(doc => doc.id));
+  tilesSnapshot.docs.forEach(doc => {
+    const { controllerUid } = doc.data();
+    if (controllerUid) {
+      controllers.set(doc.id, controllerUid);
+    }
+  });
+
+  const writer = createBatchWriter();
+  const migrated = [];
+  const claimedAt = Date.now();
+  let tileCount = 0;
+  let conflictCount = 0;
+  let errorCount = 0;
+
+  for (const doc of colonies) {
+    try {
+      const { uid, tileIds } = doc.data();
+      const ownedTileIds = [...new Set(tileIds)].filter(tileId => {
+        const controllerUid = controllers.get(tileId);
+        if (controllerUid && controllerUid !== uid) {
+          console.log(`⚠️ ${tileId} is listed by colony ${doc.id} but controlled by ${controllerUid}, skipping`);
+          conflictCount++;
+          return false;
+        }
+        return true;
+      });
+
+      console.log(`🗺️ Colony ${doc.id}: ${ownedTileIds.length} tiles`);
+      tileCount += ownedTileIds.length;
+
+      if (isDryRun) continue;
+
+      ownedTileIds.forEach(tileId => {
+        writer.add(batch => batch.set(
+          db.doc(`${COLONIES_COLLECTION}/${doc.id}/territory/${tileId}`),
+          { tileId, uid, ...parseTileId(tileId), claimedAt }
+        ));
+
+        // Stored tiles the array knew about but nobody marked as controlled
+        if (storedTileIds.has(tileId) && !controllers.has(tileId)) {
+          writer.add(batch => batch.update(db.doc(`${TILES_COLLECTION}/${tileId}`), { controllerUid: uid }));
+        }
+      });
+
+      migrated.push({ ref: doc.ref, territoryScore: ownedTileIds.length });
+    } catch (error) {
+      console.error(`❌ Error processing colony ${doc.id}:`, error);
+      errorCount++;
+    }
+  }
+
+  if (isDryRun) {
+    console.log('🔍 DRY RUN - no data will be written');
+  } else {
+    console.log('🚀 Committing batches...');
+    await writer.flush();
+
+    // Only drop the arrays once every territory entry has been written, so a failed run can be repeated
+    console.log('🧹 Removing tileIds arrays...');
+    const colonyWriter = createBatchWriter();
+    migrated.forEach(({ ref, territoryScore }) => {
+      colonyWriter.add(batch => batch.update(ref, {
+        territoryScore,
+        tileIds: admin.firestore.FieldValue.delete()
+      }));
+    });
+    await colonyWriter.flush();
+    console.log(`✅ Successfully migrated ${tileCount} tiles from ${colonies.length} colonies`);
+  }
+
+  return { success: true, colonies: colonies.length, tiles: tileCount, conflicts: conflictCount, errors: errorCount };
+}
+
+// Main migration function
+async function runMigration() {
+  console.log(`🔄 Starting territory migration in ${isDevMode ? 'EMULATOR' : 'PRODUCTION'} mode`);
+  console.log(`${isDryRun ? '🔍 DRY RUN - No data will actually be written' : '⚠️ LIVE RUN - Data will be written'}`);
+
+  const result = await migrateTerritory();
+
+  console.log('\n--- 📊 Migration Summary ---');
+  console.log(`📦 Colonies processed: ${result.colonies}`);
+  console.log(`📄 Territory entries: ${result.tiles}`);
+  console.log(`⚠️ Tiles skipped because another colony controls them: ${result.conflicts}`);
+  console.log(`❌ Errors encountered: ${result.errors}`);
+
+  return { ...result, success: result.success && result.errors === 0 };
+}
+
+// Run the migration
+runMigration()
+  .then(result => {
+    console.log(`\n${result.success ? '✅ Migration completed successfully!' : '⚠️ Migration completed with issues'}`);
+    console.log('ℹ️ Leaderboard and alliance scores are recounted from the territory entries at the next weekly reset');
+    process.exit(result.success ? 0 : 1);
+  })
+  .catch(error => {
+    console.error('❌ Migration failed with an unexpected error:', error);
+    process.exit(1);
+  });
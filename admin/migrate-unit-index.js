@@ -0,0 +1,157 @@
+const admin = require('firebase-admin');
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const isDryRun = args.includes('--dry-run');
+const isDevMode = args.includes('--dev');
+const batchSize = 500; // Firestore batch limit is 500 operations
+const chunkSize = 16;  // Must match gameConfig.chunks.size in functions/src/config.ts
+
+// Initialize Firebase Admin SDK
+const serviceAccount = require('./serviceAccountKey.json');
+
+if (isDevMode) {
+  // When in dev mode, set emulator host
+  process.env.FIRESTORE_EMULATOR_HOST = 'localhost:8080';
+  console.log('🔧 Using Firestore emulator at localhost:8080');
+}
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+const db = admin.firestore();
+
+const COLONIES_COLLECTION = 'colony/v1/colonies';
+const UNIT_CHUNKS_COLLECTION = 'colony/v1/unitChunks';
+
+// Build a unit's index entry, matching toIndexedUnit in functions/src/utils/unitIndex.ts
+function toIndexedUnit(unit, colonyId) {
+  const { q, r, s } = unit.position;
+  const entry = { unitId: unit.id, colonyId, ownerUid: unit.ownerUid, type: unit.type, q, r, s, level: unit.level };
+  if (unit.type === 'base') {
+    entry.influenceRadius = unit.influenceRadius || 0;
+  }
+  return entry;
+}
+
+// Rebuild every unit chunk document from the colonies' units arrays
+async function buildUnitIndex() {
+  console.log(`\n📦 Building ${UNIT_CHUNKS_COLLECTION} from ${COLONIES_COLLECTION} (${chunkSize}x${chunkSize} chunks)`);
+
+  const coloniesSnapshot = await db.collection(COLONIES_COLLECTION).get();
+
+  if (coloniesSnapshot.empty) {
+    console.log(`⚠️ '${COLONIES_COLLECTION}' is empty`);
+    return { success: true, units: 0, chunks: 0, errors: 0 };
+  }
+
+  console.log(`📄 Found ${coloniesSnapshot.size} colonies`);
+
+  // Group every unit by the chunk it stands in
+  const chunks = new Map();
+  let unitCount = 0;
+  let errorCount = 0;
+
+  for (const doc of coloniesSnapshot.docs) {
+    for (const unit of doc.data().units || []) {
+      const { q, r } = unit.position || {};
+      if (!Number.isInteger(q) || !Number.isInteger(r)) {
+        console.error(`❌ Unit ${unit.id} of colony ${doc.id} has no position, skipping`);
+        errorCount++;
+        continue;
+      }
+
+      const chunkQ = Math.floor(q / chunkSize);
+      const chunkR = Math.floor(r / chunkSize);
+      const chunkId = `${chunkQ}#${chunkR}`;
+
+      if (!chunks.has(chunkId)) {
+        chunks.set(chunkId, { id: chunkId, chunkQ, chunkR, units: {} });
+      }
+
+      chunks.get(chunkId).units[unit.id] = toIndexedUnit(unit, doc.id);
+      unitCount++;
+    }
+
+    // Bases still being built count towards spacing, keyed by their order ID
+    const plannedBases = (doc.data().constructionQueue || [])
+      .filter(order => order.kind === 'build' && (order.unitType || 'base') === 'base');
+
+    for (const order of plannedBases) {
+      const { q, r, s } = order.position;
+      const chunkQ = Math.floor(q / chunkSize);
+      const chunkR = Math.floor(r / chunkSize);
+      const chunkId = `${chunkQ}#${chunkR}`;
+
+      if (!chunks.has(chunkId)) {
+        chunks.set(chunkId, { id: chunkId, chunkQ, chunkR, units: {} });
+      }
+
+      const chunk = chunks.get(chunkId);
+      chunk.plannedBases = chunk.plannedBases || {};
+      chunk.plannedBases[order.id] = {
+        unitId: order.unitId, colonyId: doc.id, ownerUid: doc.data().uid, type: 'base', q, r, s, level: order.targetLevel
+      };
+      unitCount++;
+    }
+  }
+
+  console.log(`🧩 ${unitCount} units fall into ${chunks.size} chunks`);
+
+  // Chunks left over from units that have since moved away hold nothing now
+  const existingSnapshot = await db.collection(UNIT_CHUNKS_COLLECTION).get();
+  const staleRefs = existingSnapshot.docs.filter(doc => !chunks.has(doc.id)).map(doc => doc.ref);
+  console.log(`🗑️ ${staleRefs.length} stale chunks to delete`);
+
+  if (isDryRun) {
+    console.log('🔍 DRY RUN - no data will be written');
+    return { success: true, units: unitCount, chunks: chunks.size, errors: errorCount };
+  }
+
+  // Each chunk is written whole, replacing whatever was there
+  const chunkList = Array.from(chunks.values());
+  for (let start = 0; start < chunkList.length; start += batchSize) {
+    const batch = db.batch();
+    const slice = chunkList.slice(start, start + batchSize);
+    slice.forEach(chunk => batch.set(db.doc(`${UNIT_CHUNKS_COLLECTION}/${chunk.id}`), chunk));
+    await batch.commit();
+    console.log(`📝 Committed batch of ${slice.length} chunks (total: ${start + slice.length})`);
+  }
+
+  for (let start = 0; start < staleRefs.length; start += batchSize) {
+    const batch = db.batch();
+    staleRefs.slice(start, start + batchSize).forEach(ref => batch.delete(ref));
+    await batch.commit();
+  }
+
+  console.log(`✅ Successfully wrote ${chunks.size} chunks and deleted ${staleRefs.length}`);
+
+  return { success: true, units: unitCount, chunks: chunks.size, errors: errorCount };
+}
+
+// Main migration function
+async function runMigration() {
+  console.log(`🔄 Starting unit index migration in ${isDevMode ? 'EMULATOR' : 'PRODUCTION'} mode`);
+  console.log(`${isDryRun ? '🔍 DRY RUN - No data will actually be written' : '⚠️ LIVE RUN - Data will be written'}`);
+
+  const result = await buildUnitIndex();
+
+  console.log('\n--- 📊 Migration Summary ---');
+  console.log(`📄 Units indexed: ${result.units}`);
+  console.log(`🧩 Chunks written: ${result.chunks}`);
+  console.log(`❌ Errors encountered: ${result.errors}`);
+
+  return { ...result, success: result.success && result.errors === 0 };
+}
+
+// Run the migration
+runMigration()
+  .then(result => {
+    console.log(`\n${result.success ? '✅ Migration completed successfully!' : '⚠️ Migration completed with issues'}`);
+    process.exit(result.success ? 0 : 1);
+  })
+  .catch(error => {
+    console.error('❌ Migration failed with an unexpected error:', error);
+    process.exit(1);
+  });
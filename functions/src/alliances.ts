@@ -0,0 +1,471 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { Colony } from "./types/colony";
+import { Alliance, AllianceMember, FetchAllianceResponse } from "./types/alliance";
+import { functionConfig, gameConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { ALLIANCES_COLLECTION, getAllianceRef, toAllianceSummary } from "./utils/alliances";
+import { HEX_COLOR_RULE, ID_RULE, RequestSchema, validateRequest } from "./utils/validation";
+import type {
+  AcceptAllianceInviteRequest,
+  CreateAllianceRequest,
+  InviteToAllianceRequest
+} from "@shared/requests";
+
+const createAllianceSchema: RequestSchema<CreateAllianceRequest> = {
+  fields: {
+    name: { type: 'string', maxLength: gameConfig.alliances.maxNameLength, trim: true },
+    color: HEX_COLOR_RULE,
+    sharedVisibility: { type: 'boolean', optional: true }
+  }
+};
+
+const inviteToAllianceSchema: RequestSchema<InviteToAllianceRequest> = {
+  fields: { uid: ID_RULE }
+};
+
+const acceptAllianceInviteSchema: RequestSchema<AcceptAllianceInviteRequest> = {
+  fields: { allianceId: ID_RULE }
+};
+
+/**
+ * Read a user's colony inside a transaction
+ * @param transaction The transaction
+ * @param uid Firebase user ID
+ * @param tracker Read cost tracker for the calling function
+ * @returns The colony and its document reference
+ */
+async function getColonyInTransaction(
+  transaction: admin.firestore.Transaction,
+  uid: string,
+  tracker: ReadCostTracker
+): Promise<{ colony: Colony; ref: admin.firestore.DocumentReference }> {
+  const colonyQuery = await transaction.get(
+    admin.firestore().collection('colony/v1/colonies').where('uid', '==', uid).limit(1)
+  );
+  tracker.trackRead('colonyQuery', colonyQuery.size);
+
+  if (colonyQuery.empty) {
+    throw new HttpsError('not-found', 'No colony found for this user');
+  }
+
+  const colonyDoc = colonyQuery.docs[0];
+  return { colony: { id: colonyDoc.id, ...colonyDoc.data() } as Colony, ref: colonyDoc.ref };
+}
+
+/**
+ * Build the member record for a colony joining an alliance
+ */
+function toAllianceMember(colony: Colony, joinedAt: number): AllianceMember {
+  return { uid: colony.uid, colonyId: colony.id, name: colony.name, joinedAt };
+}
+
+/**
+ * Function to found a new alliance
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the alliance name and color
+ * 3. Verifies the user's colony isn't already in an alliance
+ * 4. Creates the alliance with the user as its founder and only member
+ */
+export const createAlliance = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for createAlliance function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('createAlliance');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to create an alliance');
+    }
+
+    const { name, color, sharedVisibility = true } = validateRequest(request.data, createAllianceSchema);
+
+    const allianceRef = admin.firestore().collection(ALLIANCES_COLLECTION).doc();
+
+    const alliance = await admin.firestore().runTransaction(async (transaction) => {
+      const { colony, ref } = await getColonyInTransaction(transaction, uid, tracker);
+
+      if (colony.allianceId) {
+        throw new HttpsError('failed-precondition', 'Leave your current alliance before founding a new one');
+      }
+
+      const now = Date.now();
+      const newAlliance: Alliance = {
+        id: allianceRef.id,
+        name,
+        color,
+        founderUid: uid,
+        members: [toAllianceMember(colony, now)],
+        memberUids: [uid],
+        invitedUids: [],
+        sharedVisibility: sharedVisibility === true,
+        territoryScore: colony.territoryScore || 0,
+        createdAt: now
+      };
+
+      transaction.set(allianceRef, newAlliance);
+      transaction.update(ref, { allianceId: allianceRef.id });
+      tracker.trackWrite('allianceCreate', 2);
+
+      return newAlliance;
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return { success: true, alliance, message: `Founded ${alliance.name}` };
+  } catch (error) {
+    logger.error("Error creating alliance:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error creating alliance'
+    );
+  }
+});
+
+/**
+ * Function to invite another player into the user's alliance
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Verifies the user is in an alliance with room for another member
+ * 3. Verifies the invited player has a colony that isn't already a member
+ * 4. Records the invite on the alliance
+ */
+export const inviteToAlliance = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for inviteToAlliance function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('inviteToAlliance');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to invite players');
+    }
+
+    const { uid: inviteeUid } = validateRequest(request.data, inviteToAllianceSchema);
+
+    if (inviteeUid === uid) {
+      throw new HttpsError('invalid-argument', 'You are already in your own alliance');
+    }
+
+    await admin.firestore().runTransaction(async (transaction) => {
+      const { colony } = await getColonyInTransaction(transaction, uid, tracker);
+      if (!colony.allianceId) {
+        throw new HttpsError('failed-precondition', 'Found or join an alliance before inviting players');
+      }
+
+      const allianceRef = getAllianceRef(colony.allianceId);
+      const allianceSnapshot = await transaction.get(allianceRef);
+      tracker.trackRead('alliance', 1);
+
+      const alliance = allianceSnapshot.data() as Alliance | undefined;
+      if (!alliance) {
+        throw new HttpsError('not-found', 'Your alliance no longer exists');
+      }
+
+      // Checks that the invitee has a colony
+      await getColonyInTransaction(transaction, inviteeUid, tracker);
+
+      if (alliance.memberUids.includes(inviteeUid)) {
+        throw new HttpsError('already-exists', 'That player is already in your alliance');
+      }
+
+      if (alliance.memberUids.length >= gameConfig.alliances.maxMembers) {
+        throw new HttpsError('failed-precondition', 'Your alliance is full');
+      }
+
+      transaction.update(allianceRef, {
+        invitedUids: admin.firestore.FieldValue.arrayUnion(inviteeUid)
+      });
+      tracker.trackWrite('allianceInvite', 1);
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return { success: true, message: 'Invite sent' };
+  } catch (error) {
+    logger.error("Error inviting to alliance:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error inviting to alliance'
+    );
+  }
+});
+
+/**
+ * Function to accept an invite into an alliance
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Verifies the user was invited and isn't in another alliance
+ * 3. Adds the user's colony to the alliance, along with its territory
+ */
+export const acceptAllianceInvite = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for acceptAllianceInvite function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('acceptAllianceInvite');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to join an alliance');
+    }
+
+    const { allianceId } = validateRequest(request.data, acceptAllianceInviteSchema);
+
+    const alliance = await admin.firestore().runTransaction(async (transaction) => {
+      const allianceRef = getAllianceRef(allianceId);
+      const allianceSnapshot = await transaction.get(allianceRef);
+      tracker.trackRead('alliance', 1);
+
+      const existing = allianceSnapshot.data() as Alliance | undefined;
+      if (!existing || !existing.invitedUids.includes(uid)) {
+        throw new HttpsError('not-found', 'No invite from this alliance');
+      }
+
+      const { colony, ref } = await getColonyInTransaction(transaction, uid, tracker);
+      if (colony.allianceId) {
+        throw new HttpsError('failed-precondition', 'Leave your current alliance before joining another');
+      }
+
+      if (existing.memberUids.length >= gameConfig.alliances.maxMembers) {
+        throw new HttpsError('failed-precondition', 'This alliance is full');
+      }
+
+      const updated: Alliance = {
+        ...existing,
+        members: [...existing.members, toAllianceMember(colony, Date.now())],
+        memberUids: [...existing.memberUids, uid],
+        invitedUids: existing.invitedUids.filter(invitedUid => invitedUid !== uid),
+        territoryScore: (existing.territoryScore || 0) + (colony.territoryScore || 0)
+      };
+
+      transaction.set(allianceRef, updated);
+      transaction.update(ref, { allianceId });
+      tracker.trackWrite('allianceJoin', 2);
+
+      return updated;
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return { success: true, alliance, message: `Joined ${alliance.name}` };
+  } catch (error) {
+    logger.error("Error accepting alliance invite:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error accepting alliance invite'
+    );
+  }
+});
+
+/**
+ * Function to leave the user's alliance
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Removes the user's colony and its territory from the alliance
+ * 3. Hands the alliance to the longest-standing member if the founder left
+ * 4. Disbands the alliance if nobody is left
+ */
+export const leaveAlliance = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for leaveAlliance function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('leaveAlliance');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to leave an alliance');
+    }
+
+    const disbanded = await admin.firestore().runTransaction(async (transaction) => {
+      const { colony, ref } = await getColonyInTransaction(transaction, uid, tracker);
+      if (!colony.allianceId) {
+        throw new HttpsError('failed-precondition', 'You are not in an alliance');
+      }
+
+      const allianceRef = getAllianceRef(colony.allianceId);
+      const allianceSnapshot = await transaction.get(allianceRef);
+      tracker.trackRead('alliance', 1);
+
+      transaction.update(ref, { allianceId: null });
+      tracker.trackWrite('colonyUpdate', 1);
+
+      const alliance = allianceSnapshot.data() as Alliance | undefined;
+      if (!alliance) {
+        // The alliance is already gone, so clearing the colony's link is all that's left
+        return true;
+      }
+
+      const members = alliance.members.filter(member => member.uid !== uid);
+      if (members.length === 0) {
+        transaction.delete(allianceRef);
+        tracker.trackWrite('allianceDelete', 1);
+        return true;
+      }
+
+      const founderUid = alliance.founderUid === uid
+        ? [...members].sort((a, b) => a.joinedAt - b.joinedAt)[0].uid
+        : alliance.founderUid;
+
+      transaction.update(allianceRef, {
+        members,
+        memberUids: members.map(member => member.uid),
+        founderUid,
+        territoryScore: Math.max(0, (alliance.territoryScore || 0) - (colony.territoryScore || 0))
+      });
+      tracker.trackWrite('allianceUpdate', 1);
+      return false;
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return {
+      success: true,
+      message: disbanded ? 'You left and the alliance was disbanded' : 'You left the alliance'
+    };
+  } catch (error) {
+    logger.error("Error leaving alliance:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error leaving alliance'
+    );
+  }
+});
+
+/**
+ * Function to fetch the user's alliance and the invites waiting for them
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Loads the alliance the user's colony belongs to, if any
+ * 3. Finds alliances that have invited the user
+ */
+export const fetchAlliance = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchAlliance function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchAlliance');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to fetch alliances');
+    }
+
+    const alliancesRef = admin.firestore().collection(ALLIANCES_COLLECTION);
+    const [memberQuery, inviteQuery] = await Promise.all([
+      alliancesRef.where('memberUids', 'array-contains', uid).limit(1).get(),
+      alliancesRef.where('invitedUids', 'array-contains', uid).get()
+    ]);
+    tracker.trackRead('allianceQuery', memberQuery.size + inviteQuery.size);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const response: FetchAllianceResponse = {
+      success: true,
+      alliance: memberQuery.empty ? null : memberQuery.docs[0].data() as Alliance,
+      invites: inviteQuery.docs.map(doc => toAllianceSummary(doc.data() as Alliance))
+    };
+    return response;
+  } catch (error) {
+    logger.error("Error fetching alliance:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching alliance'
+    );
+  }
+});
@@ -0,0 +1,268 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { Colony, ConstructionOrder } from "./types/colony";
+import { UnitType } from "./types/units";
+import { Coordinates } from "./types/base";
+import { functionConfig, gameConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import {
+  completeDueConstruction,
+  getBaseSiteError,
+  getBaseTier,
+  queueConstruction
+} from "./utils/construction";
+import { getTileWithNeighbors, loadOwnedTileIds } from "./utils/ownership";
+import { loadBaseSitesNear } from "./utils/unitIndex";
+import { checkCubeCoordinates, COORDINATE_FIELDS, ID_RULE, RequestSchema, validateRequest } from "./utils/validation";
+import type { BuildBaseRequest, UpgradeBaseRequest } from "@shared/requests";
+
+const buildBaseSchema: RequestSchema<BuildBaseRequest> = {
+  fields: COORDINATE_FIELDS,
+  check: checkCubeCoordinates
+};
+
+const upgradeBaseSchema: RequestSchema<UpgradeBaseRequest> = {
+  fields: { unitId: ID_RULE }
+};
+
+/**
+ * Function to start building a new tier 1 base
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Verifies the site is in or next to their territory and far enough from every other base
+ * 3. Spends the tier 1 cost from the colony stockpile
+ * 4. Adds a build order to the colony's construction queue
+ */
+export const buildBase = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for buildBase function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('buildBase');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to build a base');
+    }
+
+    // Extract the site from request data
+    const { q, r, s } = validateRequest(request.data, buildBaseSchema);
+
+    const tier = getBaseTier(1);
+    if (!tier) {
+      throw new HttpsError('internal', 'No tier 1 base is configured');
+    }
+
+    const position: Coordinates = { q, r, s };
+    const coloniesRef = admin.firestore().collection('colony/v1/colonies');
+
+    const territory = await loadOwnedTileIds(uid, getTileWithNeighbors(position), tracker);
+
+    // Read and update the colony in a transaction so resources can't be spent twice
+    const result = await admin.firestore().runTransaction(async (transaction) => {
+      const colonyQuery = await transaction.get(coloniesRef.where('uid', '==', uid).limit(1));
+      tracker.trackRead('colonyQuery', colonyQuery.size);
+
+      if (colonyQuery.empty) {
+        throw new HttpsError('not-found', 'No colony found for this user');
+      }
+
+      const colonyDoc = colonyQuery.docs[0];
+      const colony = { id: colonyDoc.id, ...colonyDoc.data() } as Colony;
+
+      // Bases and planned bases within spacing, read in the transaction so two close sites can't both be queued
+      const nearbyBases = await loadBaseSitesNear(position, gameConfig.bases.minBaseSpacing - 1, tracker, transaction);
+      const basePositions = nearbyBases.map(base => ({ q: base.q, r: base.r, s: base.s }));
+
+      const siteError = getBaseSiteError(position, colony, territory, basePositions);
+      if (siteError) {
+        throw new HttpsError('failed-precondition', siteError);
+      }
+
+      const now = Date.now();
+      const order: ConstructionOrder = {
+        id: coloniesRef.doc().id,
+        kind: 'build',
+        unitType: UnitType.BASE,
+        unitId: `${colonyDoc.id}-${UnitType.BASE}-${coloniesRef.doc().id}`,
+        position,
+        targetLevel: tier.level,
+        cost: tier.cost,
+        startedAt: now,
+        completesAt: now + tier.buildMinutes * 60000
+      };
+
+      queueConstruction(transaction, colonyDoc.ref, colony, order);
+      tracker.trackWrite('colonyUpdate', 2);
+
+      return order;
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return {
+      success: true,
+      order: result,
+      message: `Base construction started, ready in ${tier.buildMinutes} minutes`
+    };
+  } catch (error) {
+    logger.error("Error building base:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error building base'
+    );
+  }
+});
+
+/**
+ * Function to start upgrading one of the user's bases to the next tier
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Verifies they own the base, it isn't already being upgraded and a higher tier exists
+ * 3. Spends the next tier's cost from the colony stockpile
+ * 4. Adds an upgrade order to the colony's construction queue
+ */
+export const upgradeBase = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for upgradeBase function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('upgradeBase');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to upgrade a base');
+    }
+
+    const { unitId } = validateRequest(request.data, upgradeBaseSchema);
+
+    const coloniesRef = admin.firestore().collection('colony/v1/colonies');
+
+    // Read and update the colony in a transaction so resources can't be spent twice
+    const result = await admin.firestore().runTransaction(async (transaction) => {
+      const colonyQuery = await transaction.get(coloniesRef.where('uid', '==', uid).limit(1));
+      tracker.trackRead('colonyQuery', colonyQuery.size);
+
+      if (colonyQuery.empty) {
+        throw new HttpsError('not-found', 'No colony found for this user');
+      }
+
+      const colonyDoc = colonyQuery.docs[0];
+      const colony = { id: colonyDoc.id, ...colonyDoc.data() } as Colony;
+      const base = (colony.units || []).find(unit => unit.id === unitId);
+
+      if (!base || base.type !== UnitType.BASE) {
+        throw new HttpsError('not-found', 'Base not found in your colony');
+      }
+
+      if ((colony.constructionQueue || []).some(order => order.unitId === unitId)) {
+        throw new HttpsError('failed-precondition', 'This base is already being upgraded');
+      }
+
+      const tier = getBaseTier(base.level + 1);
+      if (!tier) {
+        throw new HttpsError('failed-precondition', 'This base is already at the highest tier');
+      }
+
+      const now = Date.now();
+      const order: ConstructionOrder = {
+        id: coloniesRef.doc().id,
+        kind: 'upgrade',
+        unitId,
+        position: base.position,
+        targetLevel: tier.level,
+        cost: tier.cost,
+        startedAt: now,
+        completesAt: now + tier.buildMinutes * 60000
+      };
+
+      queueConstruction(transaction, colonyDoc.ref, colony, order);
+      tracker.trackWrite('colonyUpdate', 1);
+
+      return { order, buildMinutes: tier.buildMinutes };
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return {
+      success: true,
+      order: result.order,
+      message: `Upgrade to tier ${result.order.targetLevel} started, ready in ${result.buildMinutes} minutes`
+    };
+  } catch (error) {
+    logger.error("Error upgrading base:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error upgrading base'
+    );
+  }
+});
+
+/**
+ * Scheduled function that finishes base construction
+ *
+ * Completes every build and upgrade order whose time is up and broadcasts the results.
+ */
+export const completeConstruction = onSchedule({
+  schedule: `every ${gameConfig.bases.constructionCheckMinutes} minutes`,
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.extendedTimeoutSeconds,
+  memory: functionConfig.memory
+}, async () => {
+  // Create a tracker for this run
+  const tracker = new ReadCostTracker('completeConstruction');
+
+  try {
+    const completed = await completeDueConstruction(tracker);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const readSummary = tracker.getSummary();
+    logger.info(
+      `[completeConstruction] Completed ${completed.length} orders. ` +
+      `Read Summary: ${readSummary.total} total reads`
+    );
+  } catch (error) {
+    logger.error("Error completing construction:", error);
+    throw error;
+  }
+});
@@ -7,22 +7,39 @@ import { findSpawnLocation as findNoiseBasedSpawnLocation } from "./utils/colony
 import { generateInitialTiles, saveTilesToFirestore } from "./utils/tiles/tileOperations";
 import { functionConfig, gameConfig } from "./config";
 import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { createInitialResearchState } from "./definitions/techTree";
+import { GalaxySettings } from "./types/galaxy";
+import { getGalaxySettings } from "./utils/galaxy";
+import { createLeaderboardEntry, getLeaderboardRef } from "./utils/leaderboard";
+import { createTerritoryEntry, getTerritoryRef } from "./utils/ownership";
+import { getUnitIndexUpdates } from "./utils/unitIndex";
+import { HEX_COLOR_RULE, RequestSchema, validateRequest } from "./utils/validation";
+import type { CreateColonyRequest } from "@shared/requests";
 
 // Use configuration constants from shared config
 const {
   minSpawnDistance,
   maxSpawnDistance,
   baseVisibilityRadius,
-  tier1BaseInfluence
+  tier1BaseInfluence,
+  maxNameLength
 } = gameConfig.colonySettings;
 
+const createColonySchema: RequestSchema<CreateColonyRequest> = {
+  fields: {
+    name: { type: 'string', maxLength: maxNameLength, trim: true },
+    color: { ...HEX_COLOR_RULE, optional: true }
+  }
+};
+
 /**
  * Find a suitable spawn location for a new colony
+ * @param galaxy The galaxy settings
  * @returns Coordinates for new colony spawn point
  */
-async function findSpawnLocation(): Promise<{q: number, r: number, s: number}> {
+async function findSpawnLocation(galaxy: GalaxySettings): Promise<{q: number, r: number, s: number}> {
   // Use the noise-based spawn location finder
-  const location = await findNoiseBasedSpawnLocation(minSpawnDistance, maxSpawnDistance);
+  const location = await findNoiseBasedSpawnLocation(galaxy, minSpawnDistance, maxSpawnDistance);
   
   // If no valid location found, return a random one as a fallback
   if (!location) {
@@ -101,21 +118,20 @@ export const createColony = onCall({
       throw new HttpsError('unauthenticated', 'User must be signed in to create a colony');
     }
 
-    // Extract colony name from the request data
-    const { name, color } = request.data;
-    
-    if (!name) {
-      throw new HttpsError('invalid-argument', 'Colony name is required');
-    }
+    // Extract colony name and color from the request data
+    const { name, color } = validateRequest(request.data, createColonySchema);
     
     // Create a document reference with auto-generated ID
     const colonyRef = admin.firestore().collection('colony/v1/colonies').doc();
     
+    // Load the galaxy every tile is generated from
+    const galaxy = await getGalaxySettings(tracker);
+    
     // Find spawn location
-    const startCoordinates = await findSpawnLocation();
+    const startCoordinates = await findSpawnLocation(galaxy);
     
     // Generate initial tiles
-    const tiles = generateInitialTiles(colonyRef.id, uid, startCoordinates, tier1BaseInfluence);
+    const tiles = generateInitialTiles(colonyRef.id, uid, startCoordinates, tier1BaseInfluence, galaxy);
     
     // Save tiles to Firestore in their own collection
     const tileIds = await saveTilesToFirestore(tiles);
@@ -136,15 +152,29 @@ export const createColony = onCall({
       color,
       createdAt: new Date(),
       startCoordinates,
-      tileIds,
       units,
       unplacedUnits,
       territoryScore: tiles.length,  // Initial score based on controlled tiles
-      visibilityRadius: baseVisibilityRadius
+      visibilityRadius: baseVisibilityRadius,
+      stockpile: {},
+      resourceRates: {},
+      research: createInitialResearchState(),
+      researchRate: 0,
+      constructionQueue: [],
+      nextConstructionAt: null,
+      orderQueue: [],
+      nextOrderTick: null,
+      allianceId: null
     };
     
-    // Save to Firestore
-    await colonyRef.set(colony);
+    // Save to Firestore with its starting territory and indexed units, entering the colony on the leaderboard at the same time
+    const batch = admin.firestore().batch();
+    batch.set(colonyRef, colony);
+    const claimedAt = Date.now();
+    tileIds.forEach(tileId => batch.set(getTerritoryRef(colony.id, tileId), createTerritoryEntry(uid, tileId, claimedAt)));
+    batch.set(getLeaderboardRef(colony.id), createLeaderboardEntry(colony, colony.territoryScore));
+    getUnitIndexUpdates(colony.id, [], units).forEach(({ ref, data }) => batch.set(ref, data, { merge: true }));
+    await batch.commit();
     
     // Store metrics in Firestore for analysis
     await tracker.storeMetrics();
@@ -162,7 +192,7 @@ export const createColony = onCall({
         name: colony.name,
         color: colony.color,
         startCoordinates: colony.startCoordinates,
-        tileIds: colony.tileIds,
+        tileIds,
         tiles,  // Include full tile data in response
         units: colony.units,
         unplacedUnits: colony.unplacedUnits,
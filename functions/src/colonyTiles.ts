@@ -1,24 +1,86 @@
 import { onCall, HttpsError } from "firebase-functions/v2/https";
 import * as logger from "firebase-functions/logger";
 import * as admin from "firebase-admin";
-import { ColonyTile } from "./types/colony";
-import { createNoiseGenerator, getNoiseForCoordinates, getTileTypeFromNoise, calculateResourceDensity } from "./utils/noise";
-import { functionConfig } from "./config";
+import { Colony, ColonyTile } from "./types/colony";
+import { FetchChunksResponse, VisibleChunk } from "./types/chunk";
+import { functionConfig, gameConfig } from "./config";
 import { ReadCostTracker } from "./utils/analytics/readCostTracker";
-import { verifyTileAdjacency } from "./utils/tileHelpers";
-import { publishEvent, EventType } from "./utils/pubsub";
+import { EventType } from "./utils/pubsub";
+import { publishToViewers } from "./utils/events";
+import { getColonyVisibility, getVisibleTileIdsAt } from "./utils/visibility";
+import { getTileTerrain } from "./utils/tiles/tileOperations";
+import { fromChunkTile, loadChunkedTilesAt, loadChunks } from "./utils/tiles/chunks";
+import { getGalaxySettings } from "./utils/galaxy";
+import { fromTileId } from "./utils/tileHelpers";
+import { captureTile } from "./utils/tileCapture";
+import { getVisionSharingAllies } from "./utils/alliances";
+import { consumeRateLimit } from "./utils/rateLimiter";
+import { checkCubeCoordinates, COORDINATE_FIELDS, RequestSchema, validateRequest } from "./utils/validation";
+import type { AddTileRequest, FetchChunksRequest, FetchTilesByIdsRequest } from "@shared/requests";
 
 export const COLONY_EVENTS_TOPIC = 'colony-events'
 
+const addColonyTileSchema: RequestSchema<AddTileRequest> = {
+  fields: COORDINATE_FIELDS,
+  check: checkCubeCoordinates
+};
+
+const fetchTilesByIdsSchema: RequestSchema<FetchTilesByIdsRequest> = {
+  fields: {
+    // Wide areas go through fetchChunks
+    tileIds: {
+      type: 'array',
+      items: { type: 'string', maxLength: 32, pattern: /^-?\d+#-?\d+#-?\d+$/, format: 'a q#r#s tile ID' },
+      minItems: 1,
+      maxItems: 100
+    }
+  }
+};
+
+const fetchChunksSchema: RequestSchema<FetchChunksRequest> = {
+  fields: {
+    chunkIds: {
+      type: 'array',
+      items: { type: 'string', maxLength: 24, pattern: /^-?\d+#-?\d+$/, format: 'a chunkQ#chunkR chunk ID' },
+      minItems: 1,
+      maxItems: gameConfig.chunks.maxPerRequest
+    }
+  }
+};
+
+/**
+ * Look up the colony owned by a user
+ * @param uid Firebase user ID
+ * @param tracker Read cost tracker for the calling function
+ * @returns The colony, or null if the user has none
+ */
+async function getColonyForUser(uid: string, tracker: ReadCostTracker): Promise<Colony | null> {
+  const colonyQuery = await admin.firestore()
+    .collection('colony/v1/colonies')
+    .where('uid', '==', uid)
+    .limit(1)
+    .get();
+  tracker.trackRead('colonyQuery', colonyQuery.size);
+
+  if (colonyQuery.empty) return null;
+
+  const colonyDoc = colonyQuery.docs[0];
+  return { id: colonyDoc.id, ...colonyDoc.data() } as Colony;
+}
+
 /**
  * Function to add a tile to a user's colony
+ *
+ * Territory is normally derived from units and bases (see utils/territory.ts),
+ * so this is only available when gameConfig.territory.allowManualClaims is enabled.
  * 
  * This function:
  * 1. Authenticates the user
- * 2. Validates that the requested tile is adjacent to the user's colony
- * 3. Creates or captures a tile with the appropriate properties
- * 4. Updates the colony with the new tile ID
- * 5. Returns the new/captured tile
+ * 2. Validates the request, then takes a token from the user's rate limit, refusing the claim if they're out
+ * 3. Validates that the requested tile is adjacent to the user's colony
+ * 4. In one transaction, creates or captures the tile and moves its ID between the colonies
+ * 5. Returns a conflict if another colony took the tile while the claim was retrying
+ * 6. Returns the new/captured tile
  */
 export const addColonyTile = onCall({
   region: functionConfig.region,
@@ -41,126 +103,22 @@ export const addColonyTile = onCall({
       throw new HttpsError('unauthenticated', 'User must be signed in to add a tile');
     }
 
-    // Extract coordinates from request data
-    const { q, r, s } = request.data;
-    
-    // Validate coordinates
-    if (q === undefined || r === undefined || s === undefined) {
-      throw new HttpsError('invalid-argument', 'Coordinates (q, r, s) are required');
-    }
-    
-    // Validate cube coordinate constraint: q + r + s must equal 0
-    if (q + r + s !== 0) {
-      throw new HttpsError('invalid-argument', 'Invalid coordinates: q + r + s must equal 0');
-    }
-    
-    // Fetch the user's colony
-    const coloniesRef = admin.firestore().collection('colony/v1/colonies');
-    const colonyQuery = await coloniesRef.where('uid', '==', uid).get();
-    tracker.trackRead('colonyQuery', colonyQuery.size);
-    
-    if (colonyQuery.empty) {
-      throw new HttpsError('not-found', 'No colony found for this user');
+    if (!gameConfig.territory.allowManualClaims) {
+      throw new HttpsError(
+        'failed-precondition',
+        'Tiles can no longer be claimed directly. Move units or place bases to expand your territory'
+      );
     }
+
+    // Extract coordinates from request data
+    const { q, r, s } = validateRequest(request.data, addColonyTileSchema);
+
+    // Malformed requests are refused above without spending a token
+    await consumeRateLimit(uid, 'addColonyTile', tracker);
     
-    // Get the first colony (users should only have one)
-    const colonyDoc = colonyQuery.docs[0];
-    const colonyData = colonyDoc.data();
-    
-    // Create the tile ID
-    const tileId = `${q}#${r}#${s}`;
-    
-    // Check if the tile already exists in the colony
-    if (colonyData.tileIds && colonyData.tileIds.includes(tileId)) {
-      throw new HttpsError('already-exists', 'This tile is already part of your colony');
-    }
-    
-    // Use the helper function to verify adjacency instead of fetching all tiles
-    verifyTileAdjacency(q, r, s, colonyData.tileIds || []);
-    
-    // Start a batch transaction
-    const batch = admin.firestore().batch();
-    
-    // Check if the tile exists in the database first
-    const tileRef = admin.firestore().collection('colony/v1/tiles').doc(tileId);
-    const tileDoc = await tileRef.get();
-    tracker.trackRead('tileDocGet', 1);
-    
-    let newTile: ColonyTile;
-    let capturedFromUid: string | null = null;
-    let capturedFromColony: string | null = null;
-    
-    if (tileDoc.exists) {
-      const tileData = tileDoc.data() as ColonyTile;
-      
-      // Record the previous owner for history/notifications
-      if (tileData.controllerUid && tileData.controllerUid !== uid) {
-        capturedFromUid = tileData.controllerUid;
-        
-        // Find the colony the tile belonged to
-        const previousColonyQuery = await coloniesRef.where('uid', '==', capturedFromUid).get();
-        tracker.trackRead('previousColonyQuery', previousColonyQuery.size);
-        
-        if (!previousColonyQuery.empty) {
-          const previousColonyDoc = previousColonyQuery.docs[0];
-          capturedFromColony = previousColonyDoc.id;
-          
-          // Remove the tile from the previous colony's tileIds array
-          const previousColonyData = previousColonyDoc.data();
-          const updatedPreviousTileIds = (previousColonyData.tileIds || []).filter(
-            (id: string) => id !== tileId
-          );
-          
-          // Update the previous colony document
-          batch.update(previousColonyDoc.ref, { 
-            tileIds: updatedPreviousTileIds,
-            territoryScore: updatedPreviousTileIds.length
-          });
-        }
-      }
-      
-      // Update the existing tile with the new controller
-      newTile = {
-        ...tileData,
-        controllerUid: uid,
-        visibility: 'visible', // Ensure it's visible to the new owner
-      };
-      
-      batch.update(tileRef, { controllerUid: uid, visibility: 'visible' });
-    } else {
-      // Generate tile properties for a new tile
-      const noise2D = createNoiseGenerator();
-      const noiseValue = getNoiseForCoordinates(noise2D, q, r);
-      const tileType = getTileTypeFromNoise(noiseValue);
-      const resourceDensity = calculateResourceDensity(tileType, noiseValue);
-      
-      // Create a new tile
-      newTile = {
-        id: tileId,
-        q, r, s,
-        type: tileType,
-        controllerUid: uid,
-        visibility: 'visible',
-        resourceDensity,
-        resources: {},
-        color: '#000000', // Default color
-        updatedAt: new Date().toISOString()
-      };
-      
-      // Add the new tile to the 'tiles' collection
-      batch.set(tileRef, newTile);
-    }
-    
-    // Update the user's colony with the new tile ID
-    const updatedTileIds = [...(colonyData.tileIds || []), tileId];
-    batch.update(colonyDoc.ref, { 
-      tileIds: updatedTileIds,
-      territoryScore: updatedTileIds.length
-    });
-    
-    // Commit the batch
-    await batch.commit();
-    
+    // Claim or capture the tile in a transaction so concurrent claims can't both win
+    const result = await captureTile(uid, { q, r, s }, tracker);
+
     // Store metrics in Firestore for analysis
     await tracker.storeMetrics();
     
@@ -168,44 +126,55 @@ export const addColonyTile = onCall({
     const readSummary = tracker.getSummary();
     logger.info(`[addColonyTile] Read Summary: ${readSummary.total} total reads`);
     
+    // The loser of a race for the tile gets told who has it instead
+    if (result.status === 'conflict') {
+      return {
+        success: false,
+        conflict: true,
+        controllerUid: result.controllerUid,
+        message: 'Another colony claimed this tile first'
+      };
+    }
+
     // Prepare event data for PubSub 
     const eventData = {
       type: EventType.TILE_UPDATED,
       timestamp: Date.now(),
       payloadType: 'tile',
-      payload: newTile,
-      colonyId: colonyDoc.id,
+      payload: result.tile,
+      colonyId: result.colonyId,
       userId: uid
     };
 
     try {
-      // Publish broadcast message for tile update
-      await publishEvent(EventType.TILE_UPDATED, eventData, COLONY_EVENTS_TOPIC);
-
+      // Tell the claimant, whoever lost the tile and the players who can see it
+      await publishToViewers(EventType.TILE_UPDATED, [{
+        positions: [result.tile],
+        participantUids: [uid, result.status === 'captured' ? result.previousOwner : ''],
+        data: eventData
+      }], COLONY_EVENTS_TOPIC, tracker);
     } catch (pubsubError) {
       // Log the error but don't fail the function
       logger.error("Error publishing to PubSub:", pubsubError);
     }
 
-    // Return success with the new or captured tile
-    const response = {
-      success: true,
-      tile: newTile,
-      message: capturedFromUid 
-        ? `Tile captured successfully from another colony` 
-        : `Tile added successfully to colony`
-    };
-    
-    // Add capture information if applicable
-    if (capturedFromUid) {
-      Object.assign(response, {
+    // Return success with the new or captured tile, with capture information if applicable
+    if (result.status === 'captured') {
+      return {
+        success: true,
+        tile: result.tile,
+        message: 'Tile captured successfully from another colony',
         captured: true,
-        previousOwner: capturedFromUid,
-        previousColony: capturedFromColony
-      });
+        previousOwner: result.previousOwner,
+        previousColony: result.previousColony
+      };
     }
-    
-    return response;
+
+    return {
+      success: true,
+      tile: result.tile,
+      message: 'Tile added successfully to colony'
+    };
   } catch (error) {
     logger.error("Error adding/capturing colony tile:", error);
     
@@ -228,7 +197,8 @@ export const addColonyTile = onCall({
  * This function:
  * 1. Validates the request contains an array of tile IDs
  * 2. Fetches all tiles in a single batch
- * 3. Returns the array of tiles
+ * 3. Drops tiles the user can't currently see, unless they control them
+ * 4. Returns the array of tiles
  */
 export const fetchColonyTilesByIds = onCall({
   region: functionConfig.region,
@@ -246,17 +216,7 @@ export const fetchColonyTilesByIds = onCall({
     }
 
     // Extract tile IDs from request data
-    const { tileIds } = request.data;
-    
-    // Validate tile IDs array
-    if (!tileIds || !Array.isArray(tileIds) || tileIds.length === 0) {
-      throw new HttpsError('invalid-argument', 'A non-empty array of tile IDs is required');
-    }
-    
-    // Limit the number of tiles that can be fetched at once
-    // if (tileIds.length > 100) {
-    //   throw new HttpsError('invalid-argument', 'Cannot fetch more than 100 tiles at once');
-    // }
+    const { tileIds } = validateRequest(request.data, fetchTilesByIdsSchema);
 
     // Get document references for all tile IDs
     const tileRefs = tileIds.map(tileId => admin.firestore().doc(`colony/v1/tiles/${tileId}`));
@@ -268,9 +228,24 @@ export const fetchColonyTilesByIds = onCall({
     tracker.trackRead('tilesDocs', tileSnapshots.length);
     
     // Convert snapshots to tile data, filtering out any that don't exist
-    const tiles = tileSnapshots
+    const existingTiles = tileSnapshots
       .filter(snapshot => snapshot.exists)
       .map(snapshot => snapshot.data() as ColonyTile);
+
+    // Only compute visibility for the requested tiles the user doesn't control
+    let tiles = existingTiles;
+    const otherTiles = existingTiles.filter(tile => tile.controllerUid !== uid);
+    if (otherTiles.length > 0) {
+      const colony = await getColonyForUser(uid, tracker);
+      const visibleTileIds = colony
+        ? await getVisibleTileIdsAt(colony, otherTiles, tracker, await getVisionSharingAllies(colony, tracker))
+        : new Set<string>();
+
+      // Hidden tiles are left out so the client treats them as unexplored
+      tiles = existingTiles.filter(tile =>
+        tile.controllerUid === uid || visibleTileIds.has(tile.id)
+      );
+    }
     
     // Store metrics in Firestore for analysis
     await tracker.storeMetrics();
@@ -299,4 +274,172 @@ export const fetchColonyTilesByIds = onCall({
       error instanceof Error ? error.message : 'Error fetching tiles by IDs'
     );
   }
-}); 
\ No newline at end of file
+}); 
+
+/**
+ * Function to fetch the tiles in a set of chunks
+ *
+ * This function:
+ * 1. Authenticates the user and validates the chunk IDs
+ * 2. Reads one document per chunk, each holding every persisted tile in its block
+ * 3. Leaves out tiles the user's colony can't currently see, as fetchColonyTilesByIds does
+ * 4. Returns the tiles grouped by chunk
+ */
+export const fetchChunks = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchChunks function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchChunks');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to fetch chunks');
+    }
+
+    const { chunkIds } = validateRequest(request.data, fetchChunksSchema);
+    const uniqueChunkIds = Array.from(new Set(chunkIds));
+    const chunks = await loadChunks(uniqueChunkIds, tracker);
+    const tilesByChunk = new Map(chunks.map(chunk => [
+      chunk.id,
+      Object.entries(chunk.tiles || {})
+        .map(([tileId, chunkTile]) => fromChunkTile(tileId, chunkTile))
+        .filter((tile): tile is ColonyTile => tile !== null)
+    ]));
+
+    // Only compute visibility, once for the whole request, for the tiles the user doesn't control
+    let isVisible = (tile: ColonyTile) => tile.controllerUid === uid;
+    const otherTiles = Array.from(tilesByChunk.values()).flat().filter(tile => !isVisible(tile));
+    if (otherTiles.length > 0) {
+      const colony = await getColonyForUser(uid, tracker);
+      const visibleTileIds = colony
+        ? await getVisibleTileIdsAt(colony, otherTiles, tracker, await getVisionSharingAllies(colony, tracker))
+        : new Set<string>();
+
+      // Hidden tiles are left out so the client treats them as unexplored
+      isVisible = tile => tile.controllerUid === uid || visibleTileIds.has(tile.id);
+    }
+
+    const visibleChunks: VisibleChunk[] = uniqueChunkIds.map(chunkId => ({
+      id: chunkId,
+      tiles: (tilesByChunk.get(chunkId) ?? []).filter(isVisible)
+    }));
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    // Log the read stats
+    const readSummary = tracker.getSummary();
+    logger.info(`[fetchChunks] Read Summary: ${readSummary.total} total reads`);
+
+    const response: FetchChunksResponse = {
+      success: true,
+      chunks: visibleChunks,
+      count: visibleChunks.reduce((total, chunk) => total + chunk.tiles.length, 0)
+    };
+    return response;
+  } catch (error) {
+    logger.error("Error fetching chunks:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching chunks'
+    );
+  }
+});
+
+/**
+ * Function to fetch every tile the user's colony can currently see
+ *
+ * This function:
+ * 1. Authenticates the user and loads their colony
+ * 2. Computes vision from units, base influence and owned territory, along with that of allies sharing vision
+ * 3. Returns the visible tile IDs and the persisted tiles among them, with their traits
+ */
+export const fetchVisibleTiles = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchVisibleTiles function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchVisibleTiles');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to fetch visible tiles');
+    }
+
+    const colony = await getColonyForUser(uid, tracker);
+    if (!colony) {
+      throw new HttpsError('not-found', 'No colony found for this user');
+    }
+
+    // Allies that share vision reveal tiles too
+    const allies = await getVisionSharingAllies(colony, tracker);
+    const { visibleTileIds, tiles: scannedTiles } = await getColonyVisibility(colony, tracker, allies);
+
+    // Fetch any visible tiles that weren't read while tracing the scans
+    const unreadCoordinates = Array.from(visibleTileIds)
+      .filter(tileId => !scannedTiles.has(tileId))
+      .map(fromTileId)
+      .filter((coords): coords is NonNullable<typeof coords> => coords !== null);
+    const extraTiles = await loadChunkedTilesAt(unreadCoordinates, tracker);
+
+    const galaxy = await getGalaxySettings(tracker);
+    const tiles = Array.from(visibleTileIds)
+      .map(tileId => scannedTiles.get(tileId) ?? extraTiles.get(tileId))
+      .filter((tile): tile is ColonyTile => tile !== undefined)
+      // Fill in traits for tiles persisted before the trait layer existed
+      .map(tile => tile.trait !== undefined ? tile : { ...tile, trait: getTileTerrain(tile, tile, galaxy).trait });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    // Log the read stats
+    const readSummary = tracker.getSummary();
+    logger.info(`[fetchVisibleTiles] Read Summary: ${readSummary.total} total reads`);
+
+    return {
+      success: true,
+      tileIds: Array.from(visibleTileIds),
+      tiles,
+      count: tiles.length
+    };
+  } catch (error) {
+    logger.error("Error fetching visible tiles:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching visible tiles'
+    );
+  }
+});
@@ -0,0 +1,80 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { BattleReport } from "./types/battle";
+import { functionConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { getPageLimitRule, RequestSchema, validateRequest } from "./utils/validation";
+import type { FetchBattleReportsRequest } from "@shared/requests";
+
+// Most battle reports returned by a single fetch
+const MAX_BATTLE_REPORTS = 20;
+
+const fetchBattleReportsSchema: RequestSchema<FetchBattleReportsRequest> = {
+  fields: { limit: getPageLimitRule(MAX_BATTLE_REPORTS) }
+};
+
+/**
+ * Function to fetch the battles a user has fought in, newest first
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Queries battle reports that list the user as a participant
+ * 3. Returns up to MAX_BATTLE_REPORTS reports
+ */
+export const fetchBattleReports = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchBattleReports function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchBattleReports');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to view battle reports');
+    }
+
+    const { limit = MAX_BATTLE_REPORTS } = validateRequest(request.data, fetchBattleReportsSchema);
+
+    const battlesSnapshot = await admin.firestore()
+      .collection('colony/v1/battles')
+      .where('participantUids', 'array-contains', uid)
+      .orderBy('occurredAt', 'desc')
+      .limit(limit)
+      .get();
+    tracker.trackRead('battleQuery', battlesSnapshot.size);
+
+    const battles = battlesSnapshot.docs.map(doc => doc.data() as BattleReport);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return {
+      success: true,
+      battles,
+      count: battles.length
+    };
+  } catch (error) {
+    logger.error("Error fetching battle reports:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching battle reports'
+    );
+  }
+});
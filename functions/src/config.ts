@@ -1,6 +1,9 @@
 /**
  * Shared configuration for Firebase functions
  */
+import { TileTrait, TileType } from "./utils/noise";
+import { baseRules, chunkRules, movementRules } from "../../shared/gameRules";
+import { RateLimitRule } from "./types/rateLimit";
 
 // Function configuration
 export const functionConfig = {
@@ -22,6 +25,202 @@ export const gameConfig = {
     minSpawnDistance: 8,    // Minimum tiles between colonies
     maxSpawnDistance: 25,   // Maximum tiles between colonies
     baseVisibilityRadius: 4,
-    tier1BaseInfluence: 3
+    tier1BaseInfluence: 3,
+    maxNameLength: 32
+  },
+
+  // Unit movement settings
+  // Costs and tiers shared with the client's previews live in shared/gameRules.ts
+  movement: movementRules,
+
+  // Base construction settings
+  // Tier 1 influence matches tier1BaseInfluence
+  bases: {
+    ...baseRules,
+    constructionCheckMinutes: 1,  // How often finished construction is processed
+    maxQueueLength: 3             // Orders a colony can have under construction at once
+  },
+
+  // Relay station settings
+  relays: {
+    range: 8,               // Furthest two relays can be apart and still link
+    scanRadius: 2,          // Scan radius around each relay
+    cost: { metal: 300 } as Record<string, number>,
+    buildMinutes: 45
+  },
+
+  // Ship combat settings
+  combat: {
+    rollSpread: 0.5,           // Each side's strength swings randomly by up to ±25%
+    baseDestroyChance: 0.3,    // Chance a losing ship is destroyed rather than retreating
+    maxDestroyChance: 0.9,     // Destroy chance after adding how badly the side lost
+
+    // Strength multiplier for defenders fighting on each tile type
+    terrainDefenseModifiers: {
+      [TileType.STAR_RICH]: 1,
+      [TileType.NORMAL]: 1,
+      [TileType.DEAD_ZONE]: 1.1,
+      [TileType.BARRIER]: 1.25
+    } as Record<TileType, number>
+  },
+
+  // FTL jump settings, unlocked through research
+  ftl: {
+    jumpRange: 2,         // Range of tier 1 (straight line) and tier 2 (any direction) jumps
+    sectorRadius: 6,      // Range of tier 3 teleports
+    cooldownMinutes: 30,  // How long a ship must wait between jumps
+
+    // Traits that stop ships jumping out of a tile, and into one
+    blockedOriginTraits: [TileTrait.VOID] as TileTrait[],
+    blockedDestinationTraits: [TileTrait.VOID, TileTrait.GRAVITY_WELL] as TileTrait[]
+  },
+
+  // Alliance settings
+  alliances: {
+    maxMembers: 8,        // Most colonies one alliance can hold
+    maxNameLength: 32
+  },
+
+  // In-game messaging settings
+  messaging: {
+    maxMessageLength: 500,
+    pageSize: 25,          // Messages returned per page when the client doesn't ask for a size
+    maxPageSize: 100,      // Most messages returned by a single fetch
+    maxMarkReadBatch: 200  // Most messages marked read by a single call
+  },
+
+  // Deep-space beacon settings
+  beacons: {
+    range: 12,               // Colonies with a unit this close to a beacon hear it
+    lifetimeMinutes: 1440,   // How long a beacon stays on the map
+    maxActivePerColony: 3,
+    maxFetchRadius: 40       // Largest area fetchBeacons searches around a point
+  },
+
+  // Resource trading settings
+  trade: {
+    defaultLifetimeHours: 48,   // How long an offer stays open when the creator doesn't say
+    maxLifetimeHours: 168,      // Longest an offer can stay open
+    maxOpenOffers: 5,           // Most open offers one colony can have at once
+    maxAmount: 1000000,         // Most of one resource a single offer can move
+    maxResourceTypes: 10,       // Most resource types one side of an offer can list
+    pageSize: 25,               // Offers returned per page when the client doesn't ask for a size
+    maxPageSize: 100,           // Most offers returned by a single fetch
+    expiryIntervalMinutes: 15,  // How often stale offers are expired and refunded
+    expiryBatchSize: 200        // Most offers expired in one run; the rest wait for the next
+  },
+
+  // Public colony profile settings
+  profiles: {
+    sectorSize: 10,     // Home locations are rounded to sectors this many tiles across
+    maxColorBatch: 30   // Most colony colors fetched in one call (Firestore's 'in' query limit)
+  },
+
+  // Leaderboard settings
+  leaderboard: {
+    pageSize: 25,     // Entries returned per page when the client doesn't ask for a size
+    maxPageSize: 100  // Most entries returned by a single fetch
+  },
+
+  // Game clock settings
+  gameClock: {
+    tickMinutes: 5,          // Real-time length of one tick
+    actionPointsPerTick: 2,  // Movement cost a unit with a queued order can spend each tick
+    maxOrderDistance: 10     // Furthest tile a move can be queued to
+  },
+
+  // Natural wormhole settings
+  wormholes: {
+    count: 12,                   // Wormhole pairs placed in every galaxy
+    minSpan: 15,                 // Minimum tiles between a wormhole's two endpoints
+    placementAttempts: 50,       // Tries to find endpoints for each wormhole before giving up on it
+    oneWayChance: 0.25,          // Share of wormholes that only lead one way
+    unstableChance: 0.3,         // Share of wormholes that are only open part of the time
+    unstablePeriodMinutes: 360,  // Length of an unstable wormhole's open/closed cycle
+    unstableOpenMinutes: 120     // How long an unstable wormhole stays open each cycle
+  },
+
+  // Fog of war settings
+  visibility: {
+    shipScanRadius: 3,       // Scan radius around ships
+    structureScanRadius: 1,  // Scan radius around mining and research sites
+    territoryScanRadius: 1,  // Scan radius around every owned tile
+
+    // Scan range spent when looking into a tile of each type
+    scanCosts: {
+      [TileType.STAR_RICH]: 1,
+      [TileType.NORMAL]: 1,
+      [TileType.DEAD_ZONE]: 1,
+      [TileType.BARRIER]: 2
+    } as Record<TileType, number>,
+
+    // Extra scan range spent looking into a tile with each trait
+    traitScanCosts: {
+      [TileTrait.NEBULA]: 1
+    } as Partial<Record<TileTrait, number>>
+  },
+
+  // Site placement and output settings
+  sites: {
+    minMiningResourceDensity: 0.3,  // Mining sites need at least this much resource density
+    baseExtractionRate: 10,         // Resources per tick at full density for a level 1 site
+    baseResearchRate: 5,            // Research points per tick for a level 1 site
+    starRichResearchBonus: 1.5,     // Research multiplier for sites on star-rich tiles
+    defaultResearchField: 'general'
+  },
+
+  // Resource economy settings
+  economy: {
+    tickIntervalMinutes: 15,   // How often mining sites extract resources
+    initialTileReserve: 1000,  // Reserve of a fully dense tile before mining starts
+
+    // Yield multiplier for mining sites on each tile type
+    tileTypeYieldMultipliers: {
+      [TileType.STAR_RICH]: 1.5,
+      [TileType.NORMAL]: 1,
+      [TileType.DEAD_ZONE]: 0.5,
+      [TileType.BARRIER]: 0.75
+    } as Record<TileType, number>
+  },
+
+  // Procedural galaxy settings
+  galaxy: {
+    maxRegionRadius: 20   // Largest region fetchGalaxyRegion will generate in one call
+  },
+
+  // Chunked tile storage settings, shared with the client
+  chunks: chunkRules,
+
+  // Request validation settings
+  requests: {
+    maxIdLength: 128   // Longest document or user ID a request can name
+  },
+
+  // Per-user rate limits, as token buckets, for callables that are cheap to spam
+  rateLimits: {
+    addColonyTile: { capacity: 5, refillPerSecond: 0.2 },          // 5 claims at once, then one every 5 seconds
+    sendDrawingTileUpdate: { capacity: 30, refillPerSecond: 5 },  // Room for a quick stroke, then 5 tiles a second
+    moveUnit: { capacity: 10, refillPerSecond: 0.5 },              // A fleet's worth of moves, then one every 2 seconds
+    queueOrder: { capacity: 10, refillPerSecond: 0.5 }             // A fleet's worth of orders, then one every 2 seconds
+  } as Record<'addColonyTile' | 'sendDrawingTileUpdate' | 'moveUnit' | 'queueOrder', RateLimitRule>,
+
+  // Support request settings
+  support: {
+    maxTitleLength: 120,
+    maxDescriptionLength: 5000,
+    maxEmailLength: 320
+  },
+
+  // Roadmap item settings
+  roadmap: {
+    maxTitleLength: 120,
+    maxDescriptionLength: 2000
+  },
+
+  // Territory settings
+  territory: {
+    // Territory is derived from units and bases; manual claiming is a legacy mode
+    allowManualClaims: false,
+    maxCaptureAttempts: 5  // Times a contended claim is retried before giving up
   }
 }; 
\ No newline at end of file
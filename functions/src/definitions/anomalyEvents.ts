@@ -0,0 +1,53 @@
+import { AnomalyEventDefinition } from "../types/anomaly";
+
+/**
+ * The anomaly event table. The first unit to explore an anomaly draws one of
+ * these, with each event's chance proportional to its weight.
+ */
+export const ANOMALY_EVENTS: AnomalyEventDefinition[] = [
+  {
+    id: 'mineral_cache',
+    name: 'Mineral Cache',
+    description: 'Sensors pick out a drifting cluster of ore-rich rock, ready to be hauled home.',
+    weight: 40,
+    effect: { kind: 'resource_cache', resourceType: 'metal', minAmount: 50, maxAmount: 200 }
+  },
+  {
+    id: 'derelict_ship',
+    name: 'Derelict Ship',
+    description: 'An abandoned hull still answers a recovery signal. The crew patch it up and add it to the fleet.',
+    weight: 20,
+    effect: { kind: 'derelict_ship', level: 1 }
+  },
+  {
+    id: 'radiation_storm',
+    name: 'Radiation Storm',
+    description: 'A burst of hard radiation sweeps over the ship, burning out its systems.',
+    weight: 20,
+    effect: { kind: 'hazard', damage: 1 }
+  },
+  {
+    id: 'ancient_star_chart',
+    name: 'Ancient Star Chart',
+    description: 'A long-dead beacon still broadcasts a map of the surrounding space.',
+    weight: 20,
+    effect: { kind: 'map_reveal', radius: 8, durationMinutes: 1440 }
+  }
+];
+
+/**
+ * Draw an event from the anomaly table
+ * @param random Seeded random number generator
+ * @returns The event drawn, weighted by each event's weight
+ */
+export function drawAnomalyEvent(random: () => number): AnomalyEventDefinition {
+  const totalWeight = ANOMALY_EVENTS.reduce((sum, event) => sum + event.weight, 0);
+  let roll = random() * totalWeight;
+
+  for (const event of ANOMALY_EVENTS) {
+    roll -= event.weight;
+    if (roll < 0) return event;
+  }
+
+  return ANOMALY_EVENTS[ANOMALY_EVENTS.length - 1];
+}
@@ -0,0 +1,108 @@
+import { ResearchState, TechDefinition, TechEffects } from "../types/tech";
+
+/**
+ * The tech tree. Techs are researched with points from research sites and
+ * unlock once all of their prerequisites are complete.
+ */
+export const TECH_TREE: TechDefinition[] = [
+  {
+    id: 'jump_drives',
+    name: 'Jump Drives',
+    description: 'FTL Tier 1: ships can jump up to 2 tiles in a straight line.',
+    cost: 100,
+    prerequisites: [],
+    effects: { ftlTier: 1 }
+  },
+  {
+    id: 'vector_jumps',
+    name: 'Vector Jumps',
+    description: 'FTL Tier 2: ships can jump to any tile within 2 tiles.',
+    cost: 250,
+    prerequisites: ['jump_drives'],
+    effects: { ftlTier: 2 }
+  },
+  {
+    id: 'sector_teleportation',
+    name: 'Sector Teleportation',
+    description: 'FTL Tier 3: ships can teleport anywhere within their local sector.',
+    cost: 600,
+    prerequisites: ['vector_jumps'],
+    effects: { ftlTier: 3 }
+  },
+  {
+    id: 'wormhole_navigation',
+    name: 'Wormhole Navigation',
+    description: 'Ships can travel through natural wormholes while they are open.',
+    cost: 200,
+    prerequisites: ['jump_drives'],
+    effects: { wormholeTransit: true }
+  },
+  {
+    id: 'long_range_sensors',
+    name: 'Long Range Sensors',
+    description: 'Every unit and base scans 1 tile further.',
+    cost: 80,
+    prerequisites: [],
+    effects: { scanRadiusBonus: 1 }
+  },
+  {
+    id: 'deep_space_arrays',
+    name: 'Deep Space Arrays',
+    description: 'Every unit and base scans another tile further.',
+    cost: 300,
+    prerequisites: ['long_range_sensors'],
+    effects: { scanRadiusBonus: 1 }
+  },
+  {
+    id: 'influence_projection',
+    name: 'Influence Projection',
+    description: 'Bases project influence 1 tile further.',
+    cost: 150,
+    prerequisites: [],
+    effects: { baseInfluenceBonus: 1 }
+  },
+  {
+    id: 'dominion_protocols',
+    name: 'Dominion Protocols',
+    description: 'Bases project influence another tile further.',
+    cost: 400,
+    prerequisites: ['influence_projection'],
+    effects: { baseInfluenceBonus: 1 }
+  }
+];
+
+/**
+ * Look up a tech by ID
+ * @param techId ID of the tech
+ * @returns The tech definition, or undefined if there is no such tech
+ */
+export function getTechDefinition(techId: string): TechDefinition | undefined {
+  return TECH_TREE.find(tech => tech.id === techId);
+}
+
+/**
+ * Create the research state for a colony that hasn't researched anything
+ */
+export function createInitialResearchState(): ResearchState {
+  return { activeTechId: null, completedTechs: [], progress: {} };
+}
+
+/**
+ * Combine the effects of every completed tech
+ * FTL tiers take the highest unlocked tier, bonuses add up and flags are on if any tech sets them.
+ * @param completedTechs IDs of the colony's completed techs
+ * @returns The combined effects, with zero for anything not unlocked
+ */
+export function getTechEffects(completedTechs: string[] = []): Required<TechEffects> {
+  return completedTechs
+    .map(getTechDefinition)
+    .reduce<Required<TechEffects>>((effects, tech) => {
+      if (!tech) return effects;
+      return {
+        ftlTier: Math.max(effects.ftlTier, tech.effects.ftlTier ?? 0),
+        baseInfluenceBonus: effects.baseInfluenceBonus + (tech.effects.baseInfluenceBonus ?? 0),
+        scanRadiusBonus: effects.scanRadiusBonus + (tech.effects.scanRadiusBonus ?? 0),
+        wormholeTransit: effects.wormholeTransit || !!tech.effects.wormholeTransit
+      };
+    }, { ftlTier: 0, baseInfluenceBonus: 0, scanRadiusBonus: 0, wormholeTransit: false });
+}
@@ -5,10 +5,32 @@ import { functionConfig } from './config'
 import { Tile } from './types/base'
 import { ReadCostTracker } from './utils/analytics/readCostTracker'
 import { publishEvent, EventType } from './utils/pubsub'
+import { consumeRateLimit } from './utils/rateLimiter'
+import { checkCubeCoordinates, HEX_COLOR_RULE, NumberRule, RequestSchema, validateRequest } from './utils/validation'
+import type { FetchDrawingTilesRequest, SendDrawingTileUpdateRequest } from '@shared/requests'
 
 export const DRAWING_EVENTS_TOPIC = 'drawing-events'
 export const DRAWING_TILES_COLLECTION = 'drawing/v1/tiles'
 
+// The drawing board isn't part of the galaxy, so its coordinates aren't bounded by it
+const DRAWING_COORDINATE_RULE: NumberRule = { type: 'integer' }
+
+const fetchDrawingTilesSchema: RequestSchema<FetchDrawingTilesRequest> = {
+  fields: {
+    timestamp: { type: 'string', maxLength: 32, minLength: 0, optional: true, nullable: true },
+  },
+}
+
+const sendDrawingTileUpdateSchema: RequestSchema<SendDrawingTileUpdateRequest> = {
+  fields: {
+    q: DRAWING_COORDINATE_RULE,
+    r: DRAWING_COORDINATE_RULE,
+    s: DRAWING_COORDINATE_RULE,
+    color: HEX_COLOR_RULE,
+  },
+  check: checkCubeCoordinates,
+}
+
 /**
  * Fetches all drawing tiles that have been updated since the given timestamp
  * 
@@ -39,7 +61,7 @@ export const fetchDrawingTilesAfterTimestamp = onCall(
 
     try {
       // Get the timestamp from the request, default to Unix epoch if not provided
-      const timestamp = request.data?.timestamp || new Date(0).toISOString()
+      const timestamp = validateRequest(request.data, fetchDrawingTilesSchema).timestamp || new Date(0).toISOString()
       logger.info(`Using timestamp: ${timestamp}`)
 
       // Create a query for drawing tiles
@@ -66,6 +88,12 @@ export const fetchDrawingTilesAfterTimestamp = onCall(
       }
     } catch (error) {
       logger.error('Error fetching drawing tiles:', error)
+
+      // If the error is already an HttpsError, rethrow it
+      if (error instanceof HttpsError) {
+        throw error
+      }
+
       throw new HttpsError('internal', 'Failed to fetch drawing tiles')
     }
   }
@@ -75,9 +103,10 @@ export const fetchDrawingTilesAfterTimestamp = onCall(
  * Updates a drawing tile with new data
  * This function:
  * 1. Validates the user is authenticated
- * 2. Validates tile coordinates
- * 3. Updates the tile in Firestore
- * 4. Publishes the update to WebSocket clients
+ * 2. Validates tile coordinates and color
+ * 3. Takes a token from the user's rate limit, refusing the update if they're out
+ * 4. Updates the tile in Firestore
+ * 5. Publishes the update to WebSocket clients
  *
  * Should not be warmed up
  */
@@ -99,22 +128,10 @@ export const sendDrawingTileUpdate = onCall(
       }
 
       // Extract coordinates and color from request data
-      const { q, r, s, color } = request.data
+      const { q, r, s, color } = validateRequest(request.data, sendDrawingTileUpdateSchema)
 
-      // Validate coordinates
-      if (q === undefined || r === undefined || s === undefined) {
-        throw new HttpsError('invalid-argument', 'Coordinates (q, r, s) are required')
-      }
-
-      // Validate cube coordinate constraint: q + r + s must equal 0
-      if (q + r + s !== 0) {
-        throw new HttpsError('invalid-argument', 'Invalid coordinates: q + r + s must equal 0')
-      }
-
-      // Validate color
-      if (!color || typeof color !== 'string' || !color.match(/^#[0-9A-Fa-f]{6}$/)) {
-        throw new HttpsError('invalid-argument', 'Valid hex color is required')
-      }
+      // Malformed requests are refused above without spending a token
+      await consumeRateLimit(uid, 'sendDrawingTileUpdate', tracker)
 
       // Create the tile ID
       const tileId = `${q}#${r}#${s}`
@@ -149,6 +166,12 @@ export const sendDrawingTileUpdate = onCall(
       }
     } catch (error) {
       logger.error('Error updating drawing tile:', error)
+
+      // If the error is already an HttpsError, rethrow it
+      if (error instanceof HttpsError) {
+        throw error
+      }
+
       throw new HttpsError('internal', 'Failed to update drawing tile')
     }
   }
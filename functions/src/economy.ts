@@ -0,0 +1,39 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import { functionConfig, gameConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { runEconomyTick } from "./utils/economy";
+
+/**
+ * Scheduled function that runs the resource economy
+ *
+ * Every tick, each mining site extracts from its tile into the colony stockpile
+ * and each research site adds points to the colony's active research.
+ * Runs locally through the emulator's pubsub scheduler.
+ */
+export const economyTick = onSchedule({
+  schedule: `every ${gameConfig.economy.tickIntervalMinutes} minutes`,
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.extendedTimeoutSeconds,
+  memory: functionConfig.memory
+}, async () => {
+  // Create a tracker for this run
+  const tracker = new ReadCostTracker('economyTick');
+
+  try {
+    const summary = await runEconomyTick(tracker);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const readSummary = tracker.getSummary();
+    logger.info(
+      `[economyTick] Updated ${summary.coloniesUpdated} colonies, produced ${JSON.stringify(summary.produced)}, ` +
+      `completed ${summary.techsCompleted} techs. ` +
+      `Read Summary: ${readSummary.total} total reads`
+    );
+  } catch (error) {
+    logger.error("Error running economy tick:", error);
+    throw error;
+  }
+});
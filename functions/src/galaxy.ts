@@ -0,0 +1,83 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import { FetchGalaxyRegionResponse } from "./types/galaxy";
+import { functionConfig, gameConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { generateRegion, getGalaxySettings } from "./utils/galaxy";
+import { generateWormholes, getWormholesNear } from "./utils/wormholes";
+import { checkCubeCoordinates, COORDINATE_FIELDS, RequestSchema, validateRequest } from "./utils/validation";
+import type { FetchGalaxyRegionRequest } from "@shared/requests";
+
+const fetchGalaxyRegionSchema: RequestSchema<FetchGalaxyRegionRequest> = {
+  fields: {
+    ...COORDINATE_FIELDS,
+    radius: { type: 'integer', min: 0, max: gameConfig.galaxy.maxRegionRadius }
+  },
+  check: checkCubeCoordinates
+};
+
+/**
+ * Function to fetch the procedural terrain of a region of the galaxy
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the region center and radius
+ * 3. Loads the galaxy settings
+ * 4. Generates every tile in the region from the galaxy seed
+ * 5. Lists the wormholes with an endpoint in the region
+ *
+ * Nothing is read from or written to the tiles collection, so the result only
+ * reflects terrain, not ownership or anything built on the tiles.
+ */
+export const fetchGalaxyRegion = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchGalaxyRegion function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchGalaxyRegion');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to view the galaxy');
+    }
+
+    const { q, r, s, radius } = validateRequest(request.data, fetchGalaxyRegionSchema);
+
+    const galaxy = await getGalaxySettings(tracker);
+    const tiles = generateRegion({ q, r, s }, radius, galaxy);
+    const wormholes = getWormholesNear(generateWormholes(galaxy), { q, r, s }, radius);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const response: FetchGalaxyRegionResponse = {
+      success: true,
+      version: galaxy.version,
+      tiles,
+      wormholes
+    };
+    return response;
+  } catch (error) {
+    logger.error("Error fetching galaxy region:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching galaxy region'
+    );
+  }
+});
@@ -0,0 +1,282 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { Colony, QueuedOrder } from "./types/colony";
+import { Coordinates } from "./types/base";
+import { ResolvedOrder, TickSummary, TickTiming } from "./types/tick";
+import { functionConfig, gameConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { publishEvent, EventType } from "./utils/pubsub";
+import { cubeDistance } from "./utils/noise";
+import { findMovableUnitIndex } from "./utils/movement";
+import { getNextOrderTick, planOrderPath, runGameTick } from "./utils/orders";
+import { getTickNumber, getTickStartsAt } from "./utils/gameClock";
+import { consumeRateLimit } from "./utils/rateLimiter";
+import { checkCubeCoordinates, COORDINATE_FIELDS, ID_RULE, RequestSchema, validateRequest } from "./utils/validation";
+import type { CancelOrderRequest, QueueOrderRequest } from "@shared/requests";
+
+export const TICK_EVENTS_TOPIC = 'tick-events';
+
+const queueOrderSchema: RequestSchema<QueueOrderRequest> = {
+  fields: { ...COORDINATE_FIELDS, unitId: ID_RULE },
+  check: checkCubeCoordinates
+};
+
+const cancelOrderSchema: RequestSchema<CancelOrderRequest> = {
+  fields: { orderId: ID_RULE }
+};
+
+/**
+ * Function to queue a sublight move that the game clock carries out over the next ticks
+ *
+ * This function:
+ * 1. Authenticates the user and validates the request
+ * 2. Takes a token from the user's rate limit, refusing the order if they're out
+ * 3. Verifies the user owns the unit and that it can move, and plans the route to the destination over the terrain
+ * 4. Adds the order to the colony's queue, replacing any order the unit already had
+ *
+ * Each tick the unit advances along the route as far as its action points allow.
+ */
+export const queueOrder = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for queueOrder function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('queueOrder');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to queue orders');
+    }
+
+    // Extract the unit and destination from request data
+    const { unitId, q, r, s } = validateRequest(request.data, queueOrderSchema);
+
+    // Planning a route reads terrain along the way, so orders are rate limited
+    await consumeRateLimit(uid, 'queueOrder', tracker);
+
+    const destination: Coordinates = { q, r, s };
+    const coloniesRef = admin.firestore().collection('colony/v1/colonies');
+
+    // Read and update the colony in a transaction so concurrent orders don't overwrite each other
+    const result = await admin.firestore().runTransaction(async (transaction) => {
+      const colonyQuery = await transaction.get(coloniesRef.where('uid', '==', uid).limit(1));
+      tracker.trackRead('colonyQuery', colonyQuery.size);
+
+      if (colonyQuery.empty) {
+        throw new HttpsError('not-found', 'No colony found for this user');
+      }
+
+      const colonyDoc = colonyQuery.docs[0];
+      const colony = { id: colonyDoc.id, ...colonyDoc.data() } as Colony;
+      const units = colony.units || [];
+      const { position } = units[findMovableUnitIndex(units, unitId, uid)];
+
+      if (cubeDistance(position.q, position.r, position.s, q, r, s) === 0) {
+        throw new HttpsError('invalid-argument', 'Unit is already at this location');
+      }
+
+      const now = Date.now();
+      const order: QueuedOrder = {
+        id: coloniesRef.doc().id,
+        unitId,
+        destination,
+        path: await planOrderPath(position, destination, tracker),
+        queuedAt: now,
+        queuedTick: getTickNumber(now)
+      };
+
+      // A unit follows one order at a time, so a new order replaces the old one
+      const orderQueue = [...(colony.orderQueue || []).filter(queued => queued.unitId !== unitId), order];
+
+      transaction.update(colonyDoc.ref, {
+        orderQueue,
+        nextOrderTick: getNextOrderTick(orderQueue)
+      });
+      tracker.trackWrite('colonyUpdate', 1);
+
+      return order;
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const resolvesAt = getTickStartsAt(result.queuedTick + 1);
+    return {
+      success: true,
+      order: result,
+      resolvesAt,
+      message: `Move queued, ${result.path.length} tiles to go`
+    };
+  } catch (error) {
+    logger.error("Error queueing order:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error queueing order'
+    );
+  }
+});
+
+/**
+ * Function to cancel a unit's queued order
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Removes the order from the colony's queue
+ *
+ * The unit stays wherever the last resolved tick left it.
+ */
+export const cancelOrder = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for cancelOrder function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('cancelOrder');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to cancel orders');
+    }
+
+    const { orderId } = validateRequest(request.data, cancelOrderSchema);
+
+    const coloniesRef = admin.firestore().collection('colony/v1/colonies');
+
+    await admin.firestore().runTransaction(async (transaction) => {
+      const colonyQuery = await transaction.get(coloniesRef.where('uid', '==', uid).limit(1));
+      tracker.trackRead('colonyQuery', colonyQuery.size);
+
+      if (colonyQuery.empty) {
+        throw new HttpsError('not-found', 'No colony found for this user');
+      }
+
+      const colonyDoc = colonyQuery.docs[0];
+      const queue: QueuedOrder[] = colonyDoc.data().orderQueue || [];
+
+      if (!queue.some(order => order.id === orderId)) {
+        throw new HttpsError('not-found', 'Order not found in your queue');
+      }
+
+      const orderQueue = queue.filter(order => order.id !== orderId);
+      transaction.update(colonyDoc.ref, {
+        orderQueue,
+        nextOrderTick: getNextOrderTick(orderQueue)
+      });
+      tracker.trackWrite('colonyUpdate', 1);
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return { success: true, message: 'Order cancelled' };
+  } catch (error) {
+    logger.error("Error cancelling order:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error cancelling order'
+    );
+  }
+});
+
+/**
+ * Scheduled function that runs the game clock
+ *
+ * Every tick, units with queued orders advance along their routes. The tick's timing is
+ * broadcast on tick-events, and each player is sent their own orders so clients can animate the moves.
+ * Orders never go to other players; they hear about moves through the tiles and battles they see.
+ * Runs locally through the emulator's pubsub scheduler.
+ */
+export const resolveTick = onSchedule({
+  schedule: `every ${gameConfig.gameClock.tickMinutes} minutes`,
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.extendedTimeoutSeconds,
+  memory: functionConfig.memory
+}, async () => {
+  // Create a tracker for this run
+  const tracker = new ReadCostTracker('resolveTick');
+
+  try {
+    const summary = await runGameTick(tracker);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    if (!summary) return;
+
+    const readSummary = tracker.getSummary();
+    logger.info(
+      `[resolveTick] Resolved ${summary.orders.length} orders on tick ${summary.tick}. ` +
+      `Read Summary: ${readSummary.total} total reads`
+    );
+
+    const { orders, ...timing } = summary;
+    const ordersByUid = new Map<string, ResolvedOrder[]>();
+    orders.forEach(order => ordersByUid.set(order.uid, [...(ordersByUid.get(order.uid) ?? []), order]));
+
+    const toEventData = (payload: TickTiming | TickSummary) => ({
+      type: EventType.TICK_RESOLVED,
+      timestamp: Date.now(),
+      payloadType: 'tick',
+      payload
+    });
+
+    try {
+      // Broadcast even when nothing moved so clients can keep their tick countdown in step
+      await publishEvent(EventType.TICK_RESOLVED, toEventData(timing), TICK_EVENTS_TOPIC);
+    } catch (pubsubError) {
+      // Log the error but don't fail the job
+      logger.error("Error publishing to PubSub:", pubsubError);
+    }
+
+    await Promise.all(Array.from(ordersByUid.entries()).map(async ([uid, playerOrders]) => {
+      try {
+        await publishEvent(
+          EventType.TICK_RESOLVED,
+          toEventData({ ...timing, orders: playerOrders }),
+          TICK_EVENTS_TOPIC,
+          'direct',
+          uid
+        );
+      } catch (pubsubError) {
+        // Log the error but don't fail the job
+        logger.error("Error publishing to PubSub:", pubsubError);
+      }
+    }));
+  } catch (error) {
+    logger.error("Error resolving tick:", error);
+    throw error;
+  }
+});
@@ -3,7 +3,27 @@ import * as admin from "firebase-admin";
 
 // Import functions from other files
 import { createColony } from "./colony";
-import { addColonyTile, COLONY_EVENTS_TOPIC, fetchColonyTilesByIds } from "./colonyTiles";
+import { addColonyTile, COLONY_EVENTS_TOPIC, fetchChunks, fetchColonyTilesByIds, fetchVisibleTiles } from "./colonyTiles";
+import { moveUnit, placeUnit } from "./units";
+import { economyTick } from "./economy";
+import { fetchTechTree, setResearchTarget } from "./research";
+import { buildBase, upgradeBase, completeConstruction } from "./bases";
+import { fetchBattleReports } from "./combat";
+import { fetchGalaxyRegion } from "./galaxy";
+import { buildRelay } from "./relays";
+import { queueOrder, cancelOrder, resolveTick, TICK_EVENTS_TOPIC } from "./gameClock";
+import { fetchLeaderboard, fetchAllianceLeaderboard, resetLeaderboardWeek } from "./leaderboard";
+import { createAlliance, inviteToAlliance, acceptAllianceInvite, leaveAlliance, fetchAlliance } from "./alliances";
+import { fetchColonyProfile, fetchColonyColors } from "./profiles";
+import { sendMessage, placeBeacon, fetchMessages, markMessagesRead, fetchBeacons } from "./messages";
+import {
+  createTradeOffer,
+  acceptTradeOffer,
+  cancelTradeOffer,
+  fetchTradeOffers,
+  fetchTradeHistory,
+  expireTradeOffers
+} from "./trade";
 import { addRoadmapItem, updateRoadmapItem, deleteRoadmapItem } from "./roadmap";
 import { submitSupportRequest } from "./support";
 import { fetchDrawingTilesAfterTimestamp, sendDrawingTileUpdate, DRAWING_EVENTS_TOPIC } from "./drawingTiles";
@@ -21,11 +41,52 @@ createTopicIfNotExists(COLONY_EVENTS_TOPIC).catch(error => {
   logger.error('Failed to create colony-events topic:', error);
 });
 
+createTopicIfNotExists(TICK_EVENTS_TOPIC).catch(error => {
+  logger.error('Failed to create tick-events topic:', error);
+});
+
 // Export functions from other files
 export {
   createColony,
   addColonyTile,
   fetchColonyTilesByIds,
+  fetchChunks,
+  fetchVisibleTiles,
+  moveUnit,
+  placeUnit,
+  economyTick,
+  fetchTechTree,
+  setResearchTarget,
+  buildBase,
+  upgradeBase,
+  completeConstruction,
+  buildRelay,
+  queueOrder,
+  cancelOrder,
+  resolveTick,
+  fetchLeaderboard,
+  fetchAllianceLeaderboard,
+  resetLeaderboardWeek,
+  fetchColonyProfile,
+  fetchColonyColors,
+  createAlliance,
+  inviteToAlliance,
+  acceptAllianceInvite,
+  leaveAlliance,
+  fetchAlliance,
+  sendMessage,
+  placeBeacon,
+  fetchMessages,
+  markMessagesRead,
+  fetchBeacons,
+  createTradeOffer,
+  acceptTradeOffer,
+  cancelTradeOffer,
+  fetchTradeOffers,
+  fetchTradeHistory,
+  expireTradeOffers,
+  fetchBattleReports,
+  fetchGalaxyRegion,
   addRoadmapItem,
   updateRoadmapItem,
   deleteRoadmapItem,
@@ -0,0 +1,233 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {
+  FetchAllianceLeaderboardResponse,
+  FetchLeaderboardResponse,
+  LeaderboardEntry,
+  LeaderboardWindow
+} from "./types/leaderboard";
+import { Alliance } from "./types/alliance";
+import { functionConfig, gameConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { getWeekStartedAt, LEADERBOARD_COLLECTION, rebuildLeaderboard } from "./utils/leaderboard";
+import { ALLIANCES_COLLECTION, toAllianceSummary } from "./utils/alliances";
+import { getPageLimitRule, PAGE_CURSOR_RULE, RequestSchema, validateRequest } from "./utils/validation";
+import type { FetchAllianceLeaderboardRequest, FetchLeaderboardRequest } from "@shared/requests";
+
+const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['allTime', 'weekly'];
+
+const fetchLeaderboardSchema: RequestSchema<FetchLeaderboardRequest> = {
+  fields: {
+    window: { type: 'enum', values: LEADERBOARD_WINDOWS, optional: true },
+    limit: getPageLimitRule(gameConfig.leaderboard.maxPageSize),
+    startAfter: PAGE_CURSOR_RULE
+  }
+};
+
+const fetchAllianceLeaderboardSchema: RequestSchema<FetchAllianceLeaderboardRequest> = {
+  fields: {
+    limit: getPageLimitRule(gameConfig.leaderboard.maxPageSize),
+    startAfter: PAGE_CURSOR_RULE
+  }
+};
+
+// Field each window is ranked by
+const WINDOW_SCORE_FIELDS: Record<LeaderboardWindow, keyof LeaderboardEntry> = {
+  allTime: 'territoryScore',
+  weekly: 'weeklyGain'
+};
+
+/**
+ * Function to fetch a page of the leaderboard
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the time window and page size
+ * 3. Reads one page of the denormalized leaderboard, ranked by the window's score
+ * 4. Returns the entries and a cursor for the next page
+ *
+ * Only leaderboard entries are read, never colonies, so a page costs one read per entry
+ * plus one for the cursor.
+ */
+export const fetchLeaderboard = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchLeaderboard function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchLeaderboard');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to view the leaderboard');
+    }
+
+    const {
+      window = 'allTime',
+      limit = gameConfig.leaderboard.pageSize,
+      startAfter
+    } = validateRequest(request.data, fetchLeaderboardSchema);
+
+    const leaderboardRef = admin.firestore().collection(LEADERBOARD_COLLECTION);
+    let query = leaderboardRef.orderBy(WINDOW_SCORE_FIELDS[window], 'desc').limit(limit + 1);
+
+    if (startAfter !== undefined) {
+      const cursor = await leaderboardRef.doc(startAfter).get();
+      tracker.trackRead('leaderboardCursor', 1);
+      if (!cursor.exists) {
+        throw new HttpsError('not-found', 'The page cursor no longer exists');
+      }
+      query = query.startAfter(cursor);
+    }
+
+    // One extra entry tells us whether there is another page
+    const snapshot = await query.get();
+    tracker.trackRead('leaderboardPage', snapshot.size);
+
+    const entries = snapshot.docs.slice(0, limit).map(doc => doc.data() as LeaderboardEntry);
+    const nextCursor = snapshot.size > limit ? entries[entries.length - 1].colonyId : null;
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const response: FetchLeaderboardResponse = {
+      success: true,
+      window,
+      entries,
+      nextCursor,
+      weekStartedAt: getWeekStartedAt()
+    };
+    return response;
+  } catch (error) {
+    logger.error("Error fetching leaderboard:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching leaderboard'
+    );
+  }
+});
+
+/**
+ * Function to fetch a page of alliances ranked by their combined territory
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the page size
+ * 3. Reads one page of alliances, ranked by territory score
+ * 4. Returns public summaries of the alliances and a cursor for the next page
+ */
+export const fetchAllianceLeaderboard = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchAllianceLeaderboard function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchAllianceLeaderboard');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to view the leaderboard');
+    }
+
+    const {
+      limit = gameConfig.leaderboard.pageSize,
+      startAfter
+    } = validateRequest(request.data, fetchAllianceLeaderboardSchema);
+
+    const alliancesRef = admin.firestore().collection(ALLIANCES_COLLECTION);
+    let query = alliancesRef.orderBy('territoryScore', 'desc').limit(limit + 1);
+
+    if (startAfter !== undefined) {
+      const cursor = await alliancesRef.doc(startAfter).get();
+      tracker.trackRead('allianceCursor', 1);
+      if (!cursor.exists) {
+        throw new HttpsError('not-found', 'The page cursor no longer exists');
+      }
+      query = query.startAfter(cursor);
+    }
+
+    // One extra alliance tells us whether there is another page
+    const snapshot = await query.get();
+    tracker.trackRead('alliancePage', snapshot.size);
+
+    const entries = snapshot.docs.slice(0, limit).map(doc => toAllianceSummary(doc.data() as Alliance));
+    const nextCursor = snapshot.size > limit ? entries[entries.length - 1].id : null;
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const response: FetchAllianceLeaderboardResponse = { success: true, entries, nextCursor };
+    return response;
+  } catch (error) {
+    logger.error("Error fetching alliance leaderboard:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching alliance leaderboard'
+    );
+  }
+});
+
+/**
+ * Scheduled function that starts a new leaderboard week
+ *
+ * Every Monday at midnight UTC the leaderboard is rebuilt from the colonies, which
+ * zeroes the weekly gains and fills in entries for colonies that don't have one yet.
+ */
+export const resetLeaderboardWeek = onSchedule({
+  schedule: 'every monday 00:00',
+  timeZone: 'UTC',
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.extendedTimeoutSeconds,
+  memory: functionConfig.memory
+}, async () => {
+  // Create a tracker for this run
+  const tracker = new ReadCostTracker('resetLeaderboardWeek');
+
+  try {
+    const written = await rebuildLeaderboard(tracker);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const readSummary = tracker.getSummary();
+    logger.info(
+      `[resetLeaderboardWeek] Rebuilt ${written} leaderboard entries. ` +
+      `Read Summary: ${readSummary.total} total reads`
+    );
+  } catch (error) {
+    logger.error("Error resetting leaderboard week:", error);
+    throw error;
+  }
+});
@@ -0,0 +1,580 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { Colony } from "./types/colony";
+import { Unit } from "./types/units";
+import { Alliance } from "./types/alliance";
+import {
+  Beacon,
+  FetchBeaconsResponse,
+  FetchMessagesResponse,
+  GameMessage,
+  Inbox,
+  MessageChannel
+} from "./types/message";
+import { functionConfig, gameConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { getAllianceRef } from "./utils/alliances";
+import {
+  BEACONS_COLLECTION,
+  createEmptyUnreadCounts,
+  deliverMessage,
+  getInboxRef,
+  MESSAGE_CHANNELS,
+  MESSAGES_COLLECTION
+} from "./utils/messaging";
+import { cubeDistance } from "./utils/noise";
+import { toTileId } from "./utils/tileHelpers";
+import { loadOwnedTileIds } from "./utils/ownership";
+import {
+  checkCubeCoordinates,
+  COORDINATE_FIELDS,
+  getPageLimitRule,
+  ID_RULE,
+  PAGE_CURSOR_RULE,
+  RequestSchema,
+  StringRule,
+  validateRequest
+} from "./utils/validation";
+import type {
+  FetchBeaconsRequest,
+  FetchMessagesRequest,
+  MarkMessagesReadRequest,
+  PlaceBeaconRequest,
+  SendMessageRequest
+} from "@shared/requests";
+
+// Channels players can write to themselves; beacon messages come from placeBeacon
+const SENDABLE_CHANNELS: SendMessageRequest['channel'][] = ['direct', 'alliance'];
+
+// Message bodies are stored trimmed
+const MESSAGE_BODY_RULE: StringRule = {
+  type: 'string',
+  maxLength: gameConfig.messaging.maxMessageLength,
+  trim: true
+};
+
+const sendMessageSchema: RequestSchema<SendMessageRequest> = {
+  fields: {
+    channel: { type: 'enum', values: SENDABLE_CHANNELS },
+    body: MESSAGE_BODY_RULE,
+    recipientUid: { ...ID_RULE, optional: true }
+  },
+  check: ({ channel, recipientUid }) => channel === 'direct' && !recipientUid
+    ? { field: 'recipientUid', message: 'is required for direct messages' }
+    : null
+};
+
+const placeBeaconSchema: RequestSchema<PlaceBeaconRequest> = {
+  fields: { ...COORDINATE_FIELDS, body: MESSAGE_BODY_RULE },
+  check: checkCubeCoordinates
+};
+
+const fetchMessagesSchema: RequestSchema<FetchMessagesRequest> = {
+  fields: {
+    channel: { type: 'enum', values: MESSAGE_CHANNELS, optional: true },
+    limit: getPageLimitRule(gameConfig.messaging.maxPageSize),
+    startAfter: PAGE_CURSOR_RULE
+  }
+};
+
+const markMessagesReadSchema: RequestSchema<MarkMessagesReadRequest> = {
+  fields: { channel: { type: 'enum', values: MESSAGE_CHANNELS } }
+};
+
+const fetchBeaconsSchema: RequestSchema<FetchBeaconsRequest> = {
+  fields: {
+    ...COORDINATE_FIELDS,
+    radius: { type: 'integer', min: 0, max: gameConfig.beacons.maxFetchRadius, optional: true }
+  },
+  check: checkCubeCoordinates
+};
+
+/**
+ * Load a user's colony
+ * @param uid Firebase user ID
+ * @param tracker Read cost tracker for the calling function
+ */
+async function getUserColony(uid: string, tracker: ReadCostTracker): Promise<Colony> {
+  const colonyQuery = await admin.firestore()
+    .collection('colony/v1/colonies')
+    .where('uid', '==', uid)
+    .limit(1)
+    .get();
+  tracker.trackRead('colonyQuery', colonyQuery.size);
+
+  if (colonyQuery.empty) {
+    throw new HttpsError('not-found', 'No colony found for this user');
+  }
+
+  const colonyDoc = colonyQuery.docs[0];
+  return { id: colonyDoc.id, ...colonyDoc.data() } as Colony;
+}
+
+/**
+ * Build a message from a colony to a set of recipients
+ * @param colony The sending colony
+ * @param channel Channel the message is sent on
+ * @param body The message text
+ * @param recipientUids Everyone else who should receive it
+ */
+function createMessage(
+  colony: Colony,
+  channel: MessageChannel,
+  body: string,
+  recipientUids: string[]
+): GameMessage {
+  const others = Array.from(new Set(recipientUids)).filter(recipientUid => recipientUid !== colony.uid);
+
+  return {
+    id: admin.firestore().collection(MESSAGES_COLLECTION).doc().id,
+    channel,
+    senderUid: colony.uid,
+    senderColonyId: colony.id,
+    senderName: colony.name,
+    body,
+    sentAt: Date.now(),
+    recipientUids: [colony.uid, ...others],
+    unreadUids: others,
+    allianceId: null,
+    beaconId: null,
+    position: null
+  };
+}
+
+/**
+ * Function to send a message to another colony or to the user's alliance
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the channel and message
+ * 3. Works out the recipients: the other colony, or every member of the user's alliance
+ * 4. Saves the message, bumps each recipient's unread count and notifies them
+ */
+export const sendMessage = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for sendMessage function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('sendMessage');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to send messages');
+    }
+
+    const { channel, body, recipientUid } = validateRequest(request.data, sendMessageSchema);
+    const colony = await getUserColony(uid, tracker);
+
+    let message: GameMessage;
+    if (channel === 'direct') {
+      // The schema's check only lets direct messages through with a recipient
+      const recipient = recipientUid as string;
+      if (recipient === uid) {
+        throw new HttpsError('invalid-argument', 'You cannot send a message to yourself');
+      }
+
+      // Checks that the recipient has a colony
+      await getUserColony(recipient, tracker);
+
+      message = createMessage(colony, 'direct', body, [recipient]);
+    } else {
+      if (!colony.allianceId) {
+        throw new HttpsError('failed-precondition', 'Join an alliance to use the alliance channel');
+      }
+
+      const allianceSnapshot = await getAllianceRef(colony.allianceId).get();
+      tracker.trackRead('alliance', 1);
+
+      const alliance = allianceSnapshot.data() as Alliance | undefined;
+      if (!alliance) {
+        throw new HttpsError('not-found', 'Your alliance no longer exists');
+      }
+
+      message = { ...createMessage(colony, 'alliance', body, alliance.memberUids), allianceId: alliance.id };
+    }
+
+    await deliverMessage(message, tracker);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return { success: true, sentMessage: message, message: 'Message sent' };
+  } catch (error) {
+    logger.error("Error sending message:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error sending message'
+    );
+  }
+});
+
+/**
+ * Function to place a deep-space beacon that broadcasts a message to nearby colonies
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the tile and message
+ * 3. Verifies the tile is in the user's territory or holds one of their units
+ * 4. Verifies the colony hasn't used up its active beacons
+ * 5. Finds every colony with a unit within range of the tile
+ * 6. Saves the beacon and delivers its message to those colonies
+ *
+ * Only colonies in range when the beacon is placed receive the message; the beacon
+ * itself stays on the map until it expires.
+ */
+export const placeBeacon = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for placeBeacon function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('placeBeacon');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to place beacons');
+    }
+
+    const { q, r, s, body } = validateRequest(request.data, placeBeaconSchema);
+    const colony = await getUserColony(uid, tracker);
+    const position = { q, r, s };
+
+    const hasUnitThere = (colony.units || []).some(unit =>
+      unit.position.q === q && unit.position.r === r && unit.position.s === s
+    );
+    if (!hasUnitThere && !(await loadOwnedTileIds(uid, [position], tracker)).has(toTileId(position))) {
+      throw new HttpsError('failed-precondition', 'Beacons can only be placed in your territory or where you have a unit');
+    }
+
+    const { range, lifetimeMinutes, maxActivePerColony } = gameConfig.beacons;
+    const now = Date.now();
+
+    const activeSnapshot = await admin.firestore()
+      .collection(BEACONS_COLLECTION)
+      .where('ownerUid', '==', uid)
+      .where('expiresAt', '>', now)
+      .get();
+    tracker.trackRead('activeBeacons', activeSnapshot.size);
+
+    if (activeSnapshot.size >= maxActivePerColony) {
+      throw new HttpsError(
+        'resource-exhausted',
+        `You already have ${maxActivePerColony} active beacons. Wait for one to expire.`
+      );
+    }
+
+    // Anyone with a unit in range hears the beacon
+    const coloniesSnapshot = await admin.firestore()
+      .collection('colony/v1/colonies')
+      .select('uid', 'units')
+      .get();
+    tracker.trackRead('colonyScan', coloniesSnapshot.size);
+
+    const recipientUids = coloniesSnapshot.docs
+      .filter(doc => ((doc.get('units') || []) as Unit[]).some(unit =>
+        cubeDistance(unit.position.q, unit.position.r, unit.position.s, q, r, s) <= range
+      ))
+      .map(doc => doc.get('uid') as string);
+
+    const message = createMessage(colony, 'beacon', body, recipientUids);
+    const beacon: Beacon = {
+      id: admin.firestore().collection(BEACONS_COLLECTION).doc().id,
+      ownerUid: uid,
+      colonyId: colony.id,
+      colonyName: colony.name,
+      color: colony.color,
+      position,
+      message: body,
+      range,
+      placedAt: now,
+      expiresAt: now + lifetimeMinutes * 60 * 1000
+    };
+    message.beaconId = beacon.id;
+    message.position = position;
+
+    await deliverMessage(message, tracker, beacon);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return {
+      success: true,
+      beacon,
+      reached: message.unreadUids.length,
+      message: `Beacon placed, heard by ${message.unreadUids.length} other colonies`
+    };
+  } catch (error) {
+    logger.error("Error placing beacon:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error placing beacon'
+    );
+  }
+});
+
+/**
+ * Function to fetch a page of the user's messages
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the channel and page size
+ * 3. Reads one page of messages the user received or sent, newest first
+ * 4. Returns the messages, a cursor for the next page and the user's unread counts
+ */
+export const fetchMessages = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchMessages function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchMessages');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to read messages');
+    }
+
+    const {
+      channel,
+      limit = gameConfig.messaging.pageSize,
+      startAfter
+    } = validateRequest(request.data, fetchMessagesSchema);
+
+    const messagesRef = admin.firestore().collection(MESSAGES_COLLECTION);
+    let query = messagesRef.where('recipientUids', 'array-contains', uid);
+    if (channel !== undefined) {
+      query = query.where('channel', '==', channel);
+    }
+    query = query.orderBy('sentAt', 'desc').limit(limit + 1);
+
+    if (startAfter !== undefined) {
+      const cursor = await messagesRef.doc(startAfter).get();
+      tracker.trackRead('messageCursor', 1);
+      if (!cursor.exists) {
+        throw new HttpsError('not-found', 'The page cursor no longer exists');
+      }
+      query = query.startAfter(cursor);
+    }
+
+    // One extra message tells us whether there is another page
+    const [snapshot, inboxSnapshot] = await Promise.all([query.get(), getInboxRef(uid).get()]);
+    tracker.trackRead('messagePage', snapshot.size);
+    tracker.trackRead('inbox', 1);
+
+    const messages = snapshot.docs.slice(0, limit).map(doc => doc.data() as GameMessage);
+    const nextCursor = snapshot.size > limit ? messages[messages.length - 1].id : null;
+    const inbox = inboxSnapshot.data() as Inbox | undefined;
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const response: FetchMessagesResponse = {
+      success: true,
+      messages,
+      nextCursor,
+      unread: { ...createEmptyUnreadCounts(), ...inbox?.unread }
+    };
+    return response;
+  } catch (error) {
+    logger.error("Error fetching messages:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching messages'
+    );
+  }
+});
+
+/**
+ * Function to mark every unread message on a channel as read
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the channel
+ * 3. Removes the user from the unread list of each unread message on the channel
+ * 4. Lowers the user's unread count to match
+ *
+ * Marks at most maxMarkReadBatch messages per call; the count stays above zero
+ * until the client calls again.
+ */
+export const markMessagesRead = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for markMessagesRead function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('markMessagesRead');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to read messages');
+    }
+
+    const { channel } = validateRequest(request.data, markMessagesReadSchema);
+
+    const { maxMarkReadBatch } = gameConfig.messaging;
+    const unreadSnapshot = await admin.firestore()
+      .collection(MESSAGES_COLLECTION)
+      .where('unreadUids', 'array-contains', uid)
+      .where('channel', '==', channel)
+      .limit(maxMarkReadBatch)
+      .get();
+    tracker.trackRead('unreadMessages', unreadSnapshot.size);
+
+    const batch = admin.firestore().batch();
+    unreadSnapshot.docs.forEach(doc => {
+      batch.update(doc.ref, { unreadUids: admin.firestore.FieldValue.arrayRemove(uid) });
+    });
+
+    // A short page means nothing else is unread, which also repairs any drift in the count
+    const remaining = unreadSnapshot.size < maxMarkReadBatch
+      ? 0
+      : admin.firestore.FieldValue.increment(-unreadSnapshot.size);
+    batch.set(getInboxRef(uid), {
+      uid,
+      unread: { [channel]: remaining },
+      updatedAt: Date.now()
+    }, { merge: true });
+
+    await batch.commit();
+    tracker.trackWrite('markRead', unreadSnapshot.size + 1);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return { success: true, marked: unreadSnapshot.size, message: `Marked ${unreadSnapshot.size} messages read` };
+  } catch (error) {
+    logger.error("Error marking messages read:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error marking messages read'
+    );
+  }
+});
+
+/**
+ * Function to fetch the active beacons around a point
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the center and radius
+ * 3. Reads every beacon that hasn't expired
+ * 4. Returns the ones within the radius
+ *
+ * Beacons are public: anyone can see a beacon on the map, even if they were too far
+ * away to hear it when it was placed.
+ */
+export const fetchBeacons = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchBeacons function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchBeacons');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to view beacons');
+    }
+
+    const { q, r, s, radius = gameConfig.beacons.maxFetchRadius } = validateRequest(request.data, fetchBeaconsSchema);
+
+    const beaconsSnapshot = await admin.firestore()
+      .collection(BEACONS_COLLECTION)
+      .where('expiresAt', '>', Date.now())
+      .get();
+    tracker.trackRead('activeBeacons', beaconsSnapshot.size);
+
+    const beacons = beaconsSnapshot.docs
+      .map(doc => doc.data() as Beacon)
+      .filter(beacon => cubeDistance(beacon.position.q, beacon.position.r, beacon.position.s, q, r, s) <= radius);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const response: FetchBeaconsResponse = { success: true, beacons };
+    return response;
+  } catch (error) {
+    logger.error("Error fetching beacons:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching beacons'
+    );
+  }
+});
@@ -0,0 +1,186 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { Colony, ColonyProfile } from "./types/colony";
+import { functionConfig, gameConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { getHomeSector } from "./utils/tileHelpers";
+import { ID_RULE, RequestSchema, validateRequest } from "./utils/validation";
+import type { FetchColonyColorsRequest, FetchColonyProfileRequest } from "@shared/requests";
+
+// Colony fields that are safe to read for other players; units and tiles are never loaded
+const PROFILE_FIELDS = ['uid', 'name', 'color', 'territoryScore', 'createdAt', 'startCoordinates'];
+
+const fetchColonyProfileSchema: RequestSchema<FetchColonyProfileRequest> = {
+  fields: { uid: ID_RULE }
+};
+
+const fetchColonyColorsSchema: RequestSchema<FetchColonyColorsRequest> = {
+  fields: {
+    uids: { type: 'array', items: ID_RULE, maxItems: gameConfig.profiles.maxColorBatch }
+  }
+};
+
+/**
+ * Convert a stored creation time to milliseconds
+ * @param createdAt Firestore timestamp, date or milliseconds
+ */
+function toMillis(createdAt: unknown): number | null {
+  if (createdAt instanceof admin.firestore.Timestamp) return createdAt.toMillis();
+  if (createdAt instanceof Date) return createdAt.getTime();
+  return typeof createdAt === 'number' ? createdAt : null;
+}
+
+/**
+ * Project a colony document onto its public profile
+ * @param doc The colony document, read with only the profile fields
+ */
+function toColonyProfile(doc: admin.firestore.DocumentSnapshot): ColonyProfile {
+  const colony = doc.data() as Colony;
+  return {
+    id: doc.id,
+    uid: colony.uid,
+    name: colony.name,
+    color: colony.color,
+    territoryScore: colony.territoryScore || 0,
+    foundedAt: toMillis(colony.createdAt),
+    homeSector: getHomeSector(colony.startCoordinates)
+  };
+}
+
+/**
+ * Function to fetch another player's public colony profile
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Reads only the public fields of the colony owned by the given user
+ * 3. Returns the profile with the home location rounded to its sector
+ *
+ * Units and tile IDs are never read, so the profile can't leak fleet positions or borders.
+ */
+export const fetchColonyProfile = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchColonyProfile function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchColonyProfile');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to view colony profiles');
+    }
+
+    const { uid: profileUid } = validateRequest(request.data, fetchColonyProfileSchema);
+
+    const colonyQuery = await admin.firestore().collection('colony/v1/colonies')
+      .where('uid', '==', profileUid)
+      .select(...PROFILE_FIELDS)
+      .limit(1)
+      .get();
+    tracker.trackRead('colonyProfile', colonyQuery.size);
+
+    if (colonyQuery.empty) {
+      throw new HttpsError('not-found', 'No colony found for this user');
+    }
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return {
+      success: true,
+      profile: toColonyProfile(colonyQuery.docs[0])
+    };
+  } catch (error) {
+    logger.error("Error fetching colony profile:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching colony profile'
+    );
+  }
+});
+
+/**
+ * Function to fetch the colors of several colonies at once
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the list of user IDs
+ * 3. Reads only the color of each user's colony in a single query
+ * 4. Returns a map of user ID to color, leaving out users without a colony or color
+ */
+export const fetchColonyColors = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchColonyColors function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchColonyColors');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to fetch colony colors');
+    }
+
+    const { uids } = validateRequest(request.data, fetchColonyColorsSchema);
+    const uniqueUids = [...new Set(uids)];
+
+    const colors: Record<string, string> = {};
+
+    if (uniqueUids.length > 0) {
+      const colonyQuery = await admin.firestore().collection('colony/v1/colonies')
+        .where('uid', 'in', uniqueUids)
+        .select('uid', 'color')
+        .get();
+      tracker.trackRead('colonyColors', colonyQuery.size);
+
+      colonyQuery.docs.forEach(doc => {
+        const { uid: colonyUid, color } = doc.data();
+        if (typeof color === 'string') {
+          colors[colonyUid] = color;
+        }
+      });
+    }
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return { success: true, colors };
+  } catch (error) {
+    logger.error("Error fetching colony colors:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching colony colors'
+    );
+  }
+});
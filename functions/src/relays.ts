@@ -0,0 +1,118 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { Colony, ConstructionOrder } from "./types/colony";
+import { UnitType } from "./types/units";
+import { Coordinates } from "./types/base";
+import { functionConfig, gameConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { getRelaySiteError, queueConstruction } from "./utils/construction";
+import { loadOwnedTileIds } from "./utils/ownership";
+import { checkCubeCoordinates, COORDINATE_FIELDS, RequestSchema, validateRequest } from "./utils/validation";
+import type { BuildRelayRequest } from "@shared/requests";
+
+const buildRelaySchema: RequestSchema<BuildRelayRequest> = {
+  fields: COORDINATE_FIELDS,
+  check: checkCubeCoordinates
+};
+
+/**
+ * Function to start building a relay station
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Verifies the site is inside their territory and free of other structures
+ * 3. Spends the relay cost from the colony stockpile
+ * 4. Adds a build order to the colony's construction queue
+ *
+ * The finished relay links to every other active relay of the colony within range,
+ * letting ships relay jump anywhere along the network.
+ */
+export const buildRelay = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for buildRelay function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('buildRelay');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to build a relay');
+    }
+
+    // Extract the site from request data
+    const { q, r, s } = validateRequest(request.data, buildRelaySchema);
+
+    const position: Coordinates = { q, r, s };
+    const { cost, buildMinutes } = gameConfig.relays;
+    const coloniesRef = admin.firestore().collection('colony/v1/colonies');
+    const territory = await loadOwnedTileIds(uid, [position], tracker);
+
+    // Read and update the colony in a transaction so resources can't be spent twice
+    const result = await admin.firestore().runTransaction(async (transaction) => {
+      const colonyQuery = await transaction.get(coloniesRef.where('uid', '==', uid).limit(1));
+      tracker.trackRead('colonyQuery', colonyQuery.size);
+
+      if (colonyQuery.empty) {
+        throw new HttpsError('not-found', 'No colony found for this user');
+      }
+
+      const colonyDoc = colonyQuery.docs[0];
+      const colony = { id: colonyDoc.id, ...colonyDoc.data() } as Colony;
+
+      const siteError = getRelaySiteError(position, colony, territory);
+      if (siteError) {
+        throw new HttpsError('failed-precondition', siteError);
+      }
+
+      const now = Date.now();
+      const order: ConstructionOrder = {
+        id: coloniesRef.doc().id,
+        kind: 'build',
+        unitType: UnitType.RELAY,
+        unitId: `${colonyDoc.id}-${UnitType.RELAY}-${coloniesRef.doc().id}`,
+        position,
+        targetLevel: 1,
+        cost,
+        startedAt: now,
+        completesAt: now + buildMinutes * 60000
+      };
+
+      queueConstruction(transaction, colonyDoc.ref, colony, order);
+      tracker.trackWrite('colonyUpdate', 1);
+
+      return order;
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return {
+      success: true,
+      order: result,
+      message: `Relay construction started, ready in ${buildMinutes} minutes`
+    };
+  } catch (error) {
+    logger.error("Error building relay:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error building relay'
+    );
+  }
+});
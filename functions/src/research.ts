@@ -0,0 +1,163 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { Colony } from "./types/colony";
+import { FetchTechTreeResponse } from "./types/tech";
+import { functionConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { getResearchState, verifyResearchTarget } from "./utils/research";
+import { getTechDefinition, getTechEffects, TECH_TREE } from "./definitions/techTree";
+import { ID_RULE, RequestSchema, validateRequest } from "./utils/validation";
+import type { SetResearchTargetRequest } from "@shared/requests";
+
+const setResearchTargetSchema: RequestSchema<SetResearchTargetRequest> = {
+  fields: { techId: ID_RULE }
+};
+
+/**
+ * Function to fetch the tech tree along with the user's research progress
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Loads the user's colony
+ * 3. Returns every tech definition, the colony's research state and the effects it has unlocked
+ */
+export const fetchTechTree = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchTechTree function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchTechTree');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to view the tech tree');
+    }
+
+    const colonyQuery = await admin.firestore()
+      .collection('colony/v1/colonies')
+      .where('uid', '==', uid)
+      .limit(1)
+      .get();
+    tracker.trackRead('colonyQuery', colonyQuery.size);
+
+    if (colonyQuery.empty) {
+      throw new HttpsError('not-found', 'No colony found for this user');
+    }
+
+    const colony = colonyQuery.docs[0].data() as Colony;
+    const research = getResearchState(colony);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const response: FetchTechTreeResponse = {
+      success: true,
+      techs: TECH_TREE,
+      research,
+      effects: getTechEffects(research.completedTechs),
+      researchRate: colony.researchRate || 0
+    };
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching tech tree:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching tech tree'
+    );
+  }
+});
+
+/**
+ * Function to choose the tech a colony's research sites work towards
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Verifies the tech exists, isn't already researched and has its prerequisites met
+ * 3. Sets it as the colony's active research; progress on other techs is kept
+ */
+export const setResearchTarget = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for setResearchTarget function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('setResearchTarget');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to choose research');
+    }
+
+    const { techId } = validateRequest(request.data, setResearchTargetSchema);
+
+    const coloniesRef = admin.firestore().collection('colony/v1/colonies');
+
+    // Read and update the colony in a transaction so a tick completing a tech isn't missed
+    const research = await admin.firestore().runTransaction(async (transaction) => {
+      const colonyQuery = await transaction.get(coloniesRef.where('uid', '==', uid).limit(1));
+      tracker.trackRead('colonyQuery', colonyQuery.size);
+
+      if (colonyQuery.empty) {
+        throw new HttpsError('not-found', 'No colony found for this user');
+      }
+
+      const colonyDoc = colonyQuery.docs[0];
+      const currentResearch = getResearchState(colonyDoc.data() as Colony);
+      verifyResearchTarget(currentResearch, techId);
+
+      const updatedResearch = { ...currentResearch, activeTechId: techId };
+      transaction.update(colonyDoc.ref, { research: updatedResearch });
+      tracker.trackWrite('colonyUpdate', 1);
+
+      return updatedResearch;
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return {
+      success: true,
+      research,
+      message: `Now researching ${getTechDefinition(techId)?.name}`
+    };
+  } catch (error) {
+    logger.error("Error setting research target:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error setting research target'
+    );
+  }
+});
@@ -2,6 +2,14 @@ import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https
 import * as logger from "firebase-functions/logger";
 import * as admin from "firebase-admin";
 import { FieldValue } from "firebase-admin/firestore";
+import { gameConfig } from "./config";
+import { ID_RULE, NumberRule, RequestSchema, StringRule, validateRequest } from "./utils/validation";
+import type {
+  DeleteRoadmapItemRequest,
+  RoadmapItemRequest,
+  RoadmapStatus,
+  UpdateRoadmapItemRequest
+} from "@shared/requests";
 
 // Constants
 const COLLECTION = 'roadmapItems';
@@ -31,42 +39,51 @@ const verifyAdmin = (request: CallableRequest) => {
   return true;
 };
 
-interface RoadmapItemData {
-  title: string;
-  description: string;
-  status: 'development' | 'upcoming' | 'vision';
-  progress?: number | null;
-  expectedDate?: string | null;
-}
+const ROADMAP_STATUSES: RoadmapStatus[] = ['development', 'upcoming', 'vision'];
 
-interface UpdateRoadmapItemData extends Partial<RoadmapItemData> {
-  id: string;
-}
+const TITLE_RULE: StringRule = { type: 'string', maxLength: gameConfig.roadmap.maxTitleLength, trim: true };
+const DESCRIPTION_RULE: StringRule = { type: 'string', maxLength: gameConfig.roadmap.maxDescriptionLength, trim: true };
+const PROGRESS_RULE: NumberRule = { type: 'integer', min: 0, max: 100 };
+const EXPECTED_DATE_RULE: StringRule = { type: 'string', minLength: 0, maxLength: 32 };
 
-interface DeleteRoadmapItemData {
-  id: string;
-}
+const addRoadmapItemSchema: RequestSchema<RoadmapItemRequest> = {
+  fields: {
+    title: TITLE_RULE,
+    description: DESCRIPTION_RULE,
+    status: { type: 'enum', values: ROADMAP_STATUSES },
+    progress: { ...PROGRESS_RULE, optional: true, nullable: true },
+    expectedDate: { ...EXPECTED_DATE_RULE, optional: true, nullable: true }
+  }
+};
+
+// Only the fields sent are changed
+const updateRoadmapItemSchema: RequestSchema<UpdateRoadmapItemRequest> = {
+  fields: {
+    id: ID_RULE,
+    title: { ...TITLE_RULE, optional: true },
+    description: { ...DESCRIPTION_RULE, optional: true },
+    status: { type: 'enum', values: ROADMAP_STATUSES, optional: true },
+    progress: { ...PROGRESS_RULE, optional: true, nullable: true },
+    expectedDate: { ...EXPECTED_DATE_RULE, optional: true, nullable: true }
+  }
+};
+
+const deleteRoadmapItemSchema: RequestSchema<DeleteRoadmapItemRequest> = {
+  fields: { id: ID_RULE }
+};
 
 /**
  * Add a new roadmap item
  * Requires admin privileges
  */
-export const addRoadmapItem = onCall<RoadmapItemData>({ maxInstances: 10 }, async (request) => {
+export const addRoadmapItem = onCall({ maxInstances: 10 }, async (request) => {
   // Verify admin privileges
   verifyAdmin(request);
   
-  const data = request.data;
+  const data = validateRequest(request.data, addRoadmapItemSchema);
   logger.info('Adding roadmap item', data);
 
   try {
-    // Validate input data
-    if (!data.title || !data.description || !data.status) {
-      throw new HttpsError(
-        'invalid-argument',
-        'Missing required fields: title, description, status'
-      );
-    }
-
     // Prepare item data
     const itemData = {
       title: data.title,
@@ -100,22 +117,14 @@ export const addRoadmapItem = onCall<RoadmapItemData>({ maxInstances: 10 }, asyn
  * Update an existing roadmap item
  * Requires admin privileges
  */
-export const updateRoadmapItem = onCall<UpdateRoadmapItemData>({ maxInstances: 10 }, async (request) => {
+export const updateRoadmapItem = onCall({ maxInstances: 10 }, async (request) => {
   // Verify admin privileges
   verifyAdmin(request);
   
-  const data = request.data;
+  const data = validateRequest(request.data, updateRoadmapItemSchema);
   logger.info('Updating roadmap item', data);
 
   try {
-    // Validate input data
-    if (!data.id) {
-      throw new HttpsError(
-        'invalid-argument',
-        'Missing required field: id'
-      );
-    }
-
     const { id, ...updates } = data;
     
     // Prepare update data
@@ -154,22 +163,14 @@ export const updateRoadmapItem = onCall<UpdateRoadmapItemData>({ maxInstances: 1
  * Delete a roadmap item
  * Requires admin privileges
  */
-export const deleteRoadmapItem = onCall<DeleteRoadmapItemData>({ maxInstances: 10 }, async (request) => {
+export const deleteRoadmapItem = onCall({ maxInstances: 10 }, async (request) => {
   // Verify admin privileges
   verifyAdmin(request);
   
-  const data = request.data;
+  const data = validateRequest(request.data, deleteRoadmapItemSchema);
   logger.info('Deleting roadmap item', data);
 
   try {
-    // Validate input data
-    if (!data.id) {
-      throw new HttpsError(
-        'invalid-argument',
-        'Missing required field: id'
-      );
-    }
-
     const { id } = data;
     
     // Delete from Firestore
@@ -1,30 +1,44 @@
-import { onCall } from "firebase-functions/v2/https";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
 import * as logger from "firebase-functions/logger";
 import * as admin from "firebase-admin";
+import { gameConfig } from "./config";
+import { ID_RULE, RequestSchema, validateRequest } from "./utils/validation";
+import type { SupportCategory, SupportSubmissionRequest } from "@shared/requests";
 
-interface SupportSubmission {
-  category: 'idea' | 'problem' | 'other';
-  title: string;
-  description: string;
-  userId: string;
-  userEmail: string;
+interface SupportSubmission extends SupportSubmissionRequest {
   createdAt: number;
   status: 'new' | 'in-review' | 'completed';
 }
 
-export const submitSupportRequest = onCall<Omit<SupportSubmission, 'createdAt' | 'status'>>(async (request) => {
+const SUPPORT_CATEGORIES: SupportCategory[] = ['idea', 'problem', 'other'];
+
+const { maxTitleLength, maxDescriptionLength, maxEmailLength } = gameConfig.support;
+
+const submitSupportRequestSchema: RequestSchema<SupportSubmissionRequest> = {
+  fields: {
+    category: { type: 'enum', values: SUPPORT_CATEGORIES },
+    title: { type: 'string', maxLength: maxTitleLength, trim: true },
+    description: { type: 'string', maxLength: maxDescriptionLength, trim: true },
+    userId: ID_RULE,
+    // Users signed in without an email send an empty one
+    userEmail: { type: 'string', minLength: 0, maxLength: maxEmailLength }
+  }
+};
+
+export const submitSupportRequest = onCall(async (request) => {
   try {
     // Ensure user is authenticated
     if (!request.auth) {
-      throw new Error('Unauthorized');
+      throw new HttpsError('unauthenticated', 'User must be signed in to submit a support request');
     }
 
-    const { category, title, description, userId, userEmail } = request.data;
-
-    // Validate required fields
-    if (!category || !title || !description) {
-      throw new Error('Missing required fields');
-    }
+    const {
+      category,
+      title,
+      description,
+      userId,
+      userEmail
+    } = validateRequest(request.data, submitSupportRequestSchema);
 
     // Create the submission document
     const submission: SupportSubmission = {
@@ -52,6 +66,12 @@ export const submitSupportRequest = onCall<Omit<SupportSubmission, 'createdAt' |
 
   } catch (error) {
     logger.error('Error submitting support request:', error);
-    throw new Error(error instanceof Error ? error.message : 'Unknown error occurred');
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    throw new HttpsError('internal', 'Failed to submit support request');
   }
 }); 
\ No newline at end of file
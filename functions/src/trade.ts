@@ -0,0 +1,601 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { Colony } from "./types/colony";
+import {
+  FetchTradeHistoryResponse,
+  FetchTradeOffersResponse,
+  TradeHistoryEntry,
+  TradeOffer
+} from "./types/trade";
+import { functionConfig, gameConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { createStockpileUpdates, getMissingResourcesError } from "./utils/construction";
+import {
+  closeUnfilledOffer,
+  createTradeHistoryEntry,
+  expireStaleOffers,
+  getNetResources,
+  getTradeHistoryRef,
+  getTradeOfferRef,
+  RESOURCE_BUNDLE_RULE,
+  RESOURCE_TYPE_RULE,
+  TRADES_COLLECTION
+} from "./utils/trade";
+import { getPageLimitRule, ID_RULE, PAGE_CURSOR_RULE, RequestSchema, validateRequest } from "./utils/validation";
+import type {
+  CreateTradeOfferRequest,
+  FetchTradeHistoryRequest,
+  FetchTradeOffersRequest,
+  TradeOfferActionRequest
+} from "@shared/requests";
+
+const createTradeOfferSchema: RequestSchema<CreateTradeOfferRequest> = {
+  fields: {
+    offered: RESOURCE_BUNDLE_RULE,
+    requested: RESOURCE_BUNDLE_RULE,
+    lifetimeHours: {
+      type: 'number',
+      min: 0,
+      exclusiveMin: true,
+      max: gameConfig.trade.maxLifetimeHours,
+      optional: true
+    }
+  }
+};
+
+const tradeOfferActionSchema: RequestSchema<TradeOfferActionRequest> = {
+  fields: { offerId: ID_RULE }
+};
+
+const fetchTradeOffersSchema: RequestSchema<FetchTradeOffersRequest> = {
+  fields: {
+    resourceType: { ...RESOURCE_TYPE_RULE, optional: true },
+    mine: { type: 'boolean', optional: true },
+    limit: getPageLimitRule(gameConfig.trade.maxPageSize),
+    startAfter: PAGE_CURSOR_RULE
+  }
+};
+
+const fetchTradeHistorySchema: RequestSchema<FetchTradeHistoryRequest> = {
+  fields: {
+    limit: getPageLimitRule(gameConfig.trade.maxPageSize),
+    startAfter: PAGE_CURSOR_RULE
+  }
+};
+
+/**
+ * Read a user's colony inside a transaction
+ * @param transaction The transaction
+ * @param uid Firebase user ID
+ * @param tracker Read cost tracker for the calling function
+ * @returns The colony and its document reference
+ */
+async function getColonyInTransaction(
+  transaction: admin.firestore.Transaction,
+  uid: string,
+  tracker: ReadCostTracker
+): Promise<{ colony: Colony; ref: admin.firestore.DocumentReference }> {
+  const colonyQuery = await transaction.get(
+    admin.firestore().collection('colony/v1/colonies').where('uid', '==', uid).limit(1)
+  );
+  tracker.trackRead('colonyQuery', colonyQuery.size);
+
+  if (colonyQuery.empty) {
+    throw new HttpsError('not-found', 'No colony found for this user');
+  }
+
+  const colonyDoc = colonyQuery.docs[0];
+  return { colony: { id: colonyDoc.id, ...colonyDoc.data() } as Colony, ref: colonyDoc.ref };
+}
+
+/**
+ * Read an offer inside a transaction, checking it is still open
+ * @param transaction The transaction
+ * @param offerId ID of the offer
+ * @param tracker Read cost tracker for the calling function
+ */
+async function getOpenOfferInTransaction(
+  transaction: admin.firestore.Transaction,
+  offerId: string,
+  tracker: ReadCostTracker
+): Promise<TradeOffer> {
+  const offerSnapshot = await transaction.get(getTradeOfferRef(offerId));
+  tracker.trackRead('offer', 1);
+
+  const offer = offerSnapshot.data() as TradeOffer | undefined;
+  if (!offer) {
+    throw new HttpsError('not-found', 'Trade offer not found');
+  }
+
+  if (offer.status !== 'open') {
+    throw new HttpsError('failed-precondition', `This offer has already been ${offer.status}`);
+  }
+
+  return offer;
+}
+
+/**
+ * Function to put resources up for trade
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the offered and requested resources and the offer's lifetime
+ * 3. Verifies the colony has room for another open offer and can pay what it offers
+ * 4. Moves the offered resources out of the stockpile into escrow and opens the offer
+ *
+ * Escrow and the stockpile change in one transaction, so the same resources can't be
+ * offered twice or spent on construction while the offer is open.
+ */
+export const createTradeOffer = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for createTradeOffer function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('createTradeOffer');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to trade');
+    }
+
+    const { defaultLifetimeHours, maxOpenOffers } = gameConfig.trade;
+    const {
+      offered,
+      requested,
+      lifetimeHours = defaultLifetimeHours
+    } = validateRequest(request.data, createTradeOfferSchema);
+
+    const offerRef = admin.firestore().collection(TRADES_COLLECTION).doc();
+
+    const offer = await admin.firestore().runTransaction(async (transaction) => {
+      const { colony, ref } = await getColonyInTransaction(transaction, uid, tracker);
+
+      const openOffers = await transaction.get(
+        admin.firestore().collection(TRADES_COLLECTION)
+          .where('creatorUid', '==', uid)
+          .where('status', '==', 'open')
+      );
+      tracker.trackRead('openOffers', openOffers.size);
+
+      if (openOffers.size >= maxOpenOffers) {
+        throw new HttpsError(
+          'resource-exhausted',
+          `You can only have ${maxOpenOffers} open offers. Cancel one or wait for it to close.`
+        );
+      }
+
+      const missingResources = getMissingResourcesError(colony.stockpile, offered);
+      if (missingResources) {
+        throw new HttpsError('failed-precondition', missingResources);
+      }
+
+      const now = Date.now();
+      const newOffer: TradeOffer = {
+        id: offerRef.id,
+        creatorUid: uid,
+        creatorColonyId: colony.id,
+        creatorName: colony.name,
+        offered,
+        requested,
+        resourceTypes: Array.from(new Set([...Object.keys(offered), ...Object.keys(requested)])),
+        status: 'open',
+        createdAt: now,
+        expiresAt: now + lifetimeHours * 60 * 60 * 1000,
+        closedAt: null,
+        acceptorUid: null,
+        acceptorColonyId: null,
+        acceptorName: null
+      };
+
+      transaction.update(ref, createStockpileUpdates(offered, -1));
+      transaction.set(offerRef, newOffer);
+      tracker.trackWrite('offerCreate', 2);
+
+      return newOffer;
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return { success: true, offer, message: 'Offer posted to the marketplace' };
+  } catch (error) {
+    logger.error("Error creating trade offer:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error creating trade offer'
+    );
+  }
+});
+
+/**
+ * Function to accept another colony's trade offer
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Verifies the offer is still open, hasn't expired and isn't the user's own
+ * 3. Verifies the user's colony can pay what the offer requests
+ * 4. Swaps the resources: the escrow goes to the user, the payment to the creator
+ * 5. Closes the offer and records it in both colonies' trade history
+ */
+export const acceptTradeOffer = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for acceptTradeOffer function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('acceptTradeOffer');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to trade');
+    }
+
+    const { offerId } = validateRequest(request.data, tradeOfferActionSchema);
+
+    const offer = await admin.firestore().runTransaction(async (transaction) => {
+      const openOffer = await getOpenOfferInTransaction(transaction, offerId, tracker);
+      const now = Date.now();
+
+      if (openOffer.expiresAt <= now) {
+        throw new HttpsError('failed-precondition', 'This offer has expired');
+      }
+
+      if (openOffer.creatorUid === uid) {
+        throw new HttpsError('invalid-argument', 'You cannot accept your own offer');
+      }
+
+      const { colony, ref } = await getColonyInTransaction(transaction, uid, tracker);
+
+      const creatorRef = admin.firestore().doc(`colony/v1/colonies/${openOffer.creatorColonyId}`);
+      const creatorSnapshot = await transaction.get(creatorRef);
+      tracker.trackRead('creatorColony', 1);
+      if (!creatorSnapshot.exists) {
+        throw new HttpsError('not-found', 'The colony that made this offer no longer exists');
+      }
+
+      const missingResources = getMissingResourcesError(colony.stockpile, openOffer.requested);
+      if (missingResources) {
+        throw new HttpsError('failed-precondition', missingResources);
+      }
+
+      const accepted: TradeOffer = {
+        ...openOffer,
+        status: 'accepted',
+        closedAt: now,
+        acceptorUid: uid,
+        acceptorColonyId: colony.id,
+        acceptorName: colony.name
+      };
+
+      // The creator's side already left their stockpile when the offer was made
+      transaction.update(ref, createStockpileUpdates(getNetResources(openOffer.offered, openOffer.requested), 1));
+      transaction.update(creatorRef, createStockpileUpdates(openOffer.requested, 1));
+      transaction.update(getTradeOfferRef(offerId), {
+        status: accepted.status,
+        closedAt: accepted.closedAt,
+        acceptorUid: accepted.acceptorUid,
+        acceptorColonyId: accepted.acceptorColonyId,
+        acceptorName: accepted.acceptorName
+      });
+      transaction.set(getTradeHistoryRef(openOffer.creatorColonyId, offerId), createTradeHistoryEntry(accepted, 'creator'));
+      transaction.set(getTradeHistoryRef(colony.id, offerId), createTradeHistoryEntry(accepted, 'acceptor'));
+      tracker.trackWrite('offerAccept', 5);
+
+      return accepted;
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return { success: true, offer, message: `Traded with ${offer.creatorName}` };
+  } catch (error) {
+    logger.error("Error accepting trade offer:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error accepting trade offer'
+    );
+  }
+});
+
+/**
+ * Function to withdraw one of the user's open offers
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Verifies the offer is the user's own and still open
+ * 3. Returns the escrowed resources to the stockpile and closes the offer
+ */
+export const cancelTradeOffer = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for cancelTradeOffer function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('cancelTradeOffer');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to trade');
+    }
+
+    const { offerId } = validateRequest(request.data, tradeOfferActionSchema);
+
+    const offer = await admin.firestore().runTransaction(async (transaction) => {
+      const openOffer = await getOpenOfferInTransaction(transaction, offerId, tracker);
+
+      if (openOffer.creatorUid !== uid) {
+        throw new HttpsError('permission-denied', 'You can only cancel your own offers');
+      }
+
+      const cancelled = closeUnfilledOffer(transaction, openOffer, 'cancelled', Date.now());
+      tracker.trackWrite('offerCancel', 3);
+
+      return cancelled;
+    });
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    return { success: true, offer, message: 'Offer cancelled and resources returned' };
+  } catch (error) {
+    logger.error("Error cancelling trade offer:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error cancelling trade offer'
+    );
+  }
+});
+
+/**
+ * Function to fetch a page of open offers from the marketplace
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the filters and page size
+ * 3. Reads one page of open offers, newest first
+ * 4. Returns the offers and a cursor for the next page
+ *
+ * Offers past their expiry time that the scheduler hasn't closed yet are left out,
+ * so a page can come back a little short.
+ */
+export const fetchTradeOffers = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchTradeOffers function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchTradeOffers');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to view the marketplace');
+    }
+
+    const {
+      resourceType,
+      mine,
+      limit = gameConfig.trade.pageSize,
+      startAfter
+    } = validateRequest(request.data, fetchTradeOffersSchema);
+
+    const tradesRef = admin.firestore().collection(TRADES_COLLECTION);
+    let query = tradesRef.where('status', '==', 'open');
+    if (mine === true) {
+      query = query.where('creatorUid', '==', uid);
+    }
+    if (resourceType !== undefined) {
+      query = query.where('resourceTypes', 'array-contains', resourceType);
+    }
+    query = query.orderBy('createdAt', 'desc').limit(limit + 1);
+
+    if (startAfter !== undefined) {
+      const cursor = await tradesRef.doc(startAfter).get();
+      tracker.trackRead('offerCursor', 1);
+      if (!cursor.exists) {
+        throw new HttpsError('not-found', 'The page cursor no longer exists');
+      }
+      query = query.startAfter(cursor);
+    }
+
+    // One extra offer tells us whether there is another page
+    const snapshot = await query.get();
+    tracker.trackRead('offerPage', snapshot.size);
+
+    const page = snapshot.docs.slice(0, limit).map(doc => doc.data() as TradeOffer);
+    const nextCursor = snapshot.size > limit ? page[page.length - 1].id : null;
+    const now = Date.now();
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const response: FetchTradeOffersResponse = {
+      success: true,
+      offers: page.filter(offer => offer.expiresAt > now),
+      nextCursor
+    };
+    return response;
+  } catch (error) {
+    logger.error("Error fetching trade offers:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching trade offers'
+    );
+  }
+});
+
+/**
+ * Function to fetch a page of the user's colony's trade history
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Validates the page size
+ * 3. Reads one page of the colony's closed offers, most recently closed first
+ * 4. Returns the entries and a cursor for the next page
+ */
+export const fetchTradeHistory = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for fetchTradeHistory function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('fetchTradeHistory');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to view trade history');
+    }
+
+    const { limit = gameConfig.trade.pageSize, startAfter } = validateRequest(request.data, fetchTradeHistorySchema);
+
+    const colonyQuery = await admin.firestore()
+      .collection('colony/v1/colonies')
+      .where('uid', '==', uid)
+      .limit(1)
+      .select()
+      .get();
+    tracker.trackRead('colonyQuery', colonyQuery.size);
+
+    if (colonyQuery.empty) {
+      throw new HttpsError('not-found', 'No colony found for this user');
+    }
+
+    const historyRef = colonyQuery.docs[0].ref.collection('tradeHistory');
+    let query = historyRef.orderBy('closedAt', 'desc').limit(limit + 1);
+
+    if (startAfter !== undefined) {
+      const cursor = await historyRef.doc(startAfter).get();
+      tracker.trackRead('historyCursor', 1);
+      if (!cursor.exists) {
+        throw new HttpsError('not-found', 'The page cursor no longer exists');
+      }
+      query = query.startAfter(cursor);
+    }
+
+    // One extra entry tells us whether there is another page
+    const snapshot = await query.get();
+    tracker.trackRead('historyPage', snapshot.size);
+
+    const entries = snapshot.docs.slice(0, limit).map(doc => doc.data() as TradeHistoryEntry);
+    const nextCursor = snapshot.size > limit ? entries[entries.length - 1].offerId : null;
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const response: FetchTradeHistoryResponse = { success: true, entries, nextCursor };
+    return response;
+  } catch (error) {
+    logger.error("Error fetching trade history:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error fetching trade history'
+    );
+  }
+});
+
+/**
+ * Scheduled function that closes offers nobody accepted in time
+ *
+ * Every run, open offers past their expiry time are closed and their escrow is
+ * returned to the colony that made them. Runs locally through the emulator's
+ * pubsub scheduler.
+ */
+export const expireTradeOffers = onSchedule({
+  schedule: `every ${gameConfig.trade.expiryIntervalMinutes} minutes`,
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.extendedTimeoutSeconds,
+  memory: functionConfig.memory
+}, async () => {
+  // Create a tracker for this run
+  const tracker = new ReadCostTracker('expireTradeOffers');
+
+  try {
+    const expired = await expireStaleOffers(tracker);
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    const readSummary = tracker.getSummary();
+    logger.info(`[expireTradeOffers] Expired ${expired} offers. Read Summary: ${readSummary.total} total reads`);
+  } catch (error) {
+    logger.error("Error expiring trade offers:", error);
+    throw error;
+  }
+});
@@ -0,0 +1,41 @@
+/**
+ * Alliance type definitions for Hexaverse
+ */
+
+// A colony that belongs to an alliance
+export interface AllianceMember {
+  uid: string;
+  colonyId: string;
+  name: string;      // Colony name when it joined
+  joinedAt: number;
+}
+
+// Alliance document stored at colony/v1/alliances/{allianceId}
+export interface Alliance {
+  id: string;
+  name: string;
+  color: string;
+  founderUid: string;          // Passes to the longest-standing member if the founder leaves
+  members: AllianceMember[];
+  memberUids: string[];        // Kept alongside members for querying
+  invitedUids: string[];       // Players invited but not yet joined
+  sharedVisibility: boolean;   // Members see everything the other members see
+  territoryScore: number;      // Combined territory of every member
+  createdAt: number;
+}
+
+// What other players can see of an alliance, for invites and the leaderboard
+export interface AllianceSummary {
+  id: string;
+  name: string;
+  color: string;
+  memberCount: number;
+  territoryScore: number;
+}
+
+// Fetch alliance response type
+export interface FetchAllianceResponse {
+  success: boolean;
+  alliance: Alliance | null;      // The user's alliance, if they are in one
+  invites: AllianceSummary[];     // Alliances the user has been invited to
+}
@@ -0,0 +1,56 @@
+/**
+ * Anomaly event type definitions for Hexaverse
+ */
+import { Coordinates } from './base';
+import { Unit } from './units';
+
+// What an anomaly event does to the colony that found it
+export type AnomalyEffect =
+  | { kind: 'resource_cache'; resourceType: string; minAmount: number; maxAmount: number }
+  | { kind: 'derelict_ship'; level: number }
+  | { kind: 'hazard'; damage: number }  // Levels knocked off the exploring ship; a ship at level 0 is lost
+  | { kind: 'map_reveal'; radius: number; durationMinutes: number };
+
+export type AnomalyEffectKind = AnomalyEffect['kind'];
+
+// One entry in the anomaly event table
+export interface AnomalyEventDefinition {
+  id: string;
+  name: string;
+  description: string;
+  weight: number;  // Relative chance of being drawn
+  effect: AnomalyEffect;
+}
+
+// A patch of the map a colony can see for a while, whatever its units can scan
+export interface RevealedArea {
+  position: Coordinates;
+  radius: number;
+  expiresAt: number;
+}
+
+// What an anomaly event actually did once its rolls were made
+export interface AnomalyOutcome {
+  resources: Record<string, number>;  // Added to the stockpile
+  unitsGained: Unit[];
+  damagedUnitId: string | null;
+  levelsLost: number;
+  unitDestroyed: boolean;
+  revealedArea: RevealedArea | null;
+}
+
+// Record of an explored anomaly, stored in colony/v1/anomalies keyed by tile ID
+export interface AnomalyEvent {
+  id: string;           // The anomaly's tile ID; each anomaly triggers once
+  position: Coordinates;
+  eventId: string;      // ID of the event drawn from the table
+  name: string;
+  description: string;
+  kind: AnomalyEffectKind;
+  seed: number;         // Seed for the event's RNG so it can be replayed
+  uid: string;          // Player whose unit explored the anomaly
+  colonyId: string;
+  unitId: string;
+  occurredAt: number;
+  outcome: AnomalyOutcome;
+}
@@ -6,4 +6,11 @@ export interface Tile {
   controllerUid: string;
   color: string;
   updatedAt: string;
-} 
\ No newline at end of file
+}
+
+// Cube coordinates for a position on the hex grid
+export interface Coordinates {
+  q: number;
+  r: number;
+  s: number;
+}
@@ -0,0 +1,40 @@
+/**
+ * Combat type definitions for Hexaverse
+ */
+import { Coordinates } from './base';
+import { TileType } from '../utils/noise';
+
+// What happened to a ship in a battle
+export type ShipOutcome = 'survived' | 'retreated' | 'destroyed';
+
+// One colony's side of a battle
+export interface BattleSide {
+  uid: string;
+  colonyId: string;
+  ships: { id: string; level: number }[];
+  strength: number;  // Combined ship levels, including any terrain modifier
+  roll: number;      // Strength after the random swing; the highest roll wins
+}
+
+// The result for a single ship
+export interface BattleShipResult {
+  unitId: string;
+  ownerUid: string;
+  outcome: ShipOutcome;
+  retreatedTo?: Coordinates;
+}
+
+// Battle report stored in colony/v1/battles
+export interface BattleReport {
+  id: string;
+  position: Coordinates;
+  tileType: TileType;
+  occurredAt: number;
+  seed: number;              // Seed for the battle's RNG so it can be replayed
+  attackerUid: string;       // Player whose unit started the engagement
+  participantUids: string[]; // Every player involved, for querying reports
+  sides: BattleSide[];
+  winnerUid: string;
+  winnerUids?: string[];     // The winner and its allies; missing on reports from before alliances
+  results: BattleShipResult[];
+}
@@ -0,0 +1,32 @@
+/**
+ * Tile chunk type definitions for Hexaverse
+ */
+import { ColonyTile } from "./colony";
+
+// A tile as stored inside its chunk; the key already gives its position, so the coordinates are dropped
+export type ChunkTile = Omit<ColonyTile, 'id' | 'q' | 'r' | 's'>;
+
+// A fixed block of axial coordinates, stored at colony/v1/chunks/{chunkId}
+// Holds a copy of every persisted tile in the block; the tile documents stay the source of truth
+export interface TileChunk {
+  id: string;      // `${chunkQ}#${chunkR}`
+  chunkQ: number;  // floor(q / chunk size)
+  chunkR: number;  // floor(r / chunk size)
+  tiles: Record<string, ChunkTile>;  // Keyed by tile ID
+}
+
+// One chunk as a player sees it, with the tiles they can't see left out
+export interface VisibleChunk {
+  id: string;
+  tiles: ColonyTile[];
+}
+
+// Fetch chunks request type, shared with the client
+export type { FetchChunksRequest } from "@shared/requests";
+
+// Fetch chunks response type
+export interface FetchChunksResponse {
+  success: boolean;
+  chunks: VisibleChunk[];  // Chunks that hold no persisted tiles come back empty
+  count: number;           // Tiles across all chunks
+}
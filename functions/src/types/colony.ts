@@ -1,14 +1,18 @@
 /**
  * Types for colony management - shared between web app and Firebase functions
  */
-import { Unit, UnplacedUnit } from './units';
-import { TileType } from '../utils/noise';
-import { Tile } from './base'
+import { Unit, UnitType, UnplacedUnit } from './units';
+import { TileTrait, TileType } from '../utils/noise';
+import { Coordinates, Tile } from './base'
+import { ResearchState } from './tech';
+import { RevealedArea } from './anomaly';
 
 // Basic colony tile type matching server model
 export interface ColonyTile extends Tile{
   type: TileType; // Tile type based on noise value
+  trait?: TileTrait | null; // Secondary trait layer; missing on tiles persisted before traits existed
   visibility: 'visible' | 'unexplored';
+  claimedManually?: boolean; // Claimed through addColonyTile; kept until another colony's units cover it
   resourceDensity?: number; // Value from 0-1 indicating resource richness
   resources?: {
     [key: string]: number;
@@ -27,21 +31,92 @@ export interface Colony {
     r: number;
     s: number;
   };
-  tileIds: string[]; // References to tiles in the 'tiles' collection
   units: Unit[];
   unplacedUnits: UnplacedUnit[];
-  // Territory metrics
-  territoryScore: number;
+  // Territory metrics; the tiles themselves are indexed in the colony's territory subcollection
+  territoryScore: number;  // Number of tiles the colony controls, kept in step with the territory subcollection
   visibilityRadius: number;
+  // Economy
+  stockpile: Record<string, number>;      // Accumulated resources by type
+  resourceRates: Record<string, number>;  // Resources gained in the last economy tick
+  // Research
+  research?: ResearchState;  // Missing on colonies created before the tech tree
+  researchRate?: number;     // Research points gained in the last economy tick
+  // Construction
+  constructionQueue?: ConstructionOrder[];
+  nextConstructionAt?: number | null;  // Earliest completesAt in the queue, for the scheduler to query
+  // Queued orders, resolved by the game clock
+  orderQueue?: QueuedOrder[];
+  nextOrderTick?: number | null;  // Earliest tick an order in the queue resolves on, for the scheduler to query
+  // Diplomacy
+  allianceId?: string | null;  // Alliance the colony belongs to; missing on colonies created before alliances
+  // Exploration
+  revealedAreas?: RevealedArea[];  // Map reveals from anomalies; expired ones are dropped on the next reveal
 }
 
-// Colony creation request type
-export interface CreateColonyRequest {
-  name: string;
-  color?: string; // Colony color for visual identification
+// The public view of a colony, safe to show to other players
+export interface ColonyProfile {
+  id: string;
   uid: string;
+  name: string;
+  color?: string;
+  territoryScore: number;
+  foundedAt: number | null;  // Missing on colonies whose creation time wasn't stored
+  homeSector: Coordinates;   // Center of the sector the colony started in, not its exact start
+}
+
+// A sublight move queued for a unit and carried out a few steps per tick
+export interface QueuedOrder {
+  id: string;
+  unitId: string;
+  destination: Coordinates;
+  path: Coordinates[];  // Steps still to take, worked out when the order was queued
+  queuedAt: number;
+  queuedTick: number;   // Tick the order was queued in; it first moves on the tick after
 }
 
+// A base or relay being built, or a base being upgraded
+export interface ConstructionOrder {
+  id: string;
+  kind: 'build' | 'upgrade';
+  unitType?: UnitType.BASE | UnitType.RELAY;  // Structure being built; missing on orders from before relays, which are bases
+  unitId: string;        // The structure being upgraded, or the ID the new structure will get
+  position: Coordinates;
+  targetLevel: number;
+  cost: Record<string, number>;  // Resources spent, refunded if the order can't complete
+  startedAt: number;
+  completesAt: number;
+}
+
+// One tile a colony controls, stored in colony/v1/colonies/{colonyId}/territory keyed by tile ID
+// The tile's controllerUid is the source of truth; these entries index it per colony
+export interface TerritoryEntry {
+  tileId: string;
+  uid: string;  // Controller of the tile, so collection group queries can map tiles to players
+  q: number;
+  r: number;
+  s: number;
+  claimedAt: number;
+}
+
+// Economy ledger entry written once per colony per tick
+export interface LedgerEntry {
+  tickAt: number;
+  produced: Record<string, number>;
+  depletedTiles: string[];  // Tiles whose reserves ran out this tick
+  researchPoints: number;
+  completedTechId: string | null;  // Tech finished this tick, if any
+}
+
+// Result of claiming or capturing a tile; the loser of a race for the tile gets a conflict
+export type TileCaptureResult =
+  | { status: 'claimed'; tile: ColonyTile; colonyId: string }
+  | { status: 'captured'; tile: ColonyTile; colonyId: string; previousOwner: string; previousColony: string | null }
+  | { status: 'conflict'; tileId: string; controllerUid: string | null };
+
+// Colony creation request type, shared with the client
+export type { CreateColonyRequest } from "@shared/requests";
+
 // Colony creation response type
 export interface CreateColonyResponse {
   id: string;
@@ -0,0 +1,60 @@
+/**
+ * Galaxy generation type definitions for Hexaverse
+ */
+import { Coordinates } from "./base";
+import { NoiseThresholds, TileTrait, TileType, TraitThresholds } from "../utils/noise";
+
+// Parameters every procedural tile is generated from, stored once at colony/v1/galaxy/settings
+export interface GalaxySettings {
+  seed: number;                // 32-bit noise seed
+  radius: number;              // Galaxy radius in tiles
+  scale: number;               // Noise scale (controls feature size)
+  thresholds: NoiseThresholds;
+  traitScale?: number;                // Trait channel noise scale; missing on version 1 galaxies
+  traitThresholds?: TraitThresholds;  // Trait thresholds; missing on version 1 galaxies
+  version: number;             // Generation algorithm version the settings were created for
+  createdAt: string;
+}
+
+// Terrain of a tile as generated from the galaxy seed, before anything is persisted
+export interface ProceduralTile {
+  id: string;
+  q: number;
+  r: number;
+  s: number;
+  type: TileType;
+  trait: TileTrait | null;
+  resourceDensity: number;
+}
+
+// What a tile is made of, as far as movement, scanning and FTL care
+export interface TileTerrain {
+  type: TileType;
+  trait: TileTrait | null;
+}
+
+// Open/closed cycle of an unstable wormhole, measured in minutes since the epoch
+export interface WormholeSchedule {
+  periodMinutes: number;  // Length of one full cycle
+  openMinutes: number;    // How long the wormhole stays open at the start of each cycle
+  offsetMinutes: number;  // Shift so unstable wormholes don't all open together
+}
+
+// A natural wormhole linking two distant tiles, placed from the galaxy seed
+export interface Wormhole {
+  id: string;
+  endpoints: [Coordinates, Coordinates];
+  oneWay: boolean;                    // Ships can only travel from the first endpoint to the second
+  schedule: WormholeSchedule | null;  // Null for stable wormholes, which are always open
+}
+
+// Fetch galaxy region request type, shared with the client
+export type { FetchGalaxyRegionRequest } from "@shared/requests";
+
+// Fetch galaxy region response type
+export interface FetchGalaxyRegionResponse {
+  success: boolean;
+  version: number;
+  tiles: ProceduralTile[];
+  wormholes: Wormhole[];  // Wormholes with at least one endpoint in the region
+}
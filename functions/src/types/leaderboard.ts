@@ -0,0 +1,40 @@
+/**
+ * Leaderboard type definitions for Hexaverse
+ */
+import type { LeaderboardWindow } from "@shared/requests";
+import { Coordinates } from "./base";
+import { AllianceSummary } from "./alliance";
+
+// Time windows the leaderboard can be ranked over
+export type { LeaderboardWindow };
+
+// A colony's denormalized standing, stored at colony/v1/leaderboard/{colonyId}
+export interface LeaderboardEntry {
+  colonyId: string;
+  uid: string;
+  name: string;
+  color?: string;
+  location: Coordinates;  // Center of the colony's home sector, for linking to it on the grid
+  territoryScore: number;
+  weeklyGain: number;     // Territory gained since the week started, reset every week
+  updatedAt: number;
+}
+
+// Fetch leaderboard request type, shared with the client
+export type { FetchLeaderboardRequest } from "@shared/requests";
+
+// Fetch leaderboard response type
+export interface FetchLeaderboardResponse {
+  success: boolean;
+  window: LeaderboardWindow;
+  entries: LeaderboardEntry[];
+  nextCursor: string | null;  // Pass as startAfter to get the next page; null on the last page
+  weekStartedAt: number;
+}
+
+// Fetch alliance leaderboard response type
+export interface FetchAllianceLeaderboardResponse {
+  success: boolean;
+  entries: AllianceSummary[];  // Ranked by combined territory
+  nextCursor: string | null;   // Alliance ID to pass as startAfter; null on the last page
+}
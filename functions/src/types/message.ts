@@ -0,0 +1,68 @@
+/**
+ * Messaging type definitions for Hexaverse
+ */
+import type { MessageChannel } from "@shared/requests";
+import { Coordinates } from "./base";
+
+// Where a message was sent: straight to one colony, to the sender's alliance, or from a beacon
+export type { MessageChannel };
+
+// Message stored at colony/v1/messages/{messageId}
+export interface GameMessage {
+  id: string;
+  channel: MessageChannel;
+  senderUid: string;
+  senderColonyId: string;
+  senderName: string;        // Colony name when the message was sent
+  body: string;
+  sentAt: number;
+  recipientUids: string[];   // Everyone who can read the message, including the sender
+  unreadUids: string[];      // Recipients who haven't read it yet
+  allianceId: string | null; // Set on alliance messages
+  beaconId: string | null;   // Set on beacon messages
+  position: Coordinates | null; // Where the beacon was placed, on beacon messages
+}
+
+// Beacon stored at colony/v1/beacons/{beaconId}
+export interface Beacon {
+  id: string;
+  ownerUid: string;
+  colonyId: string;
+  colonyName: string;
+  color?: string;
+  position: Coordinates;
+  message: string;
+  range: number;        // Colonies with a unit this close heard the beacon when it was placed
+  placedAt: number;
+  expiresAt: number;
+}
+
+// Per-player unread counts stored at colony/v1/inboxes/{uid}
+export interface Inbox {
+  uid: string;
+  unread: Record<MessageChannel, number>;
+  updatedAt: number;
+}
+
+// Fetch messages request type, shared with the client
+export type { FetchMessagesRequest } from "@shared/requests";
+
+// Fetch messages response type
+export interface FetchMessagesResponse {
+  success: boolean;
+  messages: GameMessage[];
+  nextCursor: string | null;
+  unread: Record<MessageChannel, number>;
+}
+
+// Fetch beacons response type
+export interface FetchBeaconsResponse {
+  success: boolean;
+  beacons: Beacon[];
+}
+
+// Payload of the event sent to each recipient of a new message
+export interface MessageEventPayload {
+  message: GameMessage;
+  beacon: Beacon | null;
+}
@@ -0,0 +1,17 @@
+/**
+ * Rate limit type definitions for Hexaverse
+ */
+
+// Token bucket settings for one rate limited action
+export interface RateLimitRule {
+  capacity: number;         // Calls that can be made in a burst with a full bucket
+  refillPerSecond: number;  // Tokens added back each second, up to the capacity
+}
+
+// Bucket for one user and action, stored at rateLimits/v1/buckets/{uid}_{action}
+export interface RateLimitBucket {
+  uid: string;
+  action: string;
+  tokens: number;     // Tokens left after the last call; fractional while refilling
+  updatedAt: number;  // When tokens was last computed
+}
@@ -0,0 +1,37 @@
+/**
+ * Game clock type definitions for Hexaverse
+ */
+import { Coordinates } from "./base";
+
+// A queued order's progress on one tick
+export interface ResolvedOrder {
+  orderId: string;
+  colonyId: string;
+  uid: string;
+  unitId: string;
+  from: Coordinates;
+  path: Coordinates[];  // Steps taken this tick, in order
+  arrived: boolean;     // The unit reached its destination and the order is done
+  cancelled: boolean;   // The order could no longer be followed and was dropped
+}
+
+// Timing of a tick, broadcast on tick-events so every client can keep its countdown in step
+export interface TickTiming {
+  tick: number;
+  resolvedAt: number;
+  nextTickAt: number;
+}
+
+// Everything that happened on a tick; each player is only sent their own orders
+export interface TickSummary extends TickTiming {
+  orders: ResolvedOrder[];
+}
+
+// Game clock state, stored once at colony/v1/galaxy/clock
+export interface ClockState {
+  lastResolvedTick: number;
+  resolvedAt: number;
+}
+
+// Queue order request type, shared with the client
+export type { QueueOrderRequest } from "@shared/requests";
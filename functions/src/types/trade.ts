@@ -0,0 +1,54 @@
+/**
+ * Trade type definitions for Hexaverse
+ */
+
+// Where an offer is in its life: open on the marketplace, or closed one of three ways
+export type TradeStatus = 'open' | 'accepted' | 'cancelled' | 'expired';
+
+// Offer stored at colony/v1/trades/{offerId}
+export interface TradeOffer {
+  id: string;
+  creatorUid: string;
+  creatorColonyId: string;
+  creatorName: string;                 // Colony name when the offer was made
+  offered: Record<string, number>;     // Held in escrow, out of the creator's stockpile, while the offer is open
+  requested: Record<string, number>;   // What the creator wants in return
+  resourceTypes: string[];             // Every resource offered or requested, for filtering the marketplace
+  status: TradeStatus;
+  createdAt: number;
+  expiresAt: number;
+  closedAt: number | null;
+  acceptorUid: string | null;
+  acceptorColonyId: string | null;
+  acceptorName: string | null;
+}
+
+// A closed offer from one colony's side, stored at colony/v1/colonies/{colonyId}/tradeHistory/{offerId}
+export interface TradeHistoryEntry {
+  offerId: string;
+  role: 'creator' | 'acceptor';
+  status: Exclude<TradeStatus, 'open'>;
+  counterpartyUid: string | null;      // The other colony, for accepted offers
+  counterpartyName: string | null;
+  gave: Record<string, number>;        // Nothing for offers that closed without a trade
+  received: Record<string, number>;
+  createdAt: number;
+  closedAt: number;
+}
+
+// Fetch trade offers request type, shared with the client
+export type { FetchTradeOffersRequest } from "@shared/requests";
+
+// Fetch trade offers response type
+export interface FetchTradeOffersResponse {
+  success: boolean;
+  offers: TradeOffer[];
+  nextCursor: string | null;
+}
+
+// Fetch trade history response type
+export interface FetchTradeHistoryResponse {
+  success: boolean;
+  entries: TradeHistoryEntry[];
+  nextCursor: string | null;
+}
@@ -13,6 +13,7 @@ export interface BaseUnit {
   };
   level: number;
   ownerUid: string;  // Firebase user ID of the owner
+  moveReadyAt?: number;  // Time in milliseconds when the unit can make another sublight move
 }
 
 // Possible unit types
@@ -21,12 +22,13 @@ export enum UnitType {
   BASE = 'base',
   MINING_SITE = 'mining_site',
   RESEARCH_SITE = 'research_site',
+  RELAY = 'relay',
 }
 
 // Ship unit for exploration and combat
 export interface Ship extends BaseUnit {
   type: UnitType.SHIP;
-  // Add ship-specific properties here
+  ftlReadyAt?: number;  // Time in milliseconds when the ship can jump again
 }
 
 // Base unit for establishing territory
@@ -35,6 +37,32 @@ export interface Base extends BaseUnit {
   influenceRadius: number;  // Radius of territorial control
 }
 
+// Stats for one tier of base, from gameConfig.bases.tiers
+export type { BaseTier } from "@shared/gameRules";
+
+// A unit as indexed by position, so nearby units can be found without reading every colony
+export interface IndexedUnit {
+  unitId: string;
+  colonyId: string;
+  ownerUid: string;
+  type: UnitType;
+  q: number;
+  r: number;
+  s: number;
+  level: number;
+  influenceRadius?: number;     // Bases only
+}
+
+// Every unit in one chunk of the map, stored at colony/v1/unitChunks/{chunkId}
+// Uses the same chunk grid as the tiles; the colonies' units arrays stay the source of truth
+export interface UnitChunk {
+  id: string;      // `${chunkQ}#${chunkR}`
+  chunkQ: number;
+  chunkR: number;
+  units: Record<string, IndexedUnit>;  // Keyed by unit ID
+  plannedBases?: Record<string, IndexedUnit>;  // Bases under construction, keyed by order ID; they count towards spacing only
+}
+
 // Mining site for resource extraction
 export interface MiningSite extends BaseUnit {
   type: UnitType.MINING_SITE;
@@ -49,8 +77,14 @@ export interface ResearchSite extends BaseUnit {
   researchRate: number;
 }
 
+// Relay station linking friendly space for fast travel
+export interface Relay extends BaseUnit {
+  type: UnitType.RELAY;
+  range: number;  // Furthest another relay can be and still link to this one
+}
+
 // Union type for all possible units
-export type Unit = Ship | Base | MiningSite | ResearchSite;
+export type Unit = Ship | Base | MiningSite | ResearchSite | Relay;
 
 // Helper type for unplaced units (during colony creation)
 export interface UnplacedUnit {
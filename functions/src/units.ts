@@ -0,0 +1,494 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { Ship, Unit, UnitType, UnplacedUnit } from "./types/units";
+import { ColonyTile, QueuedOrder } from "./types/colony";
+import { Coordinates } from "./types/base";
+import { functionConfig, gameConfig } from "./config";
+import { ReadCostTracker } from "./utils/analytics/readCostTracker";
+import { EventType } from "./utils/pubsub";
+import { publishToViewers } from "./utils/events";
+import { cubeDistance } from "./utils/noise";
+import { DEFAULT_TERRAIN, getGalaxySettings } from "./utils/galaxy";
+import { findPath, getMinimumStepCost, PathEdge, PathResult } from "../../shared/pathfinding";
+import {
+  createTerrainStepCost,
+  findMovableUnitIndex,
+  getMoveReadyAt,
+  loadTileTerrainInRadius,
+  MOVE_TYPES,
+  verifyFtlJump,
+  verifyMoveReady
+} from "./utils/movement";
+import { COLONY_EVENTS_TOPIC } from "./colonyTiles";
+import { getBattleAreas, getInfluenceArea, getPresenceArea, recomputeTerritory } from "./utils/territory";
+import { getUnitIndexUpdates, loadBaseSitesNear } from "./utils/unitIndex";
+import { createPlacedUnit, verifyPlacement } from "./utils/placement";
+import { toTileId } from "./utils/tileHelpers";
+import { loadTileTerrain } from "./utils/tiles/tileOperations";
+import { loadOwnedTileIds } from "./utils/ownership";
+import { getTechEffects } from "./definitions/techTree";
+import { resolveCombatAt } from "./utils/combat";
+import { getRelayJumpError } from "./utils/relays";
+import { consumeRateLimit } from "./utils/rateLimiter";
+import { generateWormholes, getWormholeEdges } from "./utils/wormholes";
+import { getNextOrderTick } from "./utils/orders";
+import { BattleReport } from "./types/battle";
+import { AnomalyEvent } from "./types/anomaly";
+import { resolveAnomaliesOnPath } from "./utils/anomalies";
+import {
+  checkCubeCoordinates,
+  COORDINATE_FIELDS,
+  ID_RULE,
+  RequestSchema,
+  validateRequest
+} from "./utils/validation";
+import type { MoveUnitRequest, PlaceUnitRequest } from "@shared/requests";
+
+const moveUnitSchema: RequestSchema<MoveUnitRequest> = {
+  fields: {
+    ...COORDINATE_FIELDS,
+    unitId: ID_RULE,
+    moveType: { type: 'enum', values: MOVE_TYPES, optional: true }
+  },
+  check: checkCubeCoordinates
+};
+
+const placeUnitSchema: RequestSchema<PlaceUnitRequest> = {
+  fields: {
+    ...COORDINATE_FIELDS,
+    unplacedIndex: { type: 'integer', min: 0 }
+  },
+  check: checkCubeCoordinates
+};
+
+/**
+ * Function to move a unit to a new tile
+ *
+ * This function:
+ * 1. Authenticates the user, validates the request and takes a token from the user's rate limit
+ * 2. Verifies the user owns the unit and that it can move
+ * 3. For sublight moves, checks the unit has recovered from its last one, finds the cheapest
+ *    path over the terrain and checks its cost, taking shortcuts through open wormholes once the
+ *    colony has researched them, and holds the unit for the ticks the move's cost would take;
+ *    for FTL jumps, checks the colony's researched FTL tier and the ship's cooldown;
+ *    for relay jumps, checks both ends are active relays in the same network
+ * 4. Persists the new position on the colony's units array and the unit index, dropping any queued order for the unit
+ * 5. Triggers an event on every anomaly the unit explores first
+ * 6. Fights a battle if enemy ships hold the destination
+ * 7. Recomputes territory on the tiles where the unit's presence has changed
+ * 8. Publishes the move to the owner, and the part of it other players can see to them, on colony-events
+ */
+export const moveUnit = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for moveUnit function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('moveUnit');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to move a unit');
+    }
+
+    // Extract the unit, destination and move type from request data
+    const { unitId, q, r, s, moveType = 'sublight' } = validateRequest(request.data, moveUnitSchema);
+
+    // Moves read terrain and can start battles and territory recomputes, so they're rate limited
+    await consumeRateLimit(uid, 'moveUnit', tracker);
+
+    const destination: Coordinates = { q, r, s };
+    const coloniesRef = admin.firestore().collection('colony/v1/colonies');
+
+    // Read and update the colony in a transaction so concurrent moves don't overwrite each other
+    const result = await admin.firestore().runTransaction(async (transaction) => {
+      const colonyQuery = await transaction.get(coloniesRef.where('uid', '==', uid));
+      tracker.trackRead('colonyQuery', colonyQuery.size);
+
+      if (colonyQuery.empty) {
+        throw new HttpsError('not-found', 'No colony found for this user');
+      }
+
+      const colonyDoc = colonyQuery.docs[0];
+      const colonyData = colonyDoc.data();
+      const units: Unit[] = colonyData.units || [];
+      const unitIndex = findMovableUnitIndex(units, unitId, uid);
+      const unit = units[unitIndex];
+      const { position } = unit;
+
+      const distance = cubeDistance(position.q, position.r, position.s, q, r, s);
+      if (distance === 0) {
+        throw new HttpsError('invalid-argument', 'Unit is already at this location');
+      }
+
+      let route: PathResult | null;
+      let movedUnit: Unit = { ...unit, position: destination };
+
+      if (moveType === 'ftl') {
+        const now = Date.now();
+        const { ftlTier } = getTechEffects(colonyData.research?.completedTechs);
+        const terrain = await loadTileTerrain([position, destination], tracker);
+
+        verifyFtlJump(
+          unit as Ship,
+          destination,
+          ftlTier,
+          terrain.get(toTileId(position)) ?? DEFAULT_TERRAIN,
+          terrain.get(toTileId(destination)) ?? DEFAULT_TERRAIN,
+          now
+        );
+
+        // Jumps skip the space in between, so they cost nothing from the move budget
+        route = { path: [destination], cost: 0 };
+        movedUnit = { ...movedUnit, ftlReadyAt: now + gameConfig.ftl.cooldownMinutes * 60000 } as Ship;
+      } else if (moveType === 'relayJump') {
+        // Relays only run inside their owner's territory, so check who holds the relays' tiles
+        const relayPositions = units.filter(existing => existing.type === UnitType.RELAY).map(relay => relay.position);
+        const territory = await loadOwnedTileIds(uid, relayPositions, tracker);
+        const relayError = getRelayJumpError({ units, tileIds: Array.from(territory) }, position, destination);
+        if (relayError) {
+          throw new HttpsError('failed-precondition', relayError);
+        }
+
+        // Linked relays carry the ship across instantly
+        route = { path: [destination], cost: 0 };
+      } else {
+        const now = Date.now();
+        verifyMoveReady(unit, now);
+
+        const { maxMoveCost } = gameConfig.movement;
+        const minStepCost = getMinimumStepCost();
+
+        // No route can reach further than the budget allows on the cheapest terrain
+        const searchRadius = Math.floor(maxMoveCost / minStepCost);
+
+        // Only wormholes with one end near the ship and the other near the destination can help
+        let wormholeEdges: PathEdge[] = [];
+        if (getTechEffects(colonyData.research?.completedTechs).wormholeTransit) {
+          const galaxy = await getGalaxySettings(tracker);
+          wormholeEdges = getWormholeEdges(generateWormholes(galaxy), now).filter(edge =>
+            cubeDistance(edge.from.q, edge.from.r, edge.from.s, position.q, position.r, position.s) < searchRadius &&
+            cubeDistance(edge.to.q, edge.to.r, edge.to.s, q, r, s) < searchRadius
+          );
+        }
+
+        if (distance > searchRadius && wormholeEdges.length === 0) {
+          throw new HttpsError('failed-precondition', 'Destination is out of range for a single move');
+        }
+
+        // Every tile on a wormhole route is within the budget of either the start or the destination
+        const terrain = await loadTileTerrainInRadius(position, searchRadius, tracker);
+        if (wormholeEdges.length > 0) {
+          const destinationTerrain = await loadTileTerrainInRadius(destination, searchRadius, tracker);
+          destinationTerrain.forEach((tileTerrain, tileId) => terrain.set(tileId, tileTerrain));
+        }
+
+        route = findPath(position, destination, createTerrainStepCost(terrain), {
+          maxCost: maxMoveCost,
+          minStepCost,
+          extraEdges: wormholeEdges
+        });
+
+        if (!route) {
+          throw new HttpsError(
+            'failed-precondition',
+            `No path to the destination costs ${maxMoveCost} or less`
+          );
+        }
+
+        movedUnit = { ...movedUnit, moveReadyAt: getMoveReadyAt(route.cost, now) };
+      }
+
+      const { path, cost } = route;
+
+      const updatedUnits = [...units];
+      updatedUnits[unitIndex] = movedUnit;
+
+      // A direct move overrides whatever the game clock was going to do with the unit
+      const orderQueue: QueuedOrder[] = (colonyData.orderQueue || []).filter(
+        (order: QueuedOrder) => order.unitId !== unitId
+      );
+
+      transaction.update(colonyDoc.ref, {
+        units: updatedUnits,
+        orderQueue,
+        nextOrderTick: getNextOrderTick(orderQueue)
+      });
+      const indexUpdates = getUnitIndexUpdates(colonyDoc.id, units, updatedUnits);
+      indexUpdates.forEach(({ ref, data }) => transaction.set(ref, data, { merge: true }));
+      tracker.trackWrite('colonyUpdate', 1 + indexUpdates.length);
+
+      return { colonyId: colonyDoc.id, unit: movedUnit, from: position, path, cost };
+    });
+
+    // The first unit to reach an anomaly finds out what is there
+    let anomalies: AnomalyEvent[] = [];
+    try {
+      anomalies = await resolveAnomaliesOnPath(result.path, uid, unitId, tracker);
+    } catch (anomalyError) {
+      // The move is already committed, so log the error rather than failing it
+      logger.error("Error resolving anomalies:", anomalyError);
+    }
+
+    // Moving onto enemy ships starts a battle
+    let battle: BattleReport | null = null;
+    try {
+      battle = await resolveCombatAt(destination, uid, tracker);
+    } catch (combatError) {
+      // The move is already committed, so log the error rather than failing it
+      logger.error("Error resolving combat:", combatError);
+    }
+
+    // The unit's presence has changed along its path and wherever a battle sent ships, so territory may have too
+    try {
+      const areas = [result.from, ...result.path].map(getPresenceArea);
+      await recomputeTerritory(battle ? [...areas, ...getBattleAreas(battle)] : areas, tracker);
+    } catch (territoryError) {
+      // The move is already committed, so log the error rather than failing it
+      logger.error("Error recomputing territory:", territoryError);
+    }
+
+    // Prepare event data for PubSub
+    const eventData = {
+      type: EventType.UNIT_MOVED,
+      timestamp: Date.now(),
+      payloadType: 'unit',
+      payload: {
+        ...result.unit,
+        from: result.from,
+        path: result.path
+      },
+      colonyId: result.colonyId,
+      userId: uid
+    };
+
+    try {
+      // The owner sees the whole move; other players only the part their scans cover
+      await publishToViewers(EventType.UNIT_MOVED, [{
+        positions: [result.from, ...result.path],
+        participantUids: [uid],
+        data: eventData,
+        getViewerData: visibleTileIds => {
+          const { id, type, level, ownerUid, position } = result.unit;
+          const isVisible = (coords: Coordinates) => visibleTileIds.has(toTileId(coords));
+          return {
+            ...eventData,
+            payload: {
+              id,
+              type,
+              level,
+              ownerUid,
+              position: isVisible(position) ? position : null,
+              from: isVisible(result.from) ? result.from : null,
+              path: result.path.filter(isVisible)
+            }
+          };
+        }
+      }], COLONY_EVENTS_TOPIC, tracker);
+    } catch (pubsubError) {
+      // Log the error but don't fail the function
+      logger.error("Error publishing to PubSub:", pubsubError);
+    }
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    // Log the read stats instead of including them in the response
+    const readSummary = tracker.getSummary();
+    logger.info(`[moveUnit] Read Summary: ${readSummary.total} total reads`);
+
+    return {
+      success: true,
+      unit: result.unit,
+      path: result.path,
+      cost: result.cost,
+      battle,
+      anomalies,
+      message: moveType === 'sublight'
+        ? `Unit moved ${result.path.length} tiles`
+        : `Unit jumped to ${toTileId(destination)}`
+    };
+  } catch (error) {
+    logger.error("Error moving unit:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error moving unit'
+    );
+  }
+});
+
+/**
+ * Function to deploy one of the colony's unplaced units onto the grid
+ *
+ * This function:
+ * 1. Authenticates the user
+ * 2. Verifies the target tile is in the user's territory and suits the unit, keeping bases apart
+ * 3. Converts the unplaced unit into a full unit with its output rates
+ * 4. Moves it from unplacedUnits to units on the colony and indexes it
+ * 5. Fights a battle if a ship was placed onto enemy ships
+ * 6. Recomputes territory around a placed base or a battle
+ * 7. Publishes the new unit on colony-events to the owner and the players who can see its tile
+ */
+export const placeUnit = onCall({
+  region: functionConfig.region,
+  timeoutSeconds: functionConfig.defaultTimeoutSeconds,
+  memory: functionConfig.memory
+}, async (request) => {
+  // Handle warmup requests immediately
+  if (request.data?.warmup === true) {
+    logger.info('Handling warmup request for placeUnit function');
+    return { success: true, message: 'Warmup request handled' };
+  }
+
+  // Create a tracker for this function call
+  const tracker = new ReadCostTracker('placeUnit');
+
+  try {
+    // Authenticate the request and get the user ID
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError('unauthenticated', 'User must be signed in to place a unit');
+    }
+
+    // Extract the unplaced unit index and target from request data
+    const { unplacedIndex, q, r, s } = validateRequest(request.data, placeUnitSchema);
+
+    const tileId = toTileId({ q, r, s });
+    const coloniesRef = admin.firestore().collection('colony/v1/colonies');
+    const tileRef = admin.firestore().doc(`colony/v1/tiles/${tileId}`);
+
+    // Read and update the colony in a transaction so the same unit can't be placed twice
+    const result = await admin.firestore().runTransaction(async (transaction) => {
+      const colonyQuery = await transaction.get(coloniesRef.where('uid', '==', uid));
+      tracker.trackRead('colonyQuery', colonyQuery.size);
+
+      if (colonyQuery.empty) {
+        throw new HttpsError('not-found', 'No colony found for this user');
+      }
+
+      const colonyDoc = colonyQuery.docs[0];
+      const colonyData = colonyDoc.data();
+      const units: Unit[] = colonyData.units || [];
+      const unplacedUnits: UnplacedUnit[] = colonyData.unplacedUnits || [];
+      const unplaced = unplacedUnits[unplacedIndex];
+
+      if (!unplaced) {
+        throw new HttpsError('not-found', 'No unplaced unit at this index');
+      }
+
+      const tileDoc = await transaction.get(tileRef);
+      tracker.trackRead('tileDocGet', 1);
+
+      const tile = tileDoc.exists ? tileDoc.data() as ColonyTile : undefined;
+
+      // Bases keep their distance from every other base, built or planned
+      const nearbyBases = unplaced.type === UnitType.BASE
+        ? await loadBaseSitesNear({ q, r, s }, gameConfig.bases.minBaseSpacing - 1, tracker, transaction)
+        : [];
+      verifyPlacement(unplaced, tile, units, uid, nearbyBases.map(base => ({ q: base.q, r: base.r, s: base.s })));
+
+      const unitId = `${colonyDoc.id}-${unplaced.type}-${coloniesRef.doc().id}`;
+      const placedUnit = createPlacedUnit(unplaced, tile, unitId, uid);
+
+      const updatedUnits = [...units, placedUnit];
+      transaction.update(colonyDoc.ref, {
+        units: updatedUnits,
+        unplacedUnits: unplacedUnits.filter((_, index) => index !== unplacedIndex)
+      });
+      const indexUpdates = getUnitIndexUpdates(colonyDoc.id, units, updatedUnits);
+      indexUpdates.forEach(({ ref, data }) => transaction.set(ref, data, { merge: true }));
+      tracker.trackWrite('colonyUpdate', 1 + indexUpdates.length);
+
+      return { colonyId: colonyDoc.id, unit: placedUnit };
+    });
+
+    // Ships placed onto enemy ships start a battle
+    let battle: BattleReport | null = null;
+    if (result.unit.type === UnitType.SHIP) {
+      try {
+        battle = await resolveCombatAt(result.unit.position, uid, tracker);
+      } catch (combatError) {
+        // The placement is already committed, so log the error rather than failing it
+        logger.error("Error resolving combat:", combatError);
+      }
+    }
+
+    // Bases extend influence and battles change presence, so territory needs recomputing
+    if (result.unit.type === UnitType.BASE || battle) {
+      try {
+        await recomputeTerritory([
+          ...(result.unit.type === UnitType.BASE ? [getInfluenceArea(result.unit.position)] : []),
+          ...(battle ? getBattleAreas(battle) : [])
+        ], tracker);
+      } catch (territoryError) {
+        // The placement is already committed, so log the error rather than failing it
+        logger.error("Error recomputing territory:", territoryError);
+      }
+    }
+
+    // Prepare event data for PubSub
+    const eventData = {
+      type: EventType.UNIT_PLACED,
+      timestamp: Date.now(),
+      payloadType: 'unit',
+      payload: result.unit,
+      colonyId: result.colonyId,
+      userId: uid
+    };
+
+    try {
+      // Tell the owner and anyone whose scans cover the tile about the new unit
+      await publishToViewers(EventType.UNIT_PLACED, [{
+        positions: [result.unit.position],
+        participantUids: [uid],
+        data: eventData
+      }], COLONY_EVENTS_TOPIC, tracker);
+    } catch (pubsubError) {
+      // Log the error but don't fail the function
+      logger.error("Error publishing to PubSub:", pubsubError);
+    }
+
+    // Store metrics in Firestore for analysis
+    await tracker.storeMetrics();
+
+    // Log the read stats instead of including them in the response
+    const readSummary = tracker.getSummary();
+    logger.info(`[placeUnit] Read Summary: ${readSummary.total} total reads`);
+
+    return {
+      success: true,
+      unit: result.unit,
+      battle,
+      message: `${result.unit.type} placed successfully`
+    };
+  } catch (error) {
+    logger.error("Error placing unit:", error);
+
+    // If the error is already an HttpsError, rethrow it
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    // Otherwise, wrap it in an HttpsError
+    throw new HttpsError(
+      'internal',
+      error instanceof Error ? error.message : 'Error placing unit'
+    );
+  }
+});
@@ -0,0 +1,77 @@
+import * as admin from "firebase-admin";
+import { Alliance, AllianceSummary } from "../types/alliance";
+import { Colony } from "../types/colony";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+
+export const ALLIANCES_COLLECTION = 'colony/v1/alliances';
+
+/**
+ * Get the document for an alliance
+ * @param allianceId ID of the alliance
+ */
+export function getAllianceRef(allianceId: string): admin.firestore.DocumentReference {
+  return admin.firestore().doc(`${ALLIANCES_COLLECTION}/${allianceId}`);
+}
+
+/**
+ * Check whether two colonies are in the same alliance
+ */
+export function areAllied(
+  a: Pick<Colony, 'allianceId'>,
+  b: Pick<Colony, 'allianceId'>
+): boolean {
+  return !!a.allianceId && a.allianceId === b.allianceId;
+}
+
+/**
+ * Build the update that keeps an alliance's combined territory in step with a member's score
+ * Merge the result into the alliance rather than replacing it.
+ * @param delta How much the member's score changed by
+ */
+export function getAllianceScoreUpdate(delta: number): Record<string, unknown> {
+  return { territoryScore: admin.firestore.FieldValue.increment(delta) };
+}
+
+/**
+ * Project an alliance onto what other players can see of it
+ * @param alliance The alliance
+ */
+export function toAllianceSummary(alliance: Alliance): AllianceSummary {
+  return {
+    id: alliance.id,
+    name: alliance.name,
+    color: alliance.color,
+    memberCount: (alliance.memberUids || []).length,
+    territoryScore: alliance.territoryScore || 0
+  };
+}
+
+/**
+ * Load the colonies of a colony's allies, if its alliance shares visibility
+ * @param colony The colony
+ * @param tracker Read cost tracker for the calling function
+ * @returns The other members' colonies, or nothing if there is no vision to share
+ */
+export async function getVisionSharingAllies(colony: Colony, tracker: ReadCostTracker): Promise<Colony[]> {
+  if (!colony.allianceId) return [];
+
+  const allianceSnapshot = await getAllianceRef(colony.allianceId).get();
+  tracker.trackRead('alliance', 1);
+
+  const alliance = allianceSnapshot.data() as Alliance | undefined;
+  if (!alliance?.sharedVisibility) return [];
+
+  const allyRefs = alliance.members
+    .filter(member => member.colonyId !== colony.id)
+    .map(member => admin.firestore().doc(`colony/v1/colonies/${member.colonyId}`));
+  if (allyRefs.length === 0) return [];
+
+  const allySnapshots = await admin.firestore().getAll(...allyRefs);
+  tracker.trackRead('allyColonies', allySnapshots.length);
+
+  return allySnapshots
+    .filter(snapshot => snapshot.exists)
+    .map(snapshot => ({ id: snapshot.id, ...snapshot.data() } as Colony))
+    // Skip anyone who left without the alliance document catching up
+    .filter(ally => ally.allianceId === colony.allianceId);
+}
@@ -0,0 +1,218 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { Coordinates } from "../types/base";
+import { Colony } from "../types/colony";
+import { Ship, Unit, UnitType } from "../types/units";
+import { AnomalyEvent, AnomalyEventDefinition, AnomalyOutcome, RevealedArea } from "../types/anomaly";
+import { drawAnomalyEvent } from "../definitions/anomalyEvents";
+import { TileTrait } from "./noise";
+import { toTileId } from "./tileHelpers";
+import { loadTileTerrain } from "./tiles/tileOperations";
+import { getGalaxySettings } from "./galaxy";
+import { createSeededRandom, hashSeed } from "./random";
+import { createStockpileUpdates } from "./construction";
+import { getUnitIndexUpdates } from "./unitIndex";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { publishEvent, EventType } from "./pubsub";
+import { COLONY_EVENTS_TOPIC } from "../colonyTiles";
+
+export const ANOMALIES_COLLECTION = 'colony/v1/anomalies';
+
+/**
+ * Apply an anomaly event to the unit that found it
+ * @param definition The event drawn from the table
+ * @param units The colony's units
+ * @param unit The unit exploring the anomaly
+ * @param position The anomaly's tile
+ * @param random Seeded random number generator, already used to draw the event
+ * @param now Current time in milliseconds
+ * @param newUnitId ID for any unit the event adds
+ * @returns The colony's units after the event and what the event did
+ */
+export function applyAnomalyEvent(
+  definition: AnomalyEventDefinition,
+  units: Unit[],
+  unit: Unit,
+  position: Coordinates,
+  random: () => number,
+  now: number,
+  newUnitId: string
+): { units: Unit[]; outcome: AnomalyOutcome } {
+  const outcome: AnomalyOutcome = {
+    resources: {},
+    unitsGained: [],
+    damagedUnitId: null,
+    levelsLost: 0,
+    unitDestroyed: false,
+    revealedArea: null
+  };
+  const { effect } = definition;
+
+  switch (effect.kind) {
+    case 'resource_cache': {
+      const amount = effect.minAmount + Math.floor(random() * (effect.maxAmount - effect.minAmount + 1));
+      outcome.resources = { [effect.resourceType]: amount };
+      return { units, outcome };
+    }
+    case 'derelict_ship': {
+      const ship: Ship = { id: newUnitId, type: UnitType.SHIP, position, level: effect.level, ownerUid: unit.ownerUid };
+      outcome.unitsGained = [ship];
+      return { units: [...units, ship], outcome };
+    }
+    case 'hazard': {
+      const level = unit.level || 1;
+      outcome.damagedUnitId = unit.id;
+      outcome.levelsLost = Math.min(level, effect.damage);
+      outcome.unitDestroyed = level <= effect.damage;
+
+      return {
+        units: outcome.unitDestroyed
+          ? units.filter(existing => existing.id !== unit.id)
+          : units.map(existing => existing.id === unit.id ? { ...existing, level: level - effect.damage } : existing),
+        outcome
+      };
+    }
+    case 'map_reveal':
+      outcome.revealedArea = { position, radius: effect.radius, expiresAt: now + effect.durationMinutes * 60000 };
+      return { units, outcome };
+  }
+}
+
+/**
+ * Trigger the anomalies a unit passes through for the first time
+ *
+ * This function:
+ * 1. Finds the anomaly tiles along the unit's path
+ * 2. For each one nobody has explored yet, draws an event from a seed fixed by the galaxy and tile
+ * 3. Applies the event to the colony and records it in colony/v1/anomalies in one transaction
+ * 4. Sends the explorer each event as a direct message
+ * Stops early if a hazard destroys the unit. Territory isn't recomputed here; callers do that
+ * once their own changes are in.
+ * @param path Tiles the unit entered, in order
+ * @param uid Player who owns the unit
+ * @param unitId The unit exploring
+ * @param tracker Read cost tracker for the calling function
+ * @returns The events triggered, in path order
+ */
+export async function resolveAnomaliesOnPath(
+  path: Coordinates[],
+  uid: string,
+  unitId: string,
+  tracker: ReadCostTracker
+): Promise<AnomalyEvent[]> {
+  const terrain = await loadTileTerrain(path, tracker);
+  const anomalyTiles = new Map(path
+    .filter(coords => terrain.get(toTileId(coords))?.trait === TileTrait.ANOMALY)
+    .map(coords => [toTileId(coords), coords]));
+
+  if (anomalyTiles.size === 0) {
+    return [];
+  }
+
+  const db = admin.firestore();
+  const coloniesRef = db.collection('colony/v1/colonies');
+  const galaxy = await getGalaxySettings(tracker);
+  const events: AnomalyEvent[] = [];
+
+  for (const [tileId, position] of anomalyTiles) {
+    const anomalyRef = db.doc(`${ANOMALIES_COLLECTION}/${tileId}`);
+
+    const event = await db.runTransaction(async (transaction) => {
+      const [anomalySnapshot, colonyQuery] = await Promise.all([
+        transaction.get(anomalyRef),
+        transaction.get(coloniesRef.where('uid', '==', uid))
+      ]);
+      tracker.trackRead('anomaly', 1);
+      tracker.trackRead('colonyQuery', colonyQuery.size);
+
+      // Each anomaly only triggers for the first unit to reach it
+      if (anomalySnapshot.exists || colonyQuery.empty) {
+        return null;
+      }
+
+      const colonyDoc = colonyQuery.docs[0];
+      const colony = colonyDoc.data() as Colony;
+      const units: Unit[] = colony.units || [];
+      const unit = units.find(existing => existing.id === unitId);
+      if (!unit) {
+        return null;
+      }
+
+      // The same anomaly always holds the same event, whoever finds it
+      const seed = hashSeed(`${galaxy.seed}:${tileId}`);
+      const random = createSeededRandom(seed);
+      const definition = drawAnomalyEvent(random);
+      const occurredAt = Date.now();
+      const applied = applyAnomalyEvent(
+        definition,
+        units,
+        unit,
+        position,
+        random,
+        occurredAt,
+        `${colonyDoc.id}-${UnitType.SHIP}-${coloniesRef.doc().id}`
+      );
+
+      const { outcome } = applied;
+      const revealedAreas: RevealedArea[] = (colony.revealedAreas || []).filter(area => area.expiresAt > occurredAt);
+      if (outcome.revealedArea) {
+        revealedAreas.push(outcome.revealedArea);
+      }
+
+      transaction.update(colonyDoc.ref, {
+        units: applied.units,
+        revealedAreas,
+        ...createStockpileUpdates(outcome.resources, 1)
+      });
+      const indexUpdates = getUnitIndexUpdates(colonyDoc.id, units, applied.units);
+      indexUpdates.forEach(({ ref, data }) => transaction.set(ref, data, { merge: true }));
+
+      const anomalyEvent: AnomalyEvent = {
+        id: tileId,
+        position,
+        eventId: definition.id,
+        name: definition.name,
+        description: definition.description,
+        kind: definition.effect.kind,
+        seed,
+        uid,
+        colonyId: colonyDoc.id,
+        unitId,
+        occurredAt,
+        outcome
+      };
+
+      transaction.set(anomalyRef, anomalyEvent);
+      tracker.trackWrite('anomalyUpdates', 2 + indexUpdates.length);
+
+      return anomalyEvent;
+    });
+
+    if (!event) continue;
+
+    logger.info(`[anomalies] ${event.name} at ${tileId} explored by ${uid}`);
+    events.push(event);
+
+    if (event.outcome.unitDestroyed) break;
+  }
+
+  await Promise.all(events.map(async event => {
+    const eventData = {
+      type: EventType.ANOMALY_EXPLORED,
+      timestamp: Date.now(),
+      payloadType: 'event',
+      payload: event,
+      colonyId: event.colonyId,
+      userId: uid
+    };
+
+    try {
+      await publishEvent(EventType.ANOMALY_EXPLORED, eventData, COLONY_EVENTS_TOPIC, 'direct', uid);
+    } catch (pubsubError) {
+      // Log the error but don't fail the exploration
+      logger.error("Error publishing to PubSub:", pubsubError);
+    }
+  }));
+
+  return events;
+}
@@ -1,13 +1,12 @@
 import * as admin from "firebase-admin";
 import { 
-  createNoiseGenerator, 
-  getNoiseForCoordinates, 
-  getTileTypeFromNoise,
   isWithinGalaxy,
   cubeDistance,
   TileType,
   GALAXY_RADIUS
 } from './noise';
+import { GalaxySettings } from '../types/galaxy';
+import { generateTileAt } from './galaxy';
 
 // Interface for colony locations
 interface ColonyLocation {
@@ -101,13 +100,14 @@ export function isValidSpawnLocation(
 
 /**
  * Find a suitable spawn location for a new colony
- * @param existingColonies Array of existing colony locations
+ * @param galaxy The galaxy settings, used to avoid spawning in barriers
  * @param minDistance Minimum distance from other colonies
  * @param maxDistance Maximum distance from other colonies
  * @param attempts Maximum number of attempts to find a location
  * @returns Coordinates for new colony spawn point or null if no valid location found
  */
 export async function findSpawnLocation(
+  galaxy: GalaxySettings,
   minDistance: number = 8,
   maxDistance: number = 25,
   attempts: number = 100
@@ -115,9 +115,6 @@ export async function findSpawnLocation(
   // Get existing colony locations
   const existingColonies = await getExistingColonyLocations();
   
-  // Create noise generator for this session
-  const noise2D = createNoiseGenerator();
-  
   // Find a valid location
   for (let i = 0; i < attempts; i++) {
     // Generate a random location within galaxy bounds
@@ -127,9 +124,8 @@ export async function findSpawnLocation(
     
     // Check if valid location (within bounds and meeting distance requirements)
     if (isValidSpawnLocation(q, r, s, existingColonies, minDistance, maxDistance)) {
-      // Get the noise value to determine tile type
-      const noiseValue = getNoiseForCoordinates(noise2D, q, r);
-      const tileType = getTileTypeFromNoise(noiseValue);
+      // Get the tile type from the galaxy seed
+      const tileType = generateTileAt(q, r, galaxy).type;
       
       // Don't spawn in barrier tiles
       if (tileType !== TileType.BARRIER) {
@@ -0,0 +1,299 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { Coordinates } from "../types/base";
+import { Colony } from "../types/colony";
+import { Ship, Unit, UnitType } from "../types/units";
+import { BattleReport, BattleShipResult, BattleSide } from "../types/battle";
+import { isWithinGalaxy, TileType } from "./noise";
+import { neighborOffsets, toTileId } from "./tileHelpers";
+import { loadTileTerrain } from "./tiles/tileOperations";
+import { getTerrainCost } from "../../../shared/pathfinding";
+import { createSeededRandom, hashSeed } from "./random";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { publishEvent, EventType } from "./pubsub";
+import { COLONY_EVENTS_TOPIC } from "../colonyTiles";
+import { gameConfig } from "../config";
+import { getUnitIndexUpdates, loadUnitsInAreas } from "./unitIndex";
+
+// A colony's ships on a contested tile
+export interface Combatant {
+  uid: string;
+  colonyId: string;
+  ships: Ship[];
+}
+
+// Outcome of an engagement, before it is persisted
+export interface EngagementResult {
+  sides: BattleSide[];
+  winnerUid: string;
+  winnerUids: string[];
+  results: BattleShipResult[];
+}
+
+const roundStat = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Find the ships standing on a tile
+ * @param units A colony's units
+ * @param position The tile
+ */
+export function getShipsAt(units: Unit[], position: Coordinates): Ship[] {
+  const tileId = toTileId(position);
+  return units.filter((unit): unit is Ship => unit.type === UnitType.SHIP && toTileId(unit.position) === tileId);
+}
+
+/**
+ * Resolve an engagement between ships from several colonies on one tile
+ *
+ * Each side's strength is the sum of its ship levels; defenders are boosted by the terrain.
+ * Strengths are swung by a seeded roll. Allied sides pool their rolls into a faction and the
+ * highest faction wins, with ties going to the defenders.
+ * Every losing ship is destroyed or retreats, and heavier defeats destroy more ships.
+ * @param combatants The ships each colony has on the tile
+ * @param attackerUid Player whose unit started the engagement
+ * @param tileType Type of the contested tile
+ * @param getRetreatOptions Tiles a player's losing ships can fall back to
+ * @param random Seeded random number generator
+ * @param getFaction Faction a player fights for; players without allies fight alone
+ * @returns The sides, winners and what happened to each ship
+ */
+export function resolveEngagement(
+  combatants: Combatant[],
+  attackerUid: string,
+  tileType: TileType,
+  getRetreatOptions: (uid: string) => Coordinates[],
+  random: () => number,
+  getFaction: (uid: string) => string = uid => uid
+): EngagementResult {
+  const { rollSpread, baseDestroyChance, maxDestroyChance, terrainDefenseModifiers } = gameConfig.combat;
+  const defenseModifier = terrainDefenseModifiers[tileType] ?? 1;
+
+  const sides: BattleSide[] = combatants.map(({ uid, colonyId, ships }) => {
+    const levels = ships.reduce((sum, ship) => sum + (ship.level || 1), 0);
+    const strength = roundStat(levels * (uid === attackerUid ? 1 : defenseModifier));
+    return {
+      uid,
+      colonyId,
+      ships: ships.map(ship => ({ id: ship.id, level: ship.level })),
+      strength,
+      roll: roundStat(strength * (1 - rollSpread / 2 + random() * rollSpread))
+    };
+  });
+
+  const factionRolls = new Map<string, number>();
+  sides.forEach(side => {
+    const faction = getFaction(side.uid);
+    factionRolls.set(faction, roundStat((factionRolls.get(faction) ?? 0) + side.roll));
+  });
+
+  const attackerFaction = getFaction(attackerUid);
+  const [winnerFaction, winnerRoll] = [...factionRolls.entries()].sort(([aFaction, aRoll], [bFaction, bRoll]) =>
+    bRoll - aRoll
+    || Number(aFaction === attackerFaction) - Number(bFaction === attackerFaction)
+    || aFaction.localeCompare(bFaction)
+  )[0];
+
+  // The strongest side of the winning faction is reported as the winner
+  const winningSides = sides.filter(side => getFaction(side.uid) === winnerFaction);
+  const winner = [...winningSides].sort((a, b) => b.roll - a.roll || a.uid.localeCompare(b.uid))[0];
+  const winnerUids = winningSides.map(side => side.uid);
+
+  const results: BattleShipResult[] = [];
+  combatants.forEach(({ uid, ships }) => {
+    if (winnerUids.includes(uid)) {
+      ships.forEach(ship => results.push({ unitId: ship.id, ownerUid: uid, outcome: 'survived' }));
+      return;
+    }
+
+    const factionRoll = factionRolls.get(getFaction(uid)) ?? 0;
+    const margin = winnerRoll > 0 ? 1 - factionRoll / winnerRoll : 1;
+    const destroyChance = Math.min(maxDestroyChance, baseDestroyChance + margin);
+    const retreatOptions = getRetreatOptions(uid);
+
+    ships.forEach(ship => {
+      if (retreatOptions.length === 0 || random() < destroyChance) {
+        results.push({ unitId: ship.id, ownerUid: uid, outcome: 'destroyed' });
+        return;
+      }
+
+      const retreatedTo = retreatOptions[Math.floor(random() * retreatOptions.length)];
+      results.push({ unitId: ship.id, ownerUid: uid, outcome: 'retreated', retreatedTo });
+    });
+  });
+
+  return { sides, winnerUid: winner.uid, winnerUids, results };
+}
+
+/**
+ * Apply battle results to a colony's units
+ * @param units The colony's units
+ * @param results What happened to each ship in the battle
+ * @returns Units with destroyed ships removed and retreating ships moved
+ */
+export function applyBattleResults(units: Unit[], results: BattleShipResult[]): Unit[] {
+  const resultsById = new Map(results.map(result => [result.unitId, result]));
+
+  return units.flatMap(unit => {
+    const result = resultsById.get(unit.id);
+    if (!result || result.outcome === 'survived') return [unit];
+    if (result.outcome === 'destroyed') return [];
+    return [{ ...unit, position: result.retreatedTo! }];
+  });
+}
+
+/**
+ * Count the factions among a set of colonies, treating each alliance as one faction
+ * @param colonies The colonies
+ */
+function countFactions(colonies: Pick<Colony, 'uid' | 'allianceId'>[]): number {
+  return new Set(colonies.map(colony => colony.allianceId || colony.uid)).size;
+}
+
+/**
+ * Fight a battle on a tile if ships from more than one faction are there
+ * Allied ships never fight each other; they fight together against anyone else.
+ *
+ * This function:
+ * 1. Finds the ships on and around the tile through the unit index, and reads their colonies, in a transaction
+ * 2. Works out where losing ships could retreat to from those same reads
+ * 3. Resolves the engagement in the transaction, updating each colony's units and the unit index
+ * 4. Stores a battle report in colony/v1/battles
+ * 5. Sends each participant the report as a direct message
+ * Territory isn't recomputed here; callers do that once their own changes are in.
+ * @param position The tile to check
+ * @param attackerUid Player whose unit just arrived on the tile
+ * @param tracker Read cost tracker for the calling function
+ * @returns The battle report, or null if there was nobody to fight
+ */
+export async function resolveCombatAt(
+  position: Coordinates,
+  attackerUid: string,
+  tracker: ReadCostTracker
+): Promise<BattleReport | null> {
+  const db = admin.firestore();
+  const coloniesRef = db.collection('colony/v1/colonies');
+  const battleRef = db.collection('colony/v1/battles').doc();
+  const tileId = toTileId(position);
+
+  // Losing ships fall back to passable neighbours that don't hold hostile ships
+  const neighbors = neighborOffsets
+    .map(offset => ({ q: position.q + offset.q, r: position.r + offset.r, s: position.s + offset.s }))
+    .filter(coords => isWithinGalaxy(coords.q, coords.r, coords.s));
+
+  // Read who is on the tile and around it in a transaction so nobody moves away mid-battle
+  const report = await db.runTransaction(async (transaction) => {
+    const nearbyShips = (await loadUnitsInAreas([{ center: position, radius: 1 }], tracker, transaction))
+      .filter(unit => unit.type === UnitType.SHIP);
+    const colonyIdsOnTile = new Set(nearbyShips
+      .filter(ship => toTileId(ship) === tileId)
+      .map(ship => ship.colonyId));
+
+    if (colonyIdsOnTile.size < 2) {
+      return null;
+    }
+
+    // Read every colony with ships nearby, for the fight and for their alliances
+    const colonyIds = Array.from(new Set(nearbyShips.map(ship => ship.colonyId)));
+    const snapshots = await transaction.getAll(...colonyIds.map(colonyId => coloniesRef.doc(colonyId)));
+    tracker.trackRead('combatColonies', snapshots.length);
+
+    const colonies = snapshots
+      .filter(snapshot => snapshot.exists)
+      .map(snapshot => ({ id: snapshot.id, ...snapshot.data() } as Colony));
+    const factions = new Map(colonies.map(colony => [colony.uid, colony.allianceId || colony.uid]));
+    const getFaction = (uid: string) => factions.get(uid) ?? uid;
+
+    const combatants: (Combatant & { units: Unit[]; ref: admin.firestore.DocumentReference })[] = colonies
+      .filter(colony => colonyIdsOnTile.has(colony.id))
+      .map(colony => {
+        const units = colony.units || [];
+        return {
+          uid: colony.uid,
+          colonyId: colony.id,
+          ships: getShipsAt(units, position),
+          units,
+          ref: coloniesRef.doc(colony.id)
+        };
+      })
+      .filter(combatant => combatant.ships.length > 0);
+
+    if (countFactions(colonies.filter(colony => colonyIdsOnTile.has(colony.id))) < 2) {
+      return null;
+    }
+
+    // Terrain never changes, so it doesn't need reading in the transaction
+    const terrain = await loadTileTerrain([position, ...neighbors], tracker);
+    const tileType = terrain.get(tileId)?.type ?? TileType.NORMAL;
+
+    const getRetreatOptions = (uid: string) => neighbors.filter(coords =>
+      getTerrainCost(terrain.get(toTileId(coords))?.type ?? TileType.NORMAL) !== null &&
+      !nearbyShips.some(ship => getFaction(ship.ownerUid) !== getFaction(uid) && toTileId(ship) === toTileId(coords))
+    );
+
+    const occurredAt = Date.now();
+    const seed = hashSeed(`${battleRef.id}:${occurredAt}`);
+    const { sides, winnerUid, winnerUids, results } = resolveEngagement(
+      combatants,
+      attackerUid,
+      tileType,
+      getRetreatOptions,
+      createSeededRandom(seed),
+      getFaction
+    );
+
+    let indexWrites = 0;
+    combatants.forEach(combatant => {
+      const units = applyBattleResults(combatant.units, results);
+      transaction.update(combatant.ref, { units });
+      const indexUpdates = getUnitIndexUpdates(combatant.colonyId, combatant.units, units);
+      indexUpdates.forEach(({ ref, data }) => transaction.set(ref, data, { merge: true }));
+      indexWrites += indexUpdates.length;
+    });
+
+    const battle: BattleReport = {
+      id: battleRef.id,
+      position,
+      tileType,
+      occurredAt,
+      seed,
+      attackerUid,
+      participantUids: combatants.map(combatant => combatant.uid),
+      sides,
+      winnerUid,
+      winnerUids,
+      results
+    };
+
+    transaction.set(battleRef, battle);
+    tracker.trackWrite('battleUpdates', combatants.length + indexWrites + 1);
+
+    return battle;
+  });
+
+  if (!report) {
+    return null;
+  }
+
+  logger.info(`[combat] Battle ${report.id} at ${toTileId(position)} won by ${report.winnerUid}`);
+
+  // Each participant gets the report directly
+  await Promise.all(report.sides.map(async side => {
+    const eventData = {
+      type: EventType.BATTLE_RESOLVED,
+      timestamp: Date.now(),
+      payloadType: 'battle',
+      payload: report,
+      colonyId: side.colonyId,
+      userId: side.uid
+    };
+
+    try {
+      await publishEvent(EventType.BATTLE_RESOLVED, eventData, COLONY_EVENTS_TOPIC, 'direct', side.uid);
+    } catch (pubsubError) {
+      // Log the error but don't fail the battle
+      logger.error("Error publishing to PubSub:", pubsubError);
+    }
+  }));
+
+  return report;
+}
@@ -0,0 +1,368 @@
+import { HttpsError } from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { Coordinates } from "../types/base";
+import { Colony, ConstructionOrder } from "../types/colony";
+import { Base, BaseTier, Relay, Unit, UnitType } from "../types/units";
+import { isTileAdjacentToColony, toTileId } from "./tileHelpers";
+import { getBaseSpacingError, STRUCTURE_UNIT_TYPES } from "./placement";
+import { getInfluenceArea, getPresenceArea, recomputeTerritory } from "./territory";
+import { getPlannedBaseUpdate, getUnitIndexUpdates, loadBaseSitesNear } from "./unitIndex";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { EventType } from "./pubsub";
+import { publishToViewers } from "./events";
+import { COLONY_EVENTS_TOPIC } from "../colonyTiles";
+import { gameConfig } from "../config";
+
+// A construction order that finished, with the structure it produced
+export interface CompletedConstruction {
+  order: ConstructionOrder;
+  unit: Base | Relay;
+}
+
+/**
+ * Look up the stats for a base tier
+ * @param level Level of the tier
+ * @returns The tier, or undefined if there is no such tier
+ */
+export function getBaseTier(level: number): BaseTier | undefined {
+  return gameConfig.bases.tiers.find(tier => tier.level === level);
+}
+
+/**
+ * Check whether a stockpile can pay a cost
+ * @param stockpile The colony's stockpile
+ * @param cost Resources required
+ * @returns A description of what is missing, or null if the cost can be paid
+ */
+export function getMissingResourcesError(stockpile: Record<string, number> = {}, cost: Record<string, number>): string | null {
+  const missing = Object.entries(cost)
+    .filter(([resourceType, amount]) => (stockpile[resourceType] || 0) < amount)
+    .map(([resourceType, amount]) => `${Math.ceil(amount - (stockpile[resourceType] || 0))} ${resourceType}`);
+
+  return missing.length > 0 ? `Not enough resources: need ${missing.join(', ')} more` : null;
+}
+
+/**
+ * Build stockpile field updates that add (or with a negative sign, remove) a cost
+ * Increments are used so the economy tick can't lose resources when both write at once.
+ * @param cost Resources to add or remove
+ * @param sign 1 to refund, -1 to spend
+ */
+export function createStockpileUpdates(cost: Record<string, number>, sign: 1 | -1): Record<string, admin.firestore.FieldValue> {
+  return Object.fromEntries(
+    Object.entries(cost).map(([resourceType, amount]) => [
+      `stockpile.${resourceType}`,
+      admin.firestore.FieldValue.increment(sign * amount)
+    ])
+  );
+}
+
+/**
+ * Get the time the next order in a queue completes
+ * @param queue Construction queue
+ * @returns The earliest completion time, or null for an empty queue
+ */
+export function getNextConstructionAt(queue: ConstructionOrder[]): number | null {
+  return queue.length > 0 ? Math.min(...queue.map(order => order.completesAt)) : null;
+}
+
+/**
+ * Add an order to a colony's construction queue, paying for it from the stockpile
+ * @param transaction The running transaction
+ * @param colonyRef Reference to the colony document
+ * @param colony The colony data read in the transaction
+ * @param order The new order
+ */
+export function queueConstruction(
+  transaction: admin.firestore.Transaction,
+  colonyRef: admin.firestore.DocumentReference,
+  colony: Colony,
+  order: ConstructionOrder
+): void {
+  const queue = colony.constructionQueue || [];
+
+  if (queue.length >= gameConfig.bases.maxQueueLength) {
+    throw new HttpsError(
+      'resource-exhausted',
+      `You can only have ${gameConfig.bases.maxQueueLength} constructions in progress`
+    );
+  }
+
+  const missingResources = getMissingResourcesError(colony.stockpile, order.cost);
+  if (missingResources) {
+    throw new HttpsError('failed-precondition', missingResources);
+  }
+
+  const updatedQueue = [...queue, order];
+  transaction.update(colonyRef, {
+    ...createStockpileUpdates(order.cost, -1),
+    constructionQueue: updatedQueue,
+    nextConstructionAt: getNextConstructionAt(updatedQueue)
+  });
+
+  // A base being built already counts towards everyone else's spacing
+  if (isBaseBuildOrder(order)) {
+    const { ref, data } = getPlannedBaseUpdate(order, colonyRef.id, colony.uid, true);
+    transaction.set(ref, data, { merge: true });
+  }
+}
+
+/**
+ * Get the type of structure a build order produces
+ * @param order A build order
+ */
+export function getOrderUnitType(order: ConstructionOrder): UnitType.BASE | UnitType.RELAY {
+  return order.unitType ?? UnitType.BASE;
+}
+
+/**
+ * Check whether an order builds a new base
+ * @param order A construction order
+ */
+export function isBaseBuildOrder(order: ConstructionOrder): boolean {
+  return order.kind === 'build' && getOrderUnitType(order) === UnitType.BASE;
+}
+
+/**
+ * Check whether a structure already stands on a position
+ */
+function isStructureAt(units: Unit[], position: Coordinates): boolean {
+  return units.some(unit =>
+    STRUCTURE_UNIT_TYPES.includes(unit.type) && toTileId(unit.position) === toTileId(position)
+  );
+}
+
+/**
+ * Check whether a relay can be built on a position
+ * Relays only link while they stand in their owner's territory, so they must be built inside it.
+ * @param position Where the relay would go
+ * @param colony The colony building it
+ * @param territory Tiles around the position that the colony controls
+ * @returns A reason the site is unsuitable, or null if the relay can be built there
+ */
+export function getRelaySiteError(position: Coordinates, colony: Colony, territory: ReadonlySet<string>): string | null {
+  if (!territory.has(toTileId(position))) {
+    return 'Relays must be built inside your territory';
+  }
+
+  const isPlanned = (colony.constructionQueue || []).some(order =>
+    order.kind === 'build' && toTileId(order.position) === toTileId(position)
+  );
+  if (isStructureAt(colony.units || [], position) || isPlanned) {
+    return 'There is already a structure on this tile';
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a new base can be built on a position
+ * @param position Where the base would go
+ * @param colony The colony building it
+ * @param territory Tiles around the position that the colony controls
+ * @param basePositions Every existing and planned base within spacing of the position
+ * @returns A reason the site is unsuitable, or null if the base can be built there
+ */
+export function getBaseSiteError(
+  position: Coordinates,
+  colony: Colony,
+  territory: ReadonlySet<string>,
+  basePositions: Coordinates[]
+): string | null {
+  const { q, r, s } = position;
+  const tileIds = Array.from(territory);
+
+  if (!territory.has(toTileId(position)) && !isTileAdjacentToColony(q, r, s, tileIds)) {
+    return 'Bases must be built inside or next to your territory';
+  }
+
+  if (isStructureAt(colony.units || [], position)) {
+    return 'There is already a structure on this tile';
+  }
+
+  return getBaseSpacingError(position, basePositions);
+}
+
+/**
+ * Apply a finished construction order to a colony's units
+ * @param order The finished order
+ * @param units The colony's current units
+ * @param ownerUid Firebase user ID of the colony owner
+ * @returns The updated units and the finished structure, or null if the order can no longer complete
+ */
+export function applyConstructionOrder(
+  order: ConstructionOrder,
+  units: Unit[],
+  ownerUid: string
+): { units: Unit[]; unit: Base | Relay } | null {
+  if (order.kind === 'build' && getOrderUnitType(order) === UnitType.RELAY) {
+    if (isStructureAt(units, order.position)) return null;
+
+    const relay: Relay = {
+      id: order.unitId,
+      type: UnitType.RELAY,
+      position: order.position,
+      level: order.targetLevel,
+      ownerUid,
+      range: gameConfig.relays.range
+    };
+    return { units: [...units, relay], unit: relay };
+  }
+
+  const tier = getBaseTier(order.targetLevel);
+  if (!tier) return null;
+
+  if (order.kind === 'build') {
+    // Something else was placed on the site while it was being built
+    if (isStructureAt(units, order.position)) return null;
+
+    const base: Base = {
+      id: order.unitId,
+      type: UnitType.BASE,
+      position: order.position,
+      level: tier.level,
+      ownerUid,
+      influenceRadius: tier.influenceRadius
+    };
+    return { units: [...units, base], unit: base };
+  }
+
+  const existing = units.find(unit => unit.id === order.unitId);
+  if (!existing || existing.type !== UnitType.BASE || existing.level !== tier.level - 1) return null;
+
+  const upgraded: Base = { ...existing, level: tier.level, influenceRadius: tier.influenceRadius };
+  return {
+    units: units.map(unit => (unit.id === upgraded.id ? upgraded : unit)),
+    unit: upgraded
+  };
+}
+
+/**
+ * Complete every construction order that has finished
+ *
+ * This function:
+ * 1. Finds colonies whose next construction is due
+ * 2. Applies each due order in a transaction, refunding orders that can no longer complete
+ * 3. Recomputes territory around every structure built or upgraded
+ * 4. Publishes a CONSTRUCTION_COMPLETED event for each finished order to its owner and the players who can see it
+ * @param tracker Read cost tracker for the calling function
+ * @param now Current time in milliseconds
+ * @returns The orders that completed
+ */
+export async function completeDueConstruction(
+  tracker: ReadCostTracker,
+  now: number = Date.now()
+): Promise<CompletedConstruction[]> {
+  const db = admin.firestore();
+  const dueSnapshot = await db.collection('colony/v1/colonies')
+    .where('nextConstructionAt', '<=', now)
+    .get();
+  tracker.trackRead('dueConstruction', dueSnapshot.size);
+
+  const completed: (CompletedConstruction & { colonyId: string; uid: string })[] = [];
+
+  for (const colonyDoc of dueSnapshot.docs) {
+    try {
+      const colonyResults = await db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(colonyDoc.ref);
+        tracker.trackRead('constructionColony', 1);
+
+        const colony = { id: snapshot.id, ...snapshot.data() } as Colony;
+        const queue = colony.constructionQueue || [];
+        const pending = queue.filter(order => order.completesAt > now);
+        const refunds: Record<string, number> = {};
+        const results: CompletedConstruction[] = [];
+        let units = colony.units || [];
+        const due = queue
+          .filter(order => order.completesAt <= now)
+          .sort((a, b) => a.completesAt - b.completesAt);
+
+        // Another base may have been placed near a site while it was being built
+        const dueBaseBuilds = due.filter(isBaseBuildOrder);
+        const nearbyBases = new Map<string, Coordinates[]>();
+        for (const order of dueBaseBuilds) {
+          const sites = await loadBaseSitesNear(order.position, gameConfig.bases.minBaseSpacing - 1, tracker, transaction);
+          nearbyBases.set(order.id, sites
+            .filter(site => site.unitId !== order.unitId)
+            .map(site => ({ q: site.q, r: site.r, s: site.s })));
+        }
+
+        due.forEach(order => {
+          const spacingError = getBaseSpacingError(order.position, nearbyBases.get(order.id) ?? []);
+          const result = spacingError ? null : applyConstructionOrder(order, units, colony.uid);
+          if (result) {
+            units = result.units;
+            results.push({ order, unit: result.unit });
+            return;
+          }
+
+          logger.warn(`[construction] Order ${order.id} for colony ${colony.id} could not complete; refunding`);
+          Object.entries(order.cost).forEach(([resourceType, amount]) => {
+            refunds[resourceType] = (refunds[resourceType] || 0) + amount;
+          });
+        });
+
+        transaction.update(colonyDoc.ref, {
+          ...createStockpileUpdates(refunds, 1),
+          units,
+          constructionQueue: pending,
+          nextConstructionAt: getNextConstructionAt(pending)
+        });
+        const indexUpdates = [
+          ...getUnitIndexUpdates(colony.id, colony.units || [], units),
+          ...dueBaseBuilds.map(order => getPlannedBaseUpdate(order, colony.id, colony.uid, false))
+        ];
+        indexUpdates.forEach(({ ref, data }) => transaction.set(ref, data, { merge: true }));
+        tracker.trackWrite('constructionUpdate', 1 + indexUpdates.length);
+
+        return results.map(result => ({ ...result, colonyId: colony.id, uid: colony.uid }));
+      });
+
+      completed.push(...colonyResults);
+    } catch (error) {
+      // One bad colony shouldn't hold up everyone else's construction
+      logger.error(`Error completing construction for colony ${colonyDoc.id}:`, error);
+    }
+  }
+
+  if (completed.length === 0) {
+    return completed;
+  }
+
+  // New and upgraded bases change influence, so territory needs recomputing
+  try {
+    await recomputeTerritory(completed.map(({ unit }) =>
+      unit.type === UnitType.BASE ? getInfluenceArea(unit.position) : getPresenceArea(unit.position)
+    ), tracker);
+  } catch (territoryError) {
+    // The construction is already committed, so log the error rather than failing it
+    logger.error("Error recomputing territory:", territoryError);
+  }
+
+  try {
+    await publishToViewers(EventType.CONSTRUCTION_COMPLETED, completed.map(({ order, unit, colonyId, uid }) => {
+      const eventData = {
+        type: EventType.CONSTRUCTION_COMPLETED,
+        timestamp: Date.now(),
+        payloadType: 'building',
+        payload: { order, unit },
+        colonyId,
+        userId: uid
+      };
+
+      return {
+        positions: [unit.position],
+        participantUids: [uid],
+        data: eventData,
+        // Other players see the building go up, but not the order behind it
+        getViewerData: () => ({ ...eventData, payload: { unit } })
+      };
+    }), COLONY_EVENTS_TOPIC, tracker);
+  } catch (pubsubError) {
+    // Log the error but don't fail the job
+    logger.error("Error publishing to PubSub:", pubsubError);
+  }
+
+  return completed.map(({ order, unit }) => ({ order, unit }));
+}
@@ -0,0 +1,203 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { Colony, ColonyTile, LedgerEntry } from "../types/colony";
+import { MiningSite, UnitType } from "../types/units";
+import { TileType } from "./noise";
+import { toTileId } from "./tileHelpers";
+import { getChunkTileUpdate } from "./tiles/chunks";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { applyResearchPoints, calculateResearchPoints, getResearchState } from "./research";
+import { gameConfig } from "../config";
+
+// Result of extracting from a single mining site for one tick
+export interface SiteYield {
+  resourceType: string;
+  amount: number;
+  remainingReserve: number;
+}
+
+// Summary of an economy tick across all colonies
+export interface EconomyTickSummary {
+  coloniesUpdated: number;
+  produced: Record<string, number>;
+  techsCompleted: number;
+}
+
+// Output of a single colony's economy tick
+interface ColonyTickResult {
+  produced: Record<string, number>;
+  completedTechId: string | null;
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Get the reserve a tile starts with before it has ever been mined
+ * @param tile The tile being mined
+ */
+export function getInitialReserve(tile: ColonyTile): number {
+  return Math.round(gameConfig.economy.initialTileReserve * (tile.resourceDensity ?? 0));
+}
+
+/**
+ * Calculate what a mining site extracts from its tile in one tick
+ * The site's extraction rate already accounts for resource density; the tile type scales it further.
+ * @param site The mining site
+ * @param tile The tile it stands on
+ * @returns The amount extracted and what is left in the tile
+ */
+export function calculateSiteYield(site: MiningSite, tile: ColonyTile): SiteYield {
+  const { tileTypeYieldMultipliers } = gameConfig.economy;
+  const reserve = tile.resources?.[site.resourceType] ?? getInitialReserve(tile);
+  const multiplier = tileTypeYieldMultipliers[tile.type] ?? tileTypeYieldMultipliers[TileType.NORMAL];
+  const amount = roundAmount(Math.min(reserve, site.extractionRate * multiplier));
+
+  return {
+    resourceType: site.resourceType,
+    amount,
+    remainingReserve: roundAmount(reserve - amount)
+  };
+}
+
+/**
+ * Run one economy tick for a single colony
+ * Runs in a transaction so completing a tech can't overwrite a research target chosen since the colony was loaded.
+ * @param colonyRef Reference to the colony document
+ * @param tickAt Time of the tick in milliseconds
+ * @param tracker Read cost tracker for the calling function
+ * @returns Resources produced and any tech completed by the colony this tick
+ */
+async function tickColony(
+  colonyRef: admin.firestore.DocumentReference,
+  tickAt: number,
+  tracker: ReadCostTracker
+): Promise<ColonyTickResult> {
+  const db = admin.firestore();
+
+  const result = await db.runTransaction(async (transaction) => {
+    const colonySnapshot = await transaction.get(colonyRef);
+    tracker.trackRead('economyColony', 1);
+
+    if (!colonySnapshot.exists) {
+      return { produced: {}, completedTechId: null };
+    }
+
+    const colony = { id: colonySnapshot.id, ...colonySnapshot.data() } as Colony;
+    const sites = (colony.units || []).filter(
+      (unit): unit is MiningSite => unit.type === UnitType.MINING_SITE
+    );
+
+    const tileRefs = sites.map(site => db.doc(`colony/v1/tiles/${toTileId(site.position)}`));
+    const tileSnapshots = tileRefs.length > 0 ? await transaction.getAll(...tileRefs) : [];
+    tracker.trackRead('miningTiles', tileSnapshots.length);
+
+    const produced: Record<string, number> = {};
+    const depletedTiles: string[] = [];
+
+    sites.forEach((site, index) => {
+      const snapshot = tileSnapshots[index];
+      if (!snapshot.exists) return;
+
+      const tile = snapshot.data() as ColonyTile;
+      const { resourceType, amount, remainingReserve } = calculateSiteYield(site, tile);
+
+      produced[resourceType] = roundAmount((produced[resourceType] || 0) + amount);
+      transaction.update(snapshot.ref, { [`resources.${resourceType}`]: remainingReserve });
+      const chunkUpdate = getChunkTileUpdate(site.position, { resources: { [resourceType]: remainingReserve } });
+      transaction.set(chunkUpdate.ref, chunkUpdate.data, { merge: true });
+
+      if (remainingReserve <= 0 && amount > 0) {
+        depletedTiles.push(tile.id);
+      }
+    });
+
+    // Increment rather than overwrite so other writers can't lose resources
+    const stockpileUpdates = Object.fromEntries(
+      Object.entries(produced).map(([resourceType, amount]) => [
+        `stockpile.${resourceType}`,
+        admin.firestore.FieldValue.increment(amount)
+      ])
+    );
+
+    const researchPoints = calculateResearchPoints(colony);
+    const { updates: researchUpdates, completedTechId } = applyResearchPoints(
+      getResearchState(colony),
+      researchPoints
+    );
+
+    transaction.update(colonyRef, {
+      ...stockpileUpdates,
+      ...researchUpdates,
+      resourceRates: produced,
+      researchRate: researchPoints,
+      lastEconomyTickAt: tickAt
+    });
+
+    const ledgerEntry: LedgerEntry = { tickAt, produced, depletedTiles, researchPoints, completedTechId };
+    transaction.set(colonyRef.collection('ledger').doc(String(tickAt)), ledgerEntry);
+    tracker.trackWrite('economyUpdates', sites.length * 2 + 2);
+
+    return { produced, completedTechId };
+  });
+
+  if (result.completedTechId) {
+    logger.info(`[economyTick] Colony ${colonyRef.id} completed research on ${result.completedTechId}`);
+  }
+
+  return result;
+}
+
+/**
+ * Run one economy tick across every colony
+ *
+ * This function:
+ * 1. Loads every colony and skips those with no mining or research sites
+ * 2. Extracts resources from each mining site's tile and depletes its reserve
+ * 3. Adds the output to the colony stockpile and records the per-tick rates
+ * 4. Adds research site output to the active tech and completes it when paid for
+ * 5. Writes a ledger entry for the tick
+ * @param tracker Read cost tracker for the calling function
+ * @param tickAt Time of the tick in milliseconds
+ * @returns Summary of the tick
+ */
+export async function runEconomyTick(
+  tracker: ReadCostTracker,
+  tickAt: number = Date.now()
+): Promise<EconomyTickSummary> {
+  const coloniesSnapshot = await admin.firestore().collection('colony/v1/colonies').get();
+  tracker.trackRead('economyColonies', coloniesSnapshot.size);
+
+  const summary: EconomyTickSummary = { coloniesUpdated: 0, produced: {}, techsCompleted: 0 };
+
+  for (const colonyDoc of coloniesSnapshot.docs) {
+    const colony = { id: colonyDoc.id, ...colonyDoc.data() } as Colony;
+    const hasSites = (colony.units || []).some(unit =>
+      unit.type === UnitType.MINING_SITE || unit.type === UnitType.RESEARCH_SITE
+    );
+    const hasStaleRates = Object.keys(colony.resourceRates || {}).length > 0 || !!colony.researchRate;
+
+    if (!hasSites) {
+      // Clear rates left over from sites the colony no longer has
+      if (hasStaleRates) {
+        await colonyDoc.ref.update({ resourceRates: {}, researchRate: 0 });
+        tracker.trackWrite('clearRates', 1);
+      }
+      continue;
+    }
+
+    try {
+      const { produced, completedTechId } = await tickColony(colonyDoc.ref, tickAt, tracker);
+      summary.coloniesUpdated++;
+      if (completedTechId) summary.techsCompleted++;
+
+      Object.entries(produced).forEach(([resourceType, amount]) => {
+        summary.produced[resourceType] = roundAmount((summary.produced[resourceType] || 0) + amount);
+      });
+    } catch (error) {
+      // One bad colony shouldn't stop the rest of the galaxy from ticking
+      logger.error(`Error running economy tick for colony ${colony.id}:`, error);
+    }
+  }
+
+  return summary;
+}
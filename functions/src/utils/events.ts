@@ -0,0 +1,59 @@
+import * as logger from "firebase-functions/logger";
+import { Coordinates } from "../types/base";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { EventType, publishEvent } from "./pubsub";
+import { toTileId } from "./tileHelpers";
+import { findViewers } from "./visibility";
+
+// An event that happens on some tiles, and who it concerns
+export interface ScopedEvent {
+  positions: Coordinates[];       // Tiles the event happens on
+  participantUids: string[];      // Players who get the full event whatever they can see; empty IDs are skipped
+  data: Record<string, unknown>;  // The full event
+  // The event as sent to a player who only sees some of the tiles; they get the full event when missing
+  getViewerData?: (visibleTileIds: Set<string>) => Record<string, unknown>;
+}
+
+/**
+ * Publish events directly to the players involved and to the other players who can see them
+ * Nothing is broadcast, so players don't hear about what happens under their fog of war.
+ * Viewers are found once for all the events, so publish related events together.
+ * @param eventType Type of the events
+ * @param events The events
+ * @param topicName Topic to publish to
+ * @param tracker Read cost tracker for the calling function
+ */
+export async function publishToViewers(
+  eventType: EventType,
+  events: ScopedEvent[],
+  topicName: string,
+  tracker: ReadCostTracker
+): Promise<void> {
+  if (events.length === 0) return;
+
+  const viewers = await findViewers(events.flatMap(event => event.positions), tracker);
+
+  await Promise.all(events.flatMap(event => {
+    const participants = new Set(event.participantUids.filter(uid => uid));
+    const tileIds = event.positions.map(toTileId);
+    const deliveries = Array.from(participants).map(uid => ({ uid, data: event.data }));
+
+    viewers.forEach((seen, uid) => {
+      if (participants.has(uid)) return;
+
+      const visibleTileIds = new Set(tileIds.filter(tileId => seen.has(tileId)));
+      if (visibleTileIds.size === 0) return;
+
+      deliveries.push({ uid, data: event.getViewerData ? event.getViewerData(visibleTileIds) : event.data });
+    });
+
+    return deliveries.map(async ({ uid, data }) => {
+      try {
+        await publishEvent(eventType, data, topicName, 'direct', uid);
+      } catch (pubsubError) {
+        // Log the error and keep delivering to everyone else
+        logger.error("Error publishing to PubSub:", pubsubError);
+      }
+    });
+  }));
+}
@@ -0,0 +1,155 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { NoiseFunction2D } from "simplex-noise";
+import { Coordinates } from "../types/base";
+import { GalaxySettings, ProceduralTile, TileTerrain } from "../types/galaxy";
+import {
+  calculateResourceDensity,
+  createNoiseGenerator,
+  DEFAULT_NOISE_THRESHOLDS,
+  DEFAULT_TRAIT_THRESHOLDS,
+  GALAXY_RADIUS,
+  GALAXY_SCALE,
+  getNoiseForCoordinates,
+  getTileTraitFromNoise,
+  getTileTypeFromNoise,
+  isWithinGalaxy,
+  TileType,
+  TRAIT_SCALE
+} from "./noise";
+import { createSeededRandom, hashSeed } from "./random";
+import { getCoordinatesInRadius, toTileId } from "./tileHelpers";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+
+// Bump when tile generation changes in a way that alters existing coordinates
+// Version 2 added the trait layer; version 1 galaxies generate traits with the default settings
+export const GALAXY_VERSION = 2;
+
+// Terrain assumed for tiles nothing is known about
+export const DEFAULT_TERRAIN: TileTerrain = { type: TileType.NORMAL, trait: null };
+
+const GALAXY_SETTINGS_PATH = 'colony/v1/galaxy/settings';
+
+// Firestore error code for creating a document that already exists
+const ALREADY_EXISTS = 6;
+
+// Settings never change once created, so each instance only reads them once
+let cachedSettings: GalaxySettings | null = null;
+const noiseGenerators = new Map<number, NoiseFunction2D>();
+
+/**
+ * Create galaxy settings with a fresh random seed
+ * @returns Settings for a new galaxy
+ */
+export function createGalaxySettings(): GalaxySettings {
+  return {
+    seed: Math.floor(Math.random() * 0x100000000),
+    radius: GALAXY_RADIUS,
+    scale: GALAXY_SCALE,
+    thresholds: { ...DEFAULT_NOISE_THRESHOLDS },
+    traitScale: TRAIT_SCALE,
+    traitThresholds: { ...DEFAULT_TRAIT_THRESHOLDS },
+    version: GALAXY_VERSION,
+    createdAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Get the galaxy settings, creating them the first time they are needed
+ * If two instances race to create the settings, the loser re-reads the winner's document.
+ * @param tracker Read cost tracker for the calling function
+ * @returns The galaxy settings
+ */
+export async function getGalaxySettings(tracker: ReadCostTracker): Promise<GalaxySettings> {
+  if (cachedSettings) return cachedSettings;
+
+  const settingsRef = admin.firestore().doc(GALAXY_SETTINGS_PATH);
+  const snapshot = await settingsRef.get();
+  tracker.trackRead('galaxySettings', 1);
+
+  if (snapshot.exists) {
+    cachedSettings = snapshot.data() as GalaxySettings;
+    return cachedSettings;
+  }
+
+  const settings = createGalaxySettings();
+  try {
+    await settingsRef.create(settings);
+    tracker.trackWrite('galaxySettings', 1);
+    logger.info(`[galaxy] Created galaxy settings with seed ${settings.seed}`);
+    cachedSettings = settings;
+  } catch (error) {
+    if ((error as { code?: number }).code !== ALREADY_EXISTS) throw error;
+
+    const existing = await settingsRef.get();
+    tracker.trackRead('galaxySettings', 1);
+    cachedSettings = existing.data() as GalaxySettings;
+  }
+
+  return cachedSettings;
+}
+
+/**
+ * Get the noise function for a galaxy seed, reusing it across calls
+ * @param seed The galaxy seed
+ */
+function getNoiseGenerator(seed: number): NoiseFunction2D {
+  let noise2D = noiseGenerators.get(seed);
+  if (!noise2D) {
+    noise2D = createNoiseGenerator(seed);
+    noiseGenerators.set(seed, noise2D);
+  }
+  return noise2D;
+}
+
+/**
+ * Generate the terrain of a tile from the galaxy seed
+ * This is pure: the same settings and coordinates always produce the same tile.
+ * @param q Q coordinate (cube)
+ * @param r R coordinate (cube)
+ * @param galaxy The galaxy settings
+ * @returns The procedural tile
+ */
+export function generateTileAt(q: number, r: number, galaxy: GalaxySettings): ProceduralTile {
+  const s = -q - r;
+  const id = toTileId({ q, r, s });
+  const noiseValue = getNoiseForCoordinates(getNoiseGenerator(galaxy.seed), q, r, galaxy.scale);
+  const type = getTileTypeFromNoise(noiseValue, galaxy.thresholds);
+
+  // Traits come from a second channel with its own seed, plus a per-tile roll for point features
+  const traitNoise = getNoiseForCoordinates(
+    getNoiseGenerator(hashSeed(`${galaxy.seed}:traits`)),
+    q,
+    r,
+    galaxy.traitScale ?? TRAIT_SCALE
+  );
+  const roll = createSeededRandom(hashSeed(`${galaxy.seed}:${id}`))();
+  const trait = getTileTraitFromNoise(traitNoise, roll, galaxy.traitThresholds ?? DEFAULT_TRAIT_THRESHOLDS);
+
+  return {
+    id,
+    q,
+    r,
+    s,
+    type,
+    trait,
+    resourceDensity: calculateResourceDensity(type, noiseValue)
+  };
+}
+
+/**
+ * Generate every tile within a radius of a center tile, skipping tiles outside the galaxy
+ * @param center Center of the region
+ * @param radius Radius of the region in tiles
+ * @param galaxy The galaxy settings
+ * @returns The procedural tiles in the region
+ */
+export function generateRegion(
+  center: Coordinates,
+  radius: number,
+  galaxy: GalaxySettings
+): ProceduralTile[] {
+  return getCoordinatesInRadius(center, radius)
+    .filter(coords => isWithinGalaxy(coords.q, coords.r, coords.s))
+    .map(coords => generateTileAt(coords.q, coords.r, galaxy));
+}
@@ -0,0 +1,74 @@
+import { gameConfig } from "../config";
+
+/**
+ * Source of the current time for anything that runs on ticks
+ * Production code uses the system clock; tests inject a fake one to step through ticks.
+ */
+export interface GameClock {
+  now(): number;
+}
+
+// A clock whose time only changes when told to
+export interface FakeClock extends GameClock {
+  set(time: number): void;
+  advance(milliseconds: number): void;
+  advanceTicks(ticks: number): void;
+}
+
+export const systemClock: GameClock = {
+  now: () => Date.now()
+};
+
+/**
+ * Create a clock for tests that starts at a fixed time
+ * @param startAt Time the clock starts at, in milliseconds
+ */
+export function createFakeClock(startAt: number = 0): FakeClock {
+  let time = startAt;
+
+  return {
+    now: () => time,
+    set: (newTime: number) => {
+      time = newTime;
+    },
+    advance: (milliseconds: number) => {
+      time += milliseconds;
+    },
+    advanceTicks: (ticks: number) => {
+      time += ticks * getTickLength();
+    }
+  };
+}
+
+/**
+ * Length of one tick in milliseconds
+ */
+export function getTickLength(): number {
+  return gameConfig.gameClock.tickMinutes * 60000;
+}
+
+/**
+ * Get the tick a time falls in
+ * Ticks are counted from the epoch, so every instance agrees on the numbering.
+ * @param time Time in milliseconds
+ */
+export function getTickNumber(time: number): number {
+  return Math.floor(time / getTickLength());
+}
+
+/**
+ * Get the time a tick starts at
+ * @param tick The tick number
+ */
+export function getTickStartsAt(tick: number): number {
+  return tick * getTickLength();
+}
+
+/**
+ * Get the tick a scheduled run is resolving
+ * The scheduler can fire a little early or late, so runs snap to the nearest tick boundary.
+ * @param time Time the run started, in milliseconds
+ */
+export function getScheduledTick(time: number): number {
+  return Math.round(time / getTickLength());
+}
@@ -0,0 +1,135 @@
+import * as admin from "firebase-admin";
+import { Colony } from "../types/colony";
+import { LeaderboardEntry } from "../types/leaderboard";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { ALLIANCES_COLLECTION } from "./alliances";
+import { countColonyTiles } from "./ownership";
+import { getHomeSector } from "./tileHelpers";
+
+export const LEADERBOARD_COLLECTION = 'colony/v1/leaderboard';
+
+// Most entries written by one batch when rebuilding the leaderboard
+const BATCH_LIMIT = 450;
+
+// Colony fields copied onto its leaderboard entry
+export type LeaderboardColony = Pick<Colony, 'id' | 'uid' | 'name' | 'color' | 'startCoordinates'>;
+
+/**
+ * Get the leaderboard entry document for a colony
+ * @param colonyId ID of the colony
+ */
+export function getLeaderboardRef(colonyId: string): admin.firestore.DocumentReference {
+  return admin.firestore().doc(`${LEADERBOARD_COLLECTION}/${colonyId}`);
+}
+
+/**
+ * Get the start of the current leaderboard week, Monday 00:00 UTC
+ * @param now Current time in milliseconds
+ */
+export function getWeekStartedAt(now: number = Date.now()): number {
+  const date = new Date(now);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday);
+}
+
+/**
+ * Build the fields written to a colony's leaderboard entry when its score changes
+ * The colony's details are written every time, so entries for colonies created before the
+ * leaderboard fill themselves in. Merge the result into the entry rather than replacing it.
+ * @param colony The colony whose score changed
+ * @param territoryScore The colony's new score
+ * @param delta How much the score changed by, added to the weekly gain
+ */
+export function getScoreChangeUpdate(
+  colony: LeaderboardColony,
+  territoryScore: number,
+  delta: number
+): Record<string, unknown> {
+  return {
+    colonyId: colony.id,
+    uid: colony.uid,
+    name: colony.name,
+    color: colony.color ?? null,
+    location: getHomeSector(colony.startCoordinates),
+    territoryScore,
+    weeklyGain: admin.firestore.FieldValue.increment(delta),
+    updatedAt: Date.now()
+  };
+}
+
+/**
+ * Build a fresh leaderboard entry for a colony, with nothing gained this week
+ * @param colony The colony
+ * @param territoryScore The colony's score
+ */
+export function createLeaderboardEntry(colony: LeaderboardColony, territoryScore: number): LeaderboardEntry {
+  return {
+    colonyId: colony.id,
+    uid: colony.uid,
+    name: colony.name,
+    ...(colony.color ? { color: colony.color } : {}),
+    location: getHomeSector(colony.startCoordinates),
+    territoryScore,
+    weeklyGain: 0,
+    updatedAt: Date.now()
+  };
+}
+
+/**
+ * Rewrite every leaderboard entry from the colonies and start a new week
+ * Also repairs any entry, colony or alliance score that drifted, e.g. from a write that failed after a
+ * score change, by recounting every colony's territory entries.
+ * @param tracker Read cost tracker for the calling function
+ * @returns Number of entries written
+ */
+export async function rebuildLeaderboard(tracker: ReadCostTracker): Promise<number> {
+  const db = admin.firestore();
+  const coloniesSnapshot = await db.collection('colony/v1/colonies').get();
+  tracker.trackRead('leaderboardColonies', coloniesSnapshot.size);
+
+  // Count each colony's entries rather than reading every entry in the galaxy
+  const territoryCounts = new Map<string, number>();
+  for (const doc of coloniesSnapshot.docs) {
+    territoryCounts.set(doc.data().uid, await countColonyTiles(doc.id, tracker));
+  }
+
+  // Each colony takes two writes, its leaderboard entry and its own score
+  const docs = coloniesSnapshot.docs;
+  const coloniesPerBatch = Math.floor(BATCH_LIMIT / 2);
+  for (let start = 0; start < docs.length; start += coloniesPerBatch) {
+    const batch = db.batch();
+    docs.slice(start, start + coloniesPerBatch).forEach(doc => {
+      const colony = { id: doc.id, ...doc.data() } as Colony;
+      const territoryScore = territoryCounts.get(colony.uid) ?? 0;
+      batch.set(getLeaderboardRef(colony.id), createLeaderboardEntry(colony, territoryScore));
+      batch.update(doc.ref, { territoryScore });
+    });
+    await batch.commit();
+  }
+  tracker.trackWrite('leaderboardEntries', docs.length * 2);
+
+  // Alliance scores are the sum of their members' territory
+  const allianceScores = new Map<string, number>();
+  docs.forEach(doc => {
+    const colony = doc.data() as Colony;
+    if (colony.allianceId) {
+      const territoryScore = territoryCounts.get(colony.uid) ?? 0;
+      allianceScores.set(colony.allianceId, (allianceScores.get(colony.allianceId) ?? 0) + territoryScore);
+    }
+  });
+
+  const alliancesSnapshot = await db.collection(ALLIANCES_COLLECTION).get();
+  tracker.trackRead('leaderboardAlliances', alliancesSnapshot.size);
+
+  const allianceDocs = alliancesSnapshot.docs;
+  for (let start = 0; start < allianceDocs.length; start += BATCH_LIMIT) {
+    const batch = db.batch();
+    allianceDocs.slice(start, start + BATCH_LIMIT).forEach(doc => {
+      batch.update(doc.ref, { territoryScore: allianceScores.get(doc.id) ?? 0 });
+    });
+    await batch.commit();
+  }
+  tracker.trackWrite('allianceScores', allianceDocs.length);
+
+  return docs.length;
+}
@@ -0,0 +1,80 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { Beacon, GameMessage, MessageChannel, MessageEventPayload } from "../types/message";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { publishEvent, EventType } from "./pubsub";
+import { COLONY_EVENTS_TOPIC } from "../colonyTiles";
+
+export const MESSAGES_COLLECTION = 'colony/v1/messages';
+export const BEACONS_COLLECTION = 'colony/v1/beacons';
+export const INBOXES_COLLECTION = 'colony/v1/inboxes';
+
+export const MESSAGE_CHANNELS: MessageChannel[] = ['direct', 'alliance', 'beacon'];
+
+/**
+ * Get the document holding a player's unread counts
+ * @param uid Firebase user ID
+ */
+export function getInboxRef(uid: string): admin.firestore.DocumentReference {
+  return admin.firestore().doc(`${INBOXES_COLLECTION}/${uid}`);
+}
+
+/**
+ * Unread counts for a player without an inbox document yet
+ */
+export function createEmptyUnreadCounts(): Record<MessageChannel, number> {
+  return { direct: 0, alliance: 0, beacon: 0 };
+}
+
+/**
+ * Save a message, bump every recipient's unread count and let them know it arrived
+ * The sender reads their own message as they write it, so only the other recipients
+ * count it as unread.
+ * @param message The message, with the sender among its recipients
+ * @param tracker Read cost tracker for the calling function
+ * @param beacon The beacon the message came from, saved alongside it
+ */
+export async function deliverMessage(
+  message: GameMessage,
+  tracker: ReadCostTracker,
+  beacon: Beacon | null = null
+): Promise<void> {
+  const db = admin.firestore();
+  const batch = db.batch();
+
+  batch.set(db.doc(`${MESSAGES_COLLECTION}/${message.id}`), message);
+  if (beacon) {
+    batch.set(db.doc(`${BEACONS_COLLECTION}/${beacon.id}`), beacon);
+  }
+
+  for (const uid of message.unreadUids) {
+    batch.set(getInboxRef(uid), {
+      uid,
+      unread: { [message.channel]: admin.firestore.FieldValue.increment(1) },
+      updatedAt: message.sentAt
+    }, { merge: true });
+  }
+
+  await batch.commit();
+  tracker.trackWrite('messageDelivery', 1 + (beacon ? 1 : 0) + message.unreadUids.length);
+
+  const payload: MessageEventPayload = { message, beacon };
+
+  // Each recipient gets the message directly
+  await Promise.all(message.unreadUids.map(async uid => {
+    const eventData = {
+      type: EventType.MESSAGE_RECEIVED,
+      timestamp: Date.now(),
+      payloadType: 'message',
+      payload,
+      userId: uid
+    };
+
+    try {
+      await publishEvent(EventType.MESSAGE_RECEIVED, eventData, COLONY_EVENTS_TOPIC, 'direct', uid);
+    } catch (pubsubError) {
+      // Log the error but don't fail the delivery; the message is already saved
+      logger.error("Error publishing to PubSub:", pubsubError);
+    }
+  }));
+}
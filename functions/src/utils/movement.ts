@@ -0,0 +1,204 @@
+import { HttpsError } from "firebase-functions/v2/https";
+import { Coordinates } from "../types/base";
+import { Ship, Unit, UnitType } from "../types/units";
+import { TileTerrain } from "../types/galaxy";
+import { cubeDistance, isWithinGalaxy, TileTrait, TileType } from "./noise";
+import { getCoordinatesInRadius, toTileId } from "./tileHelpers";
+import { getTerrainCost, StepCostFunction } from "../../../shared/pathfinding";
+import { loadTileTerrain } from "./tiles/tileOperations";
+import { getTickLength } from "./gameClock";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { gameConfig } from "../config";
+import type { MoveType } from "@shared/requests";
+
+// Unit types that are able to move around the grid
+export const MOVABLE_UNIT_TYPES: UnitType[] = [UnitType.SHIP];
+
+// Sublight moves pay terrain costs step by step; FTL and relay jumps skip straight to the destination
+export type { MoveType };
+export const MOVE_TYPES: MoveType[] = ['sublight', 'ftl', 'relayJump'];
+
+/**
+ * Load the terrain of the tiles within a radius of a position
+ * @param center Center of the area to load
+ * @param radius Radius of the area in tiles
+ * @param tracker Read cost tracker for the calling function
+ * @returns Map of tile ID to terrain for every tile in the galaxy
+ */
+export async function loadTileTerrainInRadius(
+  center: Coordinates,
+  radius: number,
+  tracker: ReadCostTracker
+): Promise<Map<string, TileTerrain>> {
+  const coordinates = getCoordinatesInRadius(center, radius)
+    .filter(coords => isWithinGalaxy(coords.q, coords.r, coords.s));
+
+  return loadTileTerrain(coordinates, tracker);
+}
+
+/**
+ * Build a step cost function from known tile terrain
+ * Tiles missing from the map are treated as normal space
+ * @param terrain Map of tile ID to terrain
+ * @returns Step cost function for the pathfinder
+ */
+export function createTerrainStepCost(terrain: Map<string, TileTerrain>): StepCostFunction {
+  return (to: Coordinates) => {
+    if (!isWithinGalaxy(to.q, to.r, to.s)) {
+      return null;
+    }
+
+    const tile = terrain.get(toTileId(to));
+    return getTerrainCost(tile?.type ?? TileType.NORMAL, tile?.trait);
+  };
+}
+
+/**
+ * Find a unit in a colony's unit list and verify it can be moved by the user
+ * @param units The colony's units
+ * @param unitId ID of the unit to move
+ * @param uid Firebase user ID of the player requesting the move
+ * @returns The index of the unit in the units array
+ */
+export function findMovableUnitIndex(units: Unit[], unitId: string, uid: string): number {
+  const unitIndex = units.findIndex(unit => unit.id === unitId);
+
+  if (unitIndex === -1) {
+    throw new HttpsError('not-found', 'Unit not found in your colony');
+  }
+
+  const unit = units[unitIndex];
+
+  if (unit.ownerUid !== uid) {
+    throw new HttpsError('permission-denied', 'You do not own this unit');
+  }
+
+  if (!MOVABLE_UNIT_TYPES.includes(unit.type)) {
+    throw new HttpsError('failed-precondition', `Units of type ${unit.type} cannot move`);
+  }
+
+  return unitIndex;
+}
+
+/**
+ * Get when a unit can move again after a sublight move
+ * Direct moves spend the same action points as queued orders, so a move holds the unit
+ * for as many ticks as the clock would have taken to cover it.
+ * @param cost Movement cost of the move
+ * @param now Time of the move in milliseconds
+ */
+export function getMoveReadyAt(cost: number, now: number): number {
+  const ticks = Math.max(1, Math.ceil(cost / gameConfig.gameClock.actionPointsPerTick));
+  return now + ticks * getTickLength();
+}
+
+/**
+ * Verify a unit has recovered from its last sublight move and throw if not
+ * @param unit The unit moving
+ * @param now Current time in milliseconds
+ */
+export function verifyMoveReady(unit: Unit, now: number): void {
+  if (unit.moveReadyAt && unit.moveReadyAt > now) {
+    const minutes = Math.ceil((unit.moveReadyAt - now) / 60000);
+    throw new HttpsError('failed-precondition', `Unit can move again in ${minutes} minutes`);
+  }
+}
+
+/**
+ * Check whether an FTL jump is allowed by the colony's researched FTL tier
+ * - Tier 1: up to gameConfig.ftl.jumpRange tiles along a straight hex line
+ * - Tier 2: any tile within gameConfig.ftl.jumpRange
+ * - Tier 3: any tile within gameConfig.ftl.sectorRadius
+ * @param from Starting coordinates
+ * @param to Destination coordinates
+ * @param ftlTier Highest FTL tier the colony has unlocked
+ * @returns A reason the jump is not allowed, or null if it is
+ */
+export function getFtlJumpError(from: Coordinates, to: Coordinates, ftlTier: number): string | null {
+  const { jumpRange, sectorRadius } = gameConfig.ftl;
+  const distance = cubeDistance(from.q, from.r, from.s, to.q, to.r, to.s);
+
+  if (ftlTier < 1) {
+    return 'FTL jumps have not been researched yet';
+  }
+
+  if (ftlTier >= 3) {
+    return distance <= sectorRadius ? null : `Teleports are limited to ${sectorRadius} tiles`;
+  }
+
+  if (distance > jumpRange) {
+    return `Jumps are limited to ${jumpRange} tiles`;
+  }
+
+  // A straight hex line keeps one coordinate fixed
+  const isStraightLine = from.q === to.q || from.r === to.r || from.s === to.s;
+  if (ftlTier === 1 && !isStraightLine) {
+    return 'Tier 1 jumps must follow a straight line';
+  }
+
+  return null;
+}
+
+/**
+ * Check whether tile traits allow an FTL jump between two tiles
+ * @param origin Terrain of the tile the ship is jumping from
+ * @param destination Terrain of the tile the ship is jumping to
+ * @returns A reason the jump is not allowed, or null if it is
+ */
+export function getFtlTraitError(origin: TileTerrain, destination: TileTerrain): string | null {
+  const { blockedOriginTraits, blockedDestinationTraits } = gameConfig.ftl;
+
+  if (origin.trait && blockedOriginTraits.includes(origin.trait)) {
+    return `FTL drives cannot spool up inside a ${formatTrait(origin.trait)}`;
+  }
+
+  if (destination.trait && blockedDestinationTraits.includes(destination.trait)) {
+    return `Ships cannot jump into a ${formatTrait(destination.trait)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Format a trait for use in player-facing messages
+ */
+function formatTrait(trait: TileTrait): string {
+  return trait.replace(/_/g, ' ');
+}
+
+/**
+ * Verify a ship can make an FTL jump and throw if not
+ * @param ship The ship jumping
+ * @param destination Destination coordinates
+ * @param ftlTier Highest FTL tier the colony has unlocked
+ * @param originTerrain Terrain of the tile the ship is jumping from
+ * @param destinationTerrain Terrain of the destination tile
+ * @param now Current time in milliseconds
+ */
+export function verifyFtlJump(
+  ship: Ship,
+  destination: Coordinates,
+  ftlTier: number,
+  originTerrain: TileTerrain,
+  destinationTerrain: TileTerrain,
+  now: number
+): void {
+  const jumpError = getFtlJumpError(ship.position, destination, ftlTier);
+  if (jumpError) {
+    throw new HttpsError('failed-precondition', jumpError);
+  }
+
+  if (ship.ftlReadyAt && ship.ftlReadyAt > now) {
+    const minutes = Math.ceil((ship.ftlReadyAt - now) / 60000);
+    throw new HttpsError('failed-precondition', `FTL drive is recharging for another ${minutes} minutes`);
+  }
+
+  if (getTerrainCost(destinationTerrain.type) === null) {
+    throw new HttpsError('failed-precondition', 'Ships cannot jump into this tile');
+  }
+
+  const traitError = getFtlTraitError(originTerrain, destinationTerrain);
+  if (traitError) {
+    throw new HttpsError('failed-precondition', traitError);
+  }
+}
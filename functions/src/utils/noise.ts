@@ -1,14 +1,41 @@
 import { createNoise2D } from 'simplex-noise';
+import { createSeededRandom } from './random';
 
-// Constants for procedural generation
-const STAR_RICH_THRESHOLD = 0.6;    // Higher values = more star-rich areas
-const DEAD_ZONE_THRESHOLD = -0.4;   // Lower values = more dead zones
-const BARRIER_MIN = -0.2;           // Minimum value for barriers
-const BARRIER_MAX = 0.2;            // Maximum value for barriers
+// Noise thresholds that split the galaxy into tile types
+export interface NoiseThresholds {
+  starRich: number;    // Higher values = more star-rich areas
+  deadZone: number;    // Lower values = more dead zones
+  barrierMin: number;  // Minimum value for barriers
+  barrierMax: number;  // Maximum value for barriers
+}
+
+// Constants for procedural generation, copied into the galaxy document when it is created
+export const DEFAULT_NOISE_THRESHOLDS: NoiseThresholds = {
+  starRich: 0.6,
+  deadZone: -0.4,
+  barrierMin: -0.2,
+  barrierMax: 0.2
+};
+
+// Thresholds for the trait layer, generated from a second noise channel
+export interface TraitThresholds {
+  nebula: number;             // Trait noise above this forms nebulae
+  void: number;               // Trait noise below this forms voids
+  anomalyChance: number;      // Chance any other tile holds an anomaly
+  gravityWellChance: number;  // Chance any other tile holds a gravity well
+}
+
+export const DEFAULT_TRAIT_THRESHOLDS: TraitThresholds = {
+  nebula: 0.55,
+  void: -0.65,
+  anomalyChance: 0.01,
+  gravityWellChance: 0.015
+};
 
 // Galaxy constants
 export const GALAXY_RADIUS = 50;           // Galaxy radius in tiles
-const GALAXY_SCALE = 0.05;          // Scale for noise function (controls feature size)
+export const GALAXY_SCALE = 0.05;          // Scale for noise function (controls feature size)
+export const TRAIT_SCALE = 0.12;           // Scale for the trait noise channel (smaller features than tile types)
 
 // Tile type definitions
 export enum TileType {
@@ -18,24 +45,40 @@ export enum TileType {
   BARRIER = 'barrier'      // Movement/scanning-impeding areas like nebulae
 }
 
-// Create the noise function with a random seed
+// Tile trait definitions, layered on top of the tile type
+export enum TileTrait {
+  NEBULA = 'nebula',             // Slows movement and reduces scan range
+  VOID = 'void',                 // Prevents FTL jumps in or out
+  GRAVITY_WELL = 'gravity_well', // Blocks FTL jump-in; jumping out is allowed
+  ANOMALY = 'anomaly'            // Triggers special events
+}
+
+/**
+ * Create a noise function from a seed
+ * The same seed always produces the same noise field.
+ * @param seed 32-bit seed; a random one is used if omitted
+ */
 export function createNoiseGenerator(seed?: number) {
   // If no seed is provided, generate a random one
-  const actualSeed = seed || Math.random();
-  return createNoise2D(() => actualSeed);
+  const actualSeed = seed ?? Math.floor(Math.random() * 0x100000000);
+  return createNoise2D(createSeededRandom(actualSeed));
 }
 
 /**
  * Determines the tile type based on noise value
  * @param noiseValue Simplex noise value between -1 and 1
+ * @param thresholds Noise thresholds for each tile type
  * @returns The type of tile based on noise thresholds
  */
-export function getTileTypeFromNoise(noiseValue: number): TileType {
-  if (noiseValue > STAR_RICH_THRESHOLD) {
+export function getTileTypeFromNoise(
+  noiseValue: number,
+  thresholds: NoiseThresholds = DEFAULT_NOISE_THRESHOLDS
+): TileType {
+  if (noiseValue > thresholds.starRich) {
     return TileType.STAR_RICH;
-  } else if (noiseValue < DEAD_ZONE_THRESHOLD) {
+  } else if (noiseValue < thresholds.deadZone) {
     return TileType.DEAD_ZONE;
-  } else if (noiseValue >= BARRIER_MIN && noiseValue <= BARRIER_MAX) {
+  } else if (noiseValue >= thresholds.barrierMin && noiseValue <= thresholds.barrierMax) {
     return TileType.BARRIER;
   } else {
     return TileType.NORMAL;
@@ -47,11 +90,17 @@ export function getTileTypeFromNoise(noiseValue: number): TileType {
  * @param noise2D The noise generator function
  * @param q Q coordinate (cube)
  * @param r R coordinate (cube) 
+ * @param scale Scale applied to the coordinates (controls feature size)
  * @returns Noise value between -1 and 1
  */
-export function getNoiseForCoordinates(noise2D: ReturnType<typeof createNoise2D>, q: number, r: number): number {
+export function getNoiseForCoordinates(
+  noise2D: ReturnType<typeof createNoise2D>,
+  q: number,
+  r: number,
+  scale: number = GALAXY_SCALE
+): number {
   // Apply galaxy scale to coordinates to get appropriate feature size
-  return noise2D(q * GALAXY_SCALE, r * GALAXY_SCALE);
+  return noise2D(q * scale, r * scale);
 }
 
 /**
@@ -79,6 +128,31 @@ export function cubeDistance(q1: number, r1: number, s1: number, q2: number, r2:
   return Math.max(Math.abs(q1 - q2), Math.abs(r1 - r2), Math.abs(s1 - s2));
 }
 
+/**
+ * Determines the tile trait based on the trait noise channel
+ * Nebulae and voids form regions; anomalies and gravity wells are scattered points.
+ * @param traitNoise Trait channel noise value between -1 and 1
+ * @param roll Per-tile random value between 0 and 1
+ * @param thresholds Thresholds for each trait
+ * @returns The tile trait, or null for tiles without one
+ */
+export function getTileTraitFromNoise(
+  traitNoise: number,
+  roll: number,
+  thresholds: TraitThresholds = DEFAULT_TRAIT_THRESHOLDS
+): TileTrait | null {
+  if (traitNoise > thresholds.nebula) {
+    return TileTrait.NEBULA;
+  } else if (traitNoise < thresholds.void) {
+    return TileTrait.VOID;
+  } else if (roll < thresholds.anomalyChance) {
+    return TileTrait.ANOMALY;
+  } else if (roll < thresholds.anomalyChance + thresholds.gravityWellChance) {
+    return TileTrait.GRAVITY_WELL;
+  }
+  return null;
+}
+
 /**
  * Calculate resource density based on tile type and noise value
  * @param tileType The type of the tile
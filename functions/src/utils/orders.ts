@@ -0,0 +1,307 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { HttpsError } from "firebase-functions/v2/https";
+import { Coordinates } from "../types/base";
+import { Colony, QueuedOrder } from "../types/colony";
+import { TileTerrain } from "../types/galaxy";
+import { ClockState, ResolvedOrder, TickSummary } from "../types/tick";
+import { Unit } from "../types/units";
+import { cubeDistance } from "./noise";
+import { findPath, getMaximumStepCost, getMinimumStepCost } from "../../../shared/pathfinding";
+import { createTerrainStepCost, loadTileTerrainInRadius } from "./movement";
+import { loadTileTerrain } from "./tiles/tileOperations";
+import { GameClock, getScheduledTick, getTickStartsAt, systemClock } from "./gameClock";
+import { resolveCombatAt } from "./combat";
+import { resolveAnomaliesOnPath } from "./anomalies";
+import { getBattleAreas, getPresenceArea, recomputeTerritory } from "./territory";
+import { getUnitIndexUpdates, HexArea } from "./unitIndex";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { gameConfig } from "../config";
+
+const CLOCK_PATH = 'colony/v1/galaxy/clock';
+
+// Result of resolving one colony's orders for a tick
+export interface ColonyOrderResult {
+  units: Unit[];
+  orderQueue: QueuedOrder[];
+  resolved: ResolvedOrder[];
+}
+
+/**
+ * Get the earliest tick any order in a queue resolves on
+ * @param queue The colony's order queue
+ * @returns The tick, or null if the queue is empty
+ */
+export function getNextOrderTick(queue: QueuedOrder[]): number | null {
+  return queue.length > 0 ? Math.min(...queue.map(order => order.queuedTick + 1)) : null;
+}
+
+/**
+ * Work out the route a queued move will follow
+ * Terrain never changes, so the route is planned once and followed a few steps each tick.
+ * @param from Where the unit is now
+ * @param destination Where the unit is going
+ * @param tracker Read cost tracker for the calling function
+ * @returns The steps to take, excluding the start
+ */
+export async function planOrderPath(
+  from: Coordinates,
+  destination: Coordinates,
+  tracker: ReadCostTracker
+): Promise<Coordinates[]> {
+  const { maxOrderDistance } = gameConfig.gameClock;
+  const distance = cubeDistance(from.q, from.r, from.s, destination.q, destination.r, destination.s);
+
+  if (distance > maxOrderDistance) {
+    throw new HttpsError('failed-precondition', `Moves can only be queued up to ${maxOrderDistance} tiles away`);
+  }
+
+  const terrain = await loadTileTerrainInRadius(from, distance, tracker);
+  const route = findPath(from, destination, createTerrainStepCost(terrain), {
+    maxCost: distance * getMaximumStepCost(),
+    minStepCost: getMinimumStepCost()
+  });
+
+  if (!route) {
+    throw new HttpsError('failed-precondition', 'There is no route to the destination');
+  }
+
+  return route.path;
+}
+
+/**
+ * Take as many steps along a path as one tick's action points allow
+ * A unit always manages at least one step, so costly terrain slows it down rather than stranding it.
+ * @param from Where the unit is now
+ * @param path Steps still to take
+ * @param terrain Terrain of the upcoming steps
+ * @param actionPoints Movement cost the unit can spend this tick
+ * @returns The steps taken, or null if the next step can't be entered
+ */
+export function takeTickSteps(
+  from: Coordinates,
+  path: Coordinates[],
+  terrain: Map<string, TileTerrain>,
+  actionPoints: number
+): Coordinates[] | null {
+  const getStepCost = createTerrainStepCost(terrain);
+  const steps: Coordinates[] = [];
+  let position = from;
+  let spent = 0;
+
+  for (const step of path) {
+    const cost = getStepCost(step, position);
+    if (cost === null) break;
+    if (steps.length > 0 && spent + cost > actionPoints) break;
+
+    steps.push(step);
+    spent += cost;
+    position = step;
+  }
+
+  return steps.length > 0 ? steps : null;
+}
+
+/**
+ * Get the steps of an order that could be taken on a single tick
+ * These are the only tiles whose terrain needs loading to resolve the order.
+ * @param order The queued order
+ */
+function getUpcomingSteps(order: QueuedOrder): Coordinates[] {
+  const maxSteps = Math.max(1, Math.floor(gameConfig.gameClock.actionPointsPerTick / getMinimumStepCost()));
+  return order.path.slice(0, maxSteps);
+}
+
+/**
+ * Advance a colony's queued orders by one tick
+ * Orders are handled oldest first so the outcome doesn't depend on how the queue was stored.
+ * Units recovering from a direct move sit the tick out.
+ * @param colony The colony
+ * @param terrain Terrain of every order's upcoming steps
+ * @param tick The tick being resolved
+ * @returns The colony's units and queue after the tick, and what happened to each order
+ */
+export function resolveColonyOrders(
+  colony: Colony,
+  terrain: Map<string, TileTerrain>,
+  tick: number
+): ColonyOrderResult {
+  const units = [...(colony.units || [])];
+  const orderQueue: QueuedOrder[] = [];
+  const resolved: ResolvedOrder[] = [];
+
+  const queue = [...(colony.orderQueue || [])]
+    .sort((a, b) => a.queuedAt - b.queuedAt || a.id.localeCompare(b.id));
+
+  for (const order of queue) {
+    // Orders queued during this tick wait for the next one
+    if (order.queuedTick >= tick) {
+      orderQueue.push(order);
+      continue;
+    }
+
+    const unitIndex = units.findIndex(unit => unit.id === order.unitId);
+    const unit = units[unitIndex];
+    const result: ResolvedOrder = {
+      orderId: order.id,
+      colonyId: colony.id,
+      uid: colony.uid,
+      unitId: order.unitId,
+      from: unit?.position ?? order.destination,
+      path: [],
+      arrived: false,
+      cancelled: true
+    };
+
+    // A unit still recovering from a direct move keeps its order for a later tick
+    if (unit?.moveReadyAt && unit.moveReadyAt > getTickStartsAt(tick)) {
+      orderQueue.push(order);
+      continue;
+    }
+
+    // The unit is gone, or a battle or direct move has taken it off its route
+    const [nextStep] = order.path;
+    const onRoute = unit && nextStep &&
+      cubeDistance(unit.position.q, unit.position.r, unit.position.s, nextStep.q, nextStep.r, nextStep.s) === 1;
+    const steps = onRoute
+      ? takeTickSteps(unit.position, order.path, terrain, gameConfig.gameClock.actionPointsPerTick)
+      : null;
+
+    if (!steps) {
+      resolved.push(result);
+      continue;
+    }
+
+    const remainingPath = order.path.slice(steps.length);
+    // The steps spend this tick's action points, so a direct move has to wait for the next tick
+    units[unitIndex] = { ...unit, position: steps[steps.length - 1], moveReadyAt: getTickStartsAt(tick + 1) };
+
+    if (remainingPath.length > 0) {
+      orderQueue.push({ ...order, path: remainingPath });
+    }
+
+    resolved.push({ ...result, path: steps, arrived: remainingPath.length === 0, cancelled: false });
+  }
+
+  return { units, orderQueue, resolved };
+}
+
+/**
+ * Resolve every queued order for the current tick
+ *
+ * This function:
+ * 1. Claims the tick on the game clock so a retried run can't resolve it twice
+ * 2. Finds colonies with orders due and advances each unit along its route
+ * 3. Triggers events on anomalies units explore first
+ * 4. Fights battles where units end their step on enemy ships
+ * 5. Recomputes territory on the tiles units left, crossed or retreated to
+ * @param tracker Read cost tracker for the calling function
+ * @param clock Clock to read the time from; tests pass a fake one
+ * @returns Summary of the tick, or null if it had already been resolved
+ */
+export async function runGameTick(
+  tracker: ReadCostTracker,
+  clock: GameClock = systemClock
+): Promise<TickSummary | null> {
+  const db = admin.firestore();
+  const now = clock.now();
+  const tick = getScheduledTick(now);
+  const clockRef = db.doc(CLOCK_PATH);
+
+  const claimed = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(clockRef);
+    tracker.trackRead('gameClock', 1);
+
+    const state = snapshot.data() as ClockState | undefined;
+    if (state && state.lastResolvedTick >= tick) {
+      return false;
+    }
+
+    const newState: ClockState = { lastResolvedTick: tick, resolvedAt: now };
+    transaction.set(clockRef, newState);
+    tracker.trackWrite('gameClock', 1);
+    return true;
+  });
+
+  if (!claimed) {
+    logger.info(`[gameClock] Tick ${tick} has already been resolved`);
+    return null;
+  }
+
+  const dueSnapshot = await db.collection('colony/v1/colonies')
+    .where('nextOrderTick', '<=', tick)
+    .get();
+  tracker.trackRead('dueOrders', dueSnapshot.size);
+
+  const orders: ResolvedOrder[] = [];
+
+  for (const colonyDoc of dueSnapshot.docs) {
+    try {
+      const colonyResults = await db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(colonyDoc.ref);
+        tracker.trackRead('orderColony', 1);
+
+        const colony = { id: snapshot.id, ...snapshot.data() } as Colony;
+        const dueOrders = (colony.orderQueue || []).filter(order => order.queuedTick < tick);
+        const terrain = await loadTileTerrain(dueOrders.flatMap(getUpcomingSteps), tracker);
+        const { units, orderQueue, resolved } = resolveColonyOrders(colony, terrain, tick);
+
+        transaction.update(colonyDoc.ref, {
+          units,
+          orderQueue,
+          nextOrderTick: getNextOrderTick(orderQueue)
+        });
+        const indexUpdates = getUnitIndexUpdates(colony.id, colony.units || [], units);
+        indexUpdates.forEach(({ ref, data }) => transaction.set(ref, data, { merge: true }));
+        tracker.trackWrite('orderUpdate', 1 + indexUpdates.length);
+
+        return resolved;
+      });
+
+      orders.push(...colonyResults);
+    } catch (error) {
+      // One bad colony shouldn't hold up everyone else's orders
+      logger.error(`Error resolving orders for colony ${colonyDoc.id}:`, error);
+    }
+  }
+
+  const moved = orders.filter(order => order.path.length > 0);
+  const changedAreas: HexArea[] = moved.flatMap(order => [order.from, ...order.path].map(getPresenceArea));
+
+  // Stepping onto an unexplored anomaly triggers it, just like a direct move
+  for (const order of moved) {
+    try {
+      await resolveAnomaliesOnPath(order.path, order.uid, order.unitId, tracker);
+    } catch (anomalyError) {
+      // The moves are already committed, so log the error rather than failing the tick
+      logger.error("Error resolving anomalies:", anomalyError);
+    }
+  }
+
+  // Ending a step on enemy ships starts a battle, just like a direct move
+  for (const order of moved) {
+    try {
+      const battle = await resolveCombatAt(order.path[order.path.length - 1], order.uid, tracker);
+      if (battle) changedAreas.push(...getBattleAreas(battle));
+    } catch (combatError) {
+      // The moves are already committed, so log the error rather than failing the tick
+      logger.error("Error resolving combat:", combatError);
+    }
+  }
+
+  if (moved.length > 0) {
+    try {
+      await recomputeTerritory(changedAreas, tracker);
+    } catch (territoryError) {
+      // The moves are already committed, so log the error rather than failing the tick
+      logger.error("Error recomputing territory:", territoryError);
+    }
+  }
+
+  return {
+    tick,
+    resolvedAt: now,
+    nextTickAt: getTickStartsAt(tick + 1),
+    orders
+  };
+}
@@ -0,0 +1,101 @@
+import * as admin from "firebase-admin";
+import { Coordinates } from "../types/base";
+import { TerritoryEntry } from "../types/colony";
+import { isWithinGalaxy } from "./noise";
+import { fromTileId, neighborOffsets } from "./tileHelpers";
+import { loadTilesAt } from "./tiles/tileOperations";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+
+// Subcollection under each colony indexing the tiles it controls
+export const TERRITORY_SUBCOLLECTION = 'territory';
+
+/**
+ * Get a colony's territory subcollection
+ * @param colonyId ID of the colony
+ */
+export function getTerritoryCollection(colonyId: string): admin.firestore.CollectionReference {
+  return admin.firestore().collection(`colony/v1/colonies/${colonyId}/${TERRITORY_SUBCOLLECTION}`);
+}
+
+/**
+ * Get the territory entry for one of a colony's tiles
+ * @param colonyId ID of the colony
+ * @param tileId ID of the tile
+ */
+export function getTerritoryRef(colonyId: string, tileId: string): admin.firestore.DocumentReference {
+  return getTerritoryCollection(colonyId).doc(tileId);
+}
+
+/**
+ * Build the territory entry recording that a player controls a tile
+ * @param uid Controller of the tile
+ * @param tileId ID of the tile
+ * @param claimedAt When the tile was claimed
+ */
+export function createTerritoryEntry(uid: string, tileId: string, claimedAt: number): TerritoryEntry {
+  const coords = fromTileId(tileId) ?? { q: 0, r: 0, s: 0 };
+  return { tileId, uid, ...coords, claimedAt };
+}
+
+/**
+ * Build the update keeping a colony's territory score in step with its territory entries
+ * @param delta Number of tiles gained, negative for tiles lost
+ */
+export function getTerritoryScoreUpdate(delta: number): Record<string, admin.firestore.FieldValue> {
+  return { territoryScore: admin.firestore.FieldValue.increment(delta) };
+}
+
+/**
+ * List every tile a colony controls
+ * @param colonyId ID of the colony
+ * @param tracker Read cost tracker for the calling function
+ * @returns IDs of the colony's tiles
+ */
+export async function loadColonyTileIds(colonyId: string, tracker: ReadCostTracker): Promise<string[]> {
+  const snapshot = await getTerritoryCollection(colonyId).get();
+  tracker.trackRead('territoryEntries', snapshot.size);
+  return snapshot.docs.map(doc => doc.id);
+}
+
+/**
+ * Count the tiles a colony controls from its territory entries, without reading them
+ * @param colonyId ID of the colony
+ * @param tracker Read cost tracker for the calling function
+ * @returns Number of territory entries
+ */
+export async function countColonyTiles(colonyId: string, tracker: ReadCostTracker): Promise<number> {
+  const snapshot = await getTerritoryCollection(colonyId).count().get();
+  const { count } = snapshot.data();
+  // Count queries are billed one read per 1000 entries counted
+  tracker.trackRead('territoryCounts', Math.max(1, Math.ceil(count / 1000)));
+  return count;
+}
+
+/**
+ * Find which of a set of tiles a player controls, reading only those tiles
+ * @param uid The player
+ * @param coordinates Tiles to check
+ * @param tracker Read cost tracker for the calling function
+ * @returns IDs of the tiles the player controls
+ */
+export async function loadOwnedTileIds(
+  uid: string,
+  coordinates: Coordinates[],
+  tracker: ReadCostTracker
+): Promise<Set<string>> {
+  const tiles = await loadTilesAt(coordinates, tracker);
+  return new Set(Array.from(tiles.values())
+    .filter(tile => tile.controllerUid === uid)
+    .map(tile => tile.id));
+}
+
+/**
+ * Get a tile and the tiles around it, for ownership checks that allow building next to territory
+ * @param center The tile
+ * @returns The tile followed by its neighbours inside the galaxy
+ */
+export function getTileWithNeighbors(center: Coordinates): Coordinates[] {
+  return [center, ...neighborOffsets
+    .map(offset => ({ q: center.q + offset.q, r: center.r + offset.r, s: center.s + offset.s }))
+    .filter(coords => isWithinGalaxy(coords.q, coords.r, coords.s))];
+}
@@ -0,0 +1,164 @@
+import { HttpsError } from "firebase-functions/v2/https";
+import { ColonyTile } from "../types/colony";
+import { Base, MiningSite, Relay, ResearchSite, Ship, Unit, UnitType, UnplacedUnit } from "../types/units";
+import { Coordinates } from "../types/base";
+import { cubeDistance, TileType } from "./noise";
+import { gameConfig } from "../config";
+
+// Unit types that occupy a tile and can't share it with another structure
+export const STRUCTURE_UNIT_TYPES: UnitType[] = [UnitType.BASE, UnitType.MINING_SITE, UnitType.RESEARCH_SITE, UnitType.RELAY];
+
+/**
+ * Calculate how much a mining site extracts per tick
+ * @param level Level of the site
+ * @param resourceDensity Resource density of the tile it stands on
+ */
+export function calculateExtractionRate(level: number, resourceDensity: number): number {
+  return Math.round(gameConfig.sites.baseExtractionRate * level * resourceDensity * 100) / 100;
+}
+
+/**
+ * Calculate how many research points a research site produces per tick
+ * @param level Level of the site
+ * @param tileType Type of the tile it stands on
+ */
+export function calculateResearchRate(level: number, tileType: TileType): number {
+  const { baseResearchRate, starRichResearchBonus } = gameConfig.sites;
+  const bonus = tileType === TileType.STAR_RICH ? starRichResearchBonus : 1;
+  return Math.round(baseResearchRate * level * bonus * 100) / 100;
+}
+
+/**
+ * Check that a new base keeps its distance from every other base
+ * @param position Where the base would go
+ * @param basePositions Every existing and planned base nearby, other than this one
+ * @returns A reason the site is too close, or null if it is far enough away
+ */
+export function getBaseSpacingError(position: Coordinates, basePositions: Coordinates[]): string | null {
+  const { minBaseSpacing } = gameConfig.bases;
+  const { q, r, s } = position;
+  const tooClose = basePositions.some(base => cubeDistance(base.q, base.r, base.s, q, r, s) < minBaseSpacing);
+  return tooClose ? `Bases must be at least ${minBaseSpacing} tiles from any other base` : null;
+}
+
+/**
+ * Check whether an unplaced unit can be deployed onto a tile
+ * @param unplaced The unit waiting to be placed
+ * @param tile The target tile
+ * @param units The colony's current units
+ * @param basePositions Existing and planned bases near the tile, checked when placing a base
+ * @returns A reason the tile is unsuitable, or null if the unit can be placed there
+ */
+export function getPlacementError(
+  unplaced: UnplacedUnit,
+  tile: ColonyTile,
+  units: Unit[],
+  basePositions: Coordinates[] = []
+): string | null {
+  const isStructure = STRUCTURE_UNIT_TYPES.includes(unplaced.type);
+  const occupied = units.some(unit =>
+    STRUCTURE_UNIT_TYPES.includes(unit.type) &&
+    unit.position.q === tile.q &&
+    unit.position.r === tile.r &&
+    unit.position.s === tile.s
+  );
+
+  if (isStructure && occupied) {
+    return 'There is already a structure on this tile';
+  }
+
+  if (unplaced.type === UnitType.BASE) {
+    const spacingError = getBaseSpacingError(tile, basePositions);
+    if (spacingError) return spacingError;
+  }
+
+  if (unplaced.type === UnitType.MINING_SITE &&
+      (tile.resourceDensity ?? 0) < gameConfig.sites.minMiningResourceDensity) {
+    return 'This tile does not have enough resources for a mining site';
+  }
+
+  return null;
+}
+
+/**
+ * Convert an unplaced unit into a full unit on a tile
+ * @param unplaced The unit waiting to be placed
+ * @param tile The tile it is placed on
+ * @param id ID for the new unit
+ * @param ownerUid Firebase user ID of the owner
+ * @returns The placed unit with its output rates calculated
+ */
+export function createPlacedUnit(unplaced: UnplacedUnit, tile: ColonyTile, id: string, ownerUid: string): Unit {
+  const base = {
+    id,
+    position: { q: tile.q, r: tile.r, s: tile.s },
+    level: unplaced.level,
+    ownerUid
+  };
+
+  switch (unplaced.type) {
+    case UnitType.MINING_SITE: {
+      const miningSite: MiningSite = {
+        ...base,
+        type: UnitType.MINING_SITE,
+        resourceType: unplaced.resourceType || 'metal',
+        extractionRate: calculateExtractionRate(unplaced.level, tile.resourceDensity ?? 0)
+      };
+      return miningSite;
+    }
+    case UnitType.RESEARCH_SITE: {
+      const researchSite: ResearchSite = {
+        ...base,
+        type: UnitType.RESEARCH_SITE,
+        researchField: gameConfig.sites.defaultResearchField,
+        researchRate: calculateResearchRate(unplaced.level, tile.type)
+      };
+      return researchSite;
+    }
+    case UnitType.BASE: {
+      const baseUnit: Base = {
+        ...base,
+        type: UnitType.BASE,
+        influenceRadius: gameConfig.colonySettings.tier1BaseInfluence
+      };
+      return baseUnit;
+    }
+    case UnitType.RELAY: {
+      const relay: Relay = {
+        ...base,
+        type: UnitType.RELAY,
+        range: gameConfig.relays.range
+      };
+      return relay;
+    }
+    default: {
+      const ship: Ship = { ...base, type: UnitType.SHIP };
+      return ship;
+    }
+  }
+}
+
+/**
+ * Verify a deploy request and throw if the unit can't be placed
+ * @param unplaced The unit waiting to be placed
+ * @param tile The target tile, or undefined if it was never persisted
+ * @param units The colony's current units
+ * @param ownerUid The player placing the unit
+ * @param basePositions Existing and planned bases near the tile, checked when placing a base
+ */
+export function verifyPlacement(
+  unplaced: UnplacedUnit,
+  tile: ColonyTile | undefined,
+  units: Unit[],
+  ownerUid: string,
+  basePositions: Coordinates[] = []
+): asserts tile is ColonyTile {
+  if (!tile || tile.controllerUid !== ownerUid) {
+    throw new HttpsError('failed-precondition', 'Units can only be placed inside your territory');
+  }
+
+  const placementError = getPlacementError(unplaced, tile, units, basePositions);
+  if (placementError) {
+    throw new HttpsError('failed-precondition', placementError);
+  }
+}
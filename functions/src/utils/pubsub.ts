@@ -12,6 +12,13 @@ const pubSubClient = new PubSub({
  */
 export enum EventType {
     TILE_UPDATED = 'TILE_UPDATED',
+    UNIT_MOVED = 'UNIT_MOVED',
+    UNIT_PLACED = 'UNIT_PLACED',
+    CONSTRUCTION_COMPLETED = 'CONSTRUCTION_COMPLETED',
+    BATTLE_RESOLVED = 'BATTLE_RESOLVED',
+    TICK_RESOLVED = 'TICK_RESOLVED',
+    MESSAGE_RECEIVED = 'MESSAGE_RECEIVED',
+    ANOMALY_EXPLORED = 'ANOMALY_EXPLORED',
     // Add other event types here as needed
   }
 
@@ -0,0 +1,33 @@
+/**
+ * Seeded random number helpers, so game outcomes can be reproduced from a stored seed
+ */
+
+/**
+ * Hash a string into a 32-bit seed
+ * @param value String to hash
+ * @returns Unsigned 32-bit integer
+ */
+export function hashSeed(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a mulberry32 random number generator
+ * @param seed 32-bit seed
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
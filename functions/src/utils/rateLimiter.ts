@@ -0,0 +1,68 @@
+import * as admin from "firebase-admin";
+import { HttpsError } from "firebase-functions/v2/https";
+import { gameConfig } from "../config";
+import { RateLimitBucket } from "../types/rateLimit";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+
+export const RATE_LIMIT_BUCKETS_COLLECTION = 'rateLimits/v1/buckets';
+
+// A callable with a limit in gameConfig.rateLimits
+export type RateLimitAction = keyof typeof gameConfig.rateLimits;
+
+/**
+ * Work out how many tokens a bucket holds now
+ * A user's first call starts from a full bucket.
+ * @param bucket The stored bucket, if the user has called before
+ * @param action The rate limited action
+ * @param now Current time in milliseconds
+ * @returns Tokens available, up to the action's capacity
+ */
+export function getAvailableTokens(bucket: RateLimitBucket | undefined, action: RateLimitAction, now: number): number {
+  const { capacity, refillPerSecond } = gameConfig.rateLimits[action];
+  if (!bucket) return capacity;
+
+  const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+  return Math.min(capacity, bucket.tokens + elapsedSeconds * refillPerSecond);
+}
+
+/**
+ * Take one token from a user's bucket for an action, or refuse the call
+ *
+ * This function:
+ * 1. Reads the user's bucket for the action in a transaction
+ * 2. Refills it for the time since the last call
+ * 3. Throws resource-exhausted, with the wait before the next token, if it's empty
+ * 4. Otherwise stores the bucket with one token taken
+ *
+ * Refused calls write nothing, so hammering a callable while limited only costs a read.
+ * @param uid Firebase user ID of the caller
+ * @param action The rate limited action
+ * @param tracker Read cost tracker for the calling function
+ * @throws HttpsError resource-exhausted with { retryAfterMs: number } as its details
+ */
+export async function consumeRateLimit(uid: string, action: RateLimitAction, tracker: ReadCostTracker): Promise<void> {
+  const db = admin.firestore();
+  const bucketRef = db.collection(RATE_LIMIT_BUCKETS_COLLECTION).doc(`${uid}_${action}`);
+  const { refillPerSecond } = gameConfig.rateLimits[action];
+
+  await db.runTransaction(async (transaction) => {
+    const bucketDoc = await transaction.get(bucketRef);
+    tracker.trackRead('rateLimitBucket', 1);
+
+    const now = Date.now();
+    const tokens = getAvailableTokens(bucketDoc.data() as RateLimitBucket | undefined, action, now);
+
+    if (tokens < 1) {
+      const retryAfterMs = Math.ceil(((1 - tokens) / refillPerSecond) * 1000);
+      throw new HttpsError(
+        'resource-exhausted',
+        `Too many requests. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`,
+        { retryAfterMs }
+      );
+    }
+
+    const bucket: RateLimitBucket = { uid, action, tokens: tokens - 1, updatedAt: now };
+    transaction.set(bucketRef, bucket);
+    tracker.trackWrite('rateLimitBucket', 1);
+  });
+}
@@ -0,0 +1,123 @@
+import { Coordinates } from "../types/base";
+import { Colony } from "../types/colony";
+import { Relay, UnitType } from "../types/units";
+import { cubeDistance } from "./noise";
+import { toTileId } from "./tileHelpers";
+
+// A link between two relays that ships can jump along
+export interface RelayLink {
+  fromId: string;
+  toId: string;
+  from: Coordinates;
+  to: Coordinates;
+}
+
+// A colony's units plus the tiles it controls, which decide whether its relays are online
+export type RelayOwner = Pick<Colony, 'units'> & { tileIds: string[] };
+
+// A colony's relays grouped into connected networks
+export interface RelayNetwork {
+  links: RelayLink[];
+  networkIds: Map<string, number>;  // Relay ID to the index of the network it belongs to
+}
+
+/**
+ * Get the relays a colony has that are currently online
+ * A relay only operates while it stands in its owner's territory.
+ * @param colony The colony
+ * @returns The colony's active relays
+ */
+export function getActiveRelays(colony: RelayOwner): Relay[] {
+  const tileIds = new Set(colony.tileIds || []);
+  return (colony.units || []).filter(
+    (unit): unit is Relay => unit.type === UnitType.RELAY && tileIds.has(toTileId(unit.position))
+  );
+}
+
+/**
+ * Check whether two relays are close enough to link
+ * Both ends have to reach, so the shorter range applies.
+ */
+export function areRelaysInRange(a: Relay, b: Relay): boolean {
+  const distance = cubeDistance(a.position.q, a.position.r, a.position.s, b.position.q, b.position.r, b.position.s);
+  return distance <= Math.min(a.range, b.range);
+}
+
+/**
+ * Compute which of a colony's relays are linked
+ * Relays link directly when in range of each other; chains of links form a network.
+ * @param colony The colony
+ * @returns The direct links and the network each active relay belongs to
+ */
+export function getRelayNetwork(colony: RelayOwner): RelayNetwork {
+  const relays = getActiveRelays(colony);
+  const links: RelayLink[] = [];
+  const neighbors = new Map<string, string[]>(relays.map(relay => [relay.id, []]));
+
+  relays.forEach((a, i) => {
+    relays.slice(i + 1).forEach(b => {
+      if (!areRelaysInRange(a, b)) return;
+
+      links.push({ fromId: a.id, toId: b.id, from: a.position, to: b.position });
+      neighbors.get(a.id)!.push(b.id);
+      neighbors.get(b.id)!.push(a.id);
+    });
+  });
+
+  // Flood each unvisited relay to label its network
+  const networkIds = new Map<string, number>();
+  let networkCount = 0;
+  relays.forEach(relay => {
+    if (networkIds.has(relay.id)) return;
+
+    const networkId = networkCount++;
+    const stack = [relay.id];
+    while (stack.length > 0) {
+      const relayId = stack.pop()!;
+      if (networkIds.has(relayId)) continue;
+      networkIds.set(relayId, networkId);
+      stack.push(...neighbors.get(relayId)!);
+    }
+  });
+
+  return { links, networkIds };
+}
+
+/**
+ * Find the active relay a colony has on a tile
+ */
+function getRelayAt(relays: Relay[], position: Coordinates): Relay | undefined {
+  return relays.find(relay => toTileId(relay.position) === toTileId(position));
+}
+
+/**
+ * Check whether a ship can relay jump between two tiles
+ * @param colony The colony the ship belongs to
+ * @param from The ship's position
+ * @param to The destination
+ * @returns A reason the jump is not allowed, or null if it is
+ */
+export function getRelayJumpError(
+  colony: RelayOwner,
+  from: Coordinates,
+  to: Coordinates
+): string | null {
+  const relays = getActiveRelays(colony);
+  const origin = getRelayAt(relays, from);
+  const destination = getRelayAt(relays, to);
+
+  if (!origin) {
+    return 'Relay jumps must start from one of your active relays';
+  }
+
+  if (!destination) {
+    return 'Relay jumps must end at one of your active relays';
+  }
+
+  const { networkIds } = getRelayNetwork(colony);
+  if (networkIds.get(origin.id) !== networkIds.get(destination.id)) {
+    return 'These relays are not linked';
+  }
+
+  return null;
+}
@@ -0,0 +1,88 @@
+import * as admin from "firebase-admin";
+import { HttpsError } from "firebase-functions/v2/https";
+import { Colony } from "../types/colony";
+import { ResearchSite, UnitType } from "../types/units";
+import { ResearchState } from "../types/tech";
+import { createInitialResearchState, getTechDefinition } from "../definitions/techTree";
+
+// Result of adding one tick of research points to a colony
+export interface ResearchProgress {
+  updates: Record<string, unknown>;  // Field updates for the colony document
+  completedTechId: string | null;
+}
+
+/**
+ * Get a colony's research state, defaulting colonies created before the tech tree
+ */
+export function getResearchState(colony: Pick<Colony, 'research'>): ResearchState {
+  return { ...createInitialResearchState(), ...colony.research };
+}
+
+/**
+ * Sum the research points a colony's research sites produce per tick
+ * @param colony The colony
+ */
+export function calculateResearchPoints(colony: Colony): number {
+  const total = (colony.units || [])
+    .filter((unit): unit is ResearchSite => unit.type === UnitType.RESEARCH_SITE)
+    .reduce((sum, site) => sum + (site.researchRate || 0), 0);
+
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Work out the colony updates for adding research points to the active tech
+ * Points produced without an active target, or beyond what the tech needs, are lost.
+ * @param research The colony's current research state
+ * @param points Research points produced this tick
+ * @returns Field updates for the colony and the tech completed this tick, if any
+ */
+export function applyResearchPoints(research: ResearchState, points: number): ResearchProgress {
+  const tech = research.activeTechId ? getTechDefinition(research.activeTechId) : undefined;
+
+  if (!tech || points <= 0) {
+    return { updates: {}, completedTechId: null };
+  }
+
+  const progress = (research.progress[tech.id] || 0) + points;
+
+  if (progress < tech.cost) {
+    // Increment so a concurrent change of target can't lose points
+    return {
+      updates: { [`research.progress.${tech.id}`]: admin.firestore.FieldValue.increment(points) },
+      completedTechId: null
+    };
+  }
+
+  return {
+    updates: {
+      [`research.progress.${tech.id}`]: tech.cost,
+      'research.completedTechs': admin.firestore.FieldValue.arrayUnion(tech.id),
+      'research.activeTechId': null
+    },
+    completedTechId: tech.id
+  };
+}
+
+/**
+ * Verify a tech can be chosen as the colony's research target and throw if not
+ * @param research The colony's current research state
+ * @param techId ID of the requested tech
+ */
+export function verifyResearchTarget(research: ResearchState, techId: string): void {
+  const tech = getTechDefinition(techId);
+
+  if (!tech) {
+    throw new HttpsError('not-found', `Unknown tech: ${techId}`);
+  }
+
+  if (research.completedTechs.includes(techId)) {
+    throw new HttpsError('failed-precondition', `${tech.name} has already been researched`);
+  }
+
+  const missing = tech.prerequisites.filter(id => !research.completedTechs.includes(id));
+  if (missing.length > 0) {
+    const names = missing.map(id => getTechDefinition(id)?.name || id).join(', ');
+    throw new HttpsError('failed-precondition', `${tech.name} requires ${names}`);
+  }
+}
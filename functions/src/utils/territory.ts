@@ -0,0 +1,365 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { Coordinates } from "../types/base";
+import { BattleReport } from "../types/battle";
+import { ChunkTile, TileChunk } from "../types/chunk";
+import { Colony, ColonyTile } from "../types/colony";
+import { Base, UnitType } from "../types/units";
+import { cubeDistance, isWithinGalaxy } from "./noise";
+import { getCoordinatesInRadius, toTileId } from "./tileHelpers";
+import { generateTile } from "./tiles/tileOperations";
+import { getChunkId, getChunkRef, getChunkTileUpdate, toChunkTile } from "./tiles/chunks";
+import { getGalaxySettings } from "./galaxy";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { EventType } from "./pubsub";
+import { publishToViewers } from "./events";
+import { COLONY_EVENTS_TOPIC } from "../colonyTiles";
+import { getTechEffects, TECH_TREE } from "../definitions/techTree";
+import { getLeaderboardRef, getScoreChangeUpdate } from "./leaderboard";
+import { getAllianceRef, getAllianceScoreUpdate } from "./alliances";
+import { createTerritoryEntry, getTerritoryRef, getTerritoryScoreUpdate } from "./ownership";
+import { fromIndexedUnit, HexArea, loadUnitsInAreas } from "./unitIndex";
+import { gameConfig } from "../config";
+
+// Most values Firestore accepts in an 'in' filter
+const MAX_IN_QUERY = 30;
+
+// A base's claim on a tile under the Base Influence Rule
+interface InfluenceClaim {
+  uid: string;
+  distance: number;      // Distance from the base to the tile
+  level: number;         // Level of the base
+  colonyCreatedAt: number;
+}
+
+// Result of a territory recompute
+export interface TerritoryChange {
+  tileId: string;
+  previousUid: string;  // Empty when the tile was unclaimed
+  controllerUid: string;  // Empty when the tile is no longer claimed
+}
+
+/**
+ * Convert the stored colony creation time to milliseconds
+ */
+function toMillis(value: unknown): number {
+  if (value instanceof admin.firestore.Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * Order competing influence claims so the winner comes first.
+ * Nearest base wins, then the higher level base, then the older colony, then the lower uid.
+ */
+function compareClaims(a: InfluenceClaim, b: InfluenceClaim): number {
+  return a.distance - b.distance
+    || b.level - a.level
+    || a.colonyCreatedAt - b.colonyCreatedAt
+    || a.uid.localeCompare(b.uid);
+}
+
+/**
+ * Derive who controls every tile from the positions of all units
+ *
+ * A tile belongs to a player when:
+ * - Presence Rule: it holds at least one of their units and none from other players
+ * - Base Influence Rule: it lies within one of their bases' influence radius
+ * Presence takes priority over influence. Tiles holding units from several players
+ * fall back to influence, and competing influence is resolved by compareClaims.
+ * Influence radii include any bonus the owning colony has researched.
+ * @param colonies Colonies with every unit that can reach the tiles of interest
+ * @returns Map of tile ID to the controlling player's uid
+ */
+export function computeTerritory(colonies: Colony[]): Map<string, string> {
+  const presence = new Map<string, Set<string>>();
+  const influence = new Map<string, InfluenceClaim[]>();
+
+  colonies.forEach(colony => {
+    const colonyCreatedAt = toMillis(colony.createdAt);
+    const { baseInfluenceBonus } = getTechEffects(colony.research?.completedTechs);
+
+    (colony.units || []).forEach(unit => {
+      const { position } = unit;
+      const positionId = toTileId(position);
+      presence.set(positionId, (presence.get(positionId) || new Set()).add(unit.ownerUid));
+
+      if (unit.type !== UnitType.BASE) return;
+
+      getCoordinatesInRadius(position, ((unit as Base).influenceRadius || 0) + baseInfluenceBonus)
+        .filter(coords => isWithinGalaxy(coords.q, coords.r, coords.s))
+        .forEach(coords => {
+          const tileId = toTileId(coords);
+          const claims = influence.get(tileId) || [];
+          claims.push({
+            uid: unit.ownerUid,
+            distance: cubeDistance(position.q, position.r, position.s, coords.q, coords.r, coords.s),
+            level: unit.level,
+            colonyCreatedAt
+          });
+          influence.set(tileId, claims);
+        });
+    });
+  });
+
+  const territory = new Map<string, string>();
+
+  influence.forEach((claims, tileId) => {
+    territory.set(tileId, [...claims].sort(compareClaims)[0].uid);
+  });
+
+  presence.forEach((owners, tileId) => {
+    if (owners.size === 1) {
+      territory.set(tileId, owners.values().next().value as string);
+    }
+  });
+
+  return territory;
+}
+
+/**
+ * Get the furthest any base's influence can reach, at the top tier with every bonus researched
+ * Units further than this from a tile can never affect who controls it.
+ */
+export function getMaxInfluenceReach(): number {
+  const maxRadius = Math.max(...gameConfig.bases.tiers.map(tier => tier.influenceRadius));
+  return maxRadius + getTechEffects(TECH_TREE.map(tech => tech.id)).baseInfluenceBonus;
+}
+
+/**
+ * Get the tiles a base's influence could cover, for recomputing after it is built, upgraded or lost
+ * @param center Position of the base
+ */
+export function getInfluenceArea(center: Coordinates): HexArea {
+  return { center, radius: getMaxInfluenceReach() };
+}
+
+/**
+ * Get the tile a unit's presence covers, for recomputing after it arrives or leaves
+ * @param center Position of the unit
+ */
+export function getPresenceArea(center: Coordinates): HexArea {
+  return { center, radius: 0 };
+}
+
+/**
+ * Get the tiles where a battle changed who is present
+ * @param report The battle report
+ */
+export function getBattleAreas(report: BattleReport): HexArea[] {
+  return [
+    getPresenceArea(report.position),
+    ...report.results
+      .filter(result => result.retreatedTo)
+      .map(result => getPresenceArea(result.retreatedTo!))
+  ];
+}
+
+/**
+ * Load the colonies belonging to a set of players in a transaction
+ * @param uids Firebase user IDs of the players
+ * @param transaction The transaction to read in
+ * @param tracker Read cost tracker for the calling function
+ */
+async function loadColoniesByUid(
+  uids: string[],
+  transaction: admin.firestore.Transaction,
+  tracker: ReadCostTracker
+): Promise<Colony[]> {
+  const coloniesRef = admin.firestore().collection('colony/v1/colonies');
+  const colonies: Colony[] = [];
+
+  for (let i = 0; i < uids.length; i += MAX_IN_QUERY) {
+    const snapshot = await transaction.get(coloniesRef.where('uid', 'in', uids.slice(i, i + MAX_IN_QUERY)));
+    tracker.trackRead('territoryColonies', snapshot.size);
+    colonies.push(...snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Colony)));
+  }
+
+  return colonies;
+}
+
+/**
+ * Recompute who controls the tiles around some changes and persist any changes
+ * Only units close enough to reach the tiles are read, through the unit index.
+ *
+ * This function, in one transaction so concurrent recomputes can't count a tile twice:
+ * 1. Reads the indexed units within influence reach of the areas, and the tiles' current controllers
+ * 2. Reads the colonies of everyone involved and derives control of the tiles from their units
+ * 3. Moves the territory entries of tiles that changed hands, and updates territoryScore on the
+ *    colonies involved, their leaderboard entries and their alliances' combined scores
+ * 4. Updates controllerUid on every tile that changed hands, creating tiles as needed
+ *
+ * Tiles claimed through addColonyTile keep their controller until another colony's units cover them.
+ *
+ * Then publishes a TILE_UPDATED event for each changed tile to the players who lost or gained it and
+ * those who can see it.
+ * @param areas Tiles whose controller may have changed
+ * @param tracker Read cost tracker for the calling function
+ * @returns The tiles that changed hands
+ */
+export async function recomputeTerritory(areas: HexArea[], tracker: ReadCostTracker): Promise<TerritoryChange[]> {
+  const db = admin.firestore();
+
+  const tileCoords = new Map<string, Coordinates>();
+  areas.forEach(({ center, radius }) => {
+    getCoordinatesInRadius(center, radius)
+      .filter(coords => isWithinGalaxy(coords.q, coords.r, coords.s))
+      .forEach(coords => tileCoords.set(toTileId(coords), coords));
+  });
+
+  if (tileCoords.size === 0) {
+    return [];
+  }
+
+  const galaxy = await getGalaxySettings(tracker);
+  const reach = getMaxInfluenceReach();
+
+  const { changes, updatedTiles, colonyIdByUid } = await db.runTransaction(async (transaction) => {
+    const units = await loadUnitsInAreas(
+      areas.map(({ center, radius }) => ({ center, radius: radius + reach })),
+      tracker,
+      transaction
+    );
+
+    const chunkRefs = Array.from(new Set(Array.from(tileCoords.values()).map(getChunkId))).map(getChunkRef);
+    const chunkSnapshots = await transaction.getAll(...chunkRefs);
+    tracker.trackRead('territoryChunks', chunkSnapshots.length);
+
+    const storedTiles = new Map<string, ChunkTile>();
+    chunkSnapshots
+      .filter(snapshot => snapshot.exists)
+      .forEach(snapshot => Object.entries((snapshot.data() as TileChunk).tiles || {})
+        .filter(([tileId]) => tileCoords.has(tileId))
+        .forEach(([tileId, chunkTile]) => storedTiles.set(tileId, chunkTile)));
+
+    const uids = new Set(units.map(unit => unit.ownerUid));
+    storedTiles.forEach(tile => {
+      if (tile.controllerUid) uids.add(tile.controllerUid);
+    });
+    const colonies = await loadColoniesByUid(Array.from(uids), transaction, tracker);
+
+    // Derive control from the indexed units, which cover every unit that can reach the tiles
+    const territory = computeTerritory(colonies.map(colony => ({
+      ...colony,
+      units: units.filter(unit => unit.colonyId === colony.id).map(fromIndexedUnit)
+    })));
+
+    const changes: TerritoryChange[] = [];
+    tileCoords.forEach((_, tileId) => {
+      const storedTile = storedTiles.get(tileId);
+      const previousUid = storedTile?.controllerUid || '';
+      // A manual claim stands until some colony's units cover the tile
+      const controllerUid = territory.get(tileId) || (storedTile?.claimedManually ? previousUid : '');
+      if (previousUid !== controllerUid) {
+        changes.push({ tileId, previousUid, controllerUid });
+      }
+    });
+
+    const colonyByUid = new Map(colonies.map(colony => [colony.uid, colony]));
+    const colonyIdByUid = new Map(colonies.map(colony => [colony.uid, colony.id]));
+    const updatedTiles: { tile: ColonyTile; change: TerritoryChange }[] = [];
+
+    if (changes.length === 0) {
+      return { changes, updatedTiles, colonyIdByUid };
+    }
+
+    // Move each changed tile's entry to its new controller's territory
+    const claimedAt = Date.now();
+    const deltas = new Map<string, number>();
+    changes.forEach(({ tileId, previousUid, controllerUid }) => {
+      const previousColonyId = colonyIdByUid.get(previousUid);
+      const colonyId = colonyIdByUid.get(controllerUid);
+      if (previousColonyId) {
+        transaction.delete(getTerritoryRef(previousColonyId, tileId));
+        deltas.set(previousUid, (deltas.get(previousUid) || 0) - 1);
+      }
+      if (colonyId) {
+        transaction.set(getTerritoryRef(colonyId, tileId), createTerritoryEntry(controllerUid, tileId, claimedAt));
+        deltas.set(controllerUid, (deltas.get(controllerUid) || 0) + 1);
+      }
+    });
+
+    // Update colonies whose territory changed, from the scores read in this transaction
+    deltas.forEach((delta, uid) => {
+      const colony = colonyByUid.get(uid);
+      if (!colony || delta === 0) return;
+
+      const territoryScore = (colony.territoryScore || 0) + delta;
+      transaction.update(db.doc(`colony/v1/colonies/${colony.id}`), getTerritoryScoreUpdate(delta));
+      transaction.set(getLeaderboardRef(colony.id), getScoreChangeUpdate(colony, territoryScore, delta), { merge: true });
+
+      const { allianceId } = colony;
+      if (allianceId) {
+        transaction.set(getAllianceRef(allianceId), getAllianceScoreUpdate(delta), { merge: true });
+      }
+    });
+
+    // Update tile documents, generating tiles that were never persisted, and their chunks in one write each
+    const updatedAt = new Date().toISOString();
+    const chunkUpdates = new Map<string, { ref: admin.firestore.DocumentReference; data: Record<string, unknown> }>();
+    const addChunkUpdate = (coords: Coordinates, fields: Partial<ChunkTile>) => {
+      const update = getChunkTileUpdate(coords, fields);
+      const existing = chunkUpdates.get(update.ref.path);
+      if (existing) {
+        Object.assign(existing.data.tiles as Record<string, unknown>, update.data.tiles);
+      } else {
+        chunkUpdates.set(update.ref.path, update);
+      }
+    };
+
+    changes.forEach(change => {
+      const { tileId, controllerUid } = change;
+      const coords = tileCoords.get(tileId)!;
+      const tileRef = db.doc(`colony/v1/tiles/${tileId}`);
+      const storedTile = storedTiles.get(tileId);
+
+      if (storedTile) {
+        // Units took the tile over, so it no longer counts as a manual claim
+        const fields: Partial<ChunkTile> = storedTile.claimedManually
+          ? { controllerUid, updatedAt, claimedManually: false }
+          : { controllerUid, updatedAt };
+        updatedTiles.push({ tile: { ...storedTile, id: tileId, ...coords, ...fields, controllerUid }, change });
+        transaction.update(tileRef, fields);
+        addChunkUpdate(coords, fields);
+        return;
+      }
+
+      const tile = generateTile(coords, controllerUid, galaxy);
+      updatedTiles.push({ tile, change });
+      transaction.set(tileRef, tile);
+      addChunkUpdate(coords, toChunkTile(tile));
+    });
+
+    chunkUpdates.forEach(({ ref, data }) => transaction.set(ref, data, { merge: true }));
+    tracker.trackWrite('territoryUpdates', changes.length * 3 + deltas.size * 3);
+
+    return { changes, updatedTiles, colonyIdByUid };
+  });
+
+  if (changes.length === 0) {
+    return changes;
+  }
+
+  logger.info(`[recomputeTerritory] ${changes.length} of ${tileCoords.size} tiles changed hands`);
+
+  // Tell the players who lost or gained each tile, and those who can see it, so clients can recolor the map
+  try {
+    await publishToViewers(EventType.TILE_UPDATED, updatedTiles.map(({ tile, change }) => ({
+      positions: [tile],
+      participantUids: [change.previousUid, change.controllerUid],
+      data: {
+        type: EventType.TILE_UPDATED,
+        timestamp: Date.now(),
+        payloadType: 'tile',
+        payload: tile,
+        colonyId: colonyIdByUid.get(change.controllerUid || change.previousUid) || '',
+        userId: tile.controllerUid
+      }
+    })), COLONY_EVENTS_TOPIC, tracker);
+  } catch (pubsubError) {
+    // Log the error but don't fail the recompute
+    logger.error("Error publishing to PubSub:", pubsubError);
+  }
+
+  return changes;
+}
@@ -0,0 +1,159 @@
+import * as admin from "firebase-admin";
+import { HttpsError } from "firebase-functions/v2/https";
+import { Coordinates } from "../types/base";
+import { Colony, ColonyTile, TileCaptureResult } from "../types/colony";
+import { gameConfig } from "../config";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { toTileId, verifyTileAdjacency } from "./tileHelpers";
+import { generateTile } from "./tiles/tileOperations";
+import { getChunkTileUpdate, toChunkTile } from "./tiles/chunks";
+import { getGalaxySettings } from "./galaxy";
+import { getShipsAt } from "./combat";
+import { getLeaderboardRef, getScoreChangeUpdate, LeaderboardColony } from "./leaderboard";
+import { areAllied, getAllianceRef, getAllianceScoreUpdate } from "./alliances";
+import { createTerritoryEntry, getTerritoryRef, getTerritoryScoreUpdate, getTileWithNeighbors } from "./ownership";
+
+/**
+ * Claim an unowned tile for a user's colony, or capture it from another colony
+ *
+ * Everything runs in one transaction, so two players claiming the same tile can't both
+ * end up with it in their territory. Firestore retries the transaction when another write
+ * lands on the tile first; if that write handed the tile to someone else, the claim is
+ * dropped with a conflict result rather than immediately capturing it back.
+ * @param uid Firebase user ID of the player claiming the tile
+ * @param coords Coordinates of the tile
+ * @param tracker Read cost tracker for the calling function
+ * @returns The claimed or captured tile, or the conflict that stopped the claim
+ */
+export async function captureTile(
+  uid: string,
+  coords: Coordinates,
+  tracker: ReadCostTracker
+): Promise<TileCaptureResult> {
+  const db = admin.firestore();
+  const coloniesRef = db.collection('colony/v1/colonies');
+  const tileId = toTileId(coords);
+  const tileRef = db.collection('colony/v1/tiles').doc(tileId);
+
+  // Procedural terrain for a brand new tile; read outside the transaction since it never changes
+  const galaxy = await getGalaxySettings(tracker);
+
+  // Who held the tile when the claim was first attempted; undefined until the first attempt reads it
+  let expectedControllerUid: string | null | undefined;
+
+  return db.runTransaction(async (transaction): Promise<TileCaptureResult> => {
+    const neighborRefs = getTileWithNeighbors(coords).slice(1)
+      .map(neighbor => db.collection('colony/v1/tiles').doc(toTileId(neighbor)));
+    const [colonyQuery, [tileDoc, ...neighborDocs]] = await Promise.all([
+      transaction.get(coloniesRef.where('uid', '==', uid).limit(1)),
+      transaction.getAll(tileRef, ...neighborRefs)
+    ]);
+    tracker.trackRead('colonyQuery', colonyQuery.size);
+    tracker.trackRead('tileDocGet', 1 + neighborDocs.length);
+
+    if (colonyQuery.empty) {
+      throw new HttpsError('not-found', 'No colony found for this user');
+    }
+
+    const colonyDoc = colonyQuery.docs[0];
+    const colonyData = colonyDoc.data() as Colony;
+    const tileData = tileDoc.exists ? tileDoc.data() as ColonyTile : undefined;
+    const controllerUid = tileData?.controllerUid || null;
+
+    if (expectedControllerUid === undefined) {
+      expectedControllerUid = controllerUid;
+    } else if (controllerUid !== expectedControllerUid) {
+      // Someone else took the tile while this claim was in flight
+      return { status: 'conflict', tileId, controllerUid };
+    }
+
+    if (controllerUid === uid) {
+      throw new HttpsError('already-exists', 'This tile is already part of your colony');
+    }
+
+    const ownedNeighborIds = neighborDocs
+      .filter(doc => doc.exists && (doc.data() as ColonyTile).controllerUid === uid)
+      .map(doc => doc.id);
+    verifyTileAdjacency(coords.q, coords.r, coords.s, ownedNeighborIds);
+
+    // Find the colony the tile belonged to, reading it before any writes
+    let previousColonyDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+    if (controllerUid) {
+      const previousColonyQuery = await transaction.get(coloniesRef.where('uid', '==', controllerUid).limit(1));
+      tracker.trackRead('previousColonyQuery', previousColonyQuery.size);
+      previousColonyDoc = previousColonyQuery.empty ? null : previousColonyQuery.docs[0];
+    }
+
+    if (previousColonyDoc) {
+      const previousColonyData = previousColonyDoc.data() as Colony;
+
+      if (areAllied(colonyData, previousColonyData)) {
+        throw new HttpsError('failed-precondition', 'This tile belongs to an ally');
+      }
+
+      // Defended tiles have to be contested by moving ships in and winning the battle
+      if (getShipsAt(previousColonyData.units || [], coords).length > 0) {
+        throw new HttpsError(
+          'failed-precondition',
+          'This tile is defended by enemy ships. Move your ships in to contest it'
+        );
+      }
+
+      transaction.delete(getTerritoryRef(previousColonyDoc.id, tileId));
+      transaction.update(previousColonyDoc.ref, getTerritoryScoreUpdate(-1));
+      transaction.set(
+        getLeaderboardRef(previousColonyDoc.id),
+        getScoreChangeUpdate(
+          { ...previousColonyData, id: previousColonyDoc.id } as LeaderboardColony,
+          Math.max(0, (previousColonyData.territoryScore || 0) - 1),
+          -1
+        ),
+        { merge: true }
+      );
+      if (previousColonyData.allianceId) {
+        transaction.set(getAllianceRef(previousColonyData.allianceId), getAllianceScoreUpdate(-1), { merge: true });
+      }
+    }
+
+    let tile: ColonyTile;
+    if (tileData) {
+      tile = { ...tileData, controllerUid: uid, visibility: 'visible', claimedManually: true };
+      transaction.update(tileRef, { controllerUid: uid, visibility: 'visible', claimedManually: true });
+      const chunkUpdate = getChunkTileUpdate(coords, { controllerUid: uid, visibility: 'visible', claimedManually: true });
+      transaction.set(chunkUpdate.ref, chunkUpdate.data, { merge: true });
+    } else {
+      tile = { ...generateTile(coords, uid, galaxy), claimedManually: true };
+      transaction.set(tileRef, tile);
+      const chunkUpdate = getChunkTileUpdate(coords, toChunkTile(tile));
+      transaction.set(chunkUpdate.ref, chunkUpdate.data, { merge: true });
+    }
+
+    transaction.set(getTerritoryRef(colonyDoc.id, tileId), createTerritoryEntry(uid, tileId, Date.now()));
+    transaction.update(colonyDoc.ref, getTerritoryScoreUpdate(1));
+    transaction.set(
+      getLeaderboardRef(colonyDoc.id),
+      getScoreChangeUpdate(
+        { ...colonyData, id: colonyDoc.id } as LeaderboardColony,
+        (colonyData.territoryScore || 0) + 1,
+        1
+      ),
+      { merge: true }
+    );
+    if (colonyData.allianceId) {
+      transaction.set(getAllianceRef(colonyData.allianceId), getAllianceScoreUpdate(1), { merge: true });
+    }
+    tracker.trackWrite('tileCapture', previousColonyDoc ? 7 : 4);
+
+    if (controllerUid) {
+      return {
+        status: 'captured',
+        tile,
+        colonyId: colonyDoc.id,
+        previousOwner: controllerUid,
+        previousColony: previousColonyDoc?.id ?? null
+      };
+    }
+
+    return { status: 'claimed', tile, colonyId: colonyDoc.id };
+  }, { maxAttempts: gameConfig.territory.maxCaptureAttempts });
+}
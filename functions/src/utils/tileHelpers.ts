@@ -1,4 +1,6 @@
 import { HttpsError } from "firebase-functions/v2/https";
+import { Coordinates } from "../types/base";
+import { gameConfig } from "../config";
 
 /**
  * Predefined neighbor offsets for hexagonal tiles using cube coordinates (q,r,s)
@@ -12,6 +14,94 @@ export const neighborOffsets = [
   { q: 0, r: -1, s: 1 }
 ];
 
+/**
+ * Build the tile ID used for a set of cube coordinates
+ * @param coords - Cube coordinates of the tile
+ * @returns The tile ID in q#r#s format
+ */
+export function toTileId(coords: Coordinates): string {
+  return `${coords.q}#${coords.r}#${coords.s}`;
+}
+
+/**
+ * Parse a tile ID in q#r#s format back into coordinates
+ * @param tileId - The tile ID to parse
+ * @returns The cube coordinates, or null if the ID is malformed
+ */
+export function fromTileId(tileId: string): Coordinates | null {
+  const [q, r, s] = tileId.split('#').map(Number);
+  if ([q, r, s].some(isNaN) || q + r + s !== 0) return null;
+  return { q, r, s };
+}
+
+/**
+ * Round fractional cube coordinates to the nearest hex
+ * @param q Fractional q coordinate
+ * @param r Fractional r coordinate
+ * @param s Fractional s coordinate
+ * @returns The nearest integer cube coordinates
+ */
+export function cubeRound(q: number, r: number, s: number): Coordinates {
+  let roundedQ = Math.round(q);
+  let roundedR = Math.round(r);
+  let roundedS = Math.round(s);
+
+  const qDiff = Math.abs(roundedQ - q);
+  const rDiff = Math.abs(roundedR - r);
+  const sDiff = Math.abs(roundedS - s);
+
+  // Reset the component with the largest difference to keep q + r + s = 0
+  if (qDiff > rDiff && qDiff > sDiff) {
+    roundedQ = -roundedR - roundedS;
+  } else if (rDiff > sDiff) {
+    roundedR = -roundedQ - roundedS;
+  } else {
+    roundedS = -roundedQ - roundedR;
+  }
+
+  // Normalise -0 to 0 so tile IDs stay stable
+  return { q: roundedQ + 0, r: roundedR + 0, s: roundedS + 0 };
+}
+
+/**
+ * Round a location to the center of its sector so other players don't learn exact coordinates
+ * @param coords The exact location
+ * @returns The center tile of the sector containing it
+ */
+export function getHomeSector(coords: Coordinates): Coordinates {
+  const { sectorSize } = gameConfig.profiles;
+  const sector = cubeRound(coords.q / sectorSize, coords.r / sectorSize, coords.s / sectorSize);
+
+  // Adding zero turns -0 into 0
+  return {
+    q: sector.q * sectorSize + 0,
+    r: sector.r * sectorSize + 0,
+    s: sector.s * sectorSize + 0
+  };
+}
+
+/**
+ * Get every coordinate within a radius of a center tile (including the center)
+ * @param center - Center of the area
+ * @param radius - Radius of the area in tiles
+ * @returns Array of cube coordinates inside the radius
+ */
+export function getCoordinatesInRadius(center: Coordinates, radius: number): Coordinates[] {
+  const coordinates: Coordinates[] = [];
+
+  for (let dq = -radius; dq <= radius; dq++) {
+    for (let dr = Math.max(-radius, -dq - radius); dr <= Math.min(radius, -dq + radius); dr++) {
+      coordinates.push({
+        q: center.q + dq,
+        r: center.r + dr,
+        s: center.s - dq - dr
+      });
+    }
+  }
+
+  return coordinates;
+}
+
 /**
  * Checks if a tile is adjacent to any tile in the colony
  * @param q - Q coordinate of the tile to check
@@ -37,8 +127,6 @@ export function isTileAdjacentToColony(q: number, r: number, s: number, colonyTi
  * @param colonyTileIds - Array of tile IDs in the colony
  */
 export function verifyTileAdjacency(q: number, r: number, s: number, colonyTileIds: string[]): void {
-  return;
-  // TODO:TW Game flag or set up?
   if (!isTileAdjacentToColony(q, r, s, colonyTileIds)) {
     throw new HttpsError('failed-precondition', 'New tile must be adjacent to your existing colony');
   }
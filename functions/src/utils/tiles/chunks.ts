@@ -0,0 +1,132 @@
+import * as admin from "firebase-admin";
+import { ColonyTile } from "../../types/colony";
+import { ChunkTile, TileChunk } from "../../types/chunk";
+import { Coordinates } from "../../types/base";
+import { gameConfig } from "../../config";
+import { ReadCostTracker } from "../analytics/readCostTracker";
+import { fromTileId, toTileId } from "../tileHelpers";
+
+export const CHUNKS_COLLECTION = 'colony/v1/chunks';
+
+/**
+ * Build the ID of a chunk from its chunk coordinates
+ */
+export function toChunkId(chunkQ: number, chunkR: number): string {
+  return `${chunkQ}#${chunkR}`;
+}
+
+/**
+ * Parse a chunk ID in chunkQ#chunkR format
+ * @param chunkId The chunk ID to parse
+ * @returns The chunk coordinates, or null if the ID is malformed
+ */
+export function fromChunkId(chunkId: string): { chunkQ: number; chunkR: number } | null {
+  const parts = chunkId.split('#');
+  if (parts.length !== 2) return null;
+
+  const [chunkQ, chunkR] = parts.map(Number);
+  if (!Number.isInteger(chunkQ) || !Number.isInteger(chunkR)) return null;
+
+  return { chunkQ, chunkR };
+}
+
+/**
+ * Get the ID of the chunk a tile belongs to
+ * Chunks are squares in axial coordinates, so s plays no part.
+ * @param coords Coordinates of the tile
+ */
+export function getChunkId(coords: Coordinates): string {
+  const { size } = gameConfig.chunks;
+  return toChunkId(Math.floor(coords.q / size), Math.floor(coords.r / size));
+}
+
+/**
+ * Get a chunk document
+ * @param chunkId ID of the chunk
+ */
+export function getChunkRef(chunkId: string): admin.firestore.DocumentReference {
+  return admin.firestore().doc(`${CHUNKS_COLLECTION}/${chunkId}`);
+}
+
+/**
+ * Strip a tile down to what its chunk stores
+ */
+export function toChunkTile(tile: ColonyTile): ChunkTile {
+  const { id, q, r, s, ...chunkTile } = tile;
+  return chunkTile;
+}
+
+/**
+ * Rebuild a full tile from its chunk entry
+ * @param tileId ID of the tile, which gives its coordinates
+ * @param chunkTile The chunk's copy of the tile
+ * @returns The tile, or null if the ID is malformed
+ */
+export function fromChunkTile(tileId: string, chunkTile: ChunkTile): ColonyTile | null {
+  const coords = fromTileId(tileId);
+  return coords ? { ...chunkTile, id: tileId, ...coords } : null;
+}
+
+/**
+ * Build the write that copies a tile change into the tile's chunk
+ * Write it with { merge: true } alongside the tile document, in the same batch or transaction,
+ * so only the given fields change and the chunk is created if this is its first tile.
+ * @param coords Coordinates of the tile
+ * @param fields The tile's changed fields, or the whole tile for a new one
+ * @returns The chunk document and the data to merge into it
+ */
+export function getChunkTileUpdate(
+  coords: Coordinates,
+  fields: Partial<ChunkTile>
+): { ref: admin.firestore.DocumentReference; data: Record<string, unknown> } {
+  const chunkId = getChunkId(coords);
+  const { chunkQ, chunkR } = fromChunkId(chunkId)!;
+
+  return {
+    ref: getChunkRef(chunkId),
+    data: { id: chunkId, chunkQ, chunkR, tiles: { [toTileId(coords)]: fields } }
+  };
+}
+
+/**
+ * Load chunk documents
+ * @param chunkIds IDs of the chunks
+ * @param tracker Read cost tracker for the calling function
+ * @returns The chunks that exist, in the order requested
+ */
+export async function loadChunks(chunkIds: string[], tracker: ReadCostTracker): Promise<TileChunk[]> {
+  if (chunkIds.length === 0) return [];
+
+  const snapshots = await admin.firestore().getAll(...chunkIds.map(getChunkRef));
+  tracker.trackRead('chunkDocs', snapshots.length);
+
+  return snapshots
+    .filter(snapshot => snapshot.exists)
+    .map(snapshot => snapshot.data() as TileChunk);
+}
+
+/**
+ * Load the persisted tiles at a set of coordinates from their chunks
+ * One read per chunk rather than per tile, for the wide-area reads visibility needs.
+ * @param coordinates Coordinates to look up
+ * @param tracker Read cost tracker for the calling function
+ * @returns Map of tile ID to tile for every tile that exists
+ */
+export async function loadChunkedTilesAt(
+  coordinates: Coordinates[],
+  tracker: ReadCostTracker
+): Promise<Map<string, ColonyTile>> {
+  const tiles = new Map<string, ColonyTile>();
+  const chunks = await loadChunks(Array.from(new Set(coordinates.map(getChunkId))), tracker);
+  const chunkTiles = new Map(chunks.flatMap(chunk => Object.entries(chunk.tiles || {})));
+
+  coordinates.forEach(coords => {
+    const tileId = toTileId(coords);
+    const chunkTile = chunkTiles.get(tileId);
+    if (chunkTile) {
+      tiles.set(tileId, { ...chunkTile, id: tileId, ...coords });
+    }
+  });
+
+  return tiles;
+}
@@ -1,8 +1,13 @@
 import * as admin from "firebase-admin";
 import * as logger from "firebase-functions/logger";
 import { ColonyTile } from "../../types/colony";
-import { createNoiseGenerator, getNoiseForCoordinates, getTileTypeFromNoise, calculateResourceDensity, TileType } from "../noise";
+import { TileType } from "../noise";
 import { ReadCostTracker } from "../analytics/readCostTracker";
+import { Coordinates } from "../../types/base";
+import { GalaxySettings, TileTerrain } from "../../types/galaxy";
+import { toTileId } from "../tileHelpers";
+import { generateTileAt, getGalaxySettings } from "../galaxy";
+import { getChunkTileUpdate, toChunkTile } from "./chunks";
 
 /**
  * Generate the initial tiles for a new colony
@@ -11,30 +16,22 @@ export function generateInitialTiles(
   colonyId: string,
   uid: string,
   startCoords: {q: number, r: number, s: number},
-  baseInfluenceRadius: number
+  baseInfluenceRadius: number,
+  galaxy: GalaxySettings
 ): ColonyTile[] {
   const tiles: ColonyTile[] = [];
   
-  // Create a noise generator for this colony's tiles
-  const noise2D = createNoiseGenerator();
-  
-  // Helper to create a tile with proper type based on noise
+  // Helper to create a tile with proper type based on the galaxy seed
   const createTile = (q: number, r: number, s: number): ColonyTile => {
-    // Get noise value at these coordinates
-    const noiseValue = getNoiseForCoordinates(noise2D, q, r);
-    
-    // Determine tile type based on noise
-    const tileType = getTileTypeFromNoise(noiseValue);
-    
-    // Calculate resource density based on tile type and noise
-    const resourceDensity = calculateResourceDensity(tileType, noiseValue);
+    const { type, trait, resourceDensity } = generateTileAt(q, r, galaxy);
     
     return {
       id: `${q}#${r}#${s}`, // New ID format as per TODO
       q,
       r,
       s,
-      type: tileType,
+      type,
+      trait,
       controllerUid: uid,
       visibility: 'visible',
       resourceDensity,
@@ -70,7 +67,33 @@ export function generateInitialTiles(
 }
 
 /**
- * Save tiles to Firestore in a separate collection
+ * Generate a tile that hasn't been persisted yet from galaxy noise
+ * @param coords Coordinates of the tile
+ * @param controllerUid Firebase user ID of the controller, empty for unclaimed tiles
+ * @param galaxy The galaxy settings
+ * @returns The new tile
+ */
+export function generateTile(coords: Coordinates, controllerUid: string, galaxy: GalaxySettings): ColonyTile {
+  const { type, trait, resourceDensity } = generateTileAt(coords.q, coords.r, galaxy);
+
+  return {
+    id: toTileId(coords),
+    q: coords.q,
+    r: coords.r,
+    s: coords.s,
+    type,
+    trait,
+    controllerUid,
+    visibility: 'visible',
+    resourceDensity,
+    resources: {},
+    color: '#000000', // Default color
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Save tiles to Firestore in a separate collection, copying each into its chunk
  * @param tiles Array of tiles to save
  * @returns Array of tile IDs
  */
@@ -86,6 +109,8 @@ export async function saveTilesToFirestore(tiles: ColonyTile[]): Promise<string[
   for (const tile of tiles) {
     const tileRef = tilesCollection.doc(tile.id);
     batch.set(tileRef, tile);
+    const chunkUpdate = getChunkTileUpdate(tile, toChunkTile(tile));
+    batch.set(chunkUpdate.ref, chunkUpdate.data, { merge: true });
     tileIds.push(tile.id);
   }
   
@@ -130,4 +155,69 @@ export async function getTilesByIds(tileIds: string[]): Promise<ColonyTile[]> {
   logger.info(`[getTilesByIds] Read Summary: ${readSummary.total} total reads`);
   
   return tiles;
-} 
\ No newline at end of file
+} 
+/**
+ * Load the persisted tiles at a set of coordinates
+ * @param coordinates Coordinates to look up
+ * @param tracker Read cost tracker for the calling function
+ * @returns Map of tile ID to tile for every tile that exists in Firestore
+ */
+export async function loadTilesAt(
+  coordinates: Coordinates[],
+  tracker: ReadCostTracker
+): Promise<Map<string, ColonyTile>> {
+  const tiles = new Map<string, ColonyTile>();
+  if (coordinates.length === 0) return tiles;
+
+  const tileRefs = coordinates.map(coords => admin.firestore().doc(`colony/v1/tiles/${toTileId(coords)}`));
+  const tileSnapshots = await admin.firestore().getAll(...tileRefs);
+  tracker.trackRead('tilesAt', tileSnapshots.length);
+
+  tileSnapshots
+    .filter(snapshot => snapshot.exists)
+    .forEach(snapshot => tiles.set(snapshot.id, snapshot.data() as ColonyTile));
+
+  return tiles;
+}
+
+/**
+ * Get the terrain of a tile, falling back to procedural generation for anything not persisted
+ * @param coords Coordinates of the tile
+ * @param tile The persisted tile, if there is one
+ * @param galaxy The galaxy settings
+ */
+export function getTileTerrain(
+  coords: Coordinates,
+  tile: ColonyTile | undefined,
+  galaxy: GalaxySettings
+): TileTerrain {
+  // Tiles persisted before traits existed have no trait field at all
+  if (tile && tile.trait !== undefined) {
+    return { type: tile.type, trait: tile.trait };
+  }
+
+  const generated = generateTileAt(coords.q, coords.r, galaxy);
+  return { type: tile?.type ?? generated.type, trait: generated.trait };
+}
+
+/**
+ * Load the terrain of the tiles at a set of coordinates
+ * Tiles that were never persisted fall back to their procedural terrain.
+ * @param coordinates Coordinates to look up
+ * @param tracker Read cost tracker for the calling function
+ * @returns Map of tile ID to terrain for every coordinate
+ */
+export async function loadTileTerrain(
+  coordinates: Coordinates[],
+  tracker: ReadCostTracker
+): Promise<Map<string, TileTerrain>> {
+  const [tiles, galaxy] = await Promise.all([
+    loadTilesAt(coordinates, tracker),
+    getGalaxySettings(tracker)
+  ]);
+
+  return new Map(coordinates.map(coords => {
+    const tileId = toTileId(coords);
+    return [tileId, getTileTerrain(coords, tiles.get(tileId), galaxy)];
+  }));
+}
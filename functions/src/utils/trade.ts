@@ -0,0 +1,147 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { TradeHistoryEntry, TradeOffer, TradeStatus } from "../types/trade";
+import { gameConfig } from "../config";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { createStockpileUpdates } from "./construction";
+import { RecordRule, StringRule } from "./validation";
+
+export const TRADES_COLLECTION = 'colony/v1/trades';
+
+// A resource type named in a request; the stockpile only ever holds lowercase names
+export const RESOURCE_TYPE_RULE: StringRule = {
+  type: 'string',
+  maxLength: 32,
+  pattern: /^[a-z][a-z_]*$/,
+  format: 'a resource type'
+};
+
+// Resources offered or requested by a trade, as a whole amount of each type
+export const RESOURCE_BUNDLE_RULE: RecordRule<number> = {
+  type: 'record',
+  keyPattern: RESOURCE_TYPE_RULE.pattern!,
+  keyFormat: 'a resource type',
+  values: { type: 'integer', min: 1, max: gameConfig.trade.maxAmount },
+  minEntries: 1,
+  maxEntries: gameConfig.trade.maxResourceTypes
+};
+
+/**
+ * Get the document for a trade offer
+ * @param offerId ID of the offer
+ */
+export function getTradeOfferRef(offerId: string): admin.firestore.DocumentReference {
+  return admin.firestore().doc(`${TRADES_COLLECTION}/${offerId}`);
+}
+
+/**
+ * Get the document recording a closed offer in a colony's trade history
+ * @param colonyId ID of the colony
+ * @param offerId ID of the offer
+ */
+export function getTradeHistoryRef(colonyId: string, offerId: string): admin.firestore.DocumentReference {
+  return admin.firestore().doc(`colony/v1/colonies/${colonyId}/tradeHistory/${offerId}`);
+}
+
+/**
+ * Combine what a colony gains and loses into one change per resource
+ * A single update can't increment the same stockpile field twice, so trades net these first.
+ * @param gained Resources coming in
+ * @param lost Resources going out
+ */
+export function getNetResources(gained: Record<string, number>, lost: Record<string, number>): Record<string, number> {
+  const net: Record<string, number> = { ...gained };
+  Object.entries(lost).forEach(([resourceType, amount]) => {
+    net[resourceType] = (net[resourceType] || 0) - amount;
+  });
+  return Object.fromEntries(Object.entries(net).filter(([, amount]) => amount !== 0));
+}
+
+/**
+ * Build a history entry for one side of a closed offer
+ * @param offer The offer, as it was when it closed
+ * @param role Which side of the offer the colony was on
+ */
+export function createTradeHistoryEntry(offer: TradeOffer, role: TradeHistoryEntry['role']): TradeHistoryEntry {
+  const traded = offer.status === 'accepted';
+  const isCreator = role === 'creator';
+
+  return {
+    offerId: offer.id,
+    role,
+    status: offer.status as TradeHistoryEntry['status'],
+    counterpartyUid: traded ? (isCreator ? offer.acceptorUid : offer.creatorUid) : null,
+    counterpartyName: traded ? (isCreator ? offer.acceptorName : offer.creatorName) : null,
+    gave: traded ? (isCreator ? offer.offered : offer.requested) : {},
+    received: traded ? (isCreator ? offer.requested : offer.offered) : {},
+    createdAt: offer.createdAt,
+    closedAt: offer.closedAt ?? Date.now()
+  };
+}
+
+/**
+ * Close an offer that nobody accepted, returning the escrow to its creator
+ * @param transaction The running transaction, after all of its reads
+ * @param offer The open offer
+ * @param status Why it closed
+ * @param closedAt When it closed
+ * @returns The closed offer
+ */
+export function closeUnfilledOffer(
+  transaction: admin.firestore.Transaction,
+  offer: TradeOffer,
+  status: Extract<TradeStatus, 'cancelled' | 'expired'>,
+  closedAt: number
+): TradeOffer {
+  const closed: TradeOffer = { ...offer, status, closedAt };
+
+  transaction.update(
+    admin.firestore().doc(`colony/v1/colonies/${offer.creatorColonyId}`),
+    createStockpileUpdates(offer.offered, 1)
+  );
+  transaction.update(getTradeOfferRef(offer.id), { status, closedAt });
+  transaction.set(getTradeHistoryRef(offer.creatorColonyId, offer.id), createTradeHistoryEntry(closed, 'creator'));
+
+  return closed;
+}
+
+/**
+ * Expire every open offer past its expiry time, refunding the escrow
+ * Each offer closes in its own transaction so an offer accepted at the last moment is left alone.
+ * @param tracker Read cost tracker for the calling function
+ * @returns How many offers were expired
+ */
+export async function expireStaleOffers(tracker: ReadCostTracker): Promise<number> {
+  const now = Date.now();
+  const staleSnapshot = await admin.firestore()
+    .collection(TRADES_COLLECTION)
+    .where('status', '==', 'open')
+    .where('expiresAt', '<=', now)
+    .limit(gameConfig.trade.expiryBatchSize)
+    .get();
+  tracker.trackRead('staleOffers', staleSnapshot.size);
+
+  let expired = 0;
+  for (const doc of staleSnapshot.docs) {
+    try {
+      const closed = await admin.firestore().runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(doc.ref);
+        tracker.trackRead('offer', 1);
+
+        const offer = snapshot.data() as TradeOffer | undefined;
+        if (!offer || offer.status !== 'open') return false;
+
+        closeUnfilledOffer(transaction, offer, 'expired', now);
+        tracker.trackWrite('offerExpiry', 3);
+        return true;
+      });
+
+      if (closed) expired++;
+    } catch (error) {
+      // Leave the offer for the next run rather than failing the whole batch
+      logger.error(`Error expiring trade offer ${doc.id}:`, error);
+    }
+  }
+
+  return expired;
+}
@@ -0,0 +1,228 @@
+import * as admin from "firebase-admin";
+import { Coordinates } from "../types/base";
+import { ConstructionOrder } from "../types/colony";
+import { Base, IndexedUnit, Unit, UnitChunk, UnitType } from "../types/units";
+import { gameConfig } from "../config";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { cubeDistance } from "./noise";
+import { fromChunkId, getChunkId, toChunkId } from "./tiles/chunks";
+
+export const UNIT_CHUNKS_COLLECTION = 'colony/v1/unitChunks';
+
+// A circle of tiles, such as everything a change could affect
+export interface HexArea {
+  center: Coordinates;
+  radius: number;
+}
+
+/**
+ * Get a unit chunk document
+ * @param chunkId ID of the chunk
+ */
+export function getUnitChunkRef(chunkId: string): admin.firestore.DocumentReference {
+  return admin.firestore().doc(`${UNIT_CHUNKS_COLLECTION}/${chunkId}`);
+}
+
+/**
+ * Build a unit's index entry
+ * @param unit The unit
+ * @param colonyId ID of the colony that owns it
+ */
+export function toIndexedUnit(unit: Unit, colonyId: string): IndexedUnit {
+  const { q, r, s } = unit.position;
+  const entry: IndexedUnit = { unitId: unit.id, colonyId, ownerUid: unit.ownerUid, type: unit.type, q, r, s, level: unit.level };
+  if (unit.type === UnitType.BASE) {
+    entry.influenceRadius = (unit as Base).influenceRadius || 0;
+  }
+  return entry;
+}
+
+/**
+ * Rebuild a unit from its index entry, with the fields territory and combat rely on
+ */
+export function fromIndexedUnit(entry: IndexedUnit): Unit {
+  const { unitId, colonyId, q, r, s, influenceRadius, ...unit } = entry;
+  return {
+    ...unit,
+    id: unitId,
+    position: { q, r, s },
+    ...(influenceRadius !== undefined ? { influenceRadius } : {})
+  } as Unit;
+}
+
+/**
+ * Build the writes that keep the index in step with a colony's units
+ * Write each with { merge: true } in the same transaction or batch as the units array,
+ * so a unit is never indexed somewhere it isn't.
+ * @param colonyId ID of the colony
+ * @param previous The colony's units before the change
+ * @param next The colony's units after the change
+ * @returns The unit chunk documents and the data to merge into each
+ */
+export function getUnitIndexUpdates(
+  colonyId: string,
+  previous: Unit[],
+  next: Unit[]
+): { ref: admin.firestore.DocumentReference; data: Record<string, unknown> }[] {
+  const updates = new Map<string, Record<string, unknown>>();
+  const addUpdate = (coords: Coordinates, unitId: string, value: unknown) => {
+    const chunkId = getChunkId(coords);
+    const units = updates.get(chunkId) ?? {};
+    units[unitId] = value;
+    updates.set(chunkId, units);
+  };
+
+  const previousById = new Map(previous.map(unit => [unit.id, toIndexedUnit(unit, colonyId)]));
+  const nextById = new Map(next.map(unit => [unit.id, toIndexedUnit(unit, colonyId)]));
+
+  previousById.forEach((entry, unitId) => {
+    const moved = nextById.get(unitId);
+    if (!moved || getChunkId(moved) !== getChunkId(entry)) {
+      addUpdate(entry, unitId, admin.firestore.FieldValue.delete());
+    }
+  });
+
+  nextById.forEach((entry, unitId) => {
+    const existing = previousById.get(unitId);
+    if (!existing || JSON.stringify(existing) !== JSON.stringify(entry)) {
+      addUpdate(entry, unitId, entry);
+    }
+  });
+
+  return Array.from(updates.entries()).map(([chunkId, units]) => {
+    const { chunkQ, chunkR } = fromChunkId(chunkId)!;
+    return { ref: getUnitChunkRef(chunkId), data: { id: chunkId, chunkQ, chunkR, units } };
+  });
+}
+
+/**
+ * Build the write that indexes a base under construction, or removes it once the order is done
+ * Write it with { merge: true } in the same transaction that queues or finishes the order.
+ * @param order The build order
+ * @param colonyId ID of the colony building the base
+ * @param ownerUid Firebase user ID of the colony owner
+ * @param planned Whether the base is still being built
+ */
+export function getPlannedBaseUpdate(
+  order: ConstructionOrder,
+  colonyId: string,
+  ownerUid: string,
+  planned: boolean
+): { ref: admin.firestore.DocumentReference; data: Record<string, unknown> } {
+  const chunkId = getChunkId(order.position);
+  const { chunkQ, chunkR } = fromChunkId(chunkId)!;
+  const { q, r, s } = order.position;
+  const entry: IndexedUnit = {
+    unitId: order.unitId,
+    colonyId,
+    ownerUid,
+    type: UnitType.BASE,
+    q,
+    r,
+    s,
+    level: order.targetLevel
+  };
+
+  return {
+    ref: getUnitChunkRef(chunkId),
+    data: {
+      id: chunkId,
+      chunkQ,
+      chunkR,
+      plannedBases: { [order.id]: planned ? entry : admin.firestore.FieldValue.delete() }
+    }
+  };
+}
+
+/**
+ * Get the IDs of the chunks covering some areas
+ * Chunks are squares in axial coordinates, so each area's bounding square is used.
+ * @param areas The areas
+ */
+export function getChunkIdsInAreas(areas: HexArea[]): string[] {
+  const { size } = gameConfig.chunks;
+  const chunkIds = new Set<string>();
+
+  areas.forEach(({ center, radius }) => {
+    for (let chunkQ = Math.floor((center.q - radius) / size); chunkQ <= Math.floor((center.q + radius) / size); chunkQ++) {
+      for (let chunkR = Math.floor((center.r - radius) / size); chunkR <= Math.floor((center.r + radius) / size); chunkR++) {
+        chunkIds.add(toChunkId(chunkQ, chunkR));
+      }
+    }
+  });
+
+  return Array.from(chunkIds);
+}
+
+/**
+ * Load the unit chunks covering some areas
+ * @param areas The areas to cover
+ * @param tracker Read cost tracker for the calling function
+ * @param transaction Transaction to read in, if any
+ * @returns The chunks that exist
+ */
+async function loadUnitChunksInAreas(
+  areas: HexArea[],
+  tracker: ReadCostTracker,
+  transaction?: admin.firestore.Transaction
+): Promise<UnitChunk[]> {
+  const chunkIds = getChunkIdsInAreas(areas);
+  if (chunkIds.length === 0) return [];
+
+  const refs = chunkIds.map(getUnitChunkRef);
+  const snapshots = transaction
+    ? await transaction.getAll(...refs)
+    : await admin.firestore().getAll(...refs);
+  tracker.trackRead('unitChunks', snapshots.length);
+
+  return snapshots
+    .filter(snapshot => snapshot.exists)
+    .map(snapshot => snapshot.data() as UnitChunk);
+}
+
+/**
+ * Keep the entries that lie within any of some areas
+ */
+function filterToAreas(entries: IndexedUnit[], areas: HexArea[]): IndexedUnit[] {
+  return entries.filter(entry => areas.some(({ center, radius }) =>
+    cubeDistance(center.q, center.r, center.s, entry.q, entry.r, entry.s) <= radius
+  ));
+}
+
+/**
+ * Find every unit standing within some areas
+ * @param areas The areas to search
+ * @param tracker Read cost tracker for the calling function
+ * @param transaction Transaction to read in, when the caller is about to write based on the result
+ * @returns Index entries of the units inside any of the areas
+ */
+export async function loadUnitsInAreas(
+  areas: HexArea[],
+  tracker: ReadCostTracker,
+  transaction?: admin.firestore.Transaction
+): Promise<IndexedUnit[]> {
+  const chunks = await loadUnitChunksInAreas(areas, tracker, transaction);
+  return filterToAreas(chunks.flatMap(chunk => Object.values(chunk.units || {})), areas);
+}
+
+/**
+ * Find every base, built or under construction, within a radius of a tile
+ * @param center The tile
+ * @param radius Distance to search
+ * @param tracker Read cost tracker for the calling function
+ * @param transaction Transaction to read in, so a base queued meanwhile makes the caller retry
+ * @returns Index entries of the bases; planned ones carry the ID their base will have
+ */
+export async function loadBaseSitesNear(
+  center: Coordinates,
+  radius: number,
+  tracker: ReadCostTracker,
+  transaction: admin.firestore.Transaction
+): Promise<IndexedUnit[]> {
+  const areas = [{ center, radius }];
+  const chunks = await loadUnitChunksInAreas(areas, tracker, transaction);
+  return filterToAreas(chunks.flatMap(chunk => [
+    ...Object.values(chunk.units || {}).filter(entry => entry.type === UnitType.BASE),
+    ...Object.values(chunk.plannedBases || {})
+  ]), areas);
+}
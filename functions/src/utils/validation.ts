@@ -0,0 +1,261 @@
+import { HttpsError } from "firebase-functions/v2/https";
+import type { CubeCoordinates } from "@shared/requests";
+import { gameConfig } from "../config";
+import { GALAXY_RADIUS } from "./noise";
+
+// One field a request got wrong, sent to the client in the error's details
+export interface FieldError {
+  field: string;    // Field name, with [index] or .key for entries of lists and maps
+  message: string;  // Reads as a sentence after the field name
+}
+
+export interface BooleanRule {
+  type: 'boolean';
+}
+
+export interface NumberRule {
+  type: 'integer' | 'number';
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;  // Whether min itself is out of range
+}
+
+export interface StringRule {
+  type: 'string';
+  maxLength: number;
+  minLength?: number;  // 1 when missing, so required strings can't be empty
+  trim?: boolean;      // Check and return the value trimmed
+  pattern?: RegExp;
+  format?: string;     // What the pattern accepts, for error messages
+}
+
+export interface EnumRule<V> {
+  type: 'enum';
+  values: readonly V[];
+}
+
+export interface ArrayRule<I> {
+  type: 'array';
+  items: ValueRule<I>;
+  minItems?: number;
+  maxItems: number;
+}
+
+export interface RecordRule<I> {
+  type: 'record';
+  keyPattern: RegExp;
+  keyFormat: string;  // What the key pattern accepts, for error messages
+  values: ValueRule<I>;
+  minEntries?: number;
+  maxEntries: number;
+}
+
+// The rule for a value of type V; string literal unions have to be checked as enums
+export type ValueRule<V> =
+  [V] extends [boolean] ? BooleanRule :
+  [V] extends [number] ? NumberRule :
+  [V] extends [string] ? (string extends V ? StringRule : EnumRule<V>) :
+  [V] extends [ReadonlyArray<infer I>] ? ArrayRule<I> :
+  [V] extends [Record<string, infer I>] ? RecordRule<I> :
+  never;
+
+// The rule for a request field, which has to be marked optional or nullable exactly when its type is
+export type FieldRule<V, IsOptional extends boolean> = ValueRule<NonNullable<V>> &
+  (IsOptional extends true ? { optional: true } : { optional?: false }) &
+  (null extends V ? { nullable: true } : { nullable?: false });
+
+// The schema a callable checks its request against
+export interface RequestSchema<T> {
+  fields: { [K in keyof T]-?: FieldRule<T[K], {} extends Pick<T, K> ? true : false> };
+  // Checks across fields, run once every field is valid
+  check?: (data: T) => FieldError | null;
+}
+
+type AnyRule = (
+  | BooleanRule
+  | NumberRule
+  | StringRule
+  | EnumRule<unknown>
+  | (Omit<ArrayRule<unknown>, 'items'> & { items: AnyRule })
+  | (Omit<RecordRule<unknown>, 'values'> & { values: AnyRule })
+) & { optional?: boolean; nullable?: boolean };
+
+// A document or user ID; Firestore paths are built from these, so slashes are refused
+export const ID_RULE: StringRule = {
+  type: 'string',
+  maxLength: gameConfig.requests.maxIdLength,
+  pattern: /^[^/]+$/,
+  format: 'an ID'
+};
+
+// The ID of the last item on the previous page of a paginated fetch
+export const PAGE_CURSOR_RULE: StringRule & { optional: true } = { ...ID_RULE, optional: true };
+
+export const HEX_COLOR_RULE: StringRule = {
+  type: 'string',
+  maxLength: 7,
+  pattern: /^#[0-9a-fA-F]{6}$/,
+  format: 'a hex color like #33AAFF'
+};
+
+// A cube coordinate anywhere in the galaxy; a tile whose q, r and s are all in range is inside it
+export const GALAXY_COORDINATE_RULE: NumberRule = {
+  type: 'integer',
+  min: -GALAXY_RADIUS,
+  max: GALAXY_RADIUS
+};
+
+export const COORDINATE_FIELDS: RequestSchema<CubeCoordinates>['fields'] = {
+  q: GALAXY_COORDINATE_RULE,
+  r: GALAXY_COORDINATE_RULE,
+  s: GALAXY_COORDINATE_RULE
+};
+
+/**
+ * Check that cube coordinates satisfy q + r + s = 0
+ * Use as the check of any schema that spreads COORDINATE_FIELDS.
+ */
+export function checkCubeCoordinates({ q, r, s }: CubeCoordinates): FieldError | null {
+  return q + r + s === 0 ? null : { field: 's', message: 'must make q + r + s equal 0' };
+}
+
+/**
+ * Build the rule for the page size of a paginated fetch
+ * @param maxPageSize Most items one page can hold
+ */
+export function getPageLimitRule(maxPageSize: number): NumberRule & { optional: true } {
+  return { type: 'integer', min: 1, max: maxPageSize, optional: true };
+}
+
+/**
+ * Describe the range a number has to fall in
+ */
+function describeRange(rule: NumberRule): string {
+  const { min, max, exclusiveMin } = rule;
+  const lower = min === undefined ? null : `${exclusiveMin ? 'greater than' : 'at least'} ${min}`;
+
+  if (min !== undefined && max !== undefined && !exclusiveMin) return ` between ${min} and ${max}`;
+  if (lower && max !== undefined) return ` ${lower} and at most ${max}`;
+  if (lower) return ` ${lower}`;
+  if (max !== undefined) return ` at most ${max}`;
+  return '';
+}
+
+/**
+ * Check one value against its rule
+ * @param value The value, which is neither undefined nor null
+ * @param rule The rule to check it against
+ * @param field Name of the field, for errors
+ * @param errors Errors found so far, added to in place
+ * @returns The value to pass on to the callable, trimmed where the rule asks
+ */
+function checkValue(value: unknown, rule: AnyRule, field: string, errors: FieldError[]): unknown {
+  const fail = (message: string) => {
+    errors.push({ field, message });
+    return value;
+  };
+
+  switch (rule.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? value : fail('must be true or false');
+
+    case 'integer':
+    case 'number': {
+      const kind = rule.type === 'integer' ? 'a whole number' : 'a number';
+      const isNumber = typeof value === 'number' && Number.isFinite(value);
+      const inRange = isNumber &&
+        (rule.type === 'number' || Number.isInteger(value)) &&
+        (rule.min === undefined || (rule.exclusiveMin ? value > rule.min : value >= rule.min)) &&
+        (rule.max === undefined || value <= rule.max);
+      return inRange ? value : fail(`must be ${kind}${describeRange(rule)}`);
+    }
+
+    case 'string': {
+      if (typeof value !== 'string') return fail('must be text');
+
+      const text = rule.trim ? value.trim() : value;
+      const minLength = rule.minLength ?? 1;
+      if (text.length < minLength) {
+        return fail(minLength === 1 ? 'must not be empty' : `must be at least ${minLength} characters`);
+      }
+      if (text.length > rule.maxLength) return fail(`must be at most ${rule.maxLength} characters`);
+      if (rule.pattern && !rule.pattern.test(text)) return fail(`must be ${rule.format ?? 'in the expected format'}`);
+      return text;
+    }
+
+    case 'enum':
+      return rule.values.includes(value) ? value : fail(`must be one of: ${rule.values.join(', ')}`);
+
+    case 'array': {
+      if (!Array.isArray(value)) return fail('must be a list');
+
+      const minItems = rule.minItems ?? 0;
+      if (value.length < minItems) return fail(`must have at least ${minItems} ${minItems === 1 ? 'item' : 'items'}`);
+      if (value.length > rule.maxItems) return fail(`must have at most ${rule.maxItems} items`);
+      return value.map((item, index) => checkValue(item, rule.items, `${field}[${index}]`, errors));
+    }
+
+    case 'record': {
+      if (typeof value !== 'object' || Array.isArray(value)) return fail(`must be a map keyed by ${rule.keyFormat}`);
+
+      const entries = Object.entries(value as Record<string, unknown>);
+      const minEntries = rule.minEntries ?? 0;
+      if (entries.length < minEntries) {
+        return fail(`must have at least ${minEntries} ${minEntries === 1 ? 'entry' : 'entries'}`);
+      }
+      if (entries.length > rule.maxEntries) return fail(`must have at most ${rule.maxEntries} entries`);
+
+      return Object.fromEntries(entries.map(([key, entry]) => {
+        if (!rule.keyPattern.test(key)) {
+          errors.push({ field: `${field}.${key}`, message: `is not ${rule.keyFormat}` });
+          return [key, entry];
+        }
+        return [key, checkValue(entry, rule.values, `${field}.${key}`, errors)];
+      }));
+    }
+  }
+}
+
+/**
+ * Check a callable's request data against its schema
+ * Every field is checked, so the client hears about all of its mistakes at once.
+ * @param data The request data
+ * @param schema The callable's schema
+ * @returns The request, holding only the fields the schema names
+ * @throws HttpsError invalid-argument with { fieldErrors: FieldError[] } as its details
+ */
+export function validateRequest<T>(data: unknown, schema: RequestSchema<T>): T {
+  const input = (data !== null && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const request: Record<string, unknown> = {};
+  const errors: FieldError[] = [];
+
+  (Object.entries(schema.fields) as [string, AnyRule][]).forEach(([field, rule]) => {
+    const value = input[field];
+
+    if (value === undefined || value === null) {
+      if (value === null && rule.nullable) {
+        request[field] = null;
+      } else if (!rule.optional) {
+        errors.push({ field, message: 'is required' });
+      }
+      return;
+    }
+
+    request[field] = checkValue(value, rule, field, errors);
+  });
+
+  if (errors.length === 0 && schema.check) {
+    const error = schema.check(request as T);
+    if (error) errors.push(error);
+  }
+
+  if (errors.length > 0) {
+    throw new HttpsError(
+      'invalid-argument',
+      `Invalid request: ${errors.map(({ field, message }) => `${field} ${message}`).join('; ')}`,
+      { fieldErrors: errors }
+    );
+  }
+
+  return request as T;
+}
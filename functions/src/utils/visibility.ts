@@ -0,0 +1,334 @@
+import * as admin from "firebase-admin";
+import { Coordinates } from "../types/base";
+import { Colony, ColonyTile } from "../types/colony";
+import { Base, UnitType } from "../types/units";
+import { TileTerrain } from "../types/galaxy";
+import { cubeDistance, isWithinGalaxy, TileTrait, TileType } from "./noise";
+import { fromTileId, getCoordinatesInRadius, neighborOffsets, toTileId } from "./tileHelpers";
+import { getTileTerrain } from "./tiles/tileOperations";
+import { loadChunkedTilesAt } from "./tiles/chunks";
+import { getGalaxySettings } from "./galaxy";
+import { ReadCostTracker } from "./analytics/readCostTracker";
+import { gameConfig } from "../config";
+import { getTechEffects, TECH_TREE } from "../definitions/techTree";
+import { loadColonyTileIds } from "./ownership";
+import { loadUnitsInAreas } from "./unitIndex";
+
+// A position that reveals the tiles around it
+export interface ScanSource {
+  position: Coordinates;
+  radius: number;
+  ignoresTerrain?: boolean;  // Influence areas are always visible, whatever the terrain
+}
+
+/**
+ * Get the scan range spent looking into a tile of the given type and trait
+ */
+export function getScanCost(tileType: TileType, trait: TileTrait | null = null): number {
+  const { scanCosts, traitScanCosts } = gameConfig.visibility;
+  const traitCost = trait ? traitScanCosts[trait] ?? 0 : 0;
+  return (scanCosts[tileType] ?? scanCosts[TileType.NORMAL]) + traitCost;
+}
+
+/**
+ * Collect every position that gives a colony vision
+ * @param colony The colony to collect sources for
+ * @param territoryTileIds Tiles the colony controls
+ * @returns Scan sources from units, base influence, map reveals and owned territory
+ */
+export function getScanSources(colony: Colony, territoryTileIds: string[] = []): ScanSource[] {
+  const { shipScanRadius, structureScanRadius, territoryScanRadius } = gameConfig.visibility;
+  const baseScanRadius = colony.visibilityRadius || gameConfig.colonySettings.baseVisibilityRadius;
+  const { scanRadiusBonus, baseInfluenceBonus } = getTechEffects(colony.research?.completedTechs);
+  const sources: ScanSource[] = [];
+
+  (colony.units || []).forEach(unit => {
+    switch (unit.type) {
+      case UnitType.SHIP:
+        sources.push({ position: unit.position, radius: shipScanRadius + scanRadiusBonus });
+        break;
+      case UnitType.BASE:
+        sources.push({ position: unit.position, radius: baseScanRadius + scanRadiusBonus });
+        sources.push({
+          position: unit.position,
+          radius: ((unit as Base).influenceRadius || 0) + baseInfluenceBonus,
+          ignoresTerrain: true
+        });
+        break;
+      case UnitType.RELAY:
+        sources.push({ position: unit.position, radius: gameConfig.relays.scanRadius + scanRadiusBonus });
+        break;
+      default:
+        sources.push({ position: unit.position, radius: structureScanRadius + scanRadiusBonus });
+    }
+  });
+
+  // Revealed areas come from outside sensor data, so terrain doesn't limit them
+  const now = Date.now();
+  (colony.revealedAreas || [])
+    .filter(area => area.expiresAt > now)
+    .forEach(({ position, radius }) => sources.push({ position, radius, ignoresTerrain: true }));
+
+  territoryTileIds.forEach(tileId => {
+    const position = fromTileId(tileId);
+    if (position) {
+      sources.push({ position, radius: territoryScanRadius });
+    }
+  });
+
+  return sources;
+}
+
+/**
+ * Compute the tiles revealed by a set of scan sources.
+ * Each scan floods outward spending range per tile entered, so barriers and nebulae shorten it.
+ * @param sources Positions that give vision
+ * @param terrain Known tile terrain; anything missing is treated as normal space
+ * @returns Set of visible tile IDs
+ */
+export function computeVisibleTileIds(
+  sources: ScanSource[],
+  terrain: Map<string, TileTerrain>
+): Set<string> {
+  const visible = new Set<string>();
+
+  sources.forEach(({ position, radius, ignoresTerrain }) => {
+    if (ignoresTerrain) {
+      getCoordinatesInRadius(position, radius)
+        .filter(coords => isWithinGalaxy(coords.q, coords.r, coords.s))
+        .forEach(coords => visible.add(toTileId(coords)));
+      return;
+    }
+
+    // Dijkstra flood limited by the scan radius
+    const spent = new Map<string, number>([[toTileId(position), 0]]);
+    const frontier: { coords: Coordinates; cost: number }[] = [{ coords: position, cost: 0 }];
+
+    while (frontier.length > 0) {
+      frontier.sort((a, b) => a.cost - b.cost);
+      const { coords, cost } = frontier.shift()!;
+      const key = toTileId(coords);
+      if (cost > (spent.get(key) ?? Infinity)) continue;
+
+      visible.add(key);
+
+      neighborOffsets.forEach(offset => {
+        const next = { q: coords.q + offset.q, r: coords.r + offset.r, s: coords.s + offset.s };
+        if (!isWithinGalaxy(next.q, next.r, next.s)) return;
+
+        const nextKey = toTileId(next);
+        const nextTerrain = terrain.get(nextKey);
+        const nextCost = cost + getScanCost(nextTerrain?.type ?? TileType.NORMAL, nextTerrain?.trait);
+        if (nextCost > radius || nextCost >= (spent.get(nextKey) ?? Infinity)) return;
+
+        spent.set(nextKey, nextCost);
+        frontier.push({ coords: next, cost: nextCost });
+      });
+    }
+  });
+
+  return visible;
+}
+
+// Result of a colony visibility computation
+export interface ColonyVisibility {
+  visibleTileIds: Set<string>;
+  tiles: Map<string, ColonyTile>;  // Persisted tiles that were loaded to trace the scans
+}
+
+/**
+ * Compute every tile a colony can currently see
+ * @param colony The colony to compute vision for
+ * @param tracker Read cost tracker for the calling function
+ * @param allies Allied colonies sharing their vision with this one
+ * @returns The visible tile IDs and the tiles read while computing them
+ */
+export async function getColonyVisibility(
+  colony: Colony,
+  tracker: ReadCostTracker,
+  allies: Colony[] = []
+): Promise<ColonyVisibility> {
+  const viewers = [colony, ...allies];
+  const territories = await Promise.all(viewers.map(viewer => loadColonyTileIds(viewer.id, tracker)));
+  const sources = viewers.flatMap((viewer, index) => getScanSources(viewer, territories[index]));
+
+  // Load terrain for every tile any terrain-limited scan could reach
+  const scanArea = new Map<string, Coordinates>();
+  sources
+    .filter(source => !source.ignoresTerrain)
+    .forEach(({ position, radius }) => {
+      getCoordinatesInRadius(position, radius)
+        .filter(coords => isWithinGalaxy(coords.q, coords.r, coords.s))
+        .forEach(coords => scanArea.set(toTileId(coords), coords));
+    });
+
+  const { tiles, terrain } = await loadScanTerrain(Array.from(scanArea.values()), tracker);
+
+  return {
+    visibleTileIds: computeVisibleTileIds(sources, terrain),
+    tiles
+  };
+}
+
+/**
+ * Work out which of some tiles a colony can currently see
+ * Only the area within scan reach of the tiles is loaded: the viewers' units and map reveals are
+ * already on their colony documents, and their territory there comes from the controllers of the
+ * tiles loaded for terrain, so the cost follows the request rather than the size of the colonies.
+ * @param colony The colony looking
+ * @param positions The tiles to check
+ * @param tracker Read cost tracker for the calling function
+ * @param allies Allied colonies sharing their vision with this one
+ * @returns The IDs of the positions the colony or its allies can see
+ */
+export async function getVisibleTileIdsAt(
+  colony: Colony,
+  positions: Coordinates[],
+  tracker: ReadCostTracker,
+  allies: Colony[] = []
+): Promise<Set<string>> {
+  if (positions.length === 0) return new Set();
+
+  const reach = Math.max(getMaxScanReach(), gameConfig.visibility.territoryScanRadius);
+  const scanArea = getAreaAround(positions, reach);
+  const { tiles, terrain } = await loadScanTerrain(Array.from(scanArea.values()), tracker);
+
+  // Sources outside the area can't reach the tiles, unless they see further than any unit can
+  const viewers = [colony, ...allies];
+  const sources = viewers
+    .flatMap(viewer => {
+      const territory = Array.from(tiles.entries())
+        .filter(([, tile]) => tile.controllerUid === viewer.uid)
+        .map(([tileId]) => tileId);
+      return getScanSources(viewer, territory);
+    })
+    .filter(({ position, radius }) => radius > reach || scanArea.has(toTileId(position)));
+
+  const visibleTileIds = computeVisibleTileIds(sources, terrain);
+  return new Set(positions.map(toTileId).filter(tileId => visibleTileIds.has(tileId)));
+}
+
+/**
+ * Get every tile within a radius of any of a set of positions
+ * Grows the area a ring at a time, so overlapping positions aren't walked twice.
+ * @param positions Centers of the area
+ * @param radius Radius around each position in tiles
+ * @returns The coordinates in the area keyed by tile ID
+ */
+function getAreaAround(positions: Coordinates[], radius: number): Map<string, Coordinates> {
+  const area = new Map(positions.map(coords => [toTileId(coords), coords]));
+  let frontier = Array.from(area.values());
+
+  for (let ring = 0; ring < radius; ring++) {
+    const next: Coordinates[] = [];
+    frontier.forEach(coords => {
+      neighborOffsets.forEach(offset => {
+        const neighbor = { q: coords.q + offset.q, r: coords.r + offset.r, s: coords.s + offset.s };
+        const tileId = toTileId(neighbor);
+        if (area.has(tileId) || !isWithinGalaxy(neighbor.q, neighbor.r, neighbor.s)) return;
+
+        area.set(tileId, neighbor);
+        next.push(neighbor);
+      });
+    });
+    frontier = next;
+  }
+
+  return area;
+}
+
+/**
+ * Load the terrain scans have to cross
+ * Scans cover wide areas, so the tiles are read a chunk at a time.
+ * @param coordinates Tiles the scans could reach
+ * @param tracker Read cost tracker for the calling function
+ * @returns The persisted tiles, and the terrain of every tile including unpersisted ones
+ */
+async function loadScanTerrain(
+  coordinates: Coordinates[],
+  tracker: ReadCostTracker
+): Promise<{ tiles: Map<string, ColonyTile>; terrain: Map<string, TileTerrain> }> {
+  const [tiles, galaxy] = await Promise.all([
+    loadChunkedTilesAt(coordinates, tracker),
+    getGalaxySettings(tracker)
+  ]);
+
+  // Unpersisted tiles still block scans according to their procedural terrain
+  const terrain = new Map(coordinates.map(coords => {
+    const tileId = toTileId(coords);
+    return [tileId, getTileTerrain(coords, tiles.get(tileId), galaxy)];
+  }));
+
+  return { tiles, terrain };
+}
+
+/**
+ * Get the furthest any unit can see, with every tech researched
+ * Colonies given a wider base scan than the default aren't covered.
+ */
+export function getMaxScanReach(): number {
+  const { shipScanRadius, structureScanRadius } = gameConfig.visibility;
+  const { scanRadiusBonus, baseInfluenceBonus } = getTechEffects(TECH_TREE.map(tech => tech.id));
+  const maxInfluence = Math.max(...gameConfig.bases.tiers.map(tier => tier.influenceRadius)) + baseInfluenceBonus;
+
+  return Math.max(
+    shipScanRadius + scanRadiusBonus,
+    structureScanRadius + scanRadiusBonus,
+    gameConfig.relays.scanRadius + scanRadiusBonus,
+    gameConfig.colonySettings.baseVisibilityRadius + scanRadiusBonus,
+    maxInfluence
+  );
+}
+
+/**
+ * Find the players who can see some tiles, and which of them each one sees
+ * Candidates are the colonies with units in scan reach, found through the unit index, and each
+ * one's vision is traced from its units and map reveals. Territory and allied vision aren't
+ * counted, so this can miss a player who sees the tiles but never includes one who doesn't.
+ * @param positions The tiles
+ * @param tracker Read cost tracker for the calling function
+ * @returns The visible tile IDs of the positions, keyed by the uid of each player who sees any
+ */
+export async function findViewers(
+  positions: Coordinates[],
+  tracker: ReadCostTracker
+): Promise<Map<string, Set<string>>> {
+  const viewers = new Map<string, Set<string>>();
+  if (positions.length === 0) return viewers;
+
+  const reach = getMaxScanReach();
+  const nearbyUnits = await loadUnitsInAreas(positions.map(center => ({ center, radius: reach })), tracker);
+  const colonyIds = Array.from(new Set(nearbyUnits.map(unit => unit.colonyId)));
+  if (colonyIds.length === 0) return viewers;
+
+  const colonyRefs = colonyIds.map(colonyId => admin.firestore().doc(`colony/v1/colonies/${colonyId}`));
+  const colonySnapshots = await admin.firestore().getAll(...colonyRefs);
+  tracker.trackRead('viewerColonies', colonySnapshots.length);
+
+  // A scan reaching one of the positions only crosses tiles within reach of it
+  const scanArea = new Map<string, Coordinates>();
+  positions.forEach(center => {
+    getCoordinatesInRadius(center, reach)
+      .filter(coords => isWithinGalaxy(coords.q, coords.r, coords.s))
+      .forEach(coords => scanArea.set(toTileId(coords), coords));
+  });
+  const { terrain } = await loadScanTerrain(Array.from(scanArea.values()), tracker);
+
+  const positionIds = positions.map(toTileId);
+  colonySnapshots
+    .filter(snapshot => snapshot.exists)
+    .forEach(snapshot => {
+      const colony = { id: snapshot.id, ...snapshot.data() } as Colony;
+      const sources = getScanSources(colony).filter(({ position, radius }) => positions.some(target =>
+        cubeDistance(position.q, position.r, position.s, target.q, target.r, target.s) <= radius
+      ));
+
+      const visibleTileIds = computeVisibleTileIds(sources, terrain);
+      const seen = new Set(positionIds.filter(tileId => visibleTileIds.has(tileId)));
+      if (seen.size > 0) {
+        viewers.set(colony.uid, seen);
+      }
+    });
+
+  return viewers;
+}
@@ -0,0 +1,124 @@
+import { Coordinates } from "../types/base";
+import { GalaxySettings, Wormhole } from "../types/galaxy";
+import { getTerrainCost, PathEdge } from "../../../shared/pathfinding";
+import { cubeDistance } from "./noise";
+import { createSeededRandom, hashSeed } from "./random";
+import { generateTileAt } from "./galaxy";
+import { toTileId } from "./tileHelpers";
+import { gameConfig } from "../config";
+
+// Wormholes only depend on the seed, so each instance places them once per galaxy
+const wormholeCache = new Map<number, Wormhole[]>();
+
+/**
+ * Pick a random tile within the galaxy
+ * @param random Seeded random number generator
+ * @param radius Galaxy radius in tiles
+ */
+function randomCoordinates(random: () => number, radius: number): Coordinates {
+  const q = Math.floor(random() * (2 * radius + 1)) - radius;
+  const minR = Math.max(-radius, -q - radius);
+  const maxR = Math.min(radius, -q + radius);
+  const r = minR + Math.floor(random() * (maxR - minR + 1));
+  return { q, r, s: -q - r };
+}
+
+/**
+ * Place the galaxy's wormholes from its seed
+ * This is pure: the same settings always produce the same wormholes.
+ * Endpoints are kept off impassable tiles and never shared between wormholes.
+ * @param galaxy The galaxy settings
+ * @returns Every wormhole in the galaxy
+ */
+export function generateWormholes(galaxy: GalaxySettings): Wormhole[] {
+  const cached = wormholeCache.get(galaxy.seed);
+  if (cached) return cached;
+
+  const {
+    count,
+    minSpan,
+    placementAttempts,
+    oneWayChance,
+    unstableChance,
+    unstablePeriodMinutes,
+    unstableOpenMinutes
+  } = gameConfig.wormholes;
+
+  const random = createSeededRandom(hashSeed(`${galaxy.seed}:wormholes`));
+  const usedTileIds = new Set<string>();
+  const wormholes: Wormhole[] = [];
+
+  const isFreeEndpoint = (coords: Coordinates) => {
+    if (usedTileIds.has(toTileId(coords))) return false;
+    return getTerrainCost(generateTileAt(coords.q, coords.r, galaxy).type) !== null;
+  };
+
+  for (let index = 0; index < count; index++) {
+    // Draw every roll up front so a failed placement doesn't shift later wormholes' properties
+    const oneWay = random() < oneWayChance;
+    const unstable = random() < unstableChance;
+    const offsetMinutes = Math.floor(random() * unstablePeriodMinutes);
+
+    for (let attempt = 0; attempt < placementAttempts; attempt++) {
+      const a = randomCoordinates(random, galaxy.radius);
+      const b = randomCoordinates(random, galaxy.radius);
+
+      if (cubeDistance(a.q, a.r, a.s, b.q, b.r, b.s) < minSpan) continue;
+      if (!isFreeEndpoint(a) || !isFreeEndpoint(b) || toTileId(a) === toTileId(b)) continue;
+
+      usedTileIds.add(toTileId(a));
+      usedTileIds.add(toTileId(b));
+      wormholes.push({
+        id: `wormhole-${index + 1}`,
+        endpoints: [a, b],
+        oneWay,
+        schedule: unstable
+          ? { periodMinutes: unstablePeriodMinutes, openMinutes: unstableOpenMinutes, offsetMinutes }
+          : null
+      });
+      break;
+    }
+  }
+
+  wormholeCache.set(galaxy.seed, wormholes);
+  return wormholes;
+}
+
+/**
+ * Check whether a wormhole is open at a given time
+ * @param wormhole The wormhole
+ * @param now Time in milliseconds
+ */
+export function isWormholeOpen(wormhole: Wormhole, now: number): boolean {
+  if (!wormhole.schedule) return true;
+
+  const { periodMinutes, openMinutes, offsetMinutes } = wormhole.schedule;
+  const minutes = Math.floor(now / 60000) + offsetMinutes;
+  return minutes % periodMinutes < openMinutes;
+}
+
+/**
+ * Get the directions ships can currently travel through the wormholes
+ * @param wormholes The wormholes to consider
+ * @param now Time in milliseconds
+ * @returns One edge per open direction, for the pathfinder
+ */
+export function getWormholeEdges(wormholes: Wormhole[], now: number): PathEdge[] {
+  return wormholes
+    .filter(wormhole => isWormholeOpen(wormhole, now))
+    .flatMap(({ endpoints: [a, b], oneWay }) => (
+      oneWay ? [{ from: a, to: b }] : [{ from: a, to: b }, { from: b, to: a }]
+    ));
+}
+
+/**
+ * Get the wormholes with at least one endpoint within a radius of a tile
+ * @param wormholes The wormholes to search
+ * @param center Center of the area
+ * @param radius Radius of the area in tiles
+ */
+export function getWormholesNear(wormholes: Wormhole[], center: Coordinates, radius: number): Wormhole[] {
+  return wormholes.filter(({ endpoints }) => endpoints.some(endpoint =>
+    cubeDistance(endpoint.q, endpoint.r, endpoint.s, center.q, center.r, center.s) <= radius
+  ));
+}
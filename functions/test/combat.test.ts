@@ -0,0 +1,124 @@
+/**
+ * Engagement resolution and applying its results to a colony's units
+ */
+import { applyBattleResults, Combatant, resolveEngagement } from "../src/utils/combat";
+import { Coordinates } from "../src/types/base";
+import { BattleShipResult } from "../src/types/battle";
+import { Ship, Unit, UnitType } from "../src/types/units";
+import { createSeededRandom } from "../src/utils/random";
+import { TileType } from "../src/utils/noise";
+
+const TILE: Coordinates = { q: 0, r: 0, s: 0 };
+const RETREAT: Coordinates = { q: 1, r: -1, s: 0 };
+
+const ship = (id: string, ownerUid: string, level = 1, position = TILE): Ship =>
+  ({ id, type: UnitType.SHIP, position, level, ownerUid });
+
+const combatant = (uid: string, levels: number[]): Combatant => ({
+  uid,
+  colonyId: `colony-${uid}`,
+  ships: levels.map((level, index) => ship(`${uid}-ship-${index}`, uid, level))
+});
+
+// Rolls that always land in the middle of the spread, so strengths decide the battle
+const evenRolls = () => 0.5;
+
+describe('resolveEngagement', () => {
+  it('lets the stronger side win and keeps every winning ship', () => {
+    const result = resolveEngagement(
+      [combatant('attacker', [3, 3]), combatant('defender', [1])],
+      'attacker',
+      TileType.NORMAL,
+      () => [RETREAT],
+      evenRolls
+    );
+
+    expect(result.winnerUid).toBe('attacker');
+    expect(result.winnerUids).toEqual(['attacker']);
+    expect(result.results.filter(r => r.ownerUid === 'attacker').every(r => r.outcome === 'survived')).toBe(true);
+    expect(result.results.find(r => r.ownerUid === 'defender')?.outcome).not.toBe('survived');
+  });
+
+  it('gives ties to the defenders', () => {
+    const result = resolveEngagement(
+      [combatant('attacker', [2]), combatant('defender', [2])],
+      'attacker',
+      TileType.NORMAL,
+      () => [RETREAT],
+      evenRolls
+    );
+
+    expect(result.winnerUid).toBe('defender');
+  });
+
+  it('boosts defenders on defensive terrain', () => {
+    const result = resolveEngagement(
+      [combatant('attacker', [4]), combatant('defender', [4])],
+      'attacker',
+      TileType.BARRIER,
+      () => [RETREAT],
+      evenRolls
+    );
+
+    const defender = result.sides.find(side => side.uid === 'defender')!;
+    expect(defender.strength).toBe(5);
+    expect(result.winnerUid).toBe('defender');
+  });
+
+  it('destroys losing ships that have nowhere to retreat to', () => {
+    const result = resolveEngagement(
+      [combatant('attacker', [5]), combatant('defender', [1, 1])],
+      'attacker',
+      TileType.NORMAL,
+      () => [],
+      evenRolls
+    );
+
+    const defenderResults = result.results.filter(r => r.ownerUid === 'defender');
+    expect(defenderResults).toHaveLength(2);
+    expect(defenderResults.every(r => r.outcome === 'destroyed')).toBe(true);
+  });
+
+  it('pools allied sides into one faction', () => {
+    const alliance = (uid: string) => (uid === 'defender' ? 'defender' : 'allies');
+    const result = resolveEngagement(
+      [combatant('attacker', [2]), combatant('ally', [2]), combatant('defender', [3])],
+      'attacker',
+      TileType.NORMAL,
+      () => [RETREAT],
+      evenRolls,
+      alliance
+    );
+
+    expect(result.winnerUids.sort()).toEqual(['ally', 'attacker']);
+  });
+
+  it('resolves the same way for the same seed', () => {
+    const fight = () => resolveEngagement(
+      [combatant('attacker', [2, 1]), combatant('defender', [2, 1])],
+      'attacker',
+      TileType.NORMAL,
+      () => [RETREAT, TILE],
+      createSeededRandom(42)
+    );
+
+    expect(fight()).toEqual(fight());
+  });
+});
+
+describe('applyBattleResults', () => {
+  it('removes destroyed ships, moves retreating ones and keeps the rest', () => {
+    const units: Unit[] = [ship('a', 'uid'), ship('b', 'uid'), ship('c', 'uid'), ship('d', 'uid')];
+    const results: BattleShipResult[] = [
+      { unitId: 'a', ownerUid: 'uid', outcome: 'survived' },
+      { unitId: 'b', ownerUid: 'uid', outcome: 'destroyed' },
+      { unitId: 'c', ownerUid: 'uid', outcome: 'retreated', retreatedTo: RETREAT }
+    ];
+
+    const updated = applyBattleResults(units, results);
+
+    expect(updated.map(unit => unit.id)).toEqual(['a', 'c', 'd']);
+    expect(updated.find(unit => unit.id === 'c')?.position).toEqual(RETREAT);
+    expect(updated.find(unit => unit.id === 'd')?.position).toEqual(TILE);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * What mining sites extract each economy tick
+ */
+import { calculateSiteYield, getInitialReserve } from "../src/utils/economy";
+import { ColonyTile } from "../src/types/colony";
+import { MiningSite, UnitType } from "../src/types/units";
+import { TileType } from "../src/utils/noise";
+
+const tile = (overrides: Partial<ColonyTile> = {}): ColonyTile => ({
+  id: '0#0#0',
+  q: 0,
+  r: 0,
+  s: 0,
+  controllerUid: 'uid',
+  color: '#ffffff',
+  updatedAt: new Date(0).toISOString(),
+  type: TileType.NORMAL,
+  visibility: 'visible',
+  resourceDensity: 0.5,
+  ...overrides
+});
+
+const site: MiningSite = {
+  id: 'site',
+  type: UnitType.MINING_SITE,
+  position: { q: 0, r: 0, s: 0 },
+  level: 1,
+  ownerUid: 'uid',
+  resourceType: 'metal',
+  extractionRate: 10
+};
+
+describe('getInitialReserve', () => {
+  it('scales the reserve by resource density', () => {
+    expect(getInitialReserve(tile({ resourceDensity: 0.5 }))).toBe(500);
+    expect(getInitialReserve(tile({ resourceDensity: undefined }))).toBe(0);
+  });
+});
+
+describe('calculateSiteYield', () => {
+  it('starts an unmined tile from its initial reserve', () => {
+    expect(calculateSiteYield(site, tile())).toEqual({ resourceType: 'metal', amount: 10, remainingReserve: 490 });
+  });
+
+  it('applies the tile type multiplier', () => {
+    expect(calculateSiteYield(site, tile({ type: TileType.STAR_RICH })).amount).toBe(15);
+    expect(calculateSiteYield(site, tile({ type: TileType.DEAD_ZONE })).amount).toBe(5);
+  });
+
+  it('never extracts more than the tile has left', () => {
+    const result = calculateSiteYield(site, tile({ resources: { metal: 4 } }));
+
+    expect(result.amount).toBe(4);
+    expect(result.remainingReserve).toBe(0);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Resolving queued orders on game clock ticks
+ *
+ * The runGameTick suite needs the Firestore emulator, e.g.
+ *   firebase emulators:exec --only firestore "npm --prefix functions test"
+ * and is skipped when FIRESTORE_EMULATOR_HOST isn't set.
+ */
+import * as admin from "firebase-admin";
+import { getNextOrderTick, resolveColonyOrders, runGameTick, takeTickSteps } from "../src/utils/orders";
+import { createFakeClock, getScheduledTick, getTickLength, getTickStartsAt } from "../src/utils/gameClock";
+import { getMoveReadyAt, verifyMoveReady } from "../src/utils/movement";
+import { ReadCostTracker } from "../src/utils/analytics/readCostTracker";
+import { Coordinates } from "../src/types/base";
+import { Colony, QueuedOrder } from "../src/types/colony";
+import { TileTerrain } from "../src/types/galaxy";
+import { Ship, UnitType } from "../src/types/units";
+import { TileType } from "../src/utils/noise";
+import { toTileId } from "../src/utils/tileHelpers";
+import { gameConfig } from "../src/config";
+
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+const { actionPointsPerTick } = gameConfig.gameClock;
+
+// Tiles along one hex direction from the origin
+const line = (length: number): Coordinates[] =>
+  Array.from({ length }, (_, index) => ({ q: index + 1, r: -(index + 1), s: 0 }));
+
+const ship = (id: string, position: Coordinates = { q: 0, r: 0, s: 0 }, moveReadyAt?: number): Ship => ({
+  id,
+  type: UnitType.SHIP,
+  position,
+  level: 1,
+  ownerUid: 'uid',
+  ...(moveReadyAt !== undefined ? { moveReadyAt } : {})
+});
+
+const order = (id: string, unitId: string, path: Coordinates[], queuedTick: number, queuedAt = 0): QueuedOrder => ({
+  id,
+  unitId,
+  destination: path[path.length - 1],
+  path,
+  queuedAt,
+  queuedTick
+});
+
+const colonyWith = (units: Ship[], orderQueue: QueuedOrder[]): Colony => ({
+  id: 'colony',
+  uid: 'uid',
+  units,
+  orderQueue
+} as unknown as Colony);
+
+const terrainOf = (tiles: Record<string, TileType>): Map<string, TileTerrain> =>
+  new Map(Object.entries(tiles).map(([tileId, type]) => [tileId, { type, trait: null }]));
+
+describe('takeTickSteps', () => {
+  const origin = { q: 0, r: 0, s: 0 };
+
+  it('takes as many steps as the action points cover', () => {
+    expect(takeTickSteps(origin, line(5), new Map(), actionPointsPerTick)).toEqual(line(actionPointsPerTick));
+  });
+
+  it('slows down on costly terrain', () => {
+    const terrain = terrainOf({ [toTileId(line(2)[1])]: TileType.DEAD_ZONE });
+
+    expect(takeTickSteps(origin, line(5), terrain, 2)).toEqual(line(1));
+  });
+
+  it('always manages one step, however costly', () => {
+    const terrain = terrainOf({ [toTileId(line(1)[0])]: TileType.BARRIER });
+
+    expect(takeTickSteps(origin, line(5), terrain, 2)).toEqual(line(1));
+  });
+});
+
+describe('resolveColonyOrders', () => {
+  it('moves each unit one tick along its route and keeps the rest of the route queued', () => {
+    const clock = createFakeClock(getTickStartsAt(100));
+    const tick = getScheduledTick(clock.now());
+
+    const result = resolveColonyOrders(colonyWith([ship('a')], [order('o1', 'a', line(5), tick - 1)]), new Map(), tick);
+
+    expect(result.units[0].position).toEqual(line(2)[1]);
+    expect(result.orderQueue).toEqual([expect.objectContaining({ id: 'o1', path: line(5).slice(2) })]);
+    expect(result.resolved).toEqual([expect.objectContaining({ orderId: 'o1', arrived: false, cancelled: false })]);
+    expect(getNextOrderTick(result.orderQueue)).toBe(tick);
+  });
+
+  it('resolves orders oldest first, whatever order they were stored in', () => {
+    const clock = createFakeClock(getTickStartsAt(100));
+    const tick = getScheduledTick(clock.now());
+    const queue = [
+      order('late', 'b', [{ q: -1, r: 1, s: 0 }], tick - 1, 2000),
+      order('early', 'a', line(1), tick - 1, 1000)
+    ];
+
+    const result = resolveColonyOrders(colonyWith([ship('a'), ship('b')], queue), new Map(), tick);
+
+    expect(result.resolved.map(resolved => resolved.orderId)).toEqual(['early', 'late']);
+    expect(result.resolved.every(resolved => resolved.arrived)).toBe(true);
+  });
+
+  it('leaves orders queued during the tick for the next one', () => {
+    const clock = createFakeClock(getTickStartsAt(100));
+    const tick = getScheduledTick(clock.now());
+
+    const result = resolveColonyOrders(colonyWith([ship('a')], [order('o1', 'a', line(3), tick)]), new Map(), tick);
+
+    expect(result.resolved).toEqual([]);
+    expect(result.units[0].position).toEqual({ q: 0, r: 0, s: 0 });
+    expect(getNextOrderTick(result.orderQueue)).toBe(tick + 1);
+  });
+
+  it('cancels orders for units that have left their route', () => {
+    const tick = 100;
+    const strayed = ship('a', { q: -3, r: 3, s: 0 });
+
+    const result = resolveColonyOrders(colonyWith([strayed], [order('o1', 'a', line(3), tick - 1)]), new Map(), tick);
+
+    expect(result.resolved).toEqual([expect.objectContaining({ orderId: 'o1', cancelled: true })]);
+    expect(result.orderQueue).toEqual([]);
+  });
+
+  it('holds a unit that just moved directly until its cooldown runs out', () => {
+    const clock = createFakeClock(getTickStartsAt(100) + 1000);
+    const moveReadyAt = getMoveReadyAt(gameConfig.movement.maxMoveCost, clock.now());
+    let colony = colonyWith([ship('a', undefined, moveReadyAt)], [order('o1', 'a', line(5), getScheduledTick(clock.now()))]);
+
+    // Step through ticks until the order moves, keeping what each tick left behind
+    let tick = getScheduledTick(clock.now());
+    for (;;) {
+      clock.advanceTicks(1);
+      tick = getScheduledTick(clock.now());
+      const result = resolveColonyOrders(colony, new Map(), tick);
+      colony = { ...colony, units: result.units, orderQueue: result.orderQueue };
+      if (result.resolved.length > 0) break;
+    }
+
+    // The order moves on the first tick starting once the unit has recovered
+    expect(getTickStartsAt(tick)).toBeGreaterThanOrEqual(moveReadyAt);
+    expect(getTickStartsAt(tick - 1)).toBeLessThan(moveReadyAt);
+    expect(colony.units[0].position).toEqual(line(2)[1]);
+  });
+
+  it('stops a unit that moved on a tick from moving directly until the next one', () => {
+    const clock = createFakeClock(getTickStartsAt(100));
+    const tick = getScheduledTick(clock.now());
+
+    const { units } = resolveColonyOrders(colonyWith([ship('a')], [order('o1', 'a', line(5), tick - 1)]), new Map(), tick);
+
+    expect(() => verifyMoveReady(units[0], clock.now())).toThrow();
+    clock.advanceTicks(1);
+    expect(() => verifyMoveReady(units[0], clock.now())).not.toThrow();
+  });
+});
+
+describe('getMoveReadyAt', () => {
+  it('holds a unit for the ticks its move would have taken', () => {
+    const clock = createFakeClock(0);
+
+    expect(getMoveReadyAt(1, clock.now())).toBe(getTickLength());
+    expect(getMoveReadyAt(actionPointsPerTick + 1, clock.now())).toBe(2 * getTickLength());
+  });
+
+  it('lets the unit move again once the time has passed', () => {
+    const clock = createFakeClock(1000);
+    const unit = ship('a', undefined, getMoveReadyAt(1, clock.now()));
+
+    expect(() => verifyMoveReady(unit, clock.now())).toThrow('Unit can move again in');
+    clock.advance(getTickLength() - 1);
+    expect(() => verifyMoveReady(unit, clock.now())).toThrow();
+    clock.advance(1);
+    expect(() => verifyMoveReady(unit, clock.now())).not.toThrow();
+  });
+});
+
+describeWithEmulator('runGameTick', () => {
+  let db: admin.firestore.Firestore;
+
+  beforeAll(() => {
+    if (admin.apps.length === 0) {
+      admin.initializeApp({ projectId: 'demo-hexaverse' });
+    }
+    db = admin.firestore();
+  });
+
+  beforeEach(async () => {
+    await Promise.all([
+      db.recursiveDelete(db.collection('colony/v1/colonies')),
+      db.recursiveDelete(db.collection('colony/v1/unitChunks')),
+      db.doc('colony/v1/galaxy/clock').delete()
+    ]);
+  });
+
+  afterAll(async () => {
+    await Promise.all(admin.apps.map(app => app?.delete()));
+  });
+
+  /**
+   * Store a colony with one ship and a move queued on the given tick
+   */
+  async function seedColony(queuedTick: number): Promise<void> {
+    const queue = [order('o1', 'a', line(6), queuedTick)];
+    await db.doc('colony/v1/colonies/colony').set({
+      id: 'colony',
+      uid: 'uid',
+      name: 'colony',
+      units: [ship('a')],
+      unplacedUnits: [],
+      territoryScore: 0,
+      allianceId: null,
+      orderQueue: queue,
+      nextOrderTick: getNextOrderTick(queue)
+    });
+  }
+
+  async function loadColony(): Promise<Colony> {
+    return (await db.doc('colony/v1/colonies/colony').get()).data() as Colony;
+  }
+
+  it('moves queued units once per tick and resolves each tick only once', async () => {
+    const clock = createFakeClock(getTickStartsAt(1000));
+    await seedColony(getScheduledTick(clock.now()));
+
+    clock.advanceTicks(1);
+    const first = await runGameTick(new ReadCostTracker('runGameTickTest'), clock);
+    expect(first?.orders).toEqual([expect.objectContaining({ orderId: 'o1', cancelled: false })]);
+    const afterFirst = await loadColony();
+    expect(afterFirst.units[0].position).toEqual(first!.orders[0].path[first!.orders[0].path.length - 1]);
+
+    // A retried run of the same tick does nothing
+    expect(await runGameTick(new ReadCostTracker('runGameTickTest'), clock)).toBeNull();
+    expect((await loadColony()).units[0].position).toEqual(afterFirst.units[0].position);
+
+    clock.advanceTicks(1);
+    const second = await runGameTick(new ReadCostTracker('runGameTickTest'), clock);
+    expect(second?.tick).toBe(first!.tick + 1);
+    const remainingSteps = (colony: Colony) => colony.orderQueue?.[0]?.path.length ?? 0;
+    expect(remainingSteps(await loadColony())).toBeLessThan(remainingSteps(afterFirst));
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * A* pathfinding shared by the client's move preview and the functions' move validation
+ */
+import { findPath, getTerrainCost, StepCostFunction } from "../../shared/pathfinding";
+import { Coordinates } from "../src/types/base";
+import { TileType } from "../src/utils/noise";
+
+const ORIGIN: Coordinates = { q: 0, r: 0, s: 0 };
+const toKey = ({ q, r, s }: Coordinates) => `${q}#${r}#${s}`;
+
+// Every tile costs 1 except the ones listed
+const costsWith = (costs: Record<string, number | null>): StepCostFunction =>
+  to => (toKey(to) in costs ? costs[toKey(to)] : 1);
+
+describe('getTerrainCost', () => {
+  it('charges each tile type its configured cost', () => {
+    expect(getTerrainCost(TileType.NORMAL)).toBe(1);
+    expect(getTerrainCost(TileType.DEAD_ZONE)).toBe(2);
+    expect(getTerrainCost(TileType.BARRIER)).toBe(3);
+  });
+
+  it('adds the cost of a trait on top of the terrain', () => {
+    expect(getTerrainCost(TileType.NORMAL, 'nebula')).toBe(2);
+  });
+
+  it('treats unknown tiles as normal ones', () => {
+    expect(getTerrainCost(undefined)).toBe(1);
+  });
+});
+
+describe('findPath', () => {
+  it('walks straight to a goal on open ground', () => {
+    const result = findPath(ORIGIN, { q: 3, r: -3, s: 0 }, costsWith({}));
+
+    expect(result?.cost).toBe(3);
+    expect(result?.path).toEqual([
+      { q: 1, r: -1, s: 0 },
+      { q: 2, r: -2, s: 0 },
+      { q: 3, r: -3, s: 0 }
+    ]);
+  });
+
+  it('goes around a blocked tile', () => {
+    const result = findPath(ORIGIN, { q: 2, r: -2, s: 0 }, costsWith({ '1#-1#0': null }));
+
+    expect(result?.cost).toBe(3);
+    expect(result?.path.map(toKey)).not.toContain('1#-1#0');
+  });
+
+  it('prefers a longer route over expensive terrain', () => {
+    const result = findPath(ORIGIN, { q: 2, r: -2, s: 0 }, costsWith({ '1#-1#0': 3 }));
+
+    expect(result?.cost).toBe(3);
+    expect(result?.path).toHaveLength(3);
+    expect(result?.path.map(toKey)).not.toContain('1#-1#0');
+  });
+
+  it('returns null when the goal costs more than the limit', () => {
+    expect(findPath(ORIGIN, { q: 4, r: -4, s: 0 }, costsWith({}), { maxCost: 3 })).toBeNull();
+  });
+
+  it('returns null when the goal is blocked', () => {
+    // The grid is unbounded, so the search needs a limit to give up
+    expect(findPath(ORIGIN, { q: 1, r: -1, s: 0 }, costsWith({ '1#-1#0': null }), { maxCost: 5 })).toBeNull();
+  });
+
+  it('follows an extra edge when it is cheaper than walking', () => {
+    const goal = { q: 6, r: -6, s: 0 };
+    const result = findPath(ORIGIN, goal, costsWith({}), {
+      extraEdges: [{ from: { q: 1, r: -1, s: 0 }, to: { q: 5, r: -5, s: 0 } }]
+    });
+
+    expect(result?.cost).toBe(3);
+    expect(result?.path.map(toKey)).toEqual(['1#-1#0', '5#-5#0', '6#-6#0']);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Refilling rate limit buckets
+ */
+import { getAvailableTokens } from "../src/utils/rateLimiter";
+import { gameConfig } from "../src/config";
+
+const { capacity, refillPerSecond } = gameConfig.rateLimits.addColonyTile;
+
+describe('getAvailableTokens', () => {
+  it('starts a first call from a full bucket', () => {
+    expect(getAvailableTokens(undefined, 'addColonyTile', 0)).toBe(capacity);
+  });
+
+  it('refills for the time since the last call', () => {
+    const bucket = { uid: 'uid', action: 'addColonyTile', tokens: 0, updatedAt: 1000 };
+
+    expect(getAvailableTokens(bucket, 'addColonyTile', 1000 + 2000)).toBeCloseTo(2 * refillPerSecond);
+  });
+
+  it('never holds more than the capacity', () => {
+    const bucket = { uid: 'uid', action: 'addColonyTile', tokens: capacity - 1, updatedAt: 0 };
+
+    expect(getAvailableTokens(bucket, 'addColonyTile', 60 * 60 * 1000)).toBe(capacity);
+  });
+
+  it('ignores a clock that went backwards', () => {
+    const bucket = { uid: 'uid', action: 'addColonyTile', tokens: 1, updatedAt: 5000 };
+
+    expect(getAvailableTokens(bucket, 'addColonyTile', 1000)).toBe(1);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Concurrent tile captures against the Firestore emulator
+ *
+ * Run with the emulator up, e.g.
+ *   firebase emulators:exec --only firestore "npm --prefix functions test"
+ * The suite is skipped when FIRESTORE_EMULATOR_HOST isn't set.
+ */
+import * as admin from "firebase-admin";
+import { captureTile } from "../src/utils/tileCapture";
+import { ReadCostTracker } from "../src/utils/analytics/readCostTracker";
+import { Coordinates } from "../src/types/base";
+import { Colony, ColonyTile, TerritoryEntry, TileCaptureResult } from "../src/types/colony";
+import { neighborOffsets, toTileId } from "../src/utils/tileHelpers";
+import { createTerritoryEntry, getTerritoryCollection, getTerritoryRef } from "../src/utils/ownership";
+
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+const CENTER: Coordinates = { q: 0, r: 0, s: 0 };
+
+// One colony on each side of the center tile, so every one of them borders it
+const RIVALS = neighborOffsets.map((offset, index) => ({
+  colonyId: `rival-${index}`,
+  uid: `rival-uid-${index}`,
+  homeTileId: toTileId(offset)
+}));
+
+describeWithEmulator('captureTile', () => {
+  let db: admin.firestore.Firestore;
+
+  beforeAll(() => {
+    if (admin.apps.length === 0) {
+      admin.initializeApp({ projectId: 'demo-hexaverse' });
+    }
+    db = admin.firestore();
+  });
+
+  beforeEach(async () => {
+    await Promise.all([
+      db.recursiveDelete(db.collection('colony/v1/colonies')),
+      db.recursiveDelete(db.collection('colony/v1/tiles')),
+      db.recursiveDelete(db.collection('colony/v1/leaderboard'))
+    ]);
+
+    await Promise.all(RIVALS.map(({ colonyId, uid, homeTileId }) => {
+      const batch = db.batch();
+      batch.set(db.doc(`colony/v1/colonies/${colonyId}`), {
+        id: colonyId,
+        uid,
+        name: colonyId,
+        startCoordinates: CENTER,
+        units: [],
+        unplacedUnits: [],
+        territoryScore: 1,
+        allianceId: null
+      });
+      batch.set(db.doc(`colony/v1/tiles/${homeTileId}`), { id: homeTileId, controllerUid: uid });
+      batch.set(getTerritoryRef(colonyId, homeTileId), createTerritoryEntry(uid, homeTileId, Date.now()));
+      return batch.commit();
+    }));
+  });
+
+  afterAll(async () => {
+    await Promise.all(admin.apps.map(app => app?.delete()));
+  });
+
+  /**
+   * Fire a capture from every rival at once
+   * Claims that run out of retries reject, which counts as losing the race too.
+   */
+  async function captureFromEveryRival(coords: Coordinates): Promise<PromiseSettledResult<TileCaptureResult>[]> {
+    return Promise.allSettled(RIVALS.map(({ uid }) =>
+      captureTile(uid, coords, new ReadCostTracker('captureTileTest'))
+    ));
+  }
+
+  /**
+   * Load the IDs of the tiles in a colony's territory
+   */
+  async function loadTerritory(colonyId: string): Promise<string[]> {
+    const snapshot = await getTerritoryCollection(colonyId).get();
+    return snapshot.docs.map(doc => (doc.data() as TerritoryEntry).tileId);
+  }
+
+  /**
+   * Assert every tile is in exactly one colony's territory, and that it's the colony controlling the tile
+   */
+  async function expectEachTileInOneColony(): Promise<void> {
+    const [coloniesSnapshot, tilesSnapshot] = await Promise.all([
+      db.collection('colony/v1/colonies').get(),
+      db.collection('colony/v1/tiles').get()
+    ]);
+    const colonies = coloniesSnapshot.docs.map(doc => doc.data() as Colony);
+    const territories = await Promise.all(colonies.map(colony => loadTerritory(colony.id)));
+
+    const owners = new Map<string, string[]>();
+    colonies.forEach((colony, index) => territories[index].forEach(tileId => {
+      owners.set(tileId, [...(owners.get(tileId) ?? []), colony.uid]);
+    }));
+
+    owners.forEach((uids, tileId) => {
+      expect({ tileId, uids }).toEqual({ tileId, uids: [uids[0]] });
+    });
+
+    tilesSnapshot.docs.forEach(doc => {
+      const tile = doc.data() as ColonyTile;
+      expect(owners.get(doc.id)).toEqual([tile.controllerUid]);
+    });
+
+    colonies.forEach((colony, index) => {
+      expect(colony.territoryScore).toBe(territories[index].length);
+    });
+  }
+
+  it('gives an unclaimed tile to exactly one of several colonies claiming it at once', async () => {
+    const results = await captureFromEveryRival(CENTER);
+
+    const wins = results.filter(result => result.status === 'fulfilled' && result.value.status !== 'conflict');
+    expect(wins.length).toBeGreaterThan(0);
+
+    await expectEachTileInOneColony();
+
+    // Every rival keeps its home tile whatever happened to the center
+    for (const { colonyId, homeTileId } of RIVALS) {
+      expect(await loadTerritory(colonyId)).toContain(homeTileId);
+    }
+  });
+
+  it('leaves a contested tile in exactly one colony when rivals capture it at once', async () => {
+    const [defender] = RIVALS;
+    await captureTile(defender.uid, CENTER, new ReadCostTracker('captureTileTest'));
+
+    const results = await captureFromEveryRival(CENTER);
+
+    results.forEach(result => {
+      if (result.status === 'fulfilled' && result.value.status === 'conflict') {
+        expect(result.value.tileId).toBe(toTileId(CENTER));
+        expect(RIVALS.map(({ uid }) => uid)).toContain(result.value.controllerUid);
+      }
+    });
+
+    await expectEachTileInOneColony();
+  });
+
+  it('keeps every tile in one colony when rivals race for several tiles', async () => {
+    // The center plus the tiles between each pair of neighbouring rivals
+    const targets: Coordinates[] = [CENTER, ...neighborOffsets.map((offset, index) => {
+      const next = neighborOffsets[(index + 1) % neighborOffsets.length];
+      return { q: offset.q + next.q, r: offset.r + next.r, s: offset.s + next.s };
+    })];
+
+    await Promise.all(targets.map(captureFromEveryRival));
+
+    await expectEachTileInOneColony();
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Netting what a trade moves in and out of a stockpile
+ */
+import { getNetResources } from "../src/utils/trade";
+
+describe('getNetResources', () => {
+  it('combines gains and losses of the same resource', () => {
+    expect(getNetResources({ metal: 100, gas: 20 }, { metal: 30 })).toEqual({ metal: 70, gas: 20 });
+  });
+
+  it('keeps resources that are only lost as negative changes', () => {
+    expect(getNetResources({}, { crystal: 5 })).toEqual({ crystal: -5 });
+  });
+
+  it('leaves out resources that cancel out', () => {
+    expect(getNetResources({ metal: 50 }, { metal: 50 })).toEqual({});
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Checking callable requests against their schemas
+ */
+import { HttpsError } from "firebase-functions/v2/https";
+import {
+  checkCubeCoordinates,
+  COORDINATE_FIELDS,
+  FieldError,
+  ID_RULE,
+  RequestSchema,
+  validateRequest
+} from "../src/utils/validation";
+import { GALAXY_RADIUS } from "../src/utils/noise";
+
+interface TestRequest {
+  colonyId: string;
+  q: number;
+  r: number;
+  s: number;
+  name?: string;
+  tags: string[];
+  mode: 'move' | 'jump';
+}
+
+const schema: RequestSchema<TestRequest> = {
+  fields: {
+    colonyId: ID_RULE,
+    ...COORDINATE_FIELDS,
+    name: { type: 'string', maxLength: 10, trim: true, optional: true },
+    tags: { type: 'array', items: { type: 'string', maxLength: 5 }, maxItems: 2 },
+    mode: { type: 'enum', values: ['move', 'jump'] }
+  },
+  check: checkCubeCoordinates
+};
+
+const valid = { colonyId: 'colony-1', q: 1, r: -1, s: 0, tags: ['a'], mode: 'move' };
+
+// Run validateRequest and return the field errors it throws
+const getFieldErrors = (data: unknown): FieldError[] => {
+  try {
+    validateRequest(data, schema);
+  } catch (error) {
+    expect(error).toBeInstanceOf(HttpsError);
+    expect((error as HttpsError).code).toBe('invalid-argument');
+    return ((error as HttpsError).details as { fieldErrors: FieldError[] }).fieldErrors;
+  }
+  throw new Error('Expected the request to be refused');
+};
+
+describe('validateRequest', () => {
+  it('returns only the fields the schema names', () => {
+    expect(validateRequest({ ...valid, extra: true }, schema)).toEqual(valid);
+  });
+
+  it('trims strings that ask for it', () => {
+    expect(validateRequest({ ...valid, name: '  Nova  ' }, schema).name).toBe('Nova');
+  });
+
+  it('reports every wrong field at once', () => {
+    const errors = getFieldErrors({ ...valid, colonyId: 'a/b', q: 1.5, mode: 'warp', tags: ['toolong'] });
+
+    expect(errors.map(error => error.field).sort()).toEqual(['colonyId', 'mode', 'q', 'tags[0]']);
+  });
+
+  it('requires fields that are not optional', () => {
+    expect(getFieldErrors({})).toEqual(expect.arrayContaining([{ field: 'colonyId', message: 'is required' }]));
+  });
+
+  it('refuses coordinates outside the galaxy', () => {
+    expect(getFieldErrors({ ...valid, q: GALAXY_RADIUS + 1, r: -GALAXY_RADIUS - 1 }).map(error => error.field))
+      .toEqual(['q', 'r']);
+  });
+
+  it('runs the cross-field check once every field is valid', () => {
+    expect(getFieldErrors({ ...valid, s: 1 })).toEqual([{ field: 's', message: 'must make q + r + s equal 0' }]);
+  });
+
+  it('treats data that is not an object as empty', () => {
+    expect(getFieldErrors('hello').map(error => error.field)).toContain('colonyId');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Game rules that the client previews and the functions enforce
+ * Both sides import these, so a preview can't drift from what the server validates.
+ * Keep this file free of client and firebase imports: it's compiled into the functions too.
+ */
+
+// Stats for one tier of base
+export interface BaseTier {
+  level: number;
+  influenceRadius: number;          // Tiles around the base it claims
+  cost: Record<string, number>;     // Resources spent to build or upgrade to this tier
+  buildMinutes: number;             // Real-time construction time
+}
+
+// Unit movement costs
+export const movementRules = {
+  maxMoveCost: 3,         // Maximum cost a unit can spend on a single move
+
+  // Cost of entering a tile of each type, keyed by tile type
+  terrainCosts: {
+    star_rich: 1,
+    normal: 1,
+    dead_zone: 2,
+    barrier: 3
+  } as Record<string, number>,
+
+  // Tile types that cannot be entered at all
+  impassableTileTypes: [] as string[],
+
+  // Extra cost of entering a tile with each trait, on top of its terrain cost
+  traitCosts: {
+    nebula: 1
+  } as Record<string, number>
+};
+
+// Base placement and tiers
+export const baseRules = {
+  minBaseSpacing: 6,  // Minimum tiles between any two bases, whoever owns them
+
+  // Influence, cost and build time of each base tier
+  tiers: [
+    { level: 1, influenceRadius: 3, cost: { metal: 200 }, buildMinutes: 30 },
+    { level: 2, influenceRadius: 5, cost: { metal: 500 }, buildMinutes: 60 },
+    { level: 3, influenceRadius: 7, cost: { metal: 1200 }, buildMinutes: 120 }
+  ] as BaseTier[]
+};
+
+// Chunked tile storage; the client groups its chunk requests the same way the server stores them
+export const chunkRules = {
+  size: 16,           // Chunks cover size x size axial coordinates; changing it means rebuilding every chunk
+  maxPerRequest: 64   // Most chunks fetchChunks returns in one call
+};
@@ -0,0 +1,222 @@
+import type { CubeCoordinates } from "./requests";
+import { movementRules } from "./gameRules";
+
+/**
+ * A* pathfinding shared by the client's move preview and the functions' move validation
+ * Compiled into both, so the previewed route is always the one the server accepts.
+ */
+
+type Coordinates = CubeCoordinates;
+
+/**
+ * Cost of stepping from one hex onto an adjacent hex.
+ * Returns null when the destination hex cannot be entered.
+ */
+export type StepCostFunction = (to: Coordinates, from: Coordinates) => number | null;
+
+// Result of a successful path search
+export interface PathResult {
+  path: Coordinates[];  // Ordered hexes stepped through, excluding the start
+  cost: number;         // Total movement cost of the path
+}
+
+// A one-way link between two hexes that aren't adjacent, such as a wormhole
+export interface PathEdge {
+  from: Coordinates;
+  to: Coordinates;
+}
+
+export interface FindPathOptions {
+  maxCost?: number;      // Stop exploring routes more expensive than this
+  minStepCost?: number;  // Cheapest possible step, used to keep the heuristic admissible
+  extraEdges?: PathEdge[];  // Links followed in addition to the six neighbours, costed like a step onto their end
+}
+
+interface OpenNode {
+  key: string;
+  coords: Coordinates;
+  g: number;  // Cost from the start
+  f: number;  // Estimated total cost through this node
+}
+
+// The six hex directions in cube coordinates
+const NEIGHBOR_OFFSETS: Coordinates[] = [
+  { q: 1, r: -1, s: 0 }, { q: 1, r: 0, s: -1 }, { q: 0, r: 1, s: -1 },
+  { q: -1, r: 1, s: 0 }, { q: -1, r: 0, s: 1 }, { q: 0, r: -1, s: 1 }
+];
+
+const toKey = (c: Coordinates) => `${c.q}#${c.r}#${c.s}`;
+
+const distance = (a: Coordinates, b: Coordinates) =>
+  Math.max(Math.abs(a.q - b.q), Math.abs(a.r - b.r), Math.abs(a.s - b.s));
+
+/**
+ * Get the cost of entering a tile of the given type
+ * @param tileType The type of the tile being entered; unknown tiles cost the same as normal ones
+ * @param trait The trait of the tile being entered, if any
+ * @returns The movement cost, or null if the tile cannot be entered
+ */
+export function getTerrainCost(tileType: string | undefined, trait: string | null = null): number | null {
+  const { terrainCosts, impassableTileTypes, traitCosts } = movementRules;
+  const type = tileType ?? 'normal';
+
+  if (impassableTileTypes.includes(type)) {
+    return null;
+  }
+
+  const traitCost = trait ? traitCosts[trait] ?? 0 : 0;
+  return (terrainCosts[type] ?? terrainCosts.normal) + traitCost;
+}
+
+/**
+ * The cheapest cost of entering any passable tile
+ */
+export function getMinimumStepCost(): number {
+  const { terrainCosts, impassableTileTypes } = movementRules;
+
+  const passableCosts = Object.entries(terrainCosts)
+    .filter(([tileType]) => !impassableTileTypes.includes(tileType))
+    .map(([, cost]) => cost);
+
+  return passableCosts.length > 0 ? Math.min(...passableCosts) : 1;
+}
+
+/**
+ * The most a single step can cost, used to bound searches by distance
+ */
+export function getMaximumStepCost(): number {
+  const { terrainCosts, traitCosts } = movementRules;
+  return Math.max(...Object.values(terrainCosts)) + Math.max(0, ...Object.values(traitCosts));
+}
+
+/**
+ * Minimal binary heap keyed on the node's f score
+ */
+class OpenSet {
+  private heap: OpenNode[] = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(node: OpenNode): void {
+    this.heap.push(node);
+    let i = this.heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.heap[parent].f <= this.heap[i].f) break;
+      [this.heap[parent], this.heap[i]] = [this.heap[i], this.heap[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): OpenNode | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (this.heap.length > 0 && last) {
+      this.heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.heap.length && this.heap[left].f < this.heap[smallest].f) smallest = left;
+        if (right < this.heap.length && this.heap[right].f < this.heap[smallest].f) smallest = right;
+        if (smallest === i) break;
+        [this.heap[smallest], this.heap[i]] = [this.heap[i], this.heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Find the cheapest path between two hexes using A* over cube coordinates
+ * @param start Starting coordinates
+ * @param goal Destination coordinates
+ * @param getStepCost Function returning the cost of entering a hex, or null if it is blocked
+ * @param options Optional search limits
+ * @returns The cheapest path and its cost, or null if the goal is unreachable
+ */
+export function findPath(
+  start: Coordinates,
+  goal: Coordinates,
+  getStepCost: StepCostFunction,
+  options: FindPathOptions = {}
+): PathResult | null {
+  const maxCost = options.maxCost ?? Infinity;
+  const minStepCost = options.minStepCost ?? 1;
+  const extraEdges = options.extraEdges ?? [];
+  const goalKey = toKey(goal);
+
+  const edgesFrom = new Map<string, Coordinates[]>();
+  extraEdges.forEach(edge => {
+    const key = toKey(edge.from);
+    edgesFrom.set(key, [...(edgesFrom.get(key) ?? []), edge.to]);
+  });
+
+  // With shortcuts the straight-line distance can overestimate, so also consider
+  // walking to the nearest edge start and stepping out at the edge end closest to the goal
+  const exitToGoal = Math.min(...extraEdges.map(edge => distance(edge.to, goal)));
+  const heuristic = (c: Coordinates) => {
+    const direct = distance(c, goal);
+    if (extraEdges.length === 0) return direct * minStepCost;
+
+    const toEntrance = Math.min(...extraEdges.map(edge => distance(c, edge.from)));
+    return Math.min(direct, toEntrance + 1 + exitToGoal) * minStepCost;
+  };
+
+  const open = new OpenSet();
+  const bestCost = new Map<string, number>();
+  const cameFrom = new Map<string, Coordinates>();
+
+  const startKey = toKey(start);
+  bestCost.set(startKey, 0);
+  open.push({ key: startKey, coords: start, g: 0, f: heuristic(start) });
+
+  while (open.size > 0) {
+    const current = open.pop() as OpenNode;
+
+    // Skip stale heap entries that were superseded by a cheaper route
+    if (current.g > (bestCost.get(current.key) ?? Infinity)) continue;
+
+    if (current.key === goalKey) {
+      const path: Coordinates[] = [];
+      let key = goalKey;
+      let coords: Coordinates | undefined = current.coords;
+      while (coords && key !== startKey) {
+        path.unshift(coords);
+        coords = cameFrom.get(key);
+        key = coords ? toKey(coords) : startKey;
+      }
+      return { path, cost: current.g };
+    }
+
+    const neighbors: Coordinates[] = [
+      ...NEIGHBOR_OFFSETS.map(offset => ({
+        q: current.coords.q + offset.q,
+        r: current.coords.r + offset.r,
+        s: current.coords.s + offset.s
+      })),
+      ...(edgesFrom.get(current.key) ?? [])
+    ];
+
+    for (const next of neighbors) {
+      const stepCost = getStepCost(next, current.coords);
+      if (stepCost === null) continue;
+
+      const g = current.g + stepCost;
+      if (g > maxCost) continue;
+
+      const nextKey = toKey(next);
+      if (g >= (bestCost.get(nextKey) ?? Infinity)) continue;
+
+      bestCost.set(nextKey, g);
+      cameFrom.set(nextKey, current.coords);
+      open.push({ key: nextKey, coords: next, g, f: g + heuristic(next) });
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,194 @@
+/**
+ * Request types for the callable functions, shared by the client services and the functions
+ * The functions validate every request against a schema typed by these, so a field added here has to be
+ * added to the callable's schema before it compiles. Type declarations only: neither side bundles this file.
+ */
+
+// Cube coordinates of a tile; q + r + s is always 0
+export interface CubeCoordinates {
+  q: number;
+  r: number;
+  s: number;
+}
+
+export type MoveType = 'sublight' | 'ftl' | 'relayJump';
+
+export type MessageChannel = 'direct' | 'alliance' | 'beacon';
+
+export type LeaderboardWindow = 'allTime' | 'weekly';
+
+export type SupportCategory = 'idea' | 'problem' | 'other';
+
+export type RoadmapStatus = 'development' | 'upcoming' | 'vision';
+
+// A page of a paginated list
+export interface PageRequest {
+  limit?: number;
+  startAfter?: string;  // ID of the last item on the previous page
+}
+
+// Colonies and tiles
+
+export interface CreateColonyRequest {
+  name: string;
+  color?: string;  // Hex color like #33AAFF
+}
+
+export type AddTileRequest = CubeCoordinates;
+
+export interface FetchTilesByIdsRequest {
+  tileIds: string[];  // q#r#s tile IDs
+}
+
+export interface FetchChunksRequest {
+  chunkIds: string[];  // chunkQ#chunkR chunk IDs
+}
+
+export interface FetchGalaxyRegionRequest extends CubeCoordinates {
+  radius: number;
+}
+
+// Units, construction and research
+
+export interface MoveUnitRequest extends CubeCoordinates {
+  unitId: string;
+  moveType?: MoveType;  // Sublight when missing
+}
+
+export interface PlaceUnitRequest extends CubeCoordinates {
+  unplacedIndex: number;
+}
+
+export interface QueueOrderRequest extends CubeCoordinates {
+  unitId: string;
+}
+
+export interface CancelOrderRequest {
+  orderId: string;
+}
+
+export type BuildBaseRequest = CubeCoordinates;
+
+export interface UpgradeBaseRequest {
+  unitId: string;
+}
+
+export type BuildRelayRequest = CubeCoordinates;
+
+export interface SetResearchTargetRequest {
+  techId: string;
+}
+
+export interface FetchBattleReportsRequest {
+  limit?: number;
+}
+
+// Trade
+
+export interface CreateTradeOfferRequest {
+  offered: Record<string, number>;    // Resource type to amount
+  requested: Record<string, number>;
+  lifetimeHours?: number;
+}
+
+// Accepting or cancelling an offer
+export interface TradeOfferActionRequest {
+  offerId: string;
+}
+
+export interface FetchTradeOffersRequest extends PageRequest {
+  resourceType?: string;  // Only offers that offer or request this resource
+  mine?: boolean;         // Only the user's own open offers
+}
+
+export type FetchTradeHistoryRequest = PageRequest;
+
+// Alliances, profiles and the leaderboard
+
+export interface CreateAllianceRequest {
+  name: string;
+  color: string;
+  sharedVisibility?: boolean;
+}
+
+export interface InviteToAllianceRequest {
+  uid: string;
+}
+
+export interface AcceptAllianceInviteRequest {
+  allianceId: string;
+}
+
+export interface FetchColonyProfileRequest {
+  uid: string;
+}
+
+export interface FetchColonyColorsRequest {
+  uids: string[];
+}
+
+export interface FetchLeaderboardRequest extends PageRequest {
+  window?: LeaderboardWindow;  // All time when missing
+}
+
+export type FetchAllianceLeaderboardRequest = PageRequest;
+
+// Messaging
+
+export interface SendMessageRequest {
+  channel: 'direct' | 'alliance';
+  body: string;
+  recipientUid?: string;  // Required for direct messages
+}
+
+export interface PlaceBeaconRequest extends CubeCoordinates {
+  body: string;
+}
+
+export interface FetchMessagesRequest extends PageRequest {
+  channel?: MessageChannel;  // Every channel when missing
+}
+
+export interface MarkMessagesReadRequest {
+  channel: MessageChannel;
+}
+
+export interface FetchBeaconsRequest extends CubeCoordinates {
+  radius?: number;  // The largest allowed radius when missing
+}
+
+// Drawing board
+
+export interface SendDrawingTileUpdateRequest extends CubeCoordinates {
+  color: string;
+}
+
+export interface FetchDrawingTilesRequest {
+  timestamp?: string | null;  // ISO timestamp of the last update the client saw; every tile when missing
+}
+
+// Support and roadmap
+
+export interface SupportSubmissionRequest {
+  category: SupportCategory;
+  title: string;
+  description: string;
+  userId: string;
+  userEmail: string;
+}
+
+export interface RoadmapItemRequest {
+  title: string;
+  description: string;
+  status: RoadmapStatus;
+  progress?: number | null;      // Percent complete
+  expectedDate?: string | null;
+}
+
+export interface UpdateRoadmapItemRequest extends Partial<RoadmapItemRequest> {
+  id: string;
+}
+
+export interface DeleteRoadmapItemRequest {
+  id: string;
+}
@@ -1,16 +1,21 @@
-// 'use client';
+'use client';
 
-// import React from 'react';
-// import { AuthGuard } from '@/components/auth/AuthGuard';
-// import { ColonyGridManager } from '@/components/grid/GridManager';
+import React, { Suspense } from 'react';
+import { AuthGuard } from '@/components/auth/AuthGuard';
+import { ColonyProvider } from '@/contexts/ColonyContext';
+import { ColonyGridManager } from '@/components/grid/ColonyGridManager';
 
-// //* This is just a copy of the the home page for v0.11.6 */
-// export default function ColonyGridPage() {
-//   return (
-//     <AuthGuard>
-//       <div className="h-screen w-full">
-//         <ColonyGridManager />
-//       </div>
-//     </AuthGuard>
-//   );
-// } 
\ No newline at end of file
+export default function ColonyGridPage() {
+  return (
+    <AuthGuard>
+      <ColonyProvider>
+        <div className="h-screen w-full">
+          {/* The grid reads search params, which needs a suspense boundary */}
+          <Suspense>
+            <ColonyGridManager />
+          </Suspense>
+        </div>
+      </ColonyProvider>
+    </AuthGuard>
+  );
+}
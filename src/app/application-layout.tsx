@@ -45,7 +45,10 @@ import {
   TicketIcon,
   ViewColumnsIcon,
   CalendarIcon,
-  LockClosedIcon
+  LockClosedIcon,
+  TrophyIcon,
+  UserGroupIcon,
+  BuildingStorefrontIcon
 } from '@heroicons/react/20/solid'
 import { usePathname } from 'next/navigation'
 import { WebSocketStatusIndicator } from '@/components/websocket-status-indicator';
@@ -167,6 +170,24 @@ export function ApplicationLayout({
                     </SidebarLabel>
                   </SidebarItem>
                 )}
+                {user && (
+                  <SidebarItem href="/alliance" current={pathname.startsWith('/alliance')}>
+                    <UserGroupIcon />
+                    <SidebarLabel>Alliance</SidebarLabel>
+                  </SidebarItem>
+                )}
+                {user && (
+                  <SidebarItem href="/marketplace" current={pathname.startsWith('/marketplace')}>
+                    <BuildingStorefrontIcon />
+                    <SidebarLabel>Marketplace</SidebarLabel>
+                  </SidebarItem>
+                )}
+                {user && (
+                  <SidebarItem href="/leaderboard" current={pathname.startsWith('/leaderboard')}>
+                    <TrophyIcon />
+                    <SidebarLabel>Leaderboard</SidebarLabel>
+                  </SidebarItem>
+                )}
                 {/* <SidebarItem href="/events" current={pathname.startsWith('/events')}>
                   <Square2StackIcon />
                   <SidebarLabel>Events</SidebarLabel>
@@ -0,0 +1,27 @@
+'use client'
+
+import React from 'react';
+import { AuthGuard } from '@/components/auth/AuthGuard';
+import { Leaderboard } from '@/components/colony/Leaderboard';
+
+export default function LeaderboardPage() {
+  return (
+    <AuthGuard>
+      <div className="py-10">
+        <header className="mb-8">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Leaderboard</h1>
+            <p className="mt-2 text-sm text-gray-600 dark:text-zinc-400">
+              Colonies ranked by territory. Select a colony to find it on the grid.
+            </p>
+          </div>
+        </header>
+        <main>
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <Leaderboard />
+          </div>
+        </main>
+      </div>
+    </AuthGuard>
+  );
+}
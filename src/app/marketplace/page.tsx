@@ -0,0 +1,30 @@
+'use client'
+
+import React from 'react';
+import { AuthGuard } from '@/components/auth/AuthGuard';
+import { ColonyProvider } from '@/contexts/ColonyContext';
+import { Marketplace } from '@/components/colony/Marketplace';
+
+export default function MarketplacePage() {
+  return (
+    <AuthGuard>
+      <ColonyProvider>
+        <div className="py-10">
+          <header className="mb-8">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Marketplace</h1>
+              <p className="mt-2 text-sm text-gray-600 dark:text-zinc-400">
+                Trade resources with other colonies. Offered resources are held in escrow until the offer closes.
+              </p>
+            </div>
+          </header>
+          <main>
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+              <Marketplace />
+            </div>
+          </main>
+        </div>
+      </ColonyProvider>
+    </AuthGuard>
+  );
+}
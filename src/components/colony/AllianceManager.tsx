@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useColony } from '@/contexts/ColonyContext';
+import {
+  acceptAllianceInvite,
+  createAlliance,
+  fetchAlliance,
+  leaveAlliance,
+  AllianceResponse
+} from '@/services/colony/AllianceService';
+import { Alliance, AllianceSummary } from '@/types/alliance';
+
+const DEFAULT_ALLIANCE_COLOR = '#A855F7';
+
+export function AllianceManager() {
+  const { user } = useAuth();
+  const { refreshColony } = useColony();
+  const [alliance, setAlliance] = useState<Alliance | null>(null);
+  const [invites, setInvites] = useState<AllianceSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(DEFAULT_ALLIANCE_COLOR);
+  const [sharedVisibility, setSharedVisibility] = useState(true);
+
+  const loadAlliance = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetchAlliance();
+      setAlliance(response.alliance);
+      setInvites(response.invites);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your alliance');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAlliance();
+  }, [loadAlliance]);
+
+  // Membership changes the colony too, so reload both once an action succeeds
+  const runAction = async (action: () => Promise<AllianceResponse>) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await action();
+      if (!response.success) {
+        setError(response.message || 'Something went wrong');
+        return;
+      }
+      await Promise.all([loadAlliance(), refreshColony({ silent: true })]);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Give your alliance a name');
+      return;
+    }
+    runAction(() => createAlliance({ name: name.trim(), color, sharedVisibility }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md animate-pulse">
+        <div className="h-6 bg-gray-200 dark:bg-zinc-700 rounded w-1/3 mb-3"></div>
+        <div className="h-4 bg-gray-200 dark:bg-zinc-700 rounded w-5/6"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-800 text-red-700 dark:text-red-400 rounded">
+          {error}
+        </div>
+      )}
+
+      {alliance ? (
+        <div className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+              <span className="size-4 rounded-full border border-black/10" style={{ backgroundColor: alliance.color }} />
+              <h3 className="text-xl font-bold text-gray-900 dark:text-white">{alliance.name}</h3>
+            </div>
+            <button
+              onClick={() => runAction(leaveAlliance)}
+              disabled={isSubmitting}
+              className="px-2 py-0.5 text-sm bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 rounded hover:bg-red-200 dark:hover:bg-red-800/40 disabled:opacity-50"
+            >
+              Leave
+            </button>
+          </div>
+
+          <p className="mb-3 text-sm text-gray-600 dark:text-zinc-400">
+            {alliance.territoryScore} tiles of combined territory.{' '}
+            {alliance.sharedVisibility ? 'Members share vision.' : 'Members keep their vision to themselves.'}{' '}
+            Allied ships never fight each other.
+          </p>
+
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">Members</h4>
+          <ul className="space-y-1 mb-3">
+            {alliance.members.map((member) => (
+              <li key={member.uid} className="flex justify-between bg-gray-100 dark:bg-zinc-700 rounded px-2 py-1 text-sm">
+                <span className="text-gray-900 dark:text-white">
+                  {member.name}
+                  {member.uid === user?.uid && <span className="ml-1 text-xs text-indigo-600 dark:text-indigo-300">(you)</span>}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-zinc-400">
+                  {member.uid === alliance.founderUid ? 'Founder' : `Joined ${new Date(member.joinedAt).toLocaleDateString()}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <p className="text-xs text-gray-500 dark:text-zinc-400">
+            {alliance.invitedUids.length > 0 && `${alliance.invitedUids.length} invite(s) pending. `}
+            Invite players by clicking one of their tiles on the grid and opening their colony profile.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md">
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Invites</h3>
+            {invites.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-zinc-400">No alliance has invited you yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {invites.map((invite) => (
+                  <li key={invite.id} className="flex items-center justify-between bg-gray-100 dark:bg-zinc-700 rounded p-2 text-sm">
+                    <span className="flex items-center gap-2 text-gray-900 dark:text-white">
+                      <span className="size-3 rounded-full border border-black/10" style={{ backgroundColor: invite.color }} />
+                      {invite.name}
+                      <span className="text-xs text-gray-500 dark:text-zinc-400">
+                        {invite.memberCount} members, {invite.territoryScore} tiles
+                      </span>
+                    </span>
+                    <button
+                      onClick={() => runAction(() => acceptAllianceInvite(invite.id))}
+                      disabled={isSubmitting}
+                      className="px-2 py-0.5 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      Accept
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <form onSubmit={handleCreate} className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md space-y-4">
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white">Found an Alliance</h3>
+            <div>
+              <label htmlFor="alliance-name" className="block text-sm font-medium text-gray-700 dark:text-zinc-300 mb-1">
+                Alliance Name
+              </label>
+              <input
+                id="alliance-name"
+                type="text"
+                value={name}
+                maxLength={32}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isSubmitting}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-zinc-700 rounded-md shadow-sm bg-white dark:bg-zinc-800 text-gray-900 dark:text-white focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-70"
+                placeholder="Enter a name for your alliance"
+              />
+            </div>
+            <div className="flex items-center gap-6">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-zinc-300">
+                Color
+                <input
+                  type="color"
+                  value={color}
+                  onChange={(e) => setColor(e.target.value)}
+                  disabled={isSubmitting}
+                  className="h-8 w-12 rounded border border-gray-300 dark:border-zinc-700"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={sharedVisibility}
+                  onChange={(e) => setSharedVisibility(e.target.checked)}
+                  disabled={isSubmitting}
+                />
+                Share vision between members
+              </label>
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-70 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Founding...' : 'Found Alliance'}
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWebSocketSubscription } from '@/hooks/useWebSocketSubscription';
+import { fetchBattleReports } from '@/services/colony/BattleService';
+import { BattleReport } from '@/types/battle';
+import { ColonyWebSocketMessage, isBattleMessage, WebSocketMessage } from '@/types/websocket';
+
+export function BattleReports() {
+  const { user } = useAuth();
+  const [battles, setBattles] = useState<BattleReport[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBattles = useCallback(async () => {
+    try {
+      setError(null);
+      setBattles(await fetchBattleReports());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load battle reports');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBattles();
+  }, [loadBattles]);
+
+  // Show new battles as soon as they are reported
+  const handleMessage = useCallback((message: WebSocketMessage) => {
+    const data = message as ColonyWebSocketMessage;
+    if (isBattleMessage(data) && user && data.payload.participantUids.includes(user.uid)) {
+      setBattles((prev) => [data.payload, ...prev.filter((battle) => battle.id !== data.payload.id)]);
+    }
+  }, [user]);
+
+  useWebSocketSubscription({ onMessage: handleMessage });
+
+  if (isLoading) {
+    return (
+      <div className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md animate-pulse">
+        <div className="h-6 bg-gray-200 dark:bg-zinc-700 rounded w-1/3 mb-3"></div>
+        <div className="h-4 bg-gray-200 dark:bg-zinc-700 rounded w-5/6"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white">Battle Reports</h3>
+        <button
+          onClick={loadBattles}
+          className="px-2 py-0.5 text-sm bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 rounded hover:bg-indigo-200 dark:hover:bg-indigo-800/40"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {battles.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-zinc-400">
+          No battles yet. Battles happen when ships from different colonies meet on a tile.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {battles.map((battle) => {
+            const won = battle.winnerUids
+              ? !!user && battle.winnerUids.includes(user.uid)
+              : battle.winnerUid === user?.uid;
+            const ownResults = battle.results.filter((result) => result.ownerUid === user?.uid);
+
+            return (
+              <li key={battle.id} className="bg-gray-100 dark:bg-zinc-700 rounded p-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className={`font-semibold ${won ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {won ? 'Victory' : 'Defeat'} at ({battle.position.q}, {battle.position.r}, {battle.position.s})
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-zinc-400">
+                    {new Date(battle.occurredAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-zinc-400">
+                  {battle.attackerUid === user?.uid ? 'You attacked' : 'You defended'} on {battle.tileType.replace(/_/g, ' ')} space
+                </p>
+                <ul className="mt-1 space-y-0.5">
+                  {battle.sides.map((side) => (
+                    <li key={side.uid} className="flex justify-between text-gray-700 dark:text-zinc-300">
+                      <span>
+                        {side.uid === user?.uid ? 'Your fleet' : 'Enemy fleet'}: {side.ships.length} ships
+                      </span>
+                      <span className="text-xs">
+                        strength {side.strength}, roll {side.roll}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {ownResults.some((result) => result.outcome !== 'survived') && (
+                  <p className="mt-1 text-xs text-gray-600 dark:text-zinc-400">
+                    {ownResults.filter((result) => result.outcome === 'destroyed').length} of your ships destroyed,{' '}
+                    {ownResults.filter((result) => result.outcome === 'retreated').length} retreated
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,81 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useColony } from '@/contexts/ColonyContext';
+import { gameConfig } from '@/config/gameConfig';
 import { invalidateColonyCache } from '@/services/colony/colony';
 import { useAuth } from '@/contexts/AuthContext';
 import {clearAllColonyTileCache} from "@/services/DrawingTilesService";
+import { upgradeBase } from '@/services/colony/BasesService';
+import { cancelOrder } from '@/services/colony/OrdersService';
+import { UnitType } from '@/types/units';
+import { canAfford, formatCost, getBaseTier } from '@/utils/construction';
+import { getActiveRelays, getRelayNetwork } from '@/utils/relays';
+import { fetchChunks } from '@/services/colony/ColonyTilesService';
+import { getChunkIdsForTiles } from '@/utils/chunks';
+import { getNextTickAt } from '@/utils/gameClock';
 
 export function ColonyInfo() {
   const { colony, isLoadingColony, error, refreshColony } = useColony();
   const { user } = useAuth();
+  const [upgradingBaseId, setUpgradingBaseId] = useState<string | null>(null);
+  const [constructionError, setConstructionError] = useState<string | null>(null);
+  const [cancellingOrderId, setCancellingOrderId] = useState<string | null>(null);
+  const [orderError, setOrderError] = useState<string | null>(null);
+  const [relayTerritory, setRelayTerritory] = useState<string[]>([]);
+
+  // Relays only run inside the colony's territory, so load the chunks they stand in to see who controls them
+  useEffect(() => {
+    if (!colony) return;
+
+    const relayTileIds = new Set(colony.units
+      .filter((unit) => unit.type === UnitType.RELAY)
+      .map(({ position }) => `${position.q}#${position.r}#${position.s}`));
+    if (relayTileIds.size === 0) {
+      setRelayTerritory([]);
+      return;
+    }
+
+    let canceled = false;
+    fetchChunks(getChunkIdsForTiles(relayTileIds)).then((tiles) => {
+      if (canceled) return;
+      setRelayTerritory(tiles
+        .filter((tile) => relayTileIds.has(tile.id) && tile.controllerUid === colony.uid)
+        .map((tile) => tile.id));
+    });
+
+    return () => { canceled = true };
+  }, [colony]);
+
+  // Handler for starting a base upgrade
+  const handleUpgradeBase = async (unitId: string) => {
+    setUpgradingBaseId(unitId);
+    setConstructionError(null);
+
+    const result = await upgradeBase(unitId);
+    if (result.success) {
+      // Refresh so the stockpile and construction queue pick up the order
+      await refreshColony({ silent: true });
+    } else {
+      setConstructionError(result.message || 'Failed to upgrade base');
+    }
+
+    setUpgradingBaseId(null);
+  };
+
+  // Handler for cancelling a queued move
+  const handleCancelOrder = async (orderId: string) => {
+    setCancellingOrderId(orderId);
+    setOrderError(null);
+
+    const result = await cancelOrder(orderId);
+    if (result.success) {
+      await refreshColony({ silent: true });
+    } else {
+      setOrderError(result.message || 'Failed to cancel order');
+    }
+
+    setCancellingOrderId(null);
+  };
 
   // Handler for manual refresh that forces a fresh fetch
   const handleRefresh = () => {
@@ -52,6 +121,10 @@ export function ColonyInfo() {
     return null;
   }
 
+  const relayOwner = { units: colony.units, tileIds: relayTerritory };
+  const activeRelayIds = new Set(getActiveRelays(relayOwner).map((relay) => relay.id));
+  const linkedRelayIds = new Set(getRelayNetwork(relayOwner).links.flatMap((link) => [link.fromId, link.toId]));
+
   return (
     <div className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md">
       <h3 className="text-xl font-bold mb-2 text-gray-900 dark:text-white">{colony.name}</h3>
@@ -76,11 +149,197 @@ export function ColonyInfo() {
       <div>
         <h4 className="font-semibold text-gray-700 dark:text-zinc-300 mb-1">Tiles</h4>
         <p className="text-sm text-gray-600 dark:text-zinc-400">
-        {colony.tileIds?.length ?? 0} tiles in your colony
+        {colony.territoryScore} tiles in your colony
         </p>
       </div>
       
+      <div className="mt-3">
+        <h4 className="font-semibold text-gray-700 dark:text-zinc-300 mb-1">Stockpile</h4>
+        {Object.keys({ ...colony.stockpile, ...colony.resourceRates }).length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-zinc-400">
+            No resources yet. Deploy a mining site to start extracting.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {Object.keys({ ...colony.stockpile, ...colony.resourceRates }).sort().map((resourceType) => (
+              <li
+                key={resourceType}
+                className="flex items-center justify-between bg-gray-100 dark:bg-zinc-700 rounded p-2 text-sm"
+              >
+                <span className="capitalize text-gray-700 dark:text-zinc-300">{resourceType}</span>
+                <span className="text-gray-900 dark:text-white">
+                  {Math.floor(colony.stockpile?.[resourceType] ?? 0)}
+                  <span className="ml-2 text-xs text-emerald-600 dark:text-emerald-400">
+                    +{colony.resourceRates?.[resourceType] ?? 0} / {gameConfig.economy.tickIntervalMinutes} min
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-3">
+        <div className="flex items-center justify-between mb-1">
+          <h4 className="font-semibold text-gray-700 dark:text-zinc-300">Bases</h4>
+          <Link
+            href="/ColonyGrid?build=base"
+            className="px-2 py-0.5 text-sm bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 rounded hover:bg-emerald-200 dark:hover:bg-emerald-800/40"
+          >
+            Build Base ({formatCost(getBaseTier(1)?.cost ?? {})})
+          </Link>
+        </div>
+        {constructionError && (
+          <p className="mb-1 text-sm text-red-600 dark:text-red-400">{constructionError}</p>
+        )}
+        <ul className="space-y-1">
+          {colony.units.filter((unit) => unit.type === UnitType.BASE).map((base) => {
+            const nextTier = getBaseTier(base.level + 1);
+            const isUpgrading = (colony.constructionQueue ?? []).some((order) => order.unitId === base.id);
+
+            return (
+              <li
+                key={base.id}
+                className="flex items-center justify-between bg-gray-100 dark:bg-zinc-700 rounded p-2 text-sm"
+              >
+                <span className="text-gray-700 dark:text-zinc-300">
+                  Tier {base.level} at ({base.position.q}, {base.position.r}, {base.position.s})
+                </span>
+                {isUpgrading ? (
+                  <span className="text-xs text-gray-500 dark:text-zinc-400">Upgrading</span>
+                ) : nextTier ? (
+                  <button
+                    onClick={() => handleUpgradeBase(base.id)}
+                    disabled={upgradingBaseId !== null || !canAfford(colony, nextTier.cost)}
+                    className="px-2 py-0.5 bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 rounded hover:bg-indigo-200 dark:hover:bg-indigo-800/40 disabled:opacity-50"
+                  >
+                    {upgradingBaseId === base.id ? 'Upgrading...' : `Upgrade (${formatCost(nextTier.cost)})`}
+                  </button>
+                ) : (
+                  <span className="text-xs text-gray-500 dark:text-zinc-400">Max tier</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="mt-3">
+        <div className="flex items-center justify-between mb-1">
+          <h4 className="font-semibold text-gray-700 dark:text-zinc-300">Relays</h4>
+          <Link
+            href="/ColonyGrid?build=relay"
+            className="px-2 py-0.5 text-sm bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 rounded hover:bg-emerald-200 dark:hover:bg-emerald-800/40"
+          >
+            Build Relay ({formatCost(gameConfig.relays.cost)})
+          </Link>
+        </div>
+        <ul className="space-y-1">
+          {colony.units.filter((unit) => unit.type === UnitType.RELAY).map((relay) => (
+            <li
+              key={relay.id}
+              className="flex items-center justify-between bg-gray-100 dark:bg-zinc-700 rounded p-2 text-sm"
+            >
+              <span className="text-gray-700 dark:text-zinc-300">
+                Relay at ({relay.position.q}, {relay.position.r}, {relay.position.s})
+              </span>
+              <span className="text-xs text-gray-500 dark:text-zinc-400">
+                {!activeRelayIds.has(relay.id) ? 'Outside territory' : linkedRelayIds.has(relay.id) ? 'Linked' : 'No link in range'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {colony.constructionQueue?.length > 0 && (
+        <div className="mt-3">
+          <h4 className="font-semibold text-gray-700 dark:text-zinc-300 mb-1">Construction</h4>
+          <ul className="space-y-1">
+            {colony.constructionQueue.map((order) => (
+              <li
+                key={order.id}
+                className="flex items-center justify-between bg-gray-100 dark:bg-zinc-700 rounded p-2 text-sm"
+              >
+                <span className="text-gray-700 dark:text-zinc-300">
+                  {order.unitType === UnitType.RELAY
+                    ? 'New relay'
+                    : `${order.kind === 'build' ? 'New base' : 'Base upgrade'} to tier ${order.targetLevel}`} at
+                  ({order.position.q}, {order.position.r}, {order.position.s})
+                </span>
+                <span className="text-xs text-gray-500 dark:text-zinc-400">
+                  Ready {new Date(order.completesAt).toLocaleTimeString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(colony.orderQueue ?? []).length > 0 && (
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-1">
+            <h4 className="font-semibold text-gray-700 dark:text-zinc-300">Orders</h4>
+            <span className="text-xs text-gray-500 dark:text-zinc-400">
+              Next tick {new Date(getNextTickAt(Date.now())).toLocaleTimeString()}
+            </span>
+          </div>
+          {orderError && (
+            <p className="mb-1 text-sm text-red-600 dark:text-red-400">{orderError}</p>
+          )}
+          <ul className="space-y-1">
+            {(colony.orderQueue ?? []).map((order) => (
+              <li
+                key={order.id}
+                className="flex items-center justify-between bg-gray-100 dark:bg-zinc-700 rounded p-2 text-sm"
+              >
+                <span className="text-gray-700 dark:text-zinc-300">
+                  Move to ({order.destination.q}, {order.destination.r}, {order.destination.s}), {order.path.length} tiles left
+                </span>
+                <button
+                  onClick={() => handleCancelOrder(order.id)}
+                  disabled={cancellingOrderId !== null}
+                  className="px-2 py-0.5 bg-gray-200 dark:bg-zinc-600 text-gray-700 dark:text-zinc-200 rounded hover:bg-gray-300 dark:hover:bg-zinc-500 disabled:opacity-50"
+                >
+                  {cancellingOrderId === order.id ? 'Cancelling...' : 'Cancel'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {colony.unplacedUnits?.length > 0 && (
+        <div className="mt-3">
+          <h4 className="font-semibold text-gray-700 dark:text-zinc-300 mb-1">Unplaced Units</h4>
+          <ul className="space-y-1">
+            {colony.unplacedUnits.map((unit, index) => (
+              <li
+                key={`${unit.type}-${index}`}
+                className="flex items-center justify-between bg-gray-100 dark:bg-zinc-700 rounded p-2 text-sm"
+              >
+                <span className="text-gray-700 dark:text-zinc-300">
+                  {unit.type.replace(/_/g, ' ')} (level {unit.level})
+                  {unit.resourceType && ` - ${unit.resourceType}`}
+                </span>
+                <Link
+                  href={`/ColonyGrid?deploy=${index}`}
+                  className="px-2 py-0.5 bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 rounded hover:bg-emerald-200 dark:hover:bg-emerald-800/40"
+                >
+                  Deploy
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="mt-3 flex gap-2">
+        <Link
+          href="/ColonyGrid"
+          className="px-3 py-1 bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 rounded hover:bg-emerald-200 dark:hover:bg-emerald-800/40"
+        >
+          Open Grid
+        </Link>
         <button 
           onClick={handleRefresh}
           className="px-3 py-1 bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 rounded hover:bg-indigo-200 dark:hover:bg-indigo-800/40"
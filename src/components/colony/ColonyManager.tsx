@@ -2,6 +2,9 @@ import React from 'react';
 import { useColony } from '@/contexts/ColonyContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { ColonyInfo } from './ColonyInfo';
+import { TechTree } from './TechTree';
+import { BattleReports } from './BattleReports';
+import { Inbox } from './Inbox';
 
 export function ColonyManager() {
   const { colony, isLoadingColony } = useColony();
@@ -30,8 +33,11 @@ export function ColonyManager() {
   }
 
   return (
-    <div className="p-6">
+    <div className="p-6 space-y-6">
       <ColonyInfo />
+      <Inbox />
+      <TechTree />
+      <BattleReports />
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { fetchColonyProfile } from '@/services/colony/ProfileService';
+import { inviteToAlliance } from '@/services/colony/AllianceService';
+import { sendDirectMessage } from '@/services/colony/MessagingService';
+import { gameConfig } from '@/config/gameConfig';
+import { ColonyProfile } from '@/types/colony';
+
+interface ColonyProfileViewProps {
+  uid: string;
+  onBack?: () => void;
+}
+
+/**
+ * Public profile of another player's colony. Only shows what the profile API exposes,
+ * so the home location is the colony's sector rather than its exact start.
+ */
+export function ColonyProfileView({ uid, onBack }: ColonyProfileViewProps) {
+  const [profile, setProfile] = useState<ColonyProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [inviting, setInviting] = useState(false);
+  const [inviteMessage, setInviteMessage] = useState<string | null>(null);
+  const [composing, setComposing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sendMessage, setSendMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProfile(null);
+    setError(null);
+    setInviteMessage(null);
+    setComposing(false);
+    setDraft('');
+    setSendMessage(null);
+
+    fetchColonyProfile(uid)
+      .then((loaded) => {
+        if (!cancelled) setProfile(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load colony profile');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  const handleInvite = async () => {
+    setInviting(true);
+    const response = await inviteToAlliance(uid);
+    setInviteMessage(response.success ? 'Invite sent' : response.message || 'Failed to send invite');
+    setInviting(false);
+  };
+
+  const handleSend = async () => {
+    setSending(true);
+    const response = await sendDirectMessage(uid, draft.trim());
+    if (response.success) {
+      setDraft('');
+      setComposing(false);
+      setSendMessage('Message sent');
+    } else {
+      setSendMessage(response.message || 'Failed to send message');
+    }
+    setSending(false);
+  };
+
+  return (
+    <div>
+      {onBack && (
+        <button
+          onClick={onBack}
+          className="mb-3 text-sm text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300"
+        >
+          &larr; Back to tile
+        </button>
+      )}
+
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : !profile ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-6 w-1/2 rounded bg-gray-200 dark:bg-zinc-700"></div>
+          <div className="h-4 w-5/6 rounded bg-gray-200 dark:bg-zinc-700"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2 flex items-center rounded-lg bg-gray-50 p-3 dark:bg-gray-800">
+            <div className="mr-3 h-8 w-8 rounded" style={{ backgroundColor: profile.color || '#FF3333' }}></div>
+            <div className="text-lg font-semibold dark:text-gray-200">{profile.name}</div>
+          </div>
+          <div className="rounded-lg bg-gray-50 p-3 dark:bg-gray-800">
+            <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Territory</div>
+            <div className="mt-1 dark:text-gray-200">{profile.territoryScore} tiles</div>
+          </div>
+          <div className="rounded-lg bg-gray-50 p-3 dark:bg-gray-800">
+            <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Founded</div>
+            <div className="mt-1 dark:text-gray-200">
+              {profile.foundedAt ? new Date(profile.foundedAt).toLocaleDateString() : 'Unknown'}
+            </div>
+          </div>
+          <div className="col-span-2 rounded-lg bg-gray-50 p-3 dark:bg-gray-800">
+            <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Home Sector</div>
+            <div className="mt-1 font-mono dark:text-gray-200">
+              near q: {profile.homeSector.q}, r: {profile.homeSector.r}, s: {profile.homeSector.s}
+            </div>
+          </div>
+          <div className="col-span-2 flex items-center justify-between">
+            <div className="flex gap-2">
+              <button
+                onClick={handleInvite}
+                disabled={inviting}
+                className="px-3 py-1 text-sm bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 rounded hover:bg-indigo-200 dark:hover:bg-indigo-800/40 disabled:opacity-50"
+              >
+                {inviting ? 'Inviting...' : 'Invite to alliance'}
+              </button>
+              <button
+                onClick={() => setComposing((prev) => !prev)}
+                className="px-3 py-1 text-sm bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 rounded hover:bg-indigo-200 dark:hover:bg-indigo-800/40"
+              >
+                Message
+              </button>
+            </div>
+            {(inviteMessage || sendMessage) && (
+              <span className="text-xs text-gray-600 dark:text-gray-400">{sendMessage ?? inviteMessage}</span>
+            )}
+          </div>
+          {composing && (
+            <div className="col-span-2 flex gap-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                maxLength={gameConfig.messaging.maxMessageLength}
+                rows={2}
+                placeholder={`Message ${profile.name}`}
+                className="flex-1 rounded border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 dark:border-zinc-600 dark:bg-zinc-900 dark:text-white"
+              />
+              <button
+                onClick={handleSend}
+                disabled={sending || !draft.trim()}
+                className="self-end px-3 py-1 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {sending ? 'Sending...' : 'Send'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
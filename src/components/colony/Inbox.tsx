@@ -0,0 +1,263 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { useColony } from '@/contexts/ColonyContext';
+import { useWebSocketSubscription } from '@/hooks/useWebSocketSubscription';
+import {
+  fetchMessages,
+  markMessagesRead,
+  sendAllianceMessage,
+  sendDirectMessage
+} from '@/services/colony/MessagingService';
+import { gameConfig } from '@/config/gameConfig';
+import { GameMessage, MessageChannel } from '@/types/message';
+import { ColonyWebSocketMessage, isInboxMessage, WebSocketMessage } from '@/types/websocket';
+
+const TABS: { value: MessageChannel; label: string }[] = [
+  { value: 'direct', label: 'Direct' },
+  { value: 'alliance', label: 'Alliance' },
+  { value: 'beacon', label: 'Beacons' },
+];
+
+const NO_UNREAD: Record<MessageChannel, number> = { direct: 0, alliance: 0, beacon: 0 };
+
+// Who a direct reply goes to
+interface ReplyTarget {
+  uid: string;
+  name: string;
+}
+
+export function Inbox() {
+  const { user } = useAuth();
+  const { colony } = useColony();
+  const [channel, setChannel] = useState<MessageChannel>('direct');
+  const [messages, setMessages] = useState<GameMessage[]>([]);
+  const [unread, setUnread] = useState<Record<MessageChannel, number>>(NO_UNREAD);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<ReplyTarget | null>(null);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const loadFirstPage = useCallback(async (selectedChannel: MessageChannel) => {
+    setIsLoading(true);
+    try {
+      setError(null);
+      const page = await fetchMessages(selectedChannel);
+      setMessages(page.messages);
+      setNextCursor(page.nextCursor);
+      setUnread(page.unread);
+
+      // Opening a channel reads everything on it
+      if (page.unread[selectedChannel] > 0) {
+        const response = await markMessagesRead(selectedChannel);
+        if (response.success) {
+          setUnread((prev) => ({ ...prev, [selectedChannel]: 0 }));
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load messages');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setReplyTo(null);
+    loadFirstPage(channel);
+  }, [loadFirstPage, channel]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      setError(null);
+      const page = await fetchMessages(channel, nextCursor);
+      setMessages((prev) => [...prev, ...page.messages]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more messages');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // New messages land on the open channel, or bump the badge of another one
+  const handleMessage = useCallback((message: WebSocketMessage) => {
+    const data = message as ColonyWebSocketMessage;
+    if (!isInboxMessage(data) || !user || !data.payload.message.recipientUids.includes(user.uid)) return;
+
+    const received = data.payload.message;
+    if (received.channel === channel) {
+      setMessages((prev) => [received, ...prev.filter((existing) => existing.id !== received.id)]);
+      markMessagesRead(channel);
+    } else {
+      setUnread((prev) => ({ ...prev, [received.channel]: prev[received.channel] + 1 }));
+    }
+  }, [user, channel]);
+
+  useWebSocketSubscription({ onMessage: handleMessage });
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body) return;
+
+    setSending(true);
+    const response = channel === 'alliance'
+      ? await sendAllianceMessage(body)
+      : await sendDirectMessage(replyTo!.uid, body);
+
+    if (response.success && response.sentMessage) {
+      const sent = response.sentMessage;
+      setMessages((prev) => [sent, ...prev]);
+      setDraft('');
+      setError(null);
+    } else {
+      setError(response.message || 'Failed to send message');
+    }
+    setSending(false);
+  };
+
+  const canCompose = channel === 'alliance' ? !!colony?.allianceId : channel === 'direct' && !!replyTo;
+
+  return (
+    <div className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white">Inbox</h3>
+        <div className="flex gap-1">
+          {TABS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setChannel(value)}
+              className={`flex items-center gap-1 px-3 py-1 text-sm rounded ${
+                channel === value
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 hover:bg-indigo-200 dark:hover:bg-indigo-800/40'
+              }`}
+            >
+              {label}
+              {unread[value] > 0 && (
+                <span className="min-w-5 rounded-full bg-red-500 px-1.5 text-xs text-white">{unread[value]}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {channel === 'beacon' && (
+        <div className="mb-3 flex items-center justify-between text-xs text-gray-500 dark:text-zinc-400">
+          <span>Beacons reach every colony with a unit within {gameConfig.beacons.range} tiles.</span>
+          <Link
+            href="/ColonyGrid?beacon"
+            className="px-2 py-0.5 text-sm bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 rounded hover:bg-amber-200 dark:hover:bg-amber-800/40"
+          >
+            Place a beacon
+          </Link>
+        </div>
+      )}
+
+      {error && <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-10 bg-gray-200 dark:bg-zinc-700 rounded"></div>
+          <div className="h-10 bg-gray-200 dark:bg-zinc-700 rounded"></div>
+        </div>
+      ) : messages.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-zinc-400">
+          {channel === 'direct'
+            ? 'No messages yet. Open another colony\'s profile on the grid to write to them.'
+            : channel === 'alliance'
+              ? colony?.allianceId ? 'Nobody in your alliance has said anything yet.' : 'Join an alliance to use its channel.'
+              : 'No beacons heard yet.'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {messages.map((message) => {
+            const isOwn = message.senderUid === user?.uid;
+            const isUnread = !!user && message.unreadUids.includes(user.uid);
+
+            return (
+              <li
+                key={message.id}
+                className={`rounded p-2 text-sm ${
+                  isUnread ? 'bg-indigo-50 dark:bg-indigo-900/30' : 'bg-gray-100 dark:bg-zinc-700'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold text-gray-900 dark:text-white">
+                    {isOwn ? 'You' : message.senderName}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-zinc-400">
+                    {new Date(message.sentAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="mt-1 whitespace-pre-wrap text-gray-700 dark:text-zinc-300">{message.body}</p>
+                <div className="mt-1 flex gap-3 text-xs">
+                  {message.position && (
+                    <Link
+                      href={`/ColonyGrid?focus=${message.position.q},${message.position.r},${message.position.s}`}
+                      className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300"
+                    >
+                      Beacon at ({message.position.q}, {message.position.r}, {message.position.s})
+                    </Link>
+                  )}
+                  {message.channel === 'direct' && !isOwn && (
+                    <button
+                      onClick={() => setReplyTo({ uid: message.senderUid, name: message.senderName })}
+                      className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300"
+                    >
+                      Reply
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {nextCursor && !isLoading && (
+        <button
+          onClick={handleLoadMore}
+          disabled={loadingMore}
+          className="mt-3 w-full px-3 py-1.5 text-sm bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 rounded hover:bg-indigo-200 dark:hover:bg-indigo-800/40 disabled:opacity-50"
+        >
+          {loadingMore ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+
+      {canCompose && (
+        <div className="mt-3">
+          <div className="mb-1 flex items-center justify-between text-xs text-gray-500 dark:text-zinc-400">
+            <span>{channel === 'alliance' ? 'To your alliance' : `Replying to ${replyTo?.name}`}</span>
+            {channel === 'direct' && (
+              <button onClick={() => setReplyTo(null)} className="hover:text-gray-700 dark:hover:text-zinc-200">
+                Cancel
+              </button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={gameConfig.messaging.maxMessageLength}
+              rows={2}
+              className="flex-1 rounded border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 dark:border-zinc-600 dark:bg-zinc-900 dark:text-white"
+            />
+            <button
+              onClick={handleSend}
+              disabled={sending || !draft.trim()}
+              className="self-end px-3 py-1 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {sending ? 'Sending...' : 'Send'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchAllianceLeaderboard, fetchLeaderboard } from '@/services/colony/LeaderboardService';
+import { AllianceSummary } from '@/types/alliance';
+import { LeaderboardEntry, LeaderboardWindow } from '@/types/leaderboard';
+
+// Colonies are ranked over a time window; alliances by their combined territory
+type LeaderboardTab = LeaderboardWindow | 'alliances';
+
+const TABS: { value: LeaderboardTab; label: string }[] = [
+  { value: 'allTime', label: 'All time' },
+  { value: 'weekly', label: 'This week' },
+  { value: 'alliances', label: 'Alliances' },
+];
+
+export function Leaderboard() {
+  const { user } = useAuth();
+  const [window, setWindow] = useState<LeaderboardTab>('allTime');
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [alliances, setAlliances] = useState<AllianceSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [weekStartedAt, setWeekStartedAt] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFirstPage = useCallback(async (selectedWindow: LeaderboardTab) => {
+    setIsLoading(true);
+    try {
+      setError(null);
+      if (selectedWindow === 'alliances') {
+        const page = await fetchAllianceLeaderboard();
+        setAlliances(page.entries);
+        setNextCursor(page.nextCursor);
+        return;
+      }
+
+      const page = await fetchLeaderboard(selectedWindow);
+      setEntries(page.entries);
+      setNextCursor(page.nextCursor);
+      setWeekStartedAt(page.weekStartedAt);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the leaderboard');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFirstPage(window);
+  }, [loadFirstPage, window]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      setError(null);
+      if (window === 'alliances') {
+        const page = await fetchAllianceLeaderboard(nextCursor);
+        setAlliances((prev) => [...prev, ...page.entries]);
+        setNextCursor(page.nextCursor);
+        return;
+      }
+
+      const page = await fetchLeaderboard(window, nextCursor);
+      setEntries((prev) => [...prev, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more entries');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex gap-1">
+          {TABS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setWindow(value)}
+              className={`px-3 py-1 text-sm rounded ${
+                window === value
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 hover:bg-indigo-200 dark:hover:bg-indigo-800/40'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {window === 'weekly' && weekStartedAt && (
+          <span className="text-xs text-gray-500 dark:text-zinc-400">
+            Since {new Date(weekStartedAt).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-8 bg-gray-200 dark:bg-zinc-700 rounded"></div>
+          <div className="h-8 bg-gray-200 dark:bg-zinc-700 rounded"></div>
+          <div className="h-8 bg-gray-200 dark:bg-zinc-700 rounded"></div>
+        </div>
+      ) : window === 'alliances' ? (
+        alliances.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-zinc-400">No alliances have been founded yet.</p>
+        ) : (
+          <ol className="divide-y divide-gray-200 dark:divide-zinc-700">
+            {alliances.map((alliance, index) => (
+              <li key={alliance.id} className="flex items-center gap-3 px-2 py-2 text-sm">
+                <span className="w-8 text-right text-gray-500 dark:text-zinc-400">{index + 1}</span>
+                <span
+                  className="size-3 rounded-full border border-black/10"
+                  style={{ backgroundColor: alliance.color }}
+                />
+                <span className="flex-1 text-gray-900 dark:text-white">{alliance.name}</span>
+                <span className="text-xs text-gray-500 dark:text-zinc-400">
+                  {alliance.memberCount} {alliance.memberCount === 1 ? 'member' : 'members'}
+                </span>
+                <span className="w-16 text-right text-gray-900 dark:text-white">{alliance.territoryScore}</span>
+              </li>
+            ))}
+          </ol>
+        )
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-zinc-400">No colonies on the leaderboard yet.</p>
+      ) : (
+        <ol className="divide-y divide-gray-200 dark:divide-zinc-700">
+          {entries.map((entry, index) => {
+            const { q, r, s } = entry.location;
+            const isOwn = entry.uid === user?.uid;
+            const score = window === 'weekly' ? entry.weeklyGain : entry.territoryScore;
+
+            return (
+              <li key={entry.colonyId}>
+                <Link
+                  href={`/ColonyGrid?focus=${q},${r},${s}`}
+                  className={`flex items-center gap-3 px-2 py-2 text-sm rounded hover:bg-gray-100 dark:hover:bg-zinc-700 ${
+                    isOwn ? 'font-semibold' : ''
+                  }`}
+                >
+                  <span className="w-8 text-right text-gray-500 dark:text-zinc-400">{index + 1}</span>
+                  <span
+                    className="size-3 rounded-full border border-black/10"
+                    style={{ backgroundColor: entry.color || '#9ca3af' }}
+                  />
+                  <span className="flex-1 text-gray-900 dark:text-white">
+                    {entry.name}
+                    {isOwn && <span className="ml-1 text-xs text-indigo-600 dark:text-indigo-300">(you)</span>}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-zinc-400">
+                    ({q}, {r}, {s})
+                  </span>
+                  <span className="w-16 text-right text-gray-900 dark:text-white">
+                    {window === 'weekly' && score > 0 ? `+${score}` : score}
+                  </span>
+                </Link>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {nextCursor && !isLoading && (
+        <button
+          onClick={handleLoadMore}
+          disabled={loadingMore}
+          className="mt-3 w-full px-3 py-1.5 text-sm bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 rounded hover:bg-indigo-200 dark:hover:bg-indigo-800/40 disabled:opacity-50"
+        >
+          {loadingMore ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,379 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useColony } from '@/contexts/ColonyContext';
+import {
+  acceptTradeOffer,
+  cancelTradeOffer,
+  createTradeOffer,
+  fetchTradeHistory,
+  fetchTradeOffers,
+  TradeResponse
+} from '@/services/colony/TradeService';
+import { TradeHistoryEntry, TradeOffer } from '@/types/trade';
+import { canAfford, formatCost } from '@/utils/construction';
+
+// Every colony starts out mining metal, so it is always worth filtering by
+const BASE_RESOURCE_TYPES = ['metal'];
+
+const LIFETIME_OPTIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 48, label: '2 days' },
+  { hours: 168, label: '1 week' },
+];
+
+const INPUT_CLASSES =
+  'px-2 py-1 border border-gray-300 dark:border-zinc-700 rounded-md bg-white dark:bg-zinc-800 text-sm text-gray-900 dark:text-white disabled:opacity-70';
+
+/**
+ * Describe how long an offer has left, e.g. "5h left"
+ */
+function formatTimeLeft(expiresAt: number): string {
+  const hours = Math.max(0, Math.floor((expiresAt - Date.now()) / (60 * 60 * 1000)));
+  return hours >= 24 ? `${Math.floor(hours / 24)}d left` : hours > 0 ? `${hours}h left` : 'Expiring soon';
+}
+
+export function Marketplace() {
+  const { user } = useAuth();
+  const { colony, refreshColony } = useColony();
+  const [resourceType, setResourceType] = useState('');
+  const [mine, setMine] = useState(false);
+  const [offers, setOffers] = useState<TradeOffer[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [history, setHistory] = useState<TradeHistoryEntry[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [offeredType, setOfferedType] = useState('metal');
+  const [offeredAmount, setOfferedAmount] = useState('');
+  const [requestedType, setRequestedType] = useState('');
+  const [requestedAmount, setRequestedAmount] = useState('');
+  const [lifetimeHours, setLifetimeHours] = useState(48);
+
+  const filters = useMemo(() => ({ resourceType: resourceType || undefined, mine }), [resourceType, mine]);
+
+  const loadOffers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setError(null);
+      const page = await fetchTradeOffers(filters);
+      setOffers(page.offers);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the marketplace');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const page = await fetchTradeHistory();
+      setHistory(page.entries);
+      setHistoryCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your trade history');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOffers();
+  }, [loadOffers]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      setError(null);
+      const page = await fetchTradeOffers(filters, nextCursor);
+      setOffers((prev) => [...prev, ...page.offers]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more offers');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleLoadMoreHistory = async () => {
+    if (!historyCursor) return;
+
+    try {
+      const page = await fetchTradeHistory(historyCursor);
+      setHistory((prev) => [...prev, ...page.entries]);
+      setHistoryCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more history');
+    }
+  };
+
+  // Trades move resources, so reload the offers, history and stockpile once one succeeds
+  const runAction = async (action: () => Promise<TradeResponse>) => {
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await action();
+      if (!response.success) {
+        setError(response.message || 'Something went wrong');
+        return false;
+      }
+      setNotice(response.message || null);
+      await Promise.all([loadOffers(), loadHistory(), refreshColony({ silent: true })]);
+      return true;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const offered = Number(offeredAmount);
+    const requested = Number(requestedAmount);
+    const requestedResource = requestedType.trim().toLowerCase();
+
+    if (!Number.isInteger(offered) || offered <= 0 || !Number.isInteger(requested) || requested <= 0) {
+      setError('Amounts must be whole numbers above zero');
+      return;
+    }
+
+    if (!requestedResource) {
+      setError('Choose a resource to ask for');
+      return;
+    }
+
+    const created = await runAction(() => createTradeOffer({
+      offered: { [offeredType]: offered },
+      requested: { [requestedResource]: requested },
+      lifetimeHours,
+    }));
+
+    if (created) {
+      setOfferedAmount('');
+      setRequestedAmount('');
+    }
+  };
+
+  // Resources worth offering in the filter: anything stockpiled or already on the marketplace
+  const resourceTypes = useMemo(
+    () => Array.from(new Set([
+      ...BASE_RESOURCE_TYPES,
+      ...Object.keys(colony?.stockpile ?? {}),
+      ...offers.flatMap((offer) => offer.resourceTypes),
+    ])).sort(),
+    [colony?.stockpile, offers]
+  );
+
+  const stockpileTypes = Object.keys(colony?.stockpile ?? {});
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-800 text-red-700 dark:text-red-400 rounded">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="p-3 bg-emerald-100 dark:bg-emerald-900/30 border border-emerald-400 dark:border-emerald-800 text-emerald-700 dark:text-emerald-400 rounded">
+          {notice}
+        </div>
+      )}
+
+      <div className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white">Open Offers</h3>
+          <div className="flex items-center gap-3">
+            <select
+              value={resourceType}
+              onChange={(e) => setResourceType(e.target.value)}
+              className={INPUT_CLASSES}
+            >
+              <option value="">All resources</option>
+              {resourceTypes.map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-zinc-300">
+              <input type="checkbox" checked={mine} onChange={(e) => setMine(e.target.checked)} />
+              Only mine
+            </label>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-2">
+            <div className="h-10 bg-gray-200 dark:bg-zinc-700 rounded"></div>
+            <div className="h-10 bg-gray-200 dark:bg-zinc-700 rounded"></div>
+          </div>
+        ) : offers.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-zinc-400">No open offers match.</p>
+        ) : (
+          <ul className="space-y-2">
+            {offers.map((offer) => {
+              const isOwn = offer.creatorUid === user?.uid;
+              const affordable = !!colony && canAfford(colony, offer.requested);
+
+              return (
+                <li key={offer.id} className="flex items-center justify-between gap-3 bg-gray-100 dark:bg-zinc-700 rounded p-2 text-sm">
+                  <div>
+                    <div className="text-gray-900 dark:text-white">
+                      <span className="font-semibold">{formatCost(offer.offered)}</span> for{' '}
+                      <span className="font-semibold">{formatCost(offer.requested)}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-zinc-400">
+                      {isOwn ? 'Your offer' : offer.creatorName} · {formatTimeLeft(offer.expiresAt)}
+                    </div>
+                  </div>
+                  {isOwn ? (
+                    <button
+                      onClick={() => runAction(() => cancelTradeOffer(offer.id))}
+                      disabled={isSubmitting}
+                      className="px-2 py-0.5 text-sm bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 rounded hover:bg-red-200 dark:hover:bg-red-800/40 disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => runAction(() => acceptTradeOffer(offer.id))}
+                      disabled={isSubmitting || !affordable}
+                      title={affordable ? undefined : 'Your stockpile can\'t cover this'}
+                      className="px-2 py-0.5 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      Accept
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {nextCursor && !isLoading && (
+          <button
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            className="mt-3 w-full px-3 py-1.5 text-sm bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 rounded hover:bg-indigo-200 dark:hover:bg-indigo-800/40 disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+
+      <form onSubmit={handleCreate} className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md space-y-3">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white">Make an Offer</h3>
+        <p className="text-sm text-gray-600 dark:text-zinc-400">
+          What you offer leaves your stockpile until the offer is accepted, cancelled or expires.
+        </p>
+        {stockpileTypes.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-zinc-400">Your stockpile is empty. Mine some resources first.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-zinc-300">
+              Offer
+              <input
+                type="number"
+                min={1}
+                value={offeredAmount}
+                onChange={(e) => setOfferedAmount(e.target.value)}
+                disabled={isSubmitting}
+                className={`w-24 ${INPUT_CLASSES}`}
+              />
+              <select
+                value={offeredType}
+                onChange={(e) => setOfferedType(e.target.value)}
+                disabled={isSubmitting}
+                className={INPUT_CLASSES}
+              >
+                {stockpileTypes.map((type) => (
+                  <option key={type} value={type}>
+                    {type} ({Math.floor(colony?.stockpile?.[type] ?? 0)})
+                  </option>
+                ))}
+              </select>
+              for
+              <input
+                type="number"
+                min={1}
+                value={requestedAmount}
+                onChange={(e) => setRequestedAmount(e.target.value)}
+                disabled={isSubmitting}
+                className={`w-24 ${INPUT_CLASSES}`}
+              />
+              <input
+                type="text"
+                list="trade-resource-types"
+                value={requestedType}
+                onChange={(e) => setRequestedType(e.target.value)}
+                disabled={isSubmitting}
+                placeholder="resource"
+                className={`w-32 ${INPUT_CLASSES}`}
+              />
+              <datalist id="trade-resource-types">
+                {resourceTypes.map((type) => (
+                  <option key={type} value={type} />
+                ))}
+              </datalist>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-zinc-300">
+              Open for
+              <select
+                value={lifetimeHours}
+                onChange={(e) => setLifetimeHours(Number(e.target.value))}
+                disabled={isSubmitting}
+                className={INPUT_CLASSES}
+              >
+                {LIFETIME_OPTIONS.map(({ hours, label }) => (
+                  <option key={hours} value={hours}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-70 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Posting...' : 'Post Offer'}
+            </button>
+          </>
+        )}
+      </form>
+
+      <div className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Trade History</h3>
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-zinc-400">No closed offers yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {history.map((entry) => (
+              <li key={entry.offerId} className="flex items-center justify-between bg-gray-100 dark:bg-zinc-700 rounded p-2 text-sm">
+                <span className="text-gray-900 dark:text-white">
+                  {entry.status === 'accepted'
+                    ? `Gave ${formatCost(entry.gave)} to ${entry.counterpartyName} for ${formatCost(entry.received)}`
+                    : `Offer ${entry.status}, escrow returned`}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-zinc-400">
+                  {new Date(entry.closedAt).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {historyCursor && (
+          <button
+            onClick={handleLoadMoreHistory}
+            className="mt-3 w-full px-3 py-1.5 text-sm bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 rounded hover:bg-indigo-200 dark:hover:bg-indigo-800/40"
+          >
+            Load more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { gameConfig } from '@/config/gameConfig';
+import { fetchTechTree, setResearchTarget } from '@/services/colony/ResearchService';
+import { FetchTechTreeResponse, TechDefinition } from '@/types/tech';
+
+type TechStatus = 'completed' | 'active' | 'available' | 'locked';
+
+const STATUS_STYLES: Record<TechStatus, string> = {
+  completed: 'border-emerald-400 dark:border-emerald-700 bg-emerald-50 dark:bg-emerald-900/20',
+  active: 'border-blue-400 dark:border-blue-700 bg-blue-50 dark:bg-blue-900/20',
+  available: 'border-gray-300 dark:border-zinc-600 bg-gray-100 dark:bg-zinc-700',
+  locked: 'border-gray-200 dark:border-zinc-700 bg-gray-50 dark:bg-zinc-800 opacity-60',
+};
+
+export function TechTree() {
+  const [techTree, setTechTree] = useState<FetchTechTreeResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingTechId, setPendingTechId] = useState<string | null>(null);
+
+  const loadTechTree = useCallback(async () => {
+    try {
+      setError(null);
+      setTechTree(await fetchTechTree());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tech tree');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTechTree();
+  }, [loadTechTree]);
+
+  const handleResearch = async (techId: string) => {
+    setPendingTechId(techId);
+    const result = await setResearchTarget(techId);
+    setPendingTechId(null);
+
+    if (result.success && result.research) {
+      setTechTree((current) => current && { ...current, research: result.research! });
+    } else {
+      setError(result.message || 'Failed to set research target');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md animate-pulse">
+        <div className="h-6 bg-gray-200 dark:bg-zinc-700 rounded w-1/3 mb-3"></div>
+        <div className="h-4 bg-gray-200 dark:bg-zinc-700 rounded w-5/6 mb-2"></div>
+        <div className="h-4 bg-gray-200 dark:bg-zinc-700 rounded w-2/3"></div>
+      </div>
+    );
+  }
+
+  if (!techTree) {
+    return (
+      <div className="p-4 bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-800 text-red-700 dark:text-red-400 rounded-xl">
+        <h3 className="font-bold mb-2">Error Loading Tech Tree</h3>
+        <p>{error}</p>
+      </div>
+    );
+  }
+
+  const { techs, research, researchRate } = techTree;
+
+  const getStatus = (tech: TechDefinition): TechStatus => {
+    if (research.completedTechs.includes(tech.id)) return 'completed';
+    if (research.activeTechId === tech.id) return 'active';
+    return tech.prerequisites.every((id) => research.completedTechs.includes(id)) ? 'available' : 'locked';
+  };
+
+  const getTechName = (techId: string) => techs.find((tech) => tech.id === techId)?.name ?? techId;
+
+  return (
+    <div className="p-4 bg-white dark:bg-zinc-800 rounded-xl shadow-md">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white">Tech Tree</h3>
+        <span className="text-sm text-gray-500 dark:text-zinc-400">
+          +{researchRate} research / {gameConfig.economy.tickIntervalMinutes} min
+        </span>
+      </div>
+
+      {!research.activeTechId && (
+        <p className="mb-2 text-sm text-amber-600 dark:text-amber-400">
+          No active research. Research points are lost until you choose a tech.
+        </p>
+      )}
+
+      {error && (
+        <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <ul className="space-y-2">
+        {techs.map((tech) => {
+          const status = getStatus(tech);
+          const progress = Math.min(research.progress[tech.id] ?? 0, tech.cost);
+
+          return (
+            <li key={tech.id} className={`border rounded p-2 text-sm ${STATUS_STYLES[status]}`}>
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-gray-900 dark:text-white">{tech.name}</span>
+                {status === 'available' ? (
+                  <button
+                    onClick={() => handleResearch(tech.id)}
+                    disabled={pendingTechId !== null}
+                    className="px-2 py-0.5 bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 rounded hover:bg-blue-200 dark:hover:bg-blue-800/40 disabled:opacity-50"
+                  >
+                    {pendingTechId === tech.id ? 'Selecting...' : 'Research'}
+                  </button>
+                ) : (
+                  <span className="text-xs capitalize text-gray-500 dark:text-zinc-400">{status}</span>
+                )}
+              </div>
+              <p className="text-gray-600 dark:text-zinc-400">{tech.description}</p>
+              {tech.prerequisites.length > 0 && status === 'locked' && (
+                <p className="text-xs text-gray-500 dark:text-zinc-500">
+                  Requires {tech.prerequisites.map(getTechName).join(', ')}
+                </p>
+              )}
+              {status !== 'completed' && (
+                <div className="mt-1 flex items-center gap-2">
+                  <div className="flex-1 h-1.5 bg-gray-200 dark:bg-zinc-600 rounded">
+                    <div
+                      className="h-1.5 bg-blue-500 rounded"
+                      style={{ width: `${(progress / tech.cost) * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-xs text-gray-500 dark:text-zinc-400">
+                    {Math.floor(progress)} / {tech.cost}
+                  </span>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
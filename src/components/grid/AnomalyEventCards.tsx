@@ -0,0 +1,80 @@
+import React, { useCallback, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWebSocketSubscription } from '@/hooks/useWebSocketSubscription';
+import { AnomalyEvent } from '@/types/anomaly';
+import { ColonyWebSocketMessage, isEventMessage, WebSocketMessage } from '@/types/websocket';
+import { formatCost } from '@/utils/construction';
+
+// Oldest cards are dropped once this many are showing
+const MAX_CARDS = 3;
+
+/**
+ * Describe what an anomaly event did, e.g. "Found 120 metal"
+ */
+function describeOutcome(event: AnomalyEvent): string {
+  const { resources, unitsGained, levelsLost, unitDestroyed, revealedArea } = event.outcome;
+
+  switch (event.kind) {
+    case 'resource_cache':
+      return `Found ${formatCost(resources)}`;
+    case 'derelict_ship':
+      return `${unitsGained.length} ship${unitsGained.length === 1 ? '' : 's'} joined your fleet`;
+    case 'hazard':
+      return unitDestroyed ? 'Your ship was lost' : `Your ship lost ${levelsLost} level${levelsLost === 1 ? '' : 's'}`;
+    case 'map_reveal':
+      return revealedArea
+        ? `Revealed everything within ${revealedArea.radius} tiles until ${new Date(revealedArea.expiresAt).toLocaleString()}`
+        : 'Nothing could be recovered';
+  }
+}
+
+// Cards for anomalies the player's units just explored, shown over the grid
+export function AnomalyEventCards() {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<AnomalyEvent[]>([]);
+
+  const handleMessage = useCallback((message: WebSocketMessage) => {
+    const data = message as ColonyWebSocketMessage;
+    if (isEventMessage(data) && user && data.payload.uid === user.uid) {
+      setEvents((prev) => [...prev.filter((event) => event.id !== data.payload.id), data.payload].slice(-MAX_CARDS));
+    }
+  }, [user]);
+
+  useWebSocketSubscription({ onMessage: handleMessage });
+
+  const dismiss = (eventId: string) => {
+    setEvents((prev) => prev.filter((event) => event.id !== eventId));
+  };
+
+  if (events.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-4 right-4 z-10 flex w-72 flex-col gap-2">
+      {events.map((event) => (
+        <div
+          key={event.id}
+          className={`rounded-lg bg-white/95 p-3 text-sm shadow-lg dark:bg-zinc-800/95 border-l-4 ${
+            event.kind === 'hazard' ? 'border-red-500' : 'border-fuchsia-500'
+          }`}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <span className="font-semibold text-gray-900 dark:text-white">{event.name}</span>
+            <button
+              onClick={() => dismiss(event.id)}
+              className="text-xs text-gray-500 hover:text-gray-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+            >
+              Dismiss
+            </button>
+          </div>
+          <p className="mt-1 text-gray-600 dark:text-zinc-300">{event.description}</p>
+          <p className={`mt-1 font-medium ${event.kind === 'hazard' ? 'text-red-600 dark:text-red-400' : 'text-fuchsia-600 dark:text-fuchsia-400'}`}>
+            {describeOutcome(event)}
+          </p>
+          <p className="mt-1 text-xs text-gray-500 dark:text-zinc-400">
+            Anomaly at ({event.position.q}, {event.position.r}, {event.position.s})
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import React, { useMemo, useRef, useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
+import * as THREE from 'three'
+import { Beacon } from '@/types/message'
+import { cubeToPixel } from '@/utils/gridUtils'
+
+interface BeaconMarkersProps {
+  beacons: Beacon[];
+  hexSize: number;
+}
+
+const DEFAULT_BEACON_COLOR = '#fbbf24'
+
+interface BeaconMarker {
+  beacon: Beacon;
+  position: [number, number, number];
+}
+
+/**
+ * A bright core with a ring that keeps expanding outward, like a signal going out.
+ */
+function BeaconPulse({ hexSize, color }: { hexSize: number; color: string }) {
+  const ringRef = useRef<THREE.Mesh>(null)
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null)
+
+  useFrame((state) => {
+    if (!ringRef.current || !materialRef.current) return
+    const progress = (state.clock.elapsedTime * 0.6) % 1
+    ringRef.current.scale.setScalar(0.4 + progress * 0.8)
+    materialRef.current.opacity = 0.8 * (1 - progress)
+  })
+
+  return (
+    <group>
+      <mesh renderOrder={3}>
+        <circleGeometry args={[hexSize * 0.18, 16]} />
+        <meshBasicMaterial color={color} />
+      </mesh>
+      <mesh ref={ringRef} renderOrder={3}>
+        <ringGeometry args={[hexSize * 0.5, hexSize * 0.6, 32]} />
+        <meshBasicMaterial ref={materialRef} color={color} transparent opacity={0.8} side={THREE.DoubleSide} />
+      </mesh>
+    </group>
+  )
+}
+
+/**
+ * Draws every active beacon in its colony's color. Hovering a beacon shows
+ * who placed it and what it says.
+ */
+export function BeaconMarkers({ beacons, hexSize }: BeaconMarkersProps) {
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+
+  const markers = useMemo(
+    () => beacons.map((beacon): BeaconMarker => {
+      const [x, y] = cubeToPixel(beacon.position.q, beacon.position.r, beacon.position.s, hexSize)
+      return { beacon, position: [x, y, 0.06] }
+    }),
+    [beacons, hexSize]
+  )
+
+  const hovered = markers.find((marker) => marker.beacon.id === hoveredId)
+
+  return (
+    <>
+      {markers.map((marker) => (
+        <group
+          key={marker.beacon.id}
+          position={marker.position}
+          onPointerOver={() => setHoveredId(marker.beacon.id)}
+          onPointerOut={() => setHoveredId((prev) => (prev === marker.beacon.id ? null : prev))}
+        >
+          <BeaconPulse hexSize={hexSize} color={marker.beacon.color || DEFAULT_BEACON_COLOR} />
+        </group>
+      ))}
+      {hovered && (
+        <Html position={hovered.position} center style={{ pointerEvents: 'none' }}>
+          <div className="-translate-y-10 max-w-56 rounded bg-zinc-900/90 px-2 py-1 text-xs text-amber-100">
+            <div className="font-semibold">{hovered.beacon.colonyName}</div>
+            <div className="whitespace-pre-wrap">{hovered.beacon.message}</div>
+          </div>
+        </Html>
+      )}
+    </>
+  )
+}
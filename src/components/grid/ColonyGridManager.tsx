@@ -2,31 +2,90 @@
 
 import { DebugMenu } from '@/components/grid/DebugMenu'
 import { GridCanvas } from '@/components/grid/GridCanvas'
+import { AnomalyEventCards } from '@/components/grid/AnomalyEventCards'
 import { SlideUpPanel } from '@/components/slide-up-panel'
 import { useAuth } from '@/contexts/AuthContext'
 import { ColonyStatus, useColony } from '@/contexts/ColonyContext'
 import { ColonyTilesProvider, useColonyTiles } from '@/contexts/ColonyTilesContext'
 import { useToast } from '@/contexts/ToastContext'
-import { addColonyTile as addColonyTileService, WarmupableFunctions } from '@/services/colony/ColonyTilesService'
-import { TileMap, Tile } from '@/types/tiles'
-import { getTileColor } from '@/utils/tileColorUtils'
+import { addColonyTile as addColonyTileService, fetchChunks, WarmupableFunctions } from '@/services/colony/ColonyTilesService'
+import {
+  moveUnit as moveUnitService,
+  placeUnit as placeUnitService,
+  MoveType,
+  WarmupableUnitFunctions
+} from '@/services/colony/UnitsService'
+import { fetchTechTree } from '@/services/colony/ResearchService'
+import { buildBase as buildBaseService, WarmupableBaseFunctions } from '@/services/colony/BasesService'
+import { buildRelay as buildRelayService, WarmupableRelayFunctions } from '@/services/colony/RelayService'
+import { queueOrder as queueOrderService, WarmupableOrderFunctions } from '@/services/colony/OrdersService'
+import { fetchGalaxyRegion } from '@/services/colony/GalaxyService'
+import { WarmupableProfileFunctions } from '@/services/colony/ProfileService'
+import { fetchAlliance } from '@/services/colony/AllianceService'
+import {
+  fetchBeacons,
+  placeBeacon as placeBeaconService,
+  WarmupableMessagingFunctions
+} from '@/services/colony/MessagingService'
+import { Alliance } from '@/types/alliance'
+import { Beacon } from '@/types/message'
+import { ColonyWebSocketMessage, isInboxMessage, WebSocketMessage } from '@/types/websocket'
+import { TileMap, Tile, ColonyTile } from '@/types/tiles'
+import { ProceduralTile, Wormhole } from '@/types/galaxy'
+import { Ship, Unit, UnitType } from '@/types/units'
+import { getTerrainPreviewColor, getTileColor } from '@/utils/tileColorUtils'
+import { findPath, getMaximumStepCost, getMinimumStepCost, getTerrainCost } from '@/utils/pathfinding'
+import { hexDistance } from '@/utils/gridUtils'
+import { getPlacementError } from '@/utils/placement'
+import { getFtlJumpError, getFtlTraitError } from '@/utils/ftl'
+import { getTileTraitInfo } from '@/utils/tileTraits'
+import { getBaseCandidateTiles, getBaseSiteError, getRelaySiteError } from '@/utils/construction'
+import { getActiveRelays, getRelayJumpError, getRelayNetwork } from '@/utils/relays'
+import { getWormholeAt, getWormholeEdges, isWormholeOpen } from '@/utils/wormholes'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { gameConfig } from '@/config/gameConfig'
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useWarmupFunctions } from '@/hooks/useWarmupFunctions'
 import { useWebSocketSubscription } from '@/hooks/useWebSocketSubscription'
 import { COLONY_WEBSOCKET_URL } from '@/services/websocket'
 import { useHexGridCamera } from '@/hooks/useHexGridCamera'
 import { ColonyCheck } from '@/components/colony/ColonyCheck'
+import { ColonyProfileView } from '@/components/colony/ColonyProfileView'
 import logger from '@/utils/logger';
 
+// Color for visible tiles that nobody has claimed yet
+const VISIBLE_EMPTY_TILE_COLOR = '#888888'
+
 // Inner component that uses the colony context
 function ColonyGridInner() {
-  const { colony, fetchColonyColor, colonyStatus, isLoadingColony, userColorMap } = useColony()
-  const { colonyTiles, addColonyTile, isLoadingTiles } = useColonyTiles()
+  const { colony, fetchColonyColors, colonyStatus, isLoadingColony, userColorMap, updateUnit, refreshColony } = useColony()
+  const { colonyTiles, viewableTiles, addColonyTile, isLoadingTiles } = useColonyTiles()
+
+  // Territory comes from the tiles loaded with the colony's controller on them
+  const territory = useMemo(() => new Set(Object.keys(colonyTiles)), [colonyTiles])
+  const relayOwner = useMemo(
+    () => (colony ? { units: colony.units, tileIds: Array.from(territory) } : null),
+    [colony, territory]
+  )
   const { showToast } = useToast()
   const { user, isAdmin } = useAuth()
+  const router = useRouter()
+  const searchParams = useSearchParams()
   
+  // Beacons near the camera so far, keyed by beacon ID
+  const [knownBeacons, setKnownBeacons] = useState<Record<string, Beacon>>({})
+
+  // Beacons placed while the grid is open arrive with the message they broadcast
+  const handleBeaconMessage = useCallback((message: WebSocketMessage) => {
+    const data = message as ColonyWebSocketMessage
+    if (isInboxMessage(data) && data.payload.beacon) {
+      const beacon = data.payload.beacon
+      setKnownBeacons((prev) => ({ ...prev, [beacon.id]: beacon }))
+    }
+  }, [])
+
   // Setup WebSocket connection with the provided URL
-  const { setServerUrl } = useWebSocketSubscription();
+  const { setServerUrl } = useWebSocketSubscription({ onMessage: handleBeaconMessage });
 
   // Set WebSocket server URL only once when component mounts
   useEffect(() => {
@@ -37,7 +96,17 @@ function ColonyGridInner() {
   }, [COLONY_WEBSOCKET_URL, setServerUrl]);
 
   // Warm up cloud functions
-  useWarmupFunctions([WarmupableFunctions.addColonyTile])
+  useWarmupFunctions([
+    WarmupableFunctions.addColonyTile,
+    WarmupableFunctions.fetchChunks,
+    WarmupableUnitFunctions.moveUnit,
+    WarmupableUnitFunctions.placeUnit,
+    WarmupableBaseFunctions.buildBase,
+    WarmupableRelayFunctions.buildRelay,
+    WarmupableOrderFunctions.queueOrder,
+    WarmupableProfileFunctions.fetchColonyColors,
+    WarmupableMessagingFunctions.placeBeacon
+  ])
 
   const [debugState, setDebugState] = useState({
     wireframe: false,
@@ -48,11 +117,64 @@ function ColonyGridInner() {
   })
 
   // Use the centralized camera logic from the hook
-  const { tileMap: generatedTiles, isFetching, handleCameraMove } = useHexGridCamera({
+  const { tileMap: generatedTiles, isFetching, handleCameraMove, lastFetchCenter } = useHexGridCamera({
     hexSize: debugState.hexSize,
     radius: 20,
+    fetchChunks,
   });
 
+  // Procedural terrain under the fog of war, keyed by tile ID
+  const [terrainPreview, setTerrainPreview] = useState<Record<string, ProceduralTile>>({})
+  // Wormholes found near the camera so far, keyed by wormhole ID
+  const [knownWormholes, setKnownWormholes] = useState<Record<string, Wormhole>>({})
+  const [previewQ, previewR, previewS] = lastFetchCenter
+
+  // Preview the terrain around the camera; it is deterministic, so tiles are never refetched once known
+  useEffect(() => {
+    if (!colony?.id) return
+
+    fetchGalaxyRegion({ q: previewQ, r: previewR, s: previewS }, gameConfig.galaxy.previewRadius)
+      .then(({ tiles, wormholes }) => {
+        setTerrainPreview((prev) => ({
+          ...prev,
+          ...Object.fromEntries(tiles.map((tile) => [tile.id, tile])),
+        }))
+        setKnownWormholes((prev) => ({
+          ...prev,
+          ...Object.fromEntries(wormholes.map((wormhole) => [wormhole.id, wormhole])),
+        }))
+      })
+      .catch((error) => logger.error('Error loading terrain preview:', error))
+  }, [colony?.id, previewQ, previewR, previewS])
+
+  // Load the active beacons around the camera
+  useEffect(() => {
+    if (!colony?.id) return
+
+    fetchBeacons(previewQ, previewR, previewS, gameConfig.beacons.maxFetchRadius)
+      .then((beacons) => {
+        setKnownBeacons((prev) => ({
+          ...prev,
+          ...Object.fromEntries(beacons.map((beacon) => [beacon.id, beacon])),
+        }))
+      })
+      .catch((error) => logger.error('Error loading beacons:', error))
+  }, [colony?.id, previewQ, previewR, previewS])
+
+  // The colony's alliance, used to tint allied tiles
+  const [alliance, setAlliance] = useState<Alliance | null>(null)
+
+  useEffect(() => {
+    if (!colony?.allianceId) {
+      setAlliance(null)
+      return
+    }
+
+    fetchAlliance()
+      .then((response) => setAlliance(response.alliance))
+      .catch((error) => logger.error('Error loading alliance:', error))
+  }, [colony?.allianceId])
+
   // Add state to store fetched colors
   const [colorCache, setColorCache] = useState<Record<string, string>>({})
 
@@ -66,17 +188,29 @@ function ColonyGridInner() {
     }
   }, [userColorMap]);
 
-  // Calculate world coordinates for the target tile based on colony start coordinates
+  // The leaderboard links to a colony's location with ?focus=q,r,s
+  const focusParam = searchParams.get('focus')
+  const focusCoords = useMemo(() => {
+    const match = focusParam?.match(/^(-?\d+),(-?\d+),(-?\d+)$/)
+    if (!match) return null
+
+    const [q, r, s] = match.slice(1).map(Number)
+    return q + r + s === 0 ? { q, r, s } : null
+  }, [focusParam])
+
+  // Calculate world coordinates for the target tile, the focused tile if there is one
+  // and otherwise the colony's start coordinates
   const worldCoords = useMemo(() => {
-    if (!colony?.startCoordinates) {
+    const target = focusCoords ?? colony?.startCoordinates
+    if (!target) {
       return null;
     }
 
-    const { q, r } = colony.startCoordinates
+    const { q, r } = target
     const worldX = debugState.hexSize * (Math.sqrt(3) * q + (Math.sqrt(3) / 2) * r)
     const worldY = debugState.hexSize * ((3 / 2) * r)
     return { x: worldX, y: worldY }
-  }, [colony?.startCoordinates, debugState.hexSize])
+  }, [focusCoords, colony?.startCoordinates, debugState.hexSize])
 
   // Camera position and target are only calculated if we have colony coordinates
   const cameraProps = useMemo(() => {
@@ -90,40 +224,194 @@ function ColonyGridInner() {
 
   const [error, setError] = useState<string | null>(null)
   const [selectedTile, setSelectedTile] = useState<Tile | null>(null)
+  // Owner of the selected tile whose public profile is being shown
+  const [profileUid, setProfileUid] = useState<string | null>(null)
   const [addingTile, setAddingTile] = useState(false)
+  const [selectedUnitId, setSelectedUnitId] = useState<string | null>(null)
+  const [movingUnit, setMovingUnit] = useState(false)
+  const [hoveredTile, setHoveredTile] = useState<Tile | null>(null)
+  const [placingUnit, setPlacingUnit] = useState(false)
+  const [startingBuild, setStartingBuild] = useState(false)
+  const [placingBeacon, setPlacingBeacon] = useState(false)
+  const [beaconDraft, setBeaconDraft] = useState('')
+  const [moveType, setMoveType] = useState<MoveType>('sublight')
+  // Sublight moves can be queued for the game clock instead of made at once
+  const [queueMode, setQueueMode] = useState(false)
+  const [ftlTier, setFtlTier] = useState(0)
+  const [wormholeTransit, setWormholeTransit] = useState(false)
+
+  // Load the FTL tier and wormhole access the colony has researched so they can be offered
+  useEffect(() => {
+    if (!colony?.id) return
+
+    fetchTechTree()
+      .then((techTree) => {
+        setFtlTier(techTree.effects.ftlTier)
+        setWormholeTransit(!!techTree.effects.wormholeTransit)
+      })
+      .catch((error) => logger.error('Error loading tech effects:', error))
+  }, [colony?.id])
+
+  const wormholes = useMemo(() => Object.values(knownWormholes), [knownWormholes])
+  const beacons = useMemo(
+    () => Object.values(knownBeacons).filter((beacon) => beacon.expiresAt > Date.now()),
+    [knownBeacons]
+  )
+
+  // Deploy mode is entered from the colony page with ?deploy=<unplaced unit index>
+  const deployParam = searchParams.get('deploy')
+  const deployIndex = deployParam !== null && /^\d+$/.test(deployParam) ? Number(deployParam) : null
+  const deployingUnit = deployIndex !== null ? colony?.unplacedUnits?.[deployIndex] ?? null : null
+
+  // Build mode is entered from the colony page with ?build=base or ?build=relay
+  const buildParam = searchParams.get('build')
+  const buildingBase = !deployingUnit && buildParam === 'base'
+  const buildingRelay = !deployingUnit && buildParam === 'relay'
+  const building = buildingBase || buildingRelay
+
+  // Beacon mode is entered from the inbox with ?beacon
+  const beaconMode = !deployingUnit && !building && searchParams.get('beacon') !== null
+
+  const exitDeployMode = useCallback(() => {
+    router.replace('/ColonyGrid')
+  }, [router])
+
+  // Tiles in or next to the colony's territory where a new base can go
+  const baseSiteTiles = useMemo(() => {
+    if (!buildingBase || !colony) return []
+    return getBaseCandidateTiles(territory).filter((coords) => getBaseSiteError(coords, colony, territory) === null)
+  }, [buildingBase, colony, territory])
+
+  // Tiles in the colony's territory where a new relay can go
+  const relaySiteTiles = useMemo(() => {
+    if (!buildingRelay || !colony) return []
+    return Object.values(colonyTiles)
+      .map(({ q, r, s }) => ({ q, r, s }))
+      .filter((coords) => getRelaySiteError(coords, colony, territory) === null)
+  }, [buildingRelay, colony, colonyTiles, territory])
+
+  // Tiles a beacon can go on: anywhere in the colony's territory or holding one of its units
+  const beaconSiteTiles = useMemo(() => {
+    if (!beaconMode || !colony) return []
+    const sites = new Map(Object.values(colonyTiles).map(({ id, q, r, s }) => [id, { q, r, s }]))
+    colony.units.forEach(({ position }) => sites.set(`${position.q}#${position.r}#${position.s}`, position))
+    return Array.from(sites.values())
+  }, [beaconMode, colony, colonyTiles])
+
+  // Lines between linked relays
+  const relayLinks = useMemo(() => (relayOwner ? getRelayNetwork(relayOwner).links : []), [relayOwner])
+
+  // Tiles in the colony's territory where the unit being deployed can go
+  const placementTiles = useMemo(() => {
+    if (!deployingUnit) return []
+    return Object.values(colonyTiles).filter(
+      (tile) => getPlacementError(deployingUnit, tile as ColonyTile, colony?.units ?? []) === null
+    )
+  }, [deployingUnit, colonyTiles, colony?.units])
+
+  // The unit currently picked for a move, if any
+  const selectedUnit = useMemo(
+    () => colony?.units?.find((unit) => unit.id === selectedUnitId) ?? null,
+    [colony?.units, selectedUnitId]
+  )
+
+  // The order the game clock is carrying out for the selected unit, if any
+  const selectedOrder = useMemo(
+    () => colony?.orderQueue?.find((order) => order.unitId === selectedUnitId) ?? null,
+    [colony?.orderQueue, selectedUnitId]
+  )
+
+  // Move types the selected ship can use from where it stands
+  const availableMoveTypes = useMemo((): MoveType[] => {
+    if (!relayOwner || selectedUnit?.type !== UnitType.SHIP) return ['sublight']
+
+    const { q, r, s } = selectedUnit.position
+    const onRelay = getActiveRelays(relayOwner).some(
+      (relay) => relay.position.q === q && relay.position.r === r && relay.position.s === s
+    )
+    return [
+      'sublight',
+      ...(ftlTier > 0 ? ['ftl' as const] : []),
+      ...(onRelay ? ['relayJump' as const] : []),
+    ]
+  }, [relayOwner, selectedUnit, ftlTier])
+
+  // Fall back to sublight when the ship leaves the relay or loses its FTL option
+  useEffect(() => {
+    if (!availableMoveTypes.includes(moveType)) {
+      setMoveType('sublight')
+    }
+  }, [availableMoveTypes, moveType])
+
+  // Find the player's movable units standing on a tile
+  const getMovableUnitsAt = useCallback(
+    (q: number, r: number, s: number): Unit[] =>
+      (colony?.units ?? []).filter(
+        (unit) =>
+          unit.type === UnitType.SHIP &&
+          unit.ownerUid === user?.uid &&
+          unit.position.q === q &&
+          unit.position.r === r &&
+          unit.position.s === s
+      ),
+    [colony?.units, user?.uid]
+  )
 
   // Compute the final tileMap using useMemo based on dependencies
   const tileMap = useMemo(() => {
-    // Start with the auto-generated background tiles
+    // Start with the auto-generated background tiles, which stand in for the fog of war
     const baseMap: TileMap = { ...generatedTiles };
-    
-    // Add or update colony tiles, always recalculating color
-    Object.entries(colonyTiles).forEach(([key, tile]) => {
+
+    // Tint the fog with the terrain that lies beneath it
+    Object.entries(baseMap).forEach(([key, tile]) => {
+      const preview = terrainPreview[key]
+      if (preview) {
+        baseMap[key] = { ...tile, color: getTerrainPreviewColor(preview.type) }
+      }
+    })
+
+    const colorTile = (tile: Tile) => {
       // Get enemy color with validation
       const enemyColor = tile.controllerUid && typeof tile.controllerUid === 'string'
         ? colorCache[tile.controllerUid] || '#FF3333'
         : '#FF3333';
-        
+
+      return getTileColor(tile, user?.uid, {
+        colorScheme: debugState.colorScheme,
+        colonyColor: colony?.color,
+        distance: debugState.viewDistance,
+        enemyColor: enemyColor,
+        alliedUids: alliance?.memberUids,
+        allianceColor: alliance?.color,
+      })
+    }
+
+    // Reveal the tiles the colony can currently see
+    Object.entries(viewableTiles).forEach(([key, tile]) => {
+      baseMap[key] = {
+        ...tile,
+        // Placeholders for empty space have no type to color by
+        color: (tile as ColonyTile).type ? colorTile(tile) : VISIBLE_EMPTY_TILE_COLOR,
+      }
+    })
+
+    // Add or update colony tiles, always recalculating color
+    Object.entries(colonyTiles).forEach(([key, tile]) => {
       baseMap[key] = {
         ...tile,
-        color: getTileColor(tile, user?.uid, {
-          colorScheme: debugState.colorScheme,
-          colonyColor: colony?.color,
-          distance: debugState.viewDistance,
-          enemyColor: enemyColor,
-        }),
+        color: colorTile(tile),
       }
     })
 
     return baseMap
-  }, [generatedTiles, colonyTiles, debugState, colony?.color, user?.uid, colorCache])
+  }, [generatedTiles, terrainPreview, viewableTiles, colonyTiles, debugState, colony?.color, user?.uid, colorCache, alliance])
 
   // Load colors for tiles with controllers
   useEffect(() => {
     const controllerUids = new Set<string>();
     
     // Collect all unique controller UIDs with validation
-    Object.values(colonyTiles).forEach(tile => {
+    Object.values({ ...viewableTiles, ...colonyTiles }).forEach(tile => {
       if (tile.controllerUid && 
           typeof tile.controllerUid === 'string' && 
           !colorCache[tile.controllerUid]) {
@@ -131,27 +419,112 @@ function ColonyGridInner() {
       }
     });
     
-    // Fetch colors for all controllers in parallel
+    // Fetch colors for all controllers in one batched request
     const fetchColors = async () => {
-      const promises = Array.from(controllerUids).map(async uid => {
-        const color = await fetchColonyColor(uid);
-        return { uid, color };
-      });
-      
-      const results = await Promise.all(promises);
-      
-      const newColorCache = { ...colorCache };
-      results.forEach(({ uid, color }) => {
-        newColorCache[uid] = color;
-      });
-      
-      setColorCache(newColorCache);
+      const colors = await fetchColonyColors(Array.from(controllerUids));
+
+      setColorCache(prev => ({
+        ...prev,
+        ...colors
+      }));
     };
     
     if (controllerUids.size > 0) {
       fetchColors();
     }
-  }, [colonyTiles, fetchColonyColor, colorCache]);
+  }, [colonyTiles, viewableTiles, fetchColonyColors, colorCache]);
+
+  // Trait of a tile, from its persisted data or else the procedural terrain preview
+  const getTraitAt = useCallback(
+    (q: number, r: number, s: number): string | null => {
+      const id = `${q}#${r}#${s}`
+      const tile = tileMap[id] as ColonyTile | undefined
+      return tile?.trait ?? terrainPreview[id]?.trait ?? null
+    },
+    [tileMap, terrainPreview]
+  )
+
+  // Every tile on screen that has a trait, for the grid overlay
+  const traitTiles = useMemo(
+    () => Object.values(tileMap).flatMap((tile) => {
+      const trait = getTraitAt(tile.q, tile.r, tile.s)
+      return trait ? [{ q: tile.q, r: tile.r, s: tile.s, trait }] : []
+    }),
+    [tileMap, getTraitAt]
+  )
+
+  // Preview the route and cost from the selected unit to the hovered tile
+  const movePreview = useMemo(() => {
+    if (!selectedUnit || !hoveredTile) return null
+
+    const { position } = selectedUnit
+    if (position.q === hoveredTile.q && position.r === hoveredTile.r && position.s === hoveredTile.s) {
+      return null
+    }
+
+    // Relay jumps only need both ends to be linked relays
+    if (moveType === 'relayJump') {
+      const jumpError = relayOwner ? getRelayJumpError(relayOwner, position, hoveredTile) : 'Colony not loaded'
+      return { path: [{ q: hoveredTile.q, r: hoveredTile.r, s: hoveredTile.s }], cost: 0, reachable: !jumpError, jumpError }
+    }
+
+    // Jumps go straight to the destination, so only the jump rules and cooldown matter
+    if (moveType === 'ftl') {
+      const destinationType = (tileMap[`${hoveredTile.q}#${hoveredTile.r}#${hoveredTile.s}`] as ColonyTile | undefined)?.type
+      const { ftlReadyAt } = selectedUnit as Ship
+      const jumpError = getFtlJumpError(position, hoveredTile, ftlTier)
+        ?? (ftlReadyAt && ftlReadyAt > Date.now() ? 'FTL drive is recharging' : null)
+        ?? (getTerrainCost(destinationType) === null ? 'Ships cannot jump into this tile' : null)
+        ?? getFtlTraitError(
+          getTraitAt(position.q, position.r, position.s),
+          getTraitAt(hoveredTile.q, hoveredTile.r, hoveredTile.s)
+        )
+
+      return { path: [{ q: hoveredTile.q, r: hoveredTile.r, s: hoveredTile.s }], cost: 0, reachable: !jumpError, jumpError }
+    }
+
+    // Unknown tiles count as normal space, matching the server
+    const stepCost = (to: { q: number; r: number; s: number }) => {
+      const tile = tileMap[`${to.q}#${to.r}#${to.s}`] as ColonyTile | undefined
+      return getTerrainCost(tile?.type, getTraitAt(to.q, to.r, to.s))
+    }
+
+    // Bound the search so a blocked destination can't flood the whole map
+    const distance = hexDistance(position.q, position.r, position.s, hoveredTile.q, hoveredTile.r, hoveredTile.s)
+    const route = findPath(position, hoveredTile, stepCost, {
+      maxCost: distance * getMaximumStepCost(),
+      minStepCost: getMinimumStepCost(),
+      extraEdges: wormholeTransit ? getWormholeEdges(wormholes, Date.now()) : [],
+    })
+    if (!route) return null
+
+    // Queued moves are limited by distance rather than cost, since they take as many ticks as they need
+    if (queueMode) {
+      return { ...route, reachable: distance <= gameConfig.gameClock.maxOrderDistance, jumpError: null }
+    }
+
+    // Direct moves have to wait until the unit has recovered from its last one
+    const { moveReadyAt } = selectedUnit
+    const jumpError = moveReadyAt && moveReadyAt > Date.now() ? 'Unit is recovering from its last move' : null
+    return { ...route, reachable: !jumpError && route.cost <= gameConfig.movement.maxMoveCost, jumpError }
+  }, [queueMode, selectedUnit, hoveredTile, tileMap, moveType, ftlTier, getTraitAt, relayOwner, wormholeTransit, wormholes])
+
+  // Only track hovered tiles while a unit is selected to avoid needless re-renders
+  const handleTileHover = useCallback(
+    (tile: Tile | null) => {
+      if (!selectedUnitId) return
+      setHoveredTile((prev) => (prev?.id === tile?.id ? prev : tile))
+    },
+    [selectedUnitId]
+  )
+
+  useEffect(() => {
+    if (!selectedUnitId) {
+      setHoveredTile(null)
+      setMoveType('sublight')
+      setQueueMode(false)
+    }
+  }, [selectedUnitId])
 
   // Handle adding a tile to the colony
   const onAddTile = useCallback(
@@ -162,6 +535,12 @@ function ColonyGridInner() {
 
         const result = await addColonyTileService(q, r, s)
 
+        // Rate limited claims say when the next one will go through
+        if (result.retryAfterMs) {
+          showToast(`Claiming too fast. You can claim another tile in ${Math.ceil(result.retryAfterMs / 1000)}s`, 'info')
+          return
+        }
+
         if (!result || !result.success || !result.tile) {
           logger.error(`Failed to add tile: ${result.message}`)
           showToast(result.message || 'Failed to add tile', 'error')
@@ -185,6 +564,327 @@ function ColonyGridInner() {
     [addColonyTile, showToast]
   )
 
+  // Handle queueing a move for the game clock to carry out over the next ticks
+  const onQueueMove = useCallback(
+    async (unit: Unit, q: number, r: number, s: number) => {
+      try {
+        setMovingUnit(true)
+        logger.info(`Queueing move for unit ${unit.id} to q=${q}, r=${r}, s=${s}`)
+
+        const result = await queueOrderService(unit.id, q, r, s)
+
+        if (!result.success || !result.order) {
+          logger.error(`Failed to queue move: ${result.message}`)
+          showToast(result.message || 'Failed to queue move', 'error')
+          return
+        }
+
+        const startsAt = result.resolvesAt ? new Date(result.resolvesAt).toLocaleTimeString() : 'the next tick'
+        showToast(`${result.message}. First steps at ${startsAt}`, 'success')
+        setSelectedUnitId(null)
+
+        // Refresh so the order queue picks up the new order
+        await refreshColony({ silent: true })
+      } catch (error) {
+        logger.error('Error queueing move:', error)
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred'
+        showToast(errorMessage, 'error')
+      } finally {
+        setMovingUnit(false)
+      }
+    },
+    [showToast, refreshColony]
+  )
+
+  // Handle moving the selected unit to a destination tile
+  const onMoveUnit = useCallback(
+    async (unit: Unit, q: number, r: number, s: number) => {
+      if (queueMode && moveType === 'sublight') {
+        return onQueueMove(unit, q, r, s)
+      }
+
+      try {
+        setMovingUnit(true)
+        logger.info(`Moving unit ${unit.id} to q=${q}, r=${r}, s=${s}`)
+
+        const result = await moveUnitService(unit.id, q, r, s, moveType)
+
+        if (!result.success || !result.unit) {
+          logger.error(`Failed to move unit: ${result.message}`)
+          showToast(result.message || 'Failed to move unit', 'error')
+          return
+        }
+
+        updateUnit(result.unit)
+        setSelectedUnitId(null)
+
+        // A battle may have destroyed or moved units on either side
+        if (result.battle) {
+          const won = result.battle.winnerUid === user?.uid
+          showToast(won ? 'Your fleet won the battle' : 'Your fleet lost the battle', won ? 'success' : 'error')
+          await refreshColony({ silent: true })
+        }
+      } catch (error) {
+        logger.error('Error moving unit:', error)
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred'
+        showToast(errorMessage, 'error')
+      } finally {
+        setMovingUnit(false)
+      }
+    },
+    [showToast, updateUnit, moveType, queueMode, onQueueMove, user?.uid, refreshColony]
+  )
+
+  // Handle deploying the unplaced unit onto a tile
+  const onPlaceUnit = useCallback(
+    async (unplacedIndex: number, q: number, r: number, s: number) => {
+      try {
+        setPlacingUnit(true)
+        logger.info(`Placing unplaced unit ${unplacedIndex} at q=${q}, r=${r}, s=${s}`)
+
+        const result = await placeUnitService(unplacedIndex, q, r, s)
+
+        if (!result.success || !result.unit) {
+          logger.error(`Failed to place unit: ${result.message}`)
+          showToast(result.message || 'Failed to place unit', 'error')
+          return
+        }
+
+        updateUnit(result.unit)
+        showToast(result.message || 'Unit placed', 'success')
+        exitDeployMode()
+
+        // Refresh so the unplaced units list drops the deployed unit
+        await refreshColony({ silent: true })
+      } catch (error) {
+        logger.error('Error placing unit:', error)
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred'
+        showToast(errorMessage, 'error')
+      } finally {
+        setPlacingUnit(false)
+      }
+    },
+    [showToast, updateUnit, exitDeployMode, refreshColony]
+  )
+
+  // Handle starting construction of a new base on a tile
+  const onBuildRelay = useCallback(
+    async (q: number, r: number, s: number) => {
+      try {
+        setStartingBuild(true)
+        logger.info(`Starting relay construction at q=${q}, r=${r}, s=${s}`)
+
+        const result = await buildRelayService(q, r, s)
+
+        if (!result.success) {
+          logger.error(`Failed to build relay: ${result.message}`)
+          showToast(result.message || 'Failed to build relay', 'error')
+          return
+        }
+
+        showToast(result.message || 'Relay construction started', 'success')
+        exitDeployMode()
+
+        // Refresh so the stockpile and construction queue pick up the order
+        await refreshColony({ silent: true })
+      } catch (error) {
+        logger.error('Error building relay:', error)
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred'
+        showToast(errorMessage, 'error')
+      } finally {
+        setStartingBuild(false)
+      }
+    },
+    [showToast, exitDeployMode, refreshColony]
+  )
+
+  const onPlaceBeacon = useCallback(
+    async (q: number, r: number, s: number) => {
+      try {
+        setPlacingBeacon(true)
+        logger.info(`Placing beacon at q=${q}, r=${r}, s=${s}`)
+
+        const result = await placeBeaconService(q, r, s, beaconDraft.trim())
+
+        if (!result.success || !result.beacon) {
+          logger.error(`Failed to place beacon: ${result.message}`)
+          showToast(result.message || 'Failed to place beacon', 'error')
+          return
+        }
+
+        const beacon = result.beacon
+        setKnownBeacons((prev) => ({ ...prev, [beacon.id]: beacon }))
+        setBeaconDraft('')
+        showToast(result.message || 'Beacon placed', 'success')
+        exitDeployMode()
+      } catch (error) {
+        logger.error('Error placing beacon:', error)
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred'
+        showToast(errorMessage, 'error')
+      } finally {
+        setPlacingBeacon(false)
+      }
+    },
+    [beaconDraft, showToast, exitDeployMode]
+  )
+
+  const onBuildBase = useCallback(
+    async (q: number, r: number, s: number) => {
+      try {
+        setStartingBuild(true)
+        logger.info(`Starting base construction at q=${q}, r=${r}, s=${s}`)
+
+        const result = await buildBaseService(q, r, s)
+
+        if (!result.success) {
+          logger.error(`Failed to build base: ${result.message}`)
+          showToast(result.message || 'Failed to build base', 'error')
+          return
+        }
+
+        showToast(result.message || 'Base construction started', 'success')
+        exitDeployMode()
+
+        // Refresh so the stockpile and construction queue pick up the order
+        await refreshColony({ silent: true })
+      } catch (error) {
+        logger.error('Error building base:', error)
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred'
+        showToast(errorMessage, 'error')
+      } finally {
+        setStartingBuild(false)
+      }
+    },
+    [showToast, exitDeployMode, refreshColony]
+  )
+
+  // Route tile clicks to unit placement, construction, beacons, unit selection, unit movement or tile claiming
+  const handleTileClick = useCallback(
+    (q: number, r: number, s: number) => {
+      if (beaconMode) {
+        if (placingBeacon) return
+
+        if (!beaconSiteTiles.some((site) => site.q === q && site.r === r && site.s === s)) {
+          showToast('Beacons can only be placed in your territory or where you have a unit', 'error')
+          return
+        }
+
+        if (!beaconDraft.trim()) {
+          showToast('Write the beacon\'s message first', 'error')
+          return
+        }
+
+        onPlaceBeacon(q, r, s)
+        return
+      }
+
+      if (building && colony) {
+        if (startingBuild) return
+
+        const siteError = buildingRelay
+          ? getRelaySiteError({ q, r, s }, colony, territory)
+          : getBaseSiteError({ q, r, s }, colony, territory)
+        if (siteError) {
+          showToast(siteError, 'error')
+          return
+        }
+
+        if (buildingRelay) {
+          onBuildRelay(q, r, s)
+        } else {
+          onBuildBase(q, r, s)
+        }
+        return
+      }
+
+      if (deployingUnit && deployIndex !== null) {
+        if (placingUnit) return
+
+        const tile = colonyTiles[`${q}#${r}#${s}`] as ColonyTile | undefined
+        const placementError = tile
+          ? getPlacementError(deployingUnit, tile, colony?.units ?? [])
+          : 'Units can only be placed inside your territory'
+
+        if (placementError) {
+          showToast(placementError, 'error')
+          return
+        }
+
+        onPlaceUnit(deployIndex, q, r, s)
+        return
+      }
+
+      const unitsHere = getMovableUnitsAt(q, r, s)
+
+      if (selectedUnit) {
+        const selectedIndex = unitsHere.findIndex((unit) => unit.id === selectedUnit.id)
+        if (selectedIndex === -1) {
+          if (!movingUnit) {
+            onMoveUnit(selectedUnit, q, r, s)
+          }
+          return
+        }
+
+        // Clicking the selected unit's tile cycles through the units there, then deselects
+        const nextUnit = unitsHere[selectedIndex + 1]
+        setSelectedUnitId(nextUnit ? nextUnit.id : null)
+        return
+      }
+
+      if (unitsHere.length > 0) {
+        setSelectedUnitId(unitsHere[0].id)
+        return
+      }
+
+      // Territory comes from units and bases unless manual claiming is switched on
+      if (gameConfig.territory.allowManualClaims) {
+        onAddTile(q, r, s)
+      }
+    },
+    [
+      beaconMode,
+      placingBeacon,
+      beaconSiteTiles,
+      beaconDraft,
+      onPlaceBeacon,
+      building,
+      buildingRelay,
+      colony,
+      territory,
+      startingBuild,
+      onBuildBase,
+      onBuildRelay,
+      deployingUnit,
+      deployIndex,
+      placingUnit,
+      colonyTiles,
+      showToast,
+      onPlaceUnit,
+      getMovableUnitsAt,
+      selectedUnit,
+      movingUnit,
+      onMoveUnit,
+      onAddTile
+    ]
+  )
+
+  // Allow escape to cancel a pending move, deployment, build or beacon
+  useEffect(() => {
+    if (!selectedUnitId && !deployingUnit && !building && !beaconMode) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setSelectedUnitId(null)
+        if (deployingUnit || building || beaconMode) {
+          exitDeployMode()
+        }
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [selectedUnitId, deployingUnit, building, beaconMode, exitDeployMode])
+
   const handleDebugAction = (action: string, value?: any) => {
     switch (action) {
       case 'toggleWireframe':
@@ -221,9 +921,16 @@ function ColonyGridInner() {
 
   const handleTileSelect = (tile: Tile) => {
     logger.info('Setting selected tile:', tile)
+    const otherOwnerUid = tile.controllerUid && tile.controllerUid !== user?.uid ? tile.controllerUid : null
+
     // Only set the selected tile if tile details are enabled
     if (debugState.tileDetailsEnabled) {
+      setProfileUid(null)
+      setSelectedTile(tile)
+    } else if (otherOwnerUid && !selectedUnitId && !building && !deployingUnit && !beaconMode) {
+      // Anyone can look up the colony that owns a tile, as long as they aren't busy giving orders
       setSelectedTile(tile)
+      setProfileUid(otherOwnerUid)
     } else {
       logger.info('Tile details are disabled. Enable in debug menu to see details.')
     }
@@ -231,8 +938,14 @@ function ColonyGridInner() {
 
   const closePanel = () => {
     setSelectedTile(null)
+    setProfileUid(null)
   }
 
+  const selectedTileTrait = selectedTile
+    ? getTileTraitInfo(getTraitAt(selectedTile.q, selectedTile.r, selectedTile.s))
+    : null
+  const selectedTileWormhole = selectedTile ? getWormholeAt(wormholes, selectedTile) : null
+
   return (
     <div className="relative h-full w-full">
       <ColonyCheck />
@@ -247,14 +960,19 @@ function ColonyGridInner() {
 
       {/* Enhanced SlideUpPanel with more tile information - only show if enabled */}
       <SlideUpPanel
-        isOpen={selectedTile !== null && debugState.tileDetailsEnabled}
+        isOpen={selectedTile !== null && (debugState.tileDetailsEnabled || profileUid !== null)}
         onClose={closePanel}
-        title="Tile Information"
+        title={profileUid ? 'Colony Profile' : 'Tile Information'}
         maxWidth="lg"
         showOverlay={false}
         closeOnOutsideClick={false}
       >
-        {selectedTile && (
+        {selectedTile && profileUid ? (
+          <ColonyProfileView
+            uid={profileUid}
+            onBack={debugState.tileDetailsEnabled ? () => setProfileUid(null) : undefined}
+          />
+        ) : selectedTile && (
           <div className="grid grid-cols-2 gap-3">
             <div className="rounded-lg bg-gray-50 p-3 dark:bg-gray-800">
               <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Cube Coordinates</div>
@@ -281,6 +999,43 @@ function ColonyGridInner() {
                 <div className="mt-1 dark:text-gray-200">{Math.round(selectedTile.resourceDensity * 100)}%</div>
               </div>
             )}
+            {selectedTile.controllerUid && selectedTile.controllerUid !== user?.uid && (
+              <div className="col-span-2 flex items-center justify-between rounded-lg bg-gray-50 p-3 dark:bg-gray-800">
+                <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Controlled by another colony</div>
+                <button
+                  onClick={() => setProfileUid(selectedTile.controllerUid)}
+                  className="text-sm text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300"
+                >
+                  View profile
+                </button>
+              </div>
+            )}
+            {selectedTileTrait && (
+              <div className="col-span-2 rounded-lg bg-gray-50 p-3 dark:bg-gray-800">
+                <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Trait</div>
+                <div className="mt-1 flex items-center dark:text-gray-200">
+                  <div className="mr-2 h-4 w-4 rounded" style={{ backgroundColor: selectedTileTrait.color }}></div>
+                  {selectedTileTrait.name}
+                </div>
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">{selectedTileTrait.description}</p>
+              </div>
+            )}
+            {selectedTileWormhole && (
+              <div className="col-span-2 rounded-lg bg-gray-50 p-3 dark:bg-gray-800">
+                <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Wormhole</div>
+                <div className="mt-1 font-mono dark:text-gray-200">
+                  {selectedTileWormhole.isEntrance ? 'Leads to' : 'Exit from'} q: {selectedTileWormhole.destination.q},
+                  r: {selectedTileWormhole.destination.r}, s: {selectedTileWormhole.destination.s}
+                </div>
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                  {selectedTileWormhole.wormhole.oneWay ? 'One-way. ' : ''}
+                  {selectedTileWormhole.wormhole.schedule
+                    ? `Unstable: ${isWormholeOpen(selectedTileWormhole.wormhole, Date.now()) ? 'open' : 'closed'} right now.`
+                    : 'Stable.'}
+                  {!wormholeTransit && ' Research Wormhole Navigation to travel through it.'}
+                </p>
+              </div>
+            )}
           </div>
         )}
       </SlideUpPanel>
@@ -298,6 +1053,127 @@ function ColonyGridInner() {
         </div>
       )}
 
+      {/* Deploy mode banner shown while placing an unplaced unit */}
+      {deployingUnit && (
+        <div className="absolute top-2 left-1/2 z-10 flex -translate-x-1/2 items-center gap-3 rounded-lg bg-white/90 px-4 py-2 text-sm shadow-lg dark:bg-zinc-800/90">
+          <span className="text-gray-700 dark:text-gray-200">
+            {placingUnit
+              ? 'Placing unit...'
+              : placementTiles.length > 0
+                ? `Deploying ${deployingUnit.type.replace(/_/g, ' ')}. Click a highlighted tile.`
+                : `No tiles in your territory can hold a ${deployingUnit.type.replace(/_/g, ' ')}.`}
+          </span>
+          <button
+            onClick={exitDeployMode}
+            disabled={placingUnit}
+            className="rounded bg-gray-200 px-2 py-1 text-gray-700 hover:bg-gray-300 disabled:opacity-50 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Build mode banner shown while choosing a site for a new base or relay */}
+      {building && (
+        <div className="absolute top-2 left-1/2 z-10 flex -translate-x-1/2 items-center gap-3 rounded-lg bg-white/90 px-4 py-2 text-sm shadow-lg dark:bg-zinc-800/90">
+          <span className="text-gray-700 dark:text-gray-200">
+            {startingBuild
+              ? 'Starting construction...'
+              : buildingRelay
+                ? relaySiteTiles.length > 0
+                  ? 'Building a relay. Click a highlighted tile.'
+                  : 'No free tiles in your territory can hold a relay.'
+                : baseSiteTiles.length > 0
+                  ? 'Building a base. Click a highlighted tile.'
+                  : 'No tiles in or next to your territory can hold a new base.'}
+          </span>
+          <button
+            onClick={exitDeployMode}
+            disabled={startingBuild}
+            className="rounded bg-gray-200 px-2 py-1 text-gray-700 hover:bg-gray-300 disabled:opacity-50 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Beacon mode banner shown while choosing where to place a beacon */}
+      {beaconMode && (
+        <div className="absolute top-2 left-1/2 z-10 flex -translate-x-1/2 items-center gap-3 rounded-lg bg-white/90 px-4 py-2 text-sm shadow-lg dark:bg-zinc-800/90">
+          <input
+            type="text"
+            value={beaconDraft}
+            onChange={(e) => setBeaconDraft(e.target.value)}
+            maxLength={gameConfig.messaging.maxMessageLength}
+            placeholder="Beacon message"
+            disabled={placingBeacon}
+            className="w-56 rounded border border-gray-300 bg-white px-2 py-1 text-gray-900 dark:border-zinc-600 dark:bg-zinc-900 dark:text-white"
+          />
+          <span className="text-gray-700 dark:text-gray-200">
+            {placingBeacon
+              ? 'Placing beacon...'
+              : `Click a highlighted tile. Colonies with a unit within ${gameConfig.beacons.range} tiles will hear it.`}
+          </span>
+          <button
+            onClick={exitDeployMode}
+            disabled={placingBeacon}
+            className="rounded bg-gray-200 px-2 py-1 text-gray-700 hover:bg-gray-300 disabled:opacity-50 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Move mode banner shown while a unit is selected */}
+      {!deployingUnit && !building && !beaconMode && selectedUnit && (
+        <div className="absolute top-2 left-1/2 z-10 flex -translate-x-1/2 items-center gap-3 rounded-lg bg-white/90 px-4 py-2 text-sm shadow-lg dark:bg-zinc-800/90">
+          <span className="text-gray-700 dark:text-gray-200">
+            {movingUnit
+              ? 'Moving unit...'
+              : `${selectedUnit.type} at (${selectedUnit.position.q}, ${selectedUnit.position.r}, ${selectedUnit.position.s}) selected. Click a destination tile.`}
+          </span>
+          {!movingUnit && movePreview && (
+            <span className={movePreview.reachable ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-600 dark:text-red-400'}>
+              {moveType !== 'sublight'
+                ? movePreview.jumpError ?? 'Jump in range'
+                : queueMode
+                  ? `About ${Math.max(1, Math.ceil(movePreview.cost / gameConfig.gameClock.actionPointsPerTick))} ticks`
+                  : movePreview.jumpError ?? `Cost ${movePreview.cost}/${gameConfig.movement.maxMoveCost}`}
+            </span>
+          )}
+          {moveType === 'sublight' && selectedUnit.type === UnitType.SHIP && (
+            <button
+              onClick={() => setQueueMode((prev) => !prev)}
+              disabled={movingUnit}
+              className="rounded bg-blue-100 px-2 py-1 text-blue-700 hover:bg-blue-200 disabled:opacity-50 dark:bg-blue-900/40 dark:text-blue-300 dark:hover:bg-blue-800/40"
+            >
+              {queueMode ? `Queued (${gameConfig.gameClock.tickMinutes} min ticks)` : 'Move now'}
+            </button>
+          )}
+          {availableMoveTypes.length > 1 && (
+            <button
+              onClick={() => setMoveType((prev) =>
+                availableMoveTypes[(availableMoveTypes.indexOf(prev) + 1) % availableMoveTypes.length]
+              )}
+              disabled={movingUnit}
+              className="rounded bg-blue-100 px-2 py-1 text-blue-700 hover:bg-blue-200 disabled:opacity-50 dark:bg-blue-900/40 dark:text-blue-300 dark:hover:bg-blue-800/40"
+            >
+              {moveType === 'ftl' ? `FTL jump (tier ${ftlTier})` : moveType === 'relayJump' ? 'Relay jump' : 'Sublight'}
+            </button>
+          )}
+          <button
+            onClick={() => setSelectedUnitId(null)}
+            disabled={movingUnit}
+            className="rounded bg-gray-200 px-2 py-1 text-gray-700 hover:bg-gray-300 disabled:opacity-50 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Cards for anomalies our units just explored */}
+      <AnomalyEventCards />
+
       {/* Only render the Canvas when not loading, no errors, and we have tiles */}
       {Object.keys(tileMap).length > 0 && (
         <GridCanvas
@@ -306,8 +1182,20 @@ function ColonyGridInner() {
           tileMap={tileMap}
           {...cameraProps}
           onTileSelect={handleTileSelect}
-          onTileAdd={onAddTile}
+          onTileAdd={handleTileClick}
+          onTileHover={handleTileHover}
           onCameraStop={handleCameraMove} 
+          units={colony?.units}
+          selectedUnitId={selectedUnitId}
+          highlightedPath={movePreview?.path ?? selectedOrder?.path}
+          highlightedPathReachable={movePreview?.reachable}
+          highlightedTiles={
+            beaconMode ? beaconSiteTiles : buildingRelay ? relaySiteTiles : buildingBase ? baseSiteTiles : placementTiles
+          }
+          relayLinks={relayLinks}
+          traitTiles={traitTiles}
+          wormholes={wormholes}
+          beacons={beacons}
         />
       )}
       
@@ -10,7 +10,9 @@ import {
   updateLocalTileCache,
   fetchAllDrawingTilesFromCache
 } from '@/services/DrawingTilesService';
+import { AddTileResponse } from '@/services/TilesBaseService';
 import { useWebSocketSubscription } from '@/hooks/useWebSocketSubscription';
+import { useCooldown } from '@/hooks/useCooldown';
 import { WebSocketMessage } from '@/types/websocket'
 import { DrawingColorPicker } from '@/components/grid/DrawingColorPicker';
 import { pixelToCube, cubeRound } from '@/utils/gridUtils';
@@ -28,6 +30,8 @@ export function DrawingGridManager() {
   const [previewMode, setPreviewMode] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [cameraPosition, setCameraPosition] = useState<[number, number, number]>([0, 0, 20]);
+  // Painting pauses while the server's rate limit refills
+  const { remainingSeconds: cooldownSeconds, isCoolingDown, startCooldown } = useCooldown();
 
   // Keep track of initialization and preview state
   const hasInitializedRef = useRef(false);
@@ -173,6 +177,20 @@ export function DrawingGridManager() {
     onMessage: handleWebSocketMessage
   });
 
+  // Undo a paint the rate limit refused, and wait out the cooldown before painting again
+  const handleRateLimit = useCallback((tileId: string, previousTile: Tile, result: AddTileResponse) => {
+    if (!result.retryAfterMs) return;
+
+    logger.warn(`[DrawingGridManager] Rate limited, painting again in ${result.retryAfterMs}ms`);
+    startCooldown(result.retryAfterMs);
+
+    setTileMap(prev => ({
+      ...prev,
+      [tileId]: previousTile
+    }));
+    serverTileCache.current[tileId] = previousTile;
+  }, [startCooldown]);
+
   // Handle tile selection for painting
   const handleTileSelect = useCallback((tile: Tile) => {
     // Early return if user is not logged in
@@ -186,8 +204,9 @@ export function DrawingGridManager() {
     
     const tileId = `${tile.q}#${tile.r}#${tile.s}`;
     
-    if (tileMap[tileId]) {
+    if (tileMap[tileId] && !isCoolingDown()) {
       logger.info('[DrawingGridManager] Found tile, updating color to:', currentColorRef.current);
+      const previousTile = tileMap[tileId];
       
       // Create updated tile
       const updatedTile = {
@@ -210,12 +229,12 @@ export function DrawingGridManager() {
         r: tile.r,
         s: tile.s,
         color: currentColorRef.current
-      }).catch(error => {
+      }).then(result => handleRateLimit(tileId, previousTile, result)).catch(error => {
         logger.error('[DrawingGridManager] Failed to update tile on server:', error);
         // TODO: Revert optimistic update on error
       });
     }
-  }, [tileMap, user]);
+  }, [tileMap, user, isCoolingDown, handleRateLimit]);
 
   // Handle tile hover for preview
   const handleTileHover = useCallback((tile: Tile | null) => {
@@ -234,7 +253,9 @@ export function DrawingGridManager() {
       setHoveredTile(tile);
       
       const tileId = `${tile.q}#${tile.r}#${tile.s}`;
-      if (tileMap[tileId]) {
+      // Hovering paints, so it waits out the rate limit too
+      if (tileMap[tileId] && !isCoolingDown()) {
+        const previousTile = tileMap[tileId];
         // Store original color if not already stored
         if (!originalTileColorsRef.current[tileId]) {
           originalTileColorsRef.current[tileId] = tileMap[tileId].color || '#666666';
@@ -262,7 +283,7 @@ export function DrawingGridManager() {
           r: tile.r,
           s: tile.s,
           color: currentColorRef.current
-        }).catch(error => {
+        }).then(result => handleRateLimit(tileId, previousTile, result)).catch(error => {
           logger.error('[DrawingGridManager] Failed to update tile on hover:', error);
           
           // On error, revert to original color
@@ -285,16 +306,17 @@ export function DrawingGridManager() {
       // Note: We no longer revert colors since the tile has been painted
       // The painted color should persist
     }
-  }, [previewMode, tileMap, hoveredTile, user]);
+  }, [previewMode, tileMap, hoveredTile, user, isCoolingDown, handleRateLimit]);
 
   // Handle color change from color picker
   const handleColorChange = useCallback((color: string) => {
     logger.info('[DrawingGridManager] Color changed to:', color);
     currentColorRef.current = color;
     
-    if (selectedTile) {
+    if (selectedTile && !isCoolingDown()) {
       const tileId = `${selectedTile.q}#${selectedTile.r}#${selectedTile.s}`;
       if (tileMap[tileId]) {
+        const previousTile = tileMap[tileId];
         const updatedTile = {
           ...tileMap[tileId],
           color
@@ -313,10 +335,10 @@ export function DrawingGridManager() {
           r: selectedTile.r,
           s: selectedTile.s,
           color
-        });
+        }).then(result => handleRateLimit(tileId, previousTile, result));
       }
     }
-  }, [selectedTile, tileMap]);
+  }, [selectedTile, tileMap, isCoolingDown, handleRateLimit]);
 
   // Toggle preview mode
   const togglePreviewMode = useCallback(() => {
@@ -356,6 +378,12 @@ export function DrawingGridManager() {
           <div className="absolute top-2 right-2 bg-blue-500 text-white p-2 rounded z-10">
             Visible tiles: {Object.keys(tileMap).length} | Camera: ({cameraPosition[0].toFixed(1)}, {cameraPosition[1].toFixed(1)}, {cameraPosition[2].toFixed(1)})
           </div>
+
+          {cooldownSeconds > 0 && (
+            <div className="absolute top-2 left-2 bg-yellow-500 text-black p-2 rounded z-10">
+              Painting too fast. You can paint again in {cooldownSeconds}s
+            </div>
+          )}
           
           {/* Color Picker */}
           <DrawingColorPicker
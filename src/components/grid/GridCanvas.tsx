@@ -5,8 +5,19 @@ import { Canvas, ThreeEvent, useFrame, useThree } from '@react-three/fiber'
 import { OrbitControls } from '@react-three/drei'
 import * as THREE from 'three'
 import {Tile, TileMap} from '@/types/tiles'
+import { Unit } from '@/types/units'
 import { useAuth } from '@/contexts/AuthContext'
 import { CameraTracker } from './CameraTracker'
+import { UnitMarkers } from './UnitMarkers'
+import { PathPreview } from './PathPreview'
+import { TileHighlights } from './TileHighlights'
+import { TileTraitMarkers, TraitTile } from './TileTraitMarkers'
+import { RelayLinks } from './RelayLinks'
+import { RelayLink } from '@/utils/relays'
+import { WormholeMarkers } from './WormholeMarkers'
+import { BeaconMarkers } from './BeaconMarkers'
+import { Wormhole } from '@/types/galaxy'
+import { Beacon } from '@/types/message'
 import { cubeToPixel, pixelToCube, cubeRound } from '@/utils/gridUtils'
 import { getTileColor } from '@/utils/tileColorUtils'
 import logger from '@/utils/logger';
@@ -24,6 +35,15 @@ interface HexGridCanvasProps {
   onTileSelect: (tile: Tile) => void;
   onTileAdd?: (q: number, r: number, s: number) => void;
   onTileHover?: (tile: Tile | null) => void;
+  units?: Unit[];
+  selectedUnitId?: string | null;
+  highlightedPath?: { q: number; r: number; s: number }[];
+  highlightedPathReachable?: boolean;
+  highlightedTiles?: { q: number; r: number; s: number }[];
+  traitTiles?: TraitTile[];
+  relayLinks?: RelayLink[];
+  wormholes?: Wormhole[];
+  beacons?: Beacon[];
 }
 
 // Default camera values as stable references
@@ -419,7 +439,18 @@ export function GridCanvas({
   onTileSelect,
   onTileAdd,
   onTileHover,
+  units,
+  selectedUnitId,
+  highlightedPath,
+  highlightedPathReachable,
+  highlightedTiles,
+  traitTiles,
+  relayLinks,
+  wormholes,
+  beacons,
 }: HexGridCanvasProps) {
+  const { user } = useAuth();
+
   // Internal camera state management
   const [internalCameraPosition, setInternalCameraPosition] = useState<[number, number, number]>(
     cameraPosition || DEFAULT_CAMERA_POSITION
@@ -464,6 +495,36 @@ export function GridCanvas({
         onTileAdd={onTileAdd}
         onTileHover={onTileHover}
       />
+      {traitTiles && traitTiles.length > 0 && (
+        <TileTraitMarkers tiles={traitTiles} hexSize={hexSize} />
+      )}
+      {wormholes && wormholes.length > 0 && (
+        <WormholeMarkers wormholes={wormholes} hexSize={hexSize} />
+      )}
+      {beacons && beacons.length > 0 && (
+        <BeaconMarkers beacons={beacons} hexSize={hexSize} />
+      )}
+      {relayLinks && relayLinks.length > 0 && (
+        <RelayLinks links={relayLinks} hexSize={hexSize} />
+      )}
+      {highlightedTiles && highlightedTiles.length > 0 && (
+        <TileHighlights tiles={highlightedTiles} hexSize={hexSize} />
+      )}
+      {highlightedPath && highlightedPath.length > 0 && (
+        <PathPreview
+          path={highlightedPath}
+          hexSize={hexSize}
+          reachable={highlightedPathReachable}
+        />
+      )}
+      {units && units.length > 0 && (
+        <UnitMarkers
+          units={units}
+          hexSize={hexSize}
+          selectedUnitId={selectedUnitId}
+          currentUserUid={user?.uid}
+        />
+      )}
     </Canvas>
   )
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { cubeToPixel } from '@/utils/gridUtils'
+
+interface PathPreviewProps {
+  path: { q: number; r: number; s: number }[];
+  hexSize: number;
+  reachable?: boolean;
+}
+
+const REACHABLE_COLOR = '#facc15'
+const UNREACHABLE_COLOR = '#ef4444'
+
+/**
+ * Highlights the hexes a unit would step through on its way to the hovered tile.
+ */
+export function PathPreview({ path, hexSize, reachable = true }: PathPreviewProps) {
+  const positions = useMemo(
+    () => path.map((coords) => {
+      const [x, y] = cubeToPixel(coords.q, coords.r, coords.s, hexSize)
+      return [x, y, 0.02] as [number, number, number]
+    }),
+    [path, hexSize]
+  )
+
+  const color = reachable ? REACHABLE_COLOR : UNREACHABLE_COLOR
+
+  return (
+    <>
+      {positions.map((position, index) => (
+        <mesh key={`${path[index].q}#${path[index].r}#${path[index].s}`} position={position} renderOrder={1}>
+          <circleGeometry args={[hexSize * 0.2, 16]} />
+          <meshBasicMaterial color={color} transparent opacity={0.8} />
+        </mesh>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,38 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { Line } from '@react-three/drei'
+import { cubeToPixel } from '@/utils/gridUtils'
+import { RelayLink } from '@/utils/relays'
+
+interface RelayLinksProps {
+  links: RelayLink[];
+  hexSize: number;
+}
+
+const RELAY_LINK_COLOR = '#22d3ee'
+
+/**
+ * Draws a line between every pair of linked relays.
+ */
+export function RelayLinks({ links, hexSize }: RelayLinksProps) {
+  const lines = useMemo(
+    () => links.map((link) => {
+      const [fromX, fromY] = cubeToPixel(link.from.q, link.from.r, link.from.s, hexSize)
+      const [toX, toY] = cubeToPixel(link.to.q, link.to.r, link.to.s, hexSize)
+      return {
+        key: `${link.fromId}-${link.toId}`,
+        points: [[fromX, fromY, 0.04], [toX, toY, 0.04]] as [number, number, number][],
+      }
+    }),
+    [links, hexSize]
+  )
+
+  return (
+    <>
+      {lines.map(({ key, points }) => (
+        <Line key={key} points={points} color={RELAY_LINK_COLOR} lineWidth={2} dashed dashSize={0.4} gapSize={0.2} transparent opacity={0.8} />
+      ))}
+    </>
+  )
+}
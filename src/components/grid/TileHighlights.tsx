@@ -0,0 +1,40 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { cubeToPixel } from '@/utils/gridUtils'
+
+interface TileHighlightsProps {
+  tiles: { q: number; r: number; s: number }[];
+  hexSize: number;
+  color?: string;
+}
+
+const DEFAULT_HIGHLIGHT_COLOR = '#34d399'
+
+/**
+ * Outlines a set of tiles, e.g. the valid targets while deploying a unit.
+ */
+export function TileHighlights({ tiles, hexSize, color = DEFAULT_HIGHLIGHT_COLOR }: TileHighlightsProps) {
+  const positions = useMemo(
+    () => tiles.map((coords) => {
+      const [x, y] = cubeToPixel(coords.q, coords.r, coords.s, hexSize)
+      return {
+        key: `${coords.q}#${coords.r}#${coords.s}`,
+        position: [x, y, 0.03] as [number, number, number],
+      }
+    }),
+    [tiles, hexSize]
+  )
+
+  return (
+    <>
+      {positions.map(({ key, position }) => (
+        <mesh key={key} position={position} renderOrder={1}>
+          {/* Six segments starting at 30 degrees matches the pointy-top hex outline */}
+          <ringGeometry args={[hexSize * 0.75, hexSize * 0.9, 6, 1, Math.PI / 6]} />
+          <meshBasicMaterial color={color} transparent opacity={0.9} />
+        </mesh>
+      ))}
+    </>
+  )
+}
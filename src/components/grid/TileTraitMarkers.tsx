@@ -0,0 +1,81 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { cubeToPixel } from '@/utils/gridUtils'
+import { getTileTraitInfo } from '@/utils/tileTraits'
+
+export interface TraitTile {
+  q: number;
+  r: number;
+  s: number;
+  trait: string;
+}
+
+interface TileTraitMarkersProps {
+  tiles: TraitTile[];
+  hexSize: number;
+}
+
+/**
+ * Overlays tile traits on the grid.
+ * Nebulae and voids tint the whole tile since they form regions; gravity wells and
+ * anomalies are rare points, so they get a small icon instead.
+ */
+export function TileTraitMarkers({ tiles, hexSize }: TileTraitMarkersProps) {
+  const markers = useMemo(
+    () => tiles
+      .map((tile) => {
+        const info = getTileTraitInfo(tile.trait)
+        if (!info) return null
+
+        const [x, y] = cubeToPixel(tile.q, tile.r, tile.s, hexSize)
+        return {
+          key: `${tile.q}#${tile.r}#${tile.s}`,
+          trait: tile.trait,
+          color: info.color,
+          position: [x, y, 0.02] as [number, number, number],
+        }
+      })
+      .filter((marker): marker is NonNullable<typeof marker> => marker !== null),
+    [tiles, hexSize]
+  )
+
+  return (
+    <>
+      {markers.map(({ key, trait, color, position }) => {
+        switch (trait) {
+          case 'nebula':
+          case 'void':
+            return (
+              <mesh key={key} position={position} renderOrder={1}>
+                {/* Six segments starting at 30 degrees matches the pointy-top hex outline */}
+                <circleGeometry args={[hexSize * 0.9, 6, Math.PI / 6]} />
+                <meshBasicMaterial color={color} transparent opacity={trait === 'void' ? 0.6 : 0.35} />
+              </mesh>
+            )
+          case 'gravity_well':
+            return (
+              <group key={key} position={position}>
+                <mesh renderOrder={1}>
+                  <ringGeometry args={[hexSize * 0.45, hexSize * 0.55, 32]} />
+                  <meshBasicMaterial color={color} transparent opacity={0.8} />
+                </mesh>
+                <mesh renderOrder={1}>
+                  <ringGeometry args={[hexSize * 0.2, hexSize * 0.28, 32]} />
+                  <meshBasicMaterial color={color} transparent opacity={0.8} />
+                </mesh>
+              </group>
+            )
+          default:
+            return (
+              <mesh key={key} position={position} renderOrder={1}>
+                {/* A four-sided circle is a diamond */}
+                <circleGeometry args={[hexSize * 0.3, 4]} />
+                <meshBasicMaterial color={color} transparent opacity={0.9} />
+              </mesh>
+            )
+        }
+      })}
+    </>
+  )
+}
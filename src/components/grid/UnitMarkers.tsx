@@ -0,0 +1,79 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { Unit, UnitType } from '@/types/units'
+import { cubeToPixel } from '@/utils/gridUtils'
+
+interface UnitMarkersProps {
+  units: Unit[];
+  hexSize: number;
+  selectedUnitId?: string | null;
+  currentUserUid?: string;
+}
+
+// Number of polygon sides used to draw each unit type
+const UNIT_MARKER_SIDES: Record<UnitType, number> = {
+  [UnitType.SHIP]: 3,
+  [UnitType.BASE]: 4,
+  [UnitType.MINING_SITE]: 6,
+  [UnitType.RESEARCH_SITE]: 32,
+  [UnitType.RELAY]: 5,
+}
+
+const OWN_UNIT_COLOR = '#ffffff'
+const ENEMY_UNIT_COLOR = '#ff3333'
+const SELECTED_RING_COLOR = '#facc15'
+
+/**
+ * Draws a small marker on top of every tile that holds a unit.
+ * Units sharing a tile are fanned out around the tile center so they stay clickable.
+ */
+export function UnitMarkers({ units, hexSize, selectedUnitId, currentUserUid }: UnitMarkersProps) {
+  const markers = useMemo(() => {
+    // Group units by the tile they are on
+    const unitsByTile = units.reduce<Record<string, Unit[]>>((acc, unit) => {
+      const key = `${unit.position.q}#${unit.position.r}#${unit.position.s}`
+      acc[key] = acc[key] ? [...acc[key], unit] : [unit]
+      return acc
+    }, {})
+
+    return Object.values(unitsByTile).flatMap((tileUnits) =>
+      tileUnits.map((unit, index) => {
+        const [x, y] = cubeToPixel(unit.position.q, unit.position.r, unit.position.s, hexSize)
+        // Spread multiple units around the tile center
+        const angle = (2 * Math.PI * index) / tileUnits.length
+        const offset = tileUnits.length > 1 ? hexSize * 0.4 : 0
+
+        return {
+          unit,
+          position: [x + Math.cos(angle) * offset, y + Math.sin(angle) * offset, 0.05] as [number, number, number],
+        }
+      })
+    )
+  }, [units, hexSize])
+
+  const markerRadius = hexSize * 0.3
+
+  return (
+    <>
+      {markers.map(({ unit, position }) => (
+        <group key={unit.id} position={position}>
+          <mesh renderOrder={2}>
+            <circleGeometry args={[markerRadius, UNIT_MARKER_SIDES[unit.type] ?? 32]} />
+            <meshBasicMaterial
+              color={unit.ownerUid === currentUserUid ? OWN_UNIT_COLOR : ENEMY_UNIT_COLOR}
+              transparent
+              opacity={0.9}
+            />
+          </mesh>
+          {unit.id === selectedUnitId && (
+            <mesh renderOrder={3}>
+              <ringGeometry args={[markerRadius * 1.3, markerRadius * 1.6, 32]} />
+              <meshBasicMaterial color={SELECTED_RING_COLOR} />
+            </mesh>
+          )}
+        </group>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import React, { useMemo, useRef, useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Html, Line } from '@react-three/drei'
+import * as THREE from 'three'
+import { Wormhole } from '@/types/galaxy'
+import { cubeToPixel } from '@/utils/gridUtils'
+import { isWormholeOpen } from '@/utils/wormholes'
+
+interface WormholeMarkersProps {
+  wormholes: Wormhole[];
+  hexSize: number;
+}
+
+const OPEN_COLOR = '#c084fc'
+const CLOSED_COLOR = '#6b7280'
+
+interface EndpointMarker {
+  key: string;
+  wormhole: Wormhole;
+  position: [number, number, number];
+  destination: [number, number, number];
+  destinationLabel: string;
+  isEntrance: boolean;
+}
+
+/**
+ * A slowly spinning swirl on a wormhole endpoint.
+ * Open wormholes pulse; closed ones are drawn grey and still.
+ */
+function WormholeSwirl({ hexSize, open }: { hexSize: number; open: boolean }) {
+  const groupRef = useRef<THREE.Group>(null)
+
+  useFrame((state, delta) => {
+    if (!groupRef.current || !open) return
+    groupRef.current.rotation.z -= delta * 1.5
+    groupRef.current.scale.setScalar(1 + Math.sin(state.clock.elapsedTime * 3) * 0.08)
+  })
+
+  const color = open ? OPEN_COLOR : CLOSED_COLOR
+
+  return (
+    <group ref={groupRef}>
+      {/* Two offset arcs read as a swirl once they spin */}
+      <mesh renderOrder={2}>
+        <ringGeometry args={[hexSize * 0.35, hexSize * 0.5, 32, 1, 0, Math.PI * 1.2]} />
+        <meshBasicMaterial color={color} transparent opacity={0.9} side={THREE.DoubleSide} />
+      </mesh>
+      <mesh renderOrder={2} rotation={[0, 0, Math.PI]}>
+        <ringGeometry args={[hexSize * 0.15, hexSize * 0.28, 32, 1, 0, Math.PI * 1.2]} />
+        <meshBasicMaterial color={color} transparent opacity={0.9} side={THREE.DoubleSide} />
+      </mesh>
+    </group>
+  )
+}
+
+/**
+ * Draws every known wormhole endpoint. Hovering an endpoint shows a line to
+ * the tile it leads to, along with whether it is one-way or currently closed.
+ */
+export function WormholeMarkers({ wormholes, hexSize }: WormholeMarkersProps) {
+  const [hoveredKey, setHoveredKey] = useState<string | null>(null)
+  const now = Date.now()
+
+  const markers = useMemo(
+    () => wormholes.flatMap((wormhole) => wormhole.endpoints.map((endpoint, index): EndpointMarker => {
+      const other = wormhole.endpoints[1 - index]
+      const [x, y] = cubeToPixel(endpoint.q, endpoint.r, endpoint.s, hexSize)
+      const [toX, toY] = cubeToPixel(other.q, other.r, other.s, hexSize)
+      return {
+        key: `${wormhole.id}-${index}`,
+        wormhole,
+        position: [x, y, 0.05],
+        destination: [toX, toY, 0.05],
+        destinationLabel: `(${other.q}, ${other.r}, ${other.s})`,
+        isEntrance: index === 0 || !wormhole.oneWay,
+      }
+    })),
+    [wormholes, hexSize]
+  )
+
+  const hovered = markers.find((marker) => marker.key === hoveredKey)
+
+  return (
+    <>
+      {markers.map((marker) => (
+        <group
+          key={marker.key}
+          position={marker.position}
+          onPointerOver={() => setHoveredKey(marker.key)}
+          onPointerOut={() => setHoveredKey((prev) => (prev === marker.key ? null : prev))}
+        >
+          <WormholeSwirl hexSize={hexSize} open={isWormholeOpen(marker.wormhole, now)} />
+        </group>
+      ))}
+      {hovered && (
+        <>
+          <Line
+            points={[hovered.position, hovered.destination]}
+            color={isWormholeOpen(hovered.wormhole, now) ? OPEN_COLOR : CLOSED_COLOR}
+            lineWidth={2}
+            dashed
+            dashSize={0.3}
+            gapSize={0.3}
+          />
+          <mesh position={hovered.destination} renderOrder={2}>
+            <ringGeometry args={[hexSize * 0.55, hexSize * 0.7, 6, 1, Math.PI / 6]} />
+            <meshBasicMaterial color={OPEN_COLOR} transparent opacity={0.7} />
+          </mesh>
+          <Html position={hovered.position} center style={{ pointerEvents: 'none' }}>
+            <div className="-translate-y-8 whitespace-nowrap rounded bg-zinc-900/90 px-2 py-1 text-xs text-purple-200">
+              {hovered.isEntrance ? `Leads to ${hovered.destinationLabel}` : `Exit from ${hovered.destinationLabel}`}
+              {hovered.wormhole.oneWay && ' · one-way'}
+              {!isWormholeOpen(hovered.wormhole, now) && ' · closed'}
+            </div>
+          </Html>
+        </>
+      )}
+    </>
+  )
+}
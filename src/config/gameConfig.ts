@@ -0,0 +1,78 @@
+import { baseRules, chunkRules, movementRules } from '@shared/gameRules'
+
+/**
+ * Client copy of the game rules needed for previews.
+ * Keep in sync with gameConfig in functions/src/config.ts - the server is authoritative.
+ * Movement costs, base tiers and chunk sizes come from shared/gameRules.ts, which the server uses too.
+ */
+export const gameConfig = {
+  // Unit movement settings
+  movement: movementRules,
+
+  // Base construction settings
+  bases: baseRules,
+
+  // Game clock settings
+  gameClock: {
+    tickMinutes: 5,          // Real-time length of one tick
+    actionPointsPerTick: 2,  // Movement cost a unit with a queued order can spend each tick
+    maxOrderDistance: 10,    // Furthest tile a move can be queued to
+  },
+
+  // Relay station settings
+  relays: {
+    range: 8,  // Furthest two relays can be apart and still link
+    cost: { metal: 300 } as Record<string, number>,
+    buildMinutes: 45,
+  },
+
+  // FTL jump settings, unlocked through research
+  ftl: {
+    jumpRange: 2,         // Range of tier 1 (straight line) and tier 2 (any direction) jumps
+    sectorRadius: 6,      // Range of tier 3 teleports
+
+    // Traits that stop ships jumping out of a tile, and into one
+    blockedOriginTraits: ['void'],
+    blockedDestinationTraits: ['void', 'gravity_well'],
+  },
+
+  // Site placement settings
+  sites: {
+    minMiningResourceDensity: 0.3,  // Mining sites need at least this much resource density
+  },
+
+  // Resource economy settings
+  economy: {
+    tickIntervalMinutes: 15,  // How often mining sites extract resources
+  },
+
+  // Procedural galaxy settings
+  galaxy: {
+    previewRadius: 20,  // Radius of fog of war terrain previews; must not exceed the server's maxRegionRadius
+  },
+
+  // Chunked tile storage settings
+  chunks: chunkRules,
+
+  // In-game messaging settings
+  messaging: {
+    maxMessageLength: 500,
+  },
+
+  // Deep-space beacon settings
+  beacons: {
+    range: 12,             // Colonies with a unit this close to a beacon hear it
+    maxFetchRadius: 40,    // Largest area the server searches for beacons around a point
+  },
+
+  // Public colony profile settings
+  profiles: {
+    maxColorBatch: 30,  // Most colony colors the server returns in one call
+  },
+
+  // Territory settings
+  territory: {
+    // Territory is derived from units and bases; manual claiming is a legacy mode
+    allowManualClaims: false,
+  },
+};
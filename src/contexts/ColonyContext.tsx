@@ -1,13 +1,27 @@
 'use client'
 
 import { createColony, fetchUserColony } from '@/services/colony/colony'
+import { fetchColonyColors as fetchColonyColorsService } from '@/services/colony/ProfileService'
 import { Colony } from '@/types/colony'
-import React, { createContext, ReactNode, useContext, useEffect, useState } from 'react'
+import { Unit } from '@/types/units'
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react'
 import { useAuth } from './AuthContext'
-import { isColonyMessage, ColonyWebSocketMessage, WebSocketMessage } from '@/types/websocket'
+import {
+  isBattleMessage,
+  isBuildingMessage,
+  isColonyMessage,
+  isEventMessage,
+  isUnitMessage,
+  isTickMessage,
+  ColonyWebSocketMessage,
+  WebSocketMessage
+} from '@/types/websocket'
 import { useWebSocketSubscription } from '@/hooks/useWebSocketSubscription'
 import logger from '@/utils/logger';
 
+// Color shown for colonies whose color can't be loaded
+const DEFAULT_COLONY_COLOR = '#FF3333'
+
 // Define colony status enum for better state management
 export enum ColonyStatus {
   LOADING = 'loading',
@@ -24,7 +38,8 @@ interface ColonyContextType {
   createNewColony: (name: string, color?: string) => Promise<Colony>
   refreshColony: (options?: { silent?: boolean }) => Promise<void>
   setColony: React.Dispatch<React.SetStateAction<Colony | null>>
-  fetchColonyColor: (userId: string) => Promise<string>
+  updateUnit: (unit: Unit) => void
+  fetchColonyColors: (userIds: string[]) => Promise<Record<string, string>>
   userColorMap: Record<string, string>
   error: string | null
 }
@@ -41,6 +56,20 @@ export function ColonyProvider({ children }: { children: ReactNode }) {
   // Add a cache for user colors to avoid repeated fetches
   const [userColorMap, setUserColorMap] = useState<Record<string, string>>({})
 
+  // Replace or add a single unit in the colony without refetching the whole colony
+  const updateUnit = useCallback((unit: Unit) => {
+    setColony((prev) => {
+      if (!prev) return prev
+      const exists = prev.units.some((existing) => existing.id === unit.id)
+      return {
+        ...prev,
+        units: exists
+          ? prev.units.map((existing) => (existing.id === unit.id ? unit : existing))
+          : [...prev.units, unit],
+      }
+    })
+  }, [])
+
   // Subscribe to WebSocket messages for colony updates
   useWebSocketSubscription({
     onMessage: async (message: WebSocketMessage) => {
@@ -49,6 +78,85 @@ export function ColonyProvider({ children }: { children: ReactNode }) {
       if (isColonyMessage(data) && colony && data.payload.id === colony.id) {
         logger.debug(`WebSocket: Received colony update`, data.payload)
       }
+
+      // Handle moves and placements of our own units (e.g. made from another device)
+      if (isUnitMessage(data) && colony && data.colonyId === colony.id) {
+        logger.debug(`WebSocket: Received unit update`, data.payload)
+        const { from, path, ...unit } = data.payload
+        updateUnit(unit as Unit)
+      }
+
+      // Handle battles our ships fought in: drop destroyed ships and move retreating ones
+      if (isBattleMessage(data) && colony && data.payload.participantUids.includes(colony.uid)) {
+        logger.debug(`WebSocket: Received battle report`, data.payload)
+        const resultsById = new Map(data.payload.results.map((result) => [result.unitId, result]))
+        setColony((prev) => prev && {
+          ...prev,
+          units: prev.units.flatMap((unit) => {
+            const result = resultsById.get(unit.id)
+            if (!result || result.outcome === 'survived') return [unit]
+            if (result.outcome === 'destroyed') return []
+            return [{ ...unit, position: result.retreatedTo ?? unit.position }]
+          }),
+        })
+      }
+
+      // Handle anomalies our units explored: add any found resources and ships, apply any damage
+      if (isEventMessage(data) && colony && data.colonyId === colony.id) {
+        logger.debug(`WebSocket: Received anomaly event`, data.payload)
+        const { resources, unitsGained, damagedUnitId, levelsLost, unitDestroyed } = data.payload.outcome
+        setColony((prev) => prev && {
+          ...prev,
+          stockpile: Object.entries(resources).reduce(
+            (stockpile, [resourceType, amount]) => ({ ...stockpile, [resourceType]: (stockpile[resourceType] ?? 0) + amount }),
+            prev.stockpile
+          ),
+          units: [
+            ...prev.units.flatMap((unit) => {
+              if (unit.id !== damagedUnitId) return [unit]
+              return unitDestroyed ? [] : [{ ...unit, level: unit.level - levelsLost }]
+            }),
+            ...unitsGained.filter((gained) => !prev.units.some((unit) => unit.id === gained.id)),
+          ],
+        })
+      }
+
+      // Handle queued orders the game clock moved our units along
+      if (isTickMessage(data) && colony && 'orders' in data.payload) {
+        const ownOrders = data.payload.orders.filter((order) => order.colonyId === colony.id)
+        if (ownOrders.length > 0) {
+          logger.debug(`WebSocket: Received tick ${data.payload.tick}`, ownOrders)
+          const ordersById = new Map(ownOrders.map((order) => [order.orderId, order]))
+          const positions = new Map(ownOrders
+            .filter((order) => order.path.length > 0)
+            .map((order) => [order.unitId, order.path[order.path.length - 1]]))
+
+          setColony((prev) => prev && {
+            ...prev,
+            units: prev.units.map((unit) => {
+              const position = positions.get(unit.id)
+              return position ? { ...unit, position } : unit
+            }),
+            orderQueue: (prev.orderQueue ?? []).flatMap((queued) => {
+              const resolved = ordersById.get(queued.id)
+              if (!resolved) return [queued]
+              if (resolved.arrived || resolved.cancelled) return []
+              return [{ ...queued, path: queued.path.slice(resolved.path.length) }]
+            }),
+          })
+        }
+      }
+
+      // Handle finished base construction: add the base and drop the order from the queue
+      if (isBuildingMessage(data) && colony && data.colonyId === colony.id) {
+        logger.debug(`WebSocket: Received construction update`, data.payload)
+        const { order, unit } = data.payload
+        updateUnit(unit)
+        setColony((prev) => prev && {
+          ...prev,
+          constructionQueue: prev.constructionQueue.filter((queued) => queued.id !== order.id),
+        })
+      }
       
       // Handle enemy colony information in the message
       if (isColonyMessage(data) && data.payload.uid && 
@@ -66,23 +174,8 @@ export function ColonyProvider({ children }: { children: ReactNode }) {
               [enemyUid]: data.payload.color as string
             }));
           } else {
-            // Otherwise fetch the colony to get its color, with validation
-            try {
-              // Skip fetch if uid is invalid
-              if (!enemyUid || typeof enemyUid !== 'string') {
-                return;
-              }
-              
-              const enemyColony = await fetchUserColony(enemyUid);
-              if (typeof enemyColony?.color === 'string') {
-                setUserColorMap(prev => ({
-                  ...prev,
-                  [enemyUid]: enemyColony.color as string
-                }));
-              }
-            } catch (error) {
-              logger.error(`Error fetching enemy colony (${enemyUid}) color:`, error);
-            }
+            // Otherwise fetch just the color, which also caches it
+            await fetchColonyColors([enemyUid]);
           }
         }
       }
@@ -213,44 +306,34 @@ export function ColonyProvider({ children }: { children: ReactNode }) {
     }
   }
 
-  const fetchColonyColor = async (userId: string): Promise<string> => {
-    // Validate userId to prevent FirebaseError permission-denied
-    if (!userId || typeof userId !== 'string') {
-      logger.info(`Invalid userId: ${userId}, returning default color`);
-      return '#FF3333'; // Default red for invalid user
-    }
+  const fetchColonyColors = async (userIds: string[]): Promise<Record<string, string>> => {
+    // Skip invalid IDs, and only fetch the colors we don't have cached yet
+    const validIds = userIds.filter(userId => userId && typeof userId === 'string');
+    const missingIds = validIds.filter(userId => !userColorMap[userId]);
 
-    // Check if we already have this color in our cache
-    if (userColorMap[userId]) {
-      return userColorMap[userId];
-    }
+    const fetched: Record<string, string> = {};
 
-    try {
-      // Use a try-catch with a timeout to prevent hanging on permission issues
-      const fetchPromise = fetchUserColony(userId).then(it => it?.color || null);
-      
-      // Add timeout to prevent long-running requests
-      const timeoutPromise = new Promise<null>((resolve) => {
-        setTimeout(() => resolve(null), 5000); // 5 second timeout
-      });
-      
-      // Race the fetch against the timeout
-      const color = await Promise.race([fetchPromise, timeoutPromise]);
-      
-      // Store the color in our cache if valid
-      if (color && typeof color === 'string') {
+    if (missingIds.length > 0) {
+      try {
+        Object.assign(fetched, await fetchColonyColorsService(missingIds));
+
+        // Cache the default for colonies without a color too, so they aren't fetched again
+        missingIds.forEach(userId => {
+          fetched[userId] = fetched[userId] || DEFAULT_COLONY_COLOR;
+        });
         setUserColorMap(prev => ({
           ...prev,
-          [userId]: color
+          ...fetched
         }));
-        return color;
+      } catch (error) {
+        logger.error(`Error fetching colony colors for ${missingIds.length} users:`, error);
       }
-      
-      return '#FF3333';
-    } catch (error) {
-      logger.error(`Error fetching colony color for user ${userId}:`, error);
-      return '#FF3333';
     }
+
+    return Object.fromEntries(validIds.map(userId => [
+      userId,
+      userColorMap[userId] || fetched[userId] || DEFAULT_COLONY_COLOR
+    ]));
   }
 
   const value = {
@@ -260,7 +343,8 @@ export function ColonyProvider({ children }: { children: ReactNode }) {
     createNewColony,
     refreshColony,
     setColony,
-    fetchColonyColor,
+    updateUnit,
+    fetchColonyColors,
     userColorMap,
     error,
   }
@@ -2,11 +2,10 @@
 
 import { useAuth } from '@/contexts/AuthContext'
 import { useColony } from '@/contexts/ColonyContext'
-import { clearAllTileCache, fetchTiles, updateTileCache } from '@/services/colony/ColonyTilesService'
+import { clearAllTileCache, fetchVisibleTiles, updateTileCache } from '@/services/colony/ColonyTilesService'
 import { Tile, TileMap, toTileMap } from '@/types/tiles'
-import { isTileMessage, ColonyWebSocketMessage } from '@/types/websocket'
-import React, { createContext, ReactNode, useCallback, useContext, useEffect, useReducer, useRef, useState } from 'react'
-import { findViewableTiles } from '@/utils/hexUtils'
+import { isEventMessage, isTileMessage, ColonyWebSocketMessage } from '@/types/websocket'
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useReducer, useRef, useState } from 'react'
 import { useWebSocketSubscription } from '@/hooks/useWebSocketSubscription'
 import { Colony } from '@/types/colony'
 import { tileReducer, initialState, TileAction } from '@/reducers/tileReducer'
@@ -25,32 +24,20 @@ interface ColonyTilesContextType {
 
 const ColonyTilesContext = createContext<ColonyTilesContextType | undefined>(undefined)
 
-// Helper function to fetch and merge neighbors
-async function fetchAndMergeNeighbors(
-    tile: Tile,
+// Helper function to reload what the colony can see from the server
+async function refreshVisibleTiles(
     dispatch: React.Dispatch<TileAction>,
-    colonyTiles: TileMap,
-    viewableTiles: TileMap
+    colonyTiles: TileMap
 ) {
   try {
-    // 1) Calculate placeholders for viewable neighbors
-    const tilesMap = toTileMap([tile]);
-    const placeholders = Object.fromEntries(
-        Object.entries(findViewableTiles(tilesMap, 5))
-            .filter(([id]) => !(id in colonyTiles) && !(id in viewableTiles))
-    );
-
-    if (!Object.keys(placeholders).length) return;
-
-    // Update with placeholders
-    dispatch({ type: 'LOAD_VIEWABLE_TILES', payload: { ...viewableTiles, ...placeholders } });
-
-    // 2) Fetch actual data for the placeholders
-    const fetchedNeighbors = await fetchTiles(Object.keys(placeholders));
-    logger.info(`Fetched ${fetchedNeighbors.length} newly viewable tiles`);
-    dispatch({ type: 'MERGE_VIEWABLE_TILES', payload: fetchedNeighbors });
+    const visibleTiles = await fetchVisibleTiles();
+    const viewable = visibleTiles.filter(tile => !(tile.id in colonyTiles));
+
+    logger.info(`Fetched ${viewable.length} visible tiles outside the colony`);
+    // Replace rather than merge so tiles that dropped out of vision are hidden again
+    dispatch({ type: 'LOAD_VIEWABLE_TILES', payload: toTileMap(viewable) });
   } catch (error) {
-    logger.error('Error in fetchAndMergeNeighbors:', error);
+    logger.error('Error in refreshVisibleTiles:', error);
   }
 }
 
@@ -61,37 +48,25 @@ function useColonyTilesReducer(colony: Colony | null | undefined) {
     isDebugShowTiles: true // For development, can be set via configuration
   });
 
+  const uid = colony?.uid;
+
   useEffect(() => {
-    if (!colony?.tileIds?.length) return;
+    if (!uid) return;
 
     let canceled = false;
     (async () => {
       dispatch({ type: 'LOAD_START' });
       try {
-        const tiles = await fetchTiles(colony.tileIds);
+        // Territory gives vision, so every tile the colony controls comes back with what it can see
+        clearAllTileCache();
+        const visibleTiles = await fetchVisibleTiles();
         if (canceled) return;
 
+        const tiles = visibleTiles.filter(tile => tile.controllerUid === uid);
         logger.info(`Loaded ${tiles.length} tiles for the colony`);
         dispatch({ type: 'LOAD_COLONY_TILES', payload: tiles });
+        dispatch({ type: 'LOAD_VIEWABLE_TILES', payload: toTileMap(visibleTiles.filter(tile => tile.controllerUid !== uid)) });
 
-        const initialView = findViewableTiles(toTileMap(tiles), 5);
-        logger.info(`Calculated ${Object.keys(initialView).length} initial viewable tiles.`);
-        dispatch({ type: 'LOAD_VIEWABLE_TILES', payload: initialView });
-
-        // Only proceed if there are viewable tiles to fetch
-        if (Object.keys(initialView).length === 0) {
-          dispatch({ type: 'LOAD_DONE' });
-          return;
-        }
-
-        logger.info(`Starting async fetch for ${Object.keys(initialView).length} viewable tiles...`);
-        clearAllTileCache();
-        const fetchedView = await fetchTiles(Object.keys(initialView));
-        if (canceled) return;
-
-        logger.success(`Async fetch completed for ${fetchedView.length} viewable tiles.`);
-        updateTileCache(fetchedView);
-        dispatch({ type: 'MERGE_VIEWABLE_TILES', payload: fetchedView });
         dispatch({ type: 'LOAD_DONE' });
       } catch (error) {
         logger.error('Error loading colony tiles:', error);
@@ -102,7 +77,7 @@ function useColonyTilesReducer(colony: Colony | null | undefined) {
     })();
 
     return () => { canceled = true };
-  }, [colony?.tileIds]);
+  }, [uid]);
 
   return {
     state,
@@ -111,7 +86,7 @@ function useColonyTilesReducer(colony: Colony | null | undefined) {
 }
 
 export function ColonyTilesProvider({ children }: { children: ReactNode }) {
-  const { colony, fetchColonyColor } = useColony()
+  const { colony, fetchColonyColors } = useColony()
   const { user } = useAuth()
 
   // Use the extracted hook to manage colony tiles with reducer
@@ -128,21 +103,39 @@ export function ColonyTilesProvider({ children }: { children: ReactNode }) {
     stateRef.current = state;
   }, [dispatch, state]);
 
+  // Units reveal the tiles around them, so vision changes whenever one moves
+  const unitPositionsKey = useMemo(
+    () => (colony?.units ?? [])
+      .map(unit => `${unit.id}@${unit.position.q}#${unit.position.r}#${unit.position.s}`)
+      .join('|'),
+    [colony?.units]
+  );
+  const lastUnitPositionsKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!unitPositionsKey) return;
+
+    // The initial load already fetches visibility, so only react to later moves
+    if (lastUnitPositionsKey.current === null) {
+      lastUnitPositionsKey.current = unitPositionsKey;
+      return;
+    }
+    if (lastUnitPositionsKey.current === unitPositionsKey) return;
+
+    lastUnitPositionsKey.current = unitPositionsKey;
+    refreshVisibleTiles(dispatchRef.current, stateRef.current.colonyTiles);
+  }, [unitPositionsKey]);
+
   // Callback to add a colony tile
   const addColonyTile = useCallback(
       (tile: Tile) => {
         // Add to colony tiles
         dispatch({ type: 'ADD_COLONY_TILE', payload: tile });
 
-        // Fetch neighbors using the helper function
-        fetchAndMergeNeighbors(
-            tile,
-            dispatch,
-            colonyTiles,
-            viewableTiles
-        );
+        // The new tile extends the colony's vision
+        refreshVisibleTiles(dispatch, { ...colonyTiles, [tile.id]: tile });
       },
-      [colonyTiles, dispatch, viewableTiles]
+      [colonyTiles, dispatch]
   );
 
   // Callback to remove a colony tile
@@ -151,18 +144,13 @@ export function ColonyTilesProvider({ children }: { children: ReactNode }) {
         // Remove the tile from colonyTiles and add to viewableTiles
         dispatch({ type: 'REMOVE_COLONY_TILE', payload: tile });
 
-        // Fetch neighbors using the helper function
+        // Losing the tile may shrink the colony's vision
         const updatedColonyTiles = { ...colonyTiles };
         delete updatedColonyTiles[tile.id];
 
-        fetchAndMergeNeighbors(
-            tile,
-            dispatch,
-            updatedColonyTiles,
-            viewableTiles
-        );
+        refreshVisibleTiles(dispatch, updatedColonyTiles);
       },
-      [colonyTiles, dispatch, viewableTiles]
+      [colonyTiles, dispatch]
   );
 
   // Create handler context for the message handlers
@@ -180,8 +168,8 @@ export function ColonyTilesProvider({ children }: { children: ReactNode }) {
         dispatchRef.current({ type: 'LOAD_VIEWABLE_TILES', payload: updater });
       }
     },
-    fetchColonyColor
-  }), [user, addColonyTile, removeColonyTile, fetchColonyColor]);
+    fetchColonyColors
+  }), [user, addColonyTile, removeColonyTile, fetchColonyColors]);
 
   // Function to process a batch of tile messages
   const processTileBatch = useCallback((tiles: Tile[]) => {
@@ -238,7 +226,12 @@ export function ColonyTilesProvider({ children }: { children: ReactNode }) {
       // Add the tile to the buffer instead of processing immediately
       bufferTileMessage(tile);
     }
-  }, [bufferTileMessage]);
+
+    // A star chart from an anomaly reveals a patch of the map
+    if (isEventMessage(data) && data.userId === user?.uid && data.payload.outcome.revealedArea) {
+      refreshVisibleTiles(dispatchRef.current, stateRef.current.colonyTiles);
+    }
+  }, [bufferTileMessage, user]);
 
   // Subscribe to WebSocket messages for tile updates
   useWebSocketSubscription({
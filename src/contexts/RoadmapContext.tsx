@@ -10,6 +10,7 @@ import {
   fetchRoadmapItemsByStatus
 } from '@/services/roadmap';
 import logger from '@/utils/logger';
+import type { RoadmapItemRequest } from '@shared/requests';
 
 // Define the roadmap item with an ID
 export interface RoadmapItem extends RoadmapItemProps {
@@ -21,7 +22,7 @@ interface RoadmapContextType {
   roadmapItems: RoadmapItem[];
   isLoading: boolean;
   error: Error | null;
-  addRoadmapItem: (item: Omit<RoadmapItem, 'id'>) => Promise<void>;
+  addRoadmapItem: (item: RoadmapItemRequest) => Promise<void>;
   updateRoadmapItem: (id: string, updates: Partial<RoadmapItemProps>) => Promise<void>;
   deleteRoadmapItem: (id: string) => Promise<void>;
   getRoadmapItemsByStatus: (status: RoadmapItemProps['status']) => RoadmapItem[];
@@ -64,7 +65,7 @@ export function RoadmapProvider({ children }: { children: ReactNode }) {
   }, []);
 
   // Add a roadmap item
-  const addRoadmapItem = async (item: Omit<RoadmapItem, 'id'>) => {
+  const addRoadmapItem = async (item: RoadmapItemRequest) => {
     try {
       setIsLoading(true);
       // Add via cloud function
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Hook to count down a cooldown, such as a rate limit's retry-after hint
+ * Re-renders once a second while the cooldown runs, so the remaining time can be shown
+ * @returns Seconds left (0 when ready), whether it's running, and a function to start it
+ */
+export function useCooldown() {
+  const [readyAt, setReadyAt] = useState(0);
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+  // Read by callbacks that shouldn't re-create on every tick
+  const readyAtRef = useRef(0);
+
+  // Start or extend the cooldown
+  const startCooldown = useCallback((durationMs: number) => {
+    const nextReadyAt = Math.max(readyAtRef.current, Date.now() + durationMs);
+    readyAtRef.current = nextReadyAt;
+    setReadyAt(nextReadyAt);
+  }, []);
+
+  // Check the cooldown without waiting for the next tick
+  const isCoolingDown = useCallback(() => readyAtRef.current > Date.now(), []);
+
+  // Tick once a second until the cooldown is over
+  useEffect(() => {
+    const update = () => setRemainingSeconds(Math.max(0, Math.ceil((readyAt - Date.now()) / 1000)));
+    update();
+    if (readyAt <= Date.now()) return;
+
+    const intervalId = setInterval(() => {
+      update();
+      if (readyAt <= Date.now()) clearInterval(intervalId);
+    }, 1000);
+
+    return () => clearInterval(intervalId);
+  }, [readyAt]);
+
+  return { remainingSeconds, isCoolingDown, startCooldown };
+}
@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { pixelToCube, cubeRound, hexDistance } from '@/utils/gridUtils';
 import { TileMap, Tile } from '@/types/tiles';
+import { getChunkId, getChunkIdsInRadius } from '@/utils/chunks';
 import logger from '@/utils/logger';
 
 // Type for the hook options
@@ -8,7 +9,7 @@ interface UseHexGridCameraOptions {
   hexSize: number;
   radius?: number;
   moveThreshold?: number;
-  fetchTilesByIds?: (tileIds: string[]) => Promise<Tile[]>;
+  fetchChunks?: (chunkIds: string[]) => Promise<Tile[]>;
   onTileUpdate?: (tile: Tile) => void;
 }
 
@@ -103,12 +104,13 @@ interface UseHexGridCameraReturn {
  * - controllerUid (owner)
  * - color (visual appearance)
  * - updatedAt (timestamp)
+ * Persisted tiles are fetched a chunk at a time, and each chunk only once while it stays in view.
  */
 export function useHexGridCamera({
   hexSize,
   radius = 200,
   moveThreshold = 8,
-  fetchTilesByIds,
+  fetchChunks,
   onTileUpdate,
 }: UseHexGridCameraOptions): UseHexGridCameraReturn {
   // Debug ref to track initialization
@@ -155,31 +157,40 @@ export function useHexGridCamera({
   const isFetchingRef = useRef(isFetching);
   const lastFetchCenterRef = useRef(lastFetchCenter);
   const visibleTileIdsRef = useRef<Set<string>>(new Set(Object.keys(initialTileMap)));
+  // Chunks covering the visible area, which have already been fetched, and the tiles they hold
+  const visibleChunkIdsRef = useRef<Set<string>>(new Set());
+  const chunkTilesRef = useRef<Map<string, Tile>>(new Map());
 
   // Store camera position ref to access latest value in debounced function
   const cameraPositionRef = useRef<[number, number, number]>([0, 0, 20]);
 
   // Effect to perform initial tile fetch
   useEffect(() => {
-    if (!fetchTilesByIds || Object.keys(initialTileMap).length === 0) return;
+    if (!fetchChunks || Object.keys(initialTileMap).length === 0) return;
 
     const fetchInitialTiles = async () => {
       setIsFetching(true);
       try {
-        // Generate initial set of tile IDs around origin
+        // Generate initial set of tile IDs around origin, and the chunks that hold them
         const initialTileIds = generateTileIdsInRadius(0, 0, radius);
+        const initialChunkIds = getChunkIdsInRadius(0, 0, radius);
         visibleTileIdsRef.current = initialTileIds;
+        visibleChunkIdsRef.current = new Set(initialChunkIds);
 
-        // Fetch initial tiles
-        const initialTiles = await fetchTilesByIds(Array.from(initialTileIds));
+        // Fetch initial tiles a chunk at a time
+        const initialTiles = await fetchChunks(initialChunkIds);
+        chunkTilesRef.current = new Map(initialTiles.map(tile => [tile.id, tile]));
         
-        // Update tile map with fetched tiles
-        setTileMap(
-          initialTiles.reduce((map, tile) => {
-            map[tile.id] = tile;
-            return map;
-          }, {} as TileMap)
-        );
+        // Fill in the default tiles with the fetched ones; chunks reach past the edge of the area
+        setTileMap(prevMap => {
+          const newMap = { ...prevMap };
+          initialTiles
+            .filter(tile => initialTileIds.has(tile.id))
+            .forEach(tile => {
+              newMap[tile.id] = tile;
+            });
+          return newMap;
+        });
 
         logger.info(`Initial fetch complete: ${initialTiles.length} tiles loaded`);
       } catch (error) {
@@ -190,7 +201,7 @@ export function useHexGridCamera({
     };
 
     fetchInitialTiles().then(() => { logger.info('[useHexGridCamera] Initialized tiles loaded'); });
-  }, [fetchTilesByIds, radius, initialTileMap]);
+  }, [fetchChunks, radius, initialTileMap]);
 
   // Effect to keep refs updated with the latest state
   useEffect(() => {
@@ -227,7 +238,7 @@ export function useHexGridCamera({
 
   // Function to check camera movement and fetch if needed
   const fetchTilesAroundCamera = useCallback(async (cameraPos: [number, number, number]) => {
-    if (isFetchingRef.current || !fetchTilesByIds) return;
+    if (isFetchingRef.current || !fetchChunks) return;
 
     // Convert camera's X/Y world position to fractional hex coordinates
     const [fq, fr, fs] = pixelToCube(cameraPos[0], cameraPos[1], hexSize);
@@ -262,8 +273,24 @@ export function useHexGridCamera({
         // Compute which tiles to fetch and discard
         const { tilesToFetch, tilesToDiscard } = computeTileSetOperations(previousTileIds, currentTileIds);
 
-        // Fetch tiles from service
-        const fetchedTiles = await fetchTilesByIds(Array.from(tilesToFetch));
+        // Chunks already covering the previous area are known, so only fetch the new ones
+        const currentChunkIds = getChunkIdsInRadius(currentQ, currentR, radius);
+        const currentChunkIdSet = new Set(currentChunkIds);
+        const chunksToFetch = currentChunkIds.filter(id => !visibleChunkIdsRef.current.has(id));
+        const newChunkTiles = await fetchChunks(chunksToFetch);
+
+        // Forget tiles in chunks that left the area, then add the fetched ones
+        chunkTilesRef.current.forEach((tile, id) => {
+          if (!currentChunkIdSet.has(getChunkId(tile.q, tile.r))) {
+            chunkTilesRef.current.delete(id);
+          }
+        });
+        newChunkTiles.forEach(tile => chunkTilesRef.current.set(tile.id, tile));
+
+        // Tiles that just came into the area, from new chunks or the edges of known ones
+        const fetchedTiles = Array.from(tilesToFetch)
+          .map(id => chunkTilesRef.current.get(id))
+          .filter((tile): tile is Tile => tile !== undefined);
         
         // Generate default tiles for any IDs that weren't found
         const now = new Date().toISOString();
@@ -303,6 +330,7 @@ export function useHexGridCamera({
 
         // Update refs and state
         visibleTileIdsRef.current = currentTileIds;
+        visibleChunkIdsRef.current = new Set(currentChunkIds);
         setLastFetchCenter([currentQ, currentR, currentS]);
         lastFetchCenterRef.current = [currentQ, currentR, currentS];
 
@@ -313,7 +341,7 @@ export function useHexGridCamera({
         isFetchingRef.current = false;
       }
     }
-  }, [hexSize, moveThreshold, radius, fetchTilesByIds]);
+  }, [hexSize, moveThreshold, radius, fetchChunks]);
 
   // Callback for GridCanvas camera movement
   const handleCameraMove = useCallback((pos: [number, number, number]) => {
@@ -4,23 +4,28 @@ import { auth } from '@/config/firebase';
 import { CACHE_TYPES } from '@/utils/tileCache';
 import { NO_EXPIRY } from '@/utils/cacheUtils';
 import {
-  AddTileRequest,
   AddTileResponse,
   FetchTilesByIdsRequest,
   FetchTilesByIdsResponse,
+  ActionCooldown,
   TileCacheManager,
+  getRateLimitedResponse,
   handleTileAdditionError,
   createTileFunction
 } from './TilesBaseService';
 import logger from '@/utils/logger';
+import type { FetchDrawingTilesRequest, SendDrawingTileUpdateRequest } from '@shared/requests';
 
 // Create cache manager instance with no expiry
 const drawingTileCacheManager = new TileCacheManager(CACHE_TYPES.DRAWING, NO_EXPIRY);
 
+// When the server's rate limit lets the user paint again
+const drawingCooldown = new ActionCooldown();
+
 // Create callable function references
 const fetchAllDrawingTiles = createTileFunction<FetchTilesByIdsRequest, FetchTilesByIdsResponse>('fetchAllDrawingTiles');
-const sendDrawingTileUpdate = createTileFunction<AddTileRequest, AddTileResponse>('sendDrawingTileUpdate');
-const fetchDrawingTilesAfterTimestamp = createTileFunction<{ timestamp: string | null }, FetchTilesByIdsResponse>('fetchDrawingTilesAfterTimestamp');
+const sendDrawingTileUpdate = createTileFunction<SendDrawingTileUpdateRequest, AddTileResponse>('sendDrawingTileUpdate');
+const fetchDrawingTilesAfterTimestamp = createTileFunction<FetchDrawingTilesRequest, FetchTilesByIdsResponse>('fetchDrawingTilesAfterTimestamp');
 
 /**
  * Generate a deterministic tile ID from coordinates
@@ -32,7 +37,7 @@ function generateTileId(q: number, r: number, s: number): string {
 /**
  * Add a new drawing tile
  * @param params Drawing tile parameters
- * @returns AddTileResponse with success status and tile data
+ * @returns AddTileResponse with success status and tile data, or retryAfterMs while rate limited
  */
 export async function onUpdateDrawingTile(params: {
   q: number;
@@ -52,6 +57,12 @@ export async function onUpdateDrawingTile(params: {
     };
   }
 
+  // Don't call the server again until the rate limit has refilled
+  const remainingMs = drawingCooldown.getRemainingMs();
+  if (remainingMs > 0) {
+    return getRateLimitedResponse(remainingMs);
+  }
+
   try {
     // Generate tile ID and construct tile object
     const tileId = generateTileId(q, r, s);
@@ -92,7 +103,11 @@ export async function onUpdateDrawingTile(params: {
     };
 
   } catch (error) {
-    return handleTileAdditionError(error, { q, r, s }, 'drawing');
+    const response = handleTileAdditionError(error, { q, r, s }, 'drawing');
+    if (response.retryAfterMs) {
+      drawingCooldown.start(response.retryAfterMs);
+    }
+    return response;
   }
 }
 
@@ -10,15 +10,10 @@ import {
 } from '@/utils/tileCache';
 import { DEFAULT_CACHE_EXPIRY } from '@/utils/cacheUtils';
 import logger from '@/utils/logger';
+import type { AddTileRequest } from '@shared/requests';
 
-// Common Types
-export interface AddTileRequest {
-  q: number;
-  r: number; 
-  s: number;
-  color?: string;
-  warmup?: boolean;
-}
+// Common Types; request types are shared with the functions
+export type { AddTileRequest, FetchChunksRequest, FetchTilesByIdsRequest } from '@shared/requests';
 
 export interface AddTileResponse {
   success: boolean;
@@ -26,11 +21,10 @@ export interface AddTileResponse {
   message?: string;
   captured?: boolean;
   previousOwner?: string;
-  previousColony?: string;
-}
-
-export interface FetchTilesByIdsRequest {
-  tileIds: string[];
+  previousColony?: string | null;
+  conflict?: boolean;             // Another colony claimed the tile first
+  controllerUid?: string | null;  // Who holds the tile after a conflict
+  retryAfterMs?: number;          // How long to wait before trying again, when rate limited
 }
 
 export interface FetchTilesByIdsResponse {
@@ -39,6 +33,25 @@ export interface FetchTilesByIdsResponse {
   count: number;
 }
 
+// One chunk as the player sees it, with tiles they can't see left out
+export interface VisibleChunk {
+  id: string;
+  tiles: Tile[];
+}
+
+export interface FetchChunksResponse {
+  success: boolean;
+  chunks: VisibleChunk[];  // Chunks that hold no persisted tiles come back empty
+  count: number;
+}
+
+export interface FetchVisibleTilesResponse {
+  success: boolean;
+  tileIds: string[];  // Every tile the colony can see, including ones never persisted
+  tiles: Tile[];      // Persisted tiles among the visible ones
+  count: number;
+}
+
 /**
  * Base class for tile cache management utilities
  */
@@ -87,12 +100,49 @@ export class TileCacheManager {
   }
 }
 
+/**
+ * Tracks when a rate limited action can be tried again
+ * Services check it before calling, so a user who is out of requests doesn't keep hitting the server.
+ */
+export class ActionCooldown {
+  private readyAt = 0;
+
+  /**
+   * Wait before allowing the action again
+   * @param retryAfterMs Milliseconds to wait, from the server's retry-after hint
+   */
+  start(retryAfterMs: number): void {
+    this.readyAt = Math.max(this.readyAt, Date.now() + retryAfterMs);
+  }
+
+  /**
+   * Get how long is left before the action can be tried again
+   * @returns Milliseconds left, or 0 if the action is ready
+   */
+  getRemainingMs(): number {
+    return Math.max(0, this.readyAt - Date.now());
+  }
+}
+
+/**
+ * Build the response for a call skipped or refused because of a rate limit
+ * @param retryAfterMs Milliseconds until the action can be tried again
+ * @returns Rate limited response
+ */
+export function getRateLimitedResponse(retryAfterMs: number): AddTileResponse {
+  return {
+    success: false,
+    retryAfterMs,
+    message: `Too many requests. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`
+  };
+}
+
 /**
  * Helper for handling tile addition errors
  * @param error The error object
  * @param coordinates The tile coordinates
  * @param serviceType Type of service for logging
- * @returns Standardized error response
+ * @returns Standardized error response, with retryAfterMs set when rate limited
  */
 export function handleTileAdditionError(
   error: any, 
@@ -100,6 +150,14 @@ export function handleTileAdditionError(
   serviceType: string
 ): AddTileResponse {
   const { q, r, s } = coordinates;
+
+  // Rate limits say how long to wait in the error's details
+  const retryAfterMs = error.details?.retryAfterMs;
+  if (error.code === 'functions/resource-exhausted' && typeof retryAfterMs === 'number') {
+    logger.warn(`Rate limited adding ${serviceType} tile at [${q},${r},${s}], retry in ${retryAfterMs}ms`);
+    return getRateLimitedResponse(retryAfterMs);
+  }
+
   logger.error(`Error adding ${serviceType} tile at [${q},${r},${s}]:`, error);
   
   // Parse the Firebase callable function error
@@ -0,0 +1,137 @@
+import { httpsCallable } from 'firebase/functions';
+import { auth, functions } from '@/config/firebase';
+import { Alliance, FetchAllianceResponse } from '@/types/alliance';
+import { makeWarmupable, createWarmupableRegistry } from '@/utils/functionUtils';
+import { invalidateColonyCache } from './colony';
+import logger from '@/utils/logger';
+import type {
+  AcceptAllianceInviteRequest,
+  CreateAllianceRequest,
+  InviteToAllianceRequest
+} from '@shared/requests';
+
+export interface AllianceResponse {
+  success: boolean;
+  alliance?: Alliance;
+  message?: string;
+}
+
+// Create callable function references
+const fetchAllianceFunction = httpsCallable<Record<string, never>, FetchAllianceResponse>(functions, 'fetchAlliance');
+const createAllianceFunction = httpsCallable<CreateAllianceRequest, AllianceResponse>(functions, 'createAlliance');
+const inviteToAllianceFunction = httpsCallable<InviteToAllianceRequest, AllianceResponse>(functions, 'inviteToAlliance');
+const acceptAllianceInviteFunction = httpsCallable<AcceptAllianceInviteRequest, AllianceResponse>(functions, 'acceptAllianceInvite');
+const leaveAllianceFunction = httpsCallable<Record<string, never>, AllianceResponse>(functions, 'leaveAlliance');
+
+/**
+ * Membership lives on the colony document, so the cached colony goes stale whenever it changes
+ */
+function invalidateOwnColonyCache(): void {
+  const uid = auth.currentUser?.uid;
+  if (uid) {
+    invalidateColonyCache(uid);
+  }
+}
+
+/**
+ * Run an alliance callable, turning errors into a failed response
+ * @param action Description of the action for logging
+ * @param call The callable to run
+ */
+async function callAllianceFunction(
+  action: string,
+  call: () => Promise<{ data: AllianceResponse }>
+): Promise<AllianceResponse> {
+  try {
+    logger.debug(`Sending ${action} request`);
+
+    const result = await call();
+
+    if (!result.data.success) {
+      logger.error(`${action} failed:`, result.data.message);
+    }
+
+    return result.data;
+  } catch (error: any) {
+    logger.error(`Error with ${action}:`, error);
+
+    const errorCode = error.code || 'unknown';
+    const errorMessage = error.message || `Unknown error with ${action}`;
+
+    return {
+      success: false,
+      message: `Error (${errorCode}): ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Fetch the user's alliance and the invites waiting for them
+ * @returns The alliance, or null if the user isn't in one, and any pending invites
+ */
+export async function fetchAlliance(): Promise<FetchAllianceResponse> {
+  try {
+    const result = await fetchAllianceFunction({});
+
+    if (!result.data.success) {
+      throw new Error(result.data.message || 'Failed to fetch alliance');
+    }
+
+    return result.data;
+  } catch (error) {
+    logger.error('Error fetching alliance:', error);
+    throw error;
+  }
+}
+
+/**
+ * Found a new alliance with the user as its only member
+ * @param request Name, color and whether members share vision
+ * @returns Object containing success status and the new alliance if successful
+ */
+export async function createAlliance(request: CreateAllianceRequest): Promise<AllianceResponse> {
+  const response = await callAllianceFunction('createAlliance', () => createAllianceFunction(request));
+  if (response.success) invalidateOwnColonyCache();
+  return response;
+}
+
+/**
+ * Invite another player into the user's alliance
+ * @param uid The player's user ID
+ * @returns Object containing success status
+ */
+export async function inviteToAlliance(uid: string): Promise<AllianceResponse> {
+  return callAllianceFunction('inviteToAlliance', () => inviteToAllianceFunction({ uid }));
+}
+
+/**
+ * Accept an invite into an alliance
+ * @param allianceId ID of the alliance that sent the invite
+ * @returns Object containing success status and the joined alliance if successful
+ */
+export async function acceptAllianceInvite(allianceId: string): Promise<AllianceResponse> {
+  const response = await callAllianceFunction('acceptAllianceInvite', () => acceptAllianceInviteFunction({ allianceId }));
+  if (response.success) invalidateOwnColonyCache();
+  return response;
+}
+
+/**
+ * Leave the user's alliance, disbanding it if nobody else is left
+ * @returns Object containing success status
+ */
+export async function leaveAlliance(): Promise<AllianceResponse> {
+  const response = await callAllianceFunction('leaveAlliance', () => leaveAllianceFunction({}));
+  if (response.success) invalidateOwnColonyCache();
+  return response;
+}
+
+/**
+ * Collection of warmupable alliance cloud functions
+ */
+export const WarmupableAllianceFunctions = createWarmupableRegistry({
+  fetchAlliance: makeWarmupable('fetchAlliance', fetchAllianceFunction),
+  createAlliance: makeWarmupable('createAlliance', createAllianceFunction),
+  inviteToAlliance: makeWarmupable('inviteToAlliance', inviteToAllianceFunction),
+  acceptAllianceInvite: makeWarmupable('acceptAllianceInvite', acceptAllianceInviteFunction),
+  leaveAlliance: makeWarmupable('leaveAlliance', leaveAllianceFunction)
+});
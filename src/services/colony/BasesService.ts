@@ -0,0 +1,101 @@
+import { httpsCallable } from 'firebase/functions';
+import { auth, functions } from '@/config/firebase';
+import { ConstructionOrder } from '@/types/colony';
+import { makeWarmupable, createWarmupableRegistry } from '@/utils/functionUtils';
+import { invalidateColonyCache } from './colony';
+import logger from '@/utils/logger';
+import type { BuildBaseRequest, UpgradeBaseRequest } from '@shared/requests';
+
+export interface ConstructionResponse {
+  success: boolean;
+  order?: ConstructionOrder;
+  message?: string;
+}
+
+// Create callable function references
+const buildBaseFunction = httpsCallable<BuildBaseRequest, ConstructionResponse>(functions, 'buildBase');
+const upgradeBaseFunction = httpsCallable<UpgradeBaseRequest, ConstructionResponse>(functions, 'upgradeBase');
+
+/**
+ * Construction spends resources and queues an order on the colony document, so the cached colony is now stale
+ */
+function invalidateCurrentColony() {
+  const uid = auth.currentUser?.uid;
+  if (uid) {
+    invalidateColonyCache(uid);
+  }
+}
+
+/**
+ * Start building a new base
+ * @param q Site Q coordinate
+ * @param r Site R coordinate
+ * @param s Site S coordinate
+ * @returns Object containing success status and the construction order if successful
+ */
+export async function buildBase(q: number, r: number, s: number): Promise<ConstructionResponse> {
+  try {
+    logger.debug(`Sending buildBase request for q=${q}, r=${r}, s=${s}`);
+
+    const result = await buildBaseFunction({ q, r, s });
+
+    if (result.data.success) {
+      logger.success(`Base construction started at [${q},${r},${s}]`);
+      invalidateCurrentColony();
+    } else {
+      logger.error('Build base failed:', result.data.message);
+    }
+
+    return result.data;
+  } catch (error: any) {
+    logger.error(`Error building base at [${q},${r},${s}]:`, error);
+
+    const errorCode = error.code || 'unknown';
+    const errorMessage = error.message || 'Unknown error building base';
+
+    return {
+      success: false,
+      message: `Error (${errorCode}): ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Start upgrading a base to the next tier
+ * @param unitId ID of the base to upgrade
+ * @returns Object containing success status and the construction order if successful
+ */
+export async function upgradeBase(unitId: string): Promise<ConstructionResponse> {
+  try {
+    logger.debug(`Sending upgradeBase request for base ${unitId}`);
+
+    const result = await upgradeBaseFunction({ unitId });
+
+    if (result.data.success) {
+      logger.success(`Upgrade started for base ${unitId}`);
+      invalidateCurrentColony();
+    } else {
+      logger.error('Upgrade base failed:', result.data.message);
+    }
+
+    return result.data;
+  } catch (error: any) {
+    logger.error(`Error upgrading base ${unitId}:`, error);
+
+    const errorCode = error.code || 'unknown';
+    const errorMessage = error.message || 'Unknown error upgrading base';
+
+    return {
+      success: false,
+      message: `Error (${errorCode}): ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Collection of warmupable base cloud functions
+ */
+export const WarmupableBaseFunctions = createWarmupableRegistry({
+  buildBase: makeWarmupable('buildBase', buildBaseFunction),
+  upgradeBase: makeWarmupable('upgradeBase', upgradeBaseFunction)
+});
@@ -0,0 +1,29 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/config/firebase';
+import { BattleReport, FetchBattleReportsResponse } from '@/types/battle';
+import logger from '@/utils/logger';
+import type { FetchBattleReportsRequest } from '@shared/requests';
+
+// Create callable function references
+const fetchBattleReportsFunction = httpsCallable<FetchBattleReportsRequest, FetchBattleReportsResponse>(functions, 'fetchBattleReports');
+
+/**
+ * Fetch the battles the user has fought in, newest first
+ * @param limit Maximum number of reports to fetch
+ * @returns Array of battle reports
+ */
+export async function fetchBattleReports(limit?: number): Promise<BattleReport[]> {
+  try {
+    const result = await fetchBattleReportsFunction({ limit });
+
+    if (!result.data.success) {
+      throw new Error(result.data.message || 'Failed to fetch battle reports');
+    }
+
+    logger.debug(`Fetched ${result.data.count} battle reports`);
+    return result.data.battles;
+  } catch (error) {
+    logger.error('Error fetching battle reports:', error);
+    throw error;
+  }
+}
@@ -1,26 +1,37 @@
 import { Tile } from '@/types/tiles';
 import { HttpsCallableResult } from 'firebase/functions';
-import { invalidateColonyCache, updateColonyCacheWithNewTile } from './colony';
+import { invalidateColonyCache } from './colony';
 import { auth } from '@/config/firebase';
 import { makeWarmupable, createWarmupableRegistry } from '@/utils/functionUtils';
 import { CACHE_TYPES } from '@/utils/tileCache';
 import {
   AddTileRequest,
   AddTileResponse,
+  FetchChunksRequest,
+  FetchChunksResponse,
   FetchTilesByIdsRequest,
   FetchTilesByIdsResponse,
+  FetchVisibleTilesResponse,
+  ActionCooldown,
   TileCacheManager,
+  getRateLimitedResponse,
   handleTileAdditionError,
   createTileFunction
 } from '../TilesBaseService';
 import logger from '@/utils/logger';
+import { gameConfig } from '@/config/gameConfig';
 
 // Create cache manager instance
 const colonyTileCacheManager = new TileCacheManager(CACHE_TYPES.COLONY);
 
+// When the server's rate limit lets the user claim another tile
+const addColonyTileCooldown = new ActionCooldown();
+
 // Create callable function references
 const addColonyTileFunction = createTileFunction<AddTileRequest, AddTileResponse>('addColonyTile');
 const fetchColonyTilesByIdsFunction = createTileFunction<FetchTilesByIdsRequest, FetchTilesByIdsResponse>('fetchColonyTilesByIds');
+const fetchVisibleTilesFunction = createTileFunction<Record<string, never>, FetchVisibleTilesResponse>('fetchVisibleTiles');
+const fetchChunksFunction = createTileFunction<FetchChunksRequest, FetchChunksResponse>('fetchChunks');
 
 /**
  * Fetch tiles by their IDs
@@ -128,6 +139,76 @@ export async function fetchTiles(
   }
 }
 
+/**
+ * Fetch the persisted tiles in a set of chunks.
+ * Each chunk costs one read however many tiles it holds, so prefer this over fetchTiles for areas.
+ * Tiles the colony can't see are left out by the server.
+ * @param chunkIds - IDs of the chunks, e.g. from getChunkIdsInRadius
+ * @returns The tiles across all the chunks
+ */
+export async function fetchChunks(chunkIds: string[]): Promise<Tile[]> {
+  if (!chunkIds.length) return [];
+
+  // The server caps how many chunks one call can load
+  const { maxPerRequest } = gameConfig.chunks;
+  const requests: string[][] = [];
+  for (let i = 0; i < chunkIds.length; i += maxPerRequest) {
+    requests.push(chunkIds.slice(i, i + maxPerRequest));
+  }
+
+  try {
+    const results = await Promise.all(requests.map((ids) => fetchChunksFunction({ chunkIds: ids })));
+    const tiles = results
+      .filter((result) => result.data.success)
+      .flatMap((result) => result.data.chunks.flatMap((chunk) => chunk.tiles));
+
+    logger.debug(`Fetched ${tiles.length} tiles from ${chunkIds.length} chunks`);
+    if (tiles.length > 0) {
+      updateTileCache(tiles);
+    }
+
+    return tiles;
+  } catch (error) {
+    logger.error('Error fetching chunks:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch every tile the user's colony can currently see.
+ * Visibility is computed on the server from unit positions, base influence and scan radii.
+ * @returns Visible tiles, with unexplored placeholders for tiles that were never persisted
+ */
+export async function fetchVisibleTiles(): Promise<Tile[]> {
+  try {
+    const result = await fetchVisibleTilesFunction({});
+
+    if (!result.data.success) {
+      logger.error('Error fetching visible tiles:', result.data);
+      return [];
+    }
+
+    const tiles = result.data.tiles;
+    const foundTileIds = new Set(tiles.map(tile => tile.id));
+
+    // Visible tiles nobody has claimed yet don't exist in Firestore
+    result.data.tileIds
+      .filter(tileId => !foundTileIds.has(tileId))
+      .forEach(tileId => {
+        const [q, r, s] = tileId.split('#').map(Number);
+        tiles.push({ id: tileId, q, r, s, controllerUid: "", updatedAt: new Date().toISOString() });
+      });
+
+    logger.debug(`Fetched ${result.data.tileIds.length} visible tiles (${result.data.count} persisted)`);
+    updateTileCache(tiles);
+
+    return tiles;
+  } catch (error) {
+    logger.error('Error fetching visible tiles:', error);
+    return [];
+  }
+}
+
 /**
  * Clear all colony tile cache entries
  * Use this when you want to completely reset the colony tile cache
@@ -151,7 +232,7 @@ export function updateTileCache(arg: Tile | Tile[]): void {
  * @param q Q coordinate (axial coordinate system)
  * @param r R coordinate (axial coordinate system)
  * @param s S coordinate (axial coordinate system)
- * @returns Object containing success status and the new tile if successful
+ * @returns Object containing success status and the new tile if successful, or retryAfterMs while rate limited
  */
 export async function addColonyTile(
   q: number, 
@@ -159,6 +240,12 @@ export async function addColonyTile(
   s: number
 ): Promise<AddTileResponse> {
   const coordinates = { q, r, s };
+
+  // Don't call the server again until the rate limit has refilled
+  const remainingMs = addColonyTileCooldown.getRemainingMs();
+  if (remainingMs > 0) {
+    return getRateLimitedResponse(remainingMs);
+  }
   
   try {
     logger.debug(`Sending addColonyTile request for coords: q=${q}, r=${r}, s=${s}`);
@@ -175,7 +262,11 @@ export async function addColonyTile(
     
     return result.data;
   } catch (error: any) {
-    return handleTileAdditionError(error, coordinates, 'colony');
+    const response = handleTileAdditionError(error, coordinates, 'colony');
+    if (response.retryAfterMs) {
+      addColonyTileCooldown.start(response.retryAfterMs);
+    }
+    return response;
   }
 }
 
@@ -199,9 +290,9 @@ function handleSuccessfulTileAddition(result: HttpsCallableResult<AddTileRespons
     logger.debug(`Updating cache for tile: ${result.data.tile.id}`);
     updateTileCache(result.data.tile);
     
-    // Update the colony cache with the new tile ID
-    if (uid && typeof window !== 'undefined') {
-      updateColonyCacheWithNewTile(uid, result.data.tile.id);
+    // The server recounted the territory score, so reload it on the next fetch
+    if (uid) {
+      invalidateColonyCache(uid);
     }
   }
 }
@@ -210,7 +301,8 @@ function handleSuccessfulTileAddition(result: HttpsCallableResult<AddTileRespons
  * Collection of warmupable cloud functions
  */
 export const WarmupableFunctions = createWarmupableRegistry({
-  addColonyTile: makeWarmupable('addColonyTile', addColonyTileFunction)
+  addColonyTile: makeWarmupable('addColonyTile', addColonyTileFunction),
+  fetchChunks: makeWarmupable('fetchChunks', fetchChunksFunction)
 });
 
 // Direct export of the warmup function
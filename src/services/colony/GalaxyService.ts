@@ -0,0 +1,33 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/config/firebase';
+import { FetchGalaxyRegionRequest, FetchGalaxyRegionResponse, GalaxyRegion } from '@/types/galaxy';
+import logger from '@/utils/logger';
+
+// Create callable function references
+const fetchGalaxyRegionFunction = httpsCallable<FetchGalaxyRegionRequest, FetchGalaxyRegionResponse>(functions, 'fetchGalaxyRegion');
+
+/**
+ * Fetch the procedural terrain and wormholes around a tile
+ * Neither changes for a galaxy, so results can be cached for as long as the client likes.
+ * @param center Center of the region
+ * @param radius Radius of the region in tiles (the server caps it)
+ * @returns Procedural tiles and wormholes in the region
+ */
+export async function fetchGalaxyRegion(
+  center: { q: number; r: number; s: number },
+  radius: number
+): Promise<GalaxyRegion> {
+  try {
+    const result = await fetchGalaxyRegionFunction({ ...center, radius });
+
+    if (!result.data.success) {
+      throw new Error(result.data.message || 'Failed to fetch galaxy region');
+    }
+
+    logger.debug(`Fetched ${result.data.tiles.length} procedural tiles around (${center.q}, ${center.r}, ${center.s})`);
+    return { tiles: result.data.tiles, wormholes: result.data.wormholes ?? [] };
+  } catch (error) {
+    logger.error('Error fetching galaxy region:', error);
+    throw error;
+  }
+}
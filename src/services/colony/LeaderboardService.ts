@@ -0,0 +1,72 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/config/firebase';
+import {
+  FetchAllianceLeaderboardResponse,
+  FetchLeaderboardRequest,
+  FetchLeaderboardResponse,
+  LeaderboardWindow
+} from '@/types/leaderboard';
+import { makeWarmupable, createWarmupableRegistry } from '@/utils/functionUtils';
+import logger from '@/utils/logger';
+import type { FetchAllianceLeaderboardRequest } from '@shared/requests';
+
+// Create callable function references
+const fetchLeaderboardFunction = httpsCallable<FetchLeaderboardRequest, FetchLeaderboardResponse>(functions, 'fetchLeaderboard');
+const fetchAllianceLeaderboardFunction = httpsCallable<
+  FetchAllianceLeaderboardRequest,
+  FetchAllianceLeaderboardResponse
+>(functions, 'fetchAllianceLeaderboard');
+
+/**
+ * Fetch a page of the leaderboard
+ * @param window Whether to rank by total territory or territory gained this week
+ * @param startAfter Cursor from the previous page, omitted for the first page
+ * @returns The page of entries and the cursor for the next one
+ */
+export async function fetchLeaderboard(
+  window: LeaderboardWindow,
+  startAfter?: string
+): Promise<FetchLeaderboardResponse> {
+  try {
+    const result = await fetchLeaderboardFunction({ window, startAfter });
+
+    if (!result.data.success) {
+      throw new Error(result.data.message || 'Failed to fetch leaderboard');
+    }
+
+    logger.debug(`Fetched ${result.data.entries.length} ${window} leaderboard entries`);
+    return result.data;
+  } catch (error) {
+    logger.error('Error fetching leaderboard:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch a page of alliances ranked by their combined territory
+ * @param startAfter Cursor from the previous page, omitted for the first page
+ * @returns The page of alliances and the cursor for the next one
+ */
+export async function fetchAllianceLeaderboard(startAfter?: string): Promise<FetchAllianceLeaderboardResponse> {
+  try {
+    const result = await fetchAllianceLeaderboardFunction({ startAfter });
+
+    if (!result.data.success) {
+      throw new Error(result.data.message || 'Failed to fetch alliance leaderboard');
+    }
+
+    logger.debug(`Fetched ${result.data.entries.length} alliance leaderboard entries`);
+    return result.data;
+  } catch (error) {
+    logger.error('Error fetching alliance leaderboard:', error);
+    throw error;
+  }
+}
+
+/**
+ * Collection of warmupable leaderboard cloud functions
+ */
+export const WarmupableLeaderboardFunctions = createWarmupableRegistry({
+  fetchLeaderboard: makeWarmupable('fetchLeaderboard', fetchLeaderboardFunction),
+  fetchAllianceLeaderboard: makeWarmupable('fetchAllianceLeaderboard', fetchAllianceLeaderboardFunction)
+});
@@ -0,0 +1,166 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/config/firebase';
+import {
+  Beacon,
+  FetchBeaconsResponse,
+  FetchMessagesResponse,
+  GameMessage,
+  MessageChannel
+} from '@/types/message';
+import { makeWarmupable, createWarmupableRegistry } from '@/utils/functionUtils';
+import logger from '@/utils/logger';
+import type {
+  FetchBeaconsRequest,
+  FetchMessagesRequest,
+  MarkMessagesReadRequest,
+  PlaceBeaconRequest,
+  SendMessageRequest
+} from '@shared/requests';
+
+export interface MessagingResponse {
+  success: boolean;
+  message?: string;
+  sentMessage?: GameMessage;  // The message that was sent
+  beacon?: Beacon;            // The beacon that was placed
+  reached?: number;           // How many other colonies heard the beacon
+  marked?: number;            // How many messages were marked read
+}
+
+// Create callable function references
+const fetchMessagesFunction = httpsCallable<FetchMessagesRequest, FetchMessagesResponse>(functions, 'fetchMessages');
+const sendMessageFunction = httpsCallable<SendMessageRequest, MessagingResponse>(functions, 'sendMessage');
+const placeBeaconFunction = httpsCallable<PlaceBeaconRequest, MessagingResponse>(functions, 'placeBeacon');
+const markMessagesReadFunction = httpsCallable<MarkMessagesReadRequest, MessagingResponse>(functions, 'markMessagesRead');
+const fetchBeaconsFunction = httpsCallable<FetchBeaconsRequest, FetchBeaconsResponse>(functions, 'fetchBeacons');
+
+/**
+ * Run a messaging callable, turning errors into a failed response
+ * @param action Description of the action for logging
+ * @param call The callable to run
+ */
+async function callMessagingFunction(
+  action: string,
+  call: () => Promise<{ data: MessagingResponse }>
+): Promise<MessagingResponse> {
+  try {
+    logger.debug(`Sending ${action} request`);
+
+    const result = await call();
+
+    if (!result.data.success) {
+      logger.error(`${action} failed:`, result.data.message);
+    }
+
+    return result.data;
+  } catch (error: any) {
+    logger.error(`Error with ${action}:`, error);
+
+    const errorCode = error.code || 'unknown';
+    const errorMessage = error.message || `Unknown error with ${action}`;
+
+    return {
+      success: false,
+      message: `Error (${errorCode}): ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Fetch a page of the user's messages, newest first
+ * @param channel Only fetch messages on this channel, or every channel when omitted
+ * @param startAfter Cursor from the previous page, omitted for the first page
+ * @returns The page of messages, the cursor for the next one and the user's unread counts
+ */
+export async function fetchMessages(
+  channel?: MessageChannel,
+  startAfter?: string
+): Promise<FetchMessagesResponse> {
+  try {
+    const result = await fetchMessagesFunction({ channel, startAfter });
+
+    if (!result.data.success) {
+      throw new Error(result.data.message || 'Failed to fetch messages');
+    }
+
+    logger.debug(`Fetched ${result.data.messages.length} ${channel ?? 'inbox'} messages`);
+    return result.data;
+  } catch (error) {
+    logger.error('Error fetching messages:', error);
+    throw error;
+  }
+}
+
+/**
+ * Send a message straight to another colony
+ * @param recipientUid The other player's user ID
+ * @param body The message text
+ * @returns Object containing success status and the sent message if successful
+ */
+export async function sendDirectMessage(recipientUid: string, body: string): Promise<MessagingResponse> {
+  return callMessagingFunction('sendMessage', () => sendMessageFunction({ channel: 'direct', recipientUid, body }));
+}
+
+/**
+ * Send a message to every member of the user's alliance
+ * @param body The message text
+ * @returns Object containing success status and the sent message if successful
+ */
+export async function sendAllianceMessage(body: string): Promise<MessagingResponse> {
+  return callMessagingFunction('sendMessage', () => sendMessageFunction({ channel: 'alliance', body }));
+}
+
+/**
+ * Place a beacon that broadcasts a message to every colony with a unit in range
+ * @param q Tile Q coordinate
+ * @param r Tile R coordinate
+ * @param s Tile S coordinate
+ * @param body The message text
+ * @returns Object containing success status, the beacon and how many colonies heard it
+ */
+export async function placeBeacon(q: number, r: number, s: number, body: string): Promise<MessagingResponse> {
+  return callMessagingFunction('placeBeacon', () => placeBeaconFunction({ q, r, s, body }));
+}
+
+/**
+ * Mark every unread message on a channel as read
+ * @param channel The channel
+ * @returns Object containing success status and how many messages were marked
+ */
+export async function markMessagesRead(channel: MessageChannel): Promise<MessagingResponse> {
+  return callMessagingFunction('markMessagesRead', () => markMessagesReadFunction({ channel }));
+}
+
+/**
+ * Fetch the active beacons around a point
+ * @param q Center Q coordinate
+ * @param r Center R coordinate
+ * @param s Center S coordinate
+ * @param radius How far from the center to look; the server caps it
+ * @returns Array of beacons
+ */
+export async function fetchBeacons(q: number, r: number, s: number, radius?: number): Promise<Beacon[]> {
+  try {
+    const result = await fetchBeaconsFunction({ q, r, s, radius });
+
+    if (!result.data.success) {
+      throw new Error(result.data.message || 'Failed to fetch beacons');
+    }
+
+    logger.debug(`Fetched ${result.data.beacons.length} beacons around [${q},${r},${s}]`);
+    return result.data.beacons;
+  } catch (error) {
+    logger.error('Error fetching beacons:', error);
+    throw error;
+  }
+}
+
+/**
+ * Collection of warmupable messaging cloud functions
+ */
+export const WarmupableMessagingFunctions = createWarmupableRegistry({
+  fetchMessages: makeWarmupable('fetchMessages', fetchMessagesFunction),
+  sendMessage: makeWarmupable('sendMessage', sendMessageFunction),
+  placeBeacon: makeWarmupable('placeBeacon', placeBeaconFunction),
+  markMessagesRead: makeWarmupable('markMessagesRead', markMessagesReadFunction),
+  fetchBeacons: makeWarmupable('fetchBeacons', fetchBeaconsFunction)
+});
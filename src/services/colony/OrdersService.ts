@@ -0,0 +1,129 @@
+import { httpsCallable } from 'firebase/functions';
+import { auth, functions } from '@/config/firebase';
+import { QueuedOrder } from '@/types/colony';
+import { makeWarmupable, createWarmupableRegistry } from '@/utils/functionUtils';
+import { invalidateColonyCache } from './colony';
+import { ActionCooldown } from '../TilesBaseService';
+import logger from '@/utils/logger';
+import type { CancelOrderRequest, QueueOrderRequest } from '@shared/requests';
+
+export interface QueueOrderResponse {
+  success: boolean;
+  order?: QueuedOrder;
+  resolvesAt?: number;  // When the unit takes its first steps
+  retryAfterMs?: number;  // Set while rate limited
+  message?: string;
+}
+
+export interface CancelOrderResponse {
+  success: boolean;
+  message?: string;
+}
+
+// When the server's rate limit lets the user queue another order
+const queueOrderCooldown = new ActionCooldown();
+
+// Create callable function references
+const queueOrderFunction = httpsCallable<QueueOrderRequest, QueueOrderResponse>(functions, 'queueOrder');
+const cancelOrderFunction = httpsCallable<CancelOrderRequest, CancelOrderResponse>(functions, 'cancelOrder');
+
+/**
+ * Queue a sublight move that the game clock carries out a few steps per tick
+ * Replaces any order the unit already has.
+ * @param unitId ID of the unit to move
+ * @param q Destination Q coordinate
+ * @param r Destination R coordinate
+ * @param s Destination S coordinate
+ * @returns Object containing success status and the queued order if successful, or retryAfterMs while rate limited
+ */
+export async function queueOrder(unitId: string, q: number, r: number, s: number): Promise<QueueOrderResponse> {
+  // Don't call the server again until the rate limit has refilled
+  const remainingMs = queueOrderCooldown.getRemainingMs();
+  if (remainingMs > 0) {
+    return {
+      success: false,
+      retryAfterMs: remainingMs,
+      message: `Too many orders. Try again in ${Math.ceil(remainingMs / 1000)} seconds.`
+    };
+  }
+
+  try {
+    logger.debug(`Sending queueOrder request for unit ${unitId} to q=${q}, r=${r}, s=${s}`);
+
+    const result = await queueOrderFunction({ unitId, q, r, s });
+
+    if (result.data.success) {
+      logger.success(`Queued move for unit ${unitId}`);
+
+      // Orders live on the colony document, so the cached colony is now stale
+      const uid = auth.currentUser?.uid;
+      if (uid) {
+        invalidateColonyCache(uid);
+      }
+    } else {
+      logger.error('Queue order failed:', result.data.message);
+    }
+
+    return result.data;
+  } catch (error: any) {
+    // Rate limits say how long to wait in the error's details
+    const retryAfterMs = error.details?.retryAfterMs;
+    if (error.code === 'functions/resource-exhausted' && typeof retryAfterMs === 'number') {
+      logger.warn(`Rate limited queueing a move for unit ${unitId}, retry in ${retryAfterMs}ms`);
+      queueOrderCooldown.start(retryAfterMs);
+      return { success: false, retryAfterMs, message: error.message };
+    }
+
+    logger.error(`Error queueing move for unit ${unitId}:`, error);
+
+    const errorCode = error.code || 'unknown';
+    const errorMessage = error.message || 'Unknown error queueing order';
+
+    return {
+      success: false,
+      message: `Error (${errorCode}): ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Cancel a queued order
+ * @param orderId ID of the order to cancel
+ * @returns Object containing success status
+ */
+export async function cancelOrder(orderId: string): Promise<CancelOrderResponse> {
+  try {
+    logger.debug(`Sending cancelOrder request for order ${orderId}`);
+
+    const result = await cancelOrderFunction({ orderId });
+
+    if (result.data.success) {
+      const uid = auth.currentUser?.uid;
+      if (uid) {
+        invalidateColonyCache(uid);
+      }
+    } else {
+      logger.error('Cancel order failed:', result.data.message);
+    }
+
+    return result.data;
+  } catch (error: any) {
+    logger.error(`Error cancelling order ${orderId}:`, error);
+
+    const errorCode = error.code || 'unknown';
+    const errorMessage = error.message || 'Unknown error cancelling order';
+
+    return {
+      success: false,
+      message: `Error (${errorCode}): ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Collection of warmupable order cloud functions
+ */
+export const WarmupableOrderFunctions = createWarmupableRegistry({
+  queueOrder: makeWarmupable('queueOrder', queueOrderFunction),
+  cancelOrder: makeWarmupable('cancelOrder', cancelOrderFunction)
+});
@@ -0,0 +1,84 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/config/firebase';
+import { gameConfig } from '@/config/gameConfig';
+import { ColonyProfile } from '@/types/colony';
+import { makeWarmupable, createWarmupableRegistry } from '@/utils/functionUtils';
+import logger from '@/utils/logger';
+import type { FetchColonyColorsRequest, FetchColonyProfileRequest } from '@shared/requests';
+
+export interface FetchColonyProfileResponse {
+  success: boolean;
+  profile: ColonyProfile;
+  message?: string;
+}
+
+export interface FetchColonyColorsResponse {
+  success: boolean;
+  colors: Record<string, string>;  // Colony color by owner UID; colonies without a color are left out
+  message?: string;
+}
+
+// Create callable function references
+const fetchColonyProfileFunction = httpsCallable<FetchColonyProfileRequest, FetchColonyProfileResponse>(functions, 'fetchColonyProfile');
+const fetchColonyColorsFunction = httpsCallable<FetchColonyColorsRequest, FetchColonyColorsResponse>(functions, 'fetchColonyColors');
+
+/**
+ * Fetch the public profile of another player's colony
+ * @param uid The colony owner's user ID
+ * @returns The colony's profile
+ */
+export async function fetchColonyProfile(uid: string): Promise<ColonyProfile> {
+  try {
+    const result = await fetchColonyProfileFunction({ uid });
+
+    if (!result.data.success) {
+      throw new Error(result.data.message || 'Failed to fetch colony profile');
+    }
+
+    return result.data.profile;
+  } catch (error) {
+    logger.error(`Error fetching colony profile for user ${uid}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch the colors of several colonies, splitting the request into batches the server accepts
+ * @param uids The colony owners' user IDs
+ * @returns Colony color by owner UID; owners without a colony or color are left out
+ */
+export async function fetchColonyColors(uids: string[]): Promise<Record<string, string>> {
+  const uniqueUids = Array.from(new Set(uids));
+  const { maxColorBatch } = gameConfig.profiles;
+  const batches: string[][] = [];
+
+  for (let i = 0; i < uniqueUids.length; i += maxColorBatch) {
+    batches.push(uniqueUids.slice(i, i + maxColorBatch));
+  }
+
+  try {
+    const results = await Promise.all(batches.map((batch) => fetchColonyColorsFunction({ uids: batch })));
+
+    const colors: Record<string, string> = {};
+    results.forEach((result) => {
+      if (!result.data.success) {
+        throw new Error(result.data.message || 'Failed to fetch colony colors');
+      }
+      Object.assign(colors, result.data.colors);
+    });
+
+    logger.debug(`Fetched colors for ${Object.keys(colors).length} of ${uniqueUids.length} colonies`);
+    return colors;
+  } catch (error) {
+    logger.error('Error fetching colony colors:', error);
+    throw error;
+  }
+}
+
+/**
+ * Collection of warmupable profile cloud functions
+ */
+export const WarmupableProfileFunctions = createWarmupableRegistry({
+  fetchColonyProfile: makeWarmupable('fetchColonyProfile', fetchColonyProfileFunction),
+  fetchColonyColors: makeWarmupable('fetchColonyColors', fetchColonyColorsFunction)
+});
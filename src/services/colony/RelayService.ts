@@ -0,0 +1,56 @@
+import { httpsCallable } from 'firebase/functions';
+import { auth, functions } from '@/config/firebase';
+import { makeWarmupable, createWarmupableRegistry } from '@/utils/functionUtils';
+import { ConstructionResponse } from './BasesService';
+import { invalidateColonyCache } from './colony';
+import logger from '@/utils/logger';
+import type { BuildRelayRequest } from '@shared/requests';
+
+// Create callable function references
+const buildRelayFunction = httpsCallable<BuildRelayRequest, ConstructionResponse>(functions, 'buildRelay');
+
+/**
+ * Start building a relay station
+ * @param q Site Q coordinate
+ * @param r Site R coordinate
+ * @param s Site S coordinate
+ * @returns Object containing success status and the construction order if successful
+ */
+export async function buildRelay(q: number, r: number, s: number): Promise<ConstructionResponse> {
+  try {
+    logger.debug(`Sending buildRelay request for q=${q}, r=${r}, s=${s}`);
+
+    const result = await buildRelayFunction({ q, r, s });
+
+    if (result.data.success) {
+      logger.success(`Relay construction started at [${q},${r},${s}]`);
+
+      // Construction spends resources and queues an order, so the cached colony is now stale
+      const uid = auth.currentUser?.uid;
+      if (uid) {
+        invalidateColonyCache(uid);
+      }
+    } else {
+      logger.error('Build relay failed:', result.data.message);
+    }
+
+    return result.data;
+  } catch (error: any) {
+    logger.error(`Error building relay at [${q},${r},${s}]:`, error);
+
+    const errorCode = error.code || 'unknown';
+    const errorMessage = error.message || 'Unknown error building relay';
+
+    return {
+      success: false,
+      message: `Error (${errorCode}): ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Collection of warmupable relay cloud functions
+ */
+export const WarmupableRelayFunctions = createWarmupableRegistry({
+  buildRelay: makeWarmupable('buildRelay', buildRelayFunction)
+});
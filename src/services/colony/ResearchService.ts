@@ -0,0 +1,73 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/config/firebase';
+import { FetchTechTreeResponse, ResearchState } from '@/types/tech';
+import { makeWarmupable, createWarmupableRegistry } from '@/utils/functionUtils';
+import logger from '@/utils/logger';
+import type { SetResearchTargetRequest } from '@shared/requests';
+
+export interface SetResearchTargetResponse {
+  success: boolean;
+  research?: ResearchState;
+  message?: string;
+}
+
+// Create callable function references
+const fetchTechTreeFunction = httpsCallable<Record<string, never>, FetchTechTreeResponse>(functions, 'fetchTechTree');
+const setResearchTargetFunction = httpsCallable<SetResearchTargetRequest, SetResearchTargetResponse>(functions, 'setResearchTarget');
+
+/**
+ * Fetch the tech tree along with the user's research progress
+ * @returns Tech definitions, research state and unlocked effects
+ */
+export async function fetchTechTree(): Promise<FetchTechTreeResponse> {
+  try {
+    const result = await fetchTechTreeFunction({});
+
+    if (!result.data.success) {
+      throw new Error(result.data.message || 'Failed to fetch tech tree');
+    }
+
+    return result.data;
+  } catch (error) {
+    logger.error('Error fetching tech tree:', error);
+    throw error;
+  }
+}
+
+/**
+ * Choose the tech the colony's research sites work towards
+ * @param techId ID of the tech to research
+ * @returns Object containing success status and the updated research state if successful
+ */
+export async function setResearchTarget(techId: string): Promise<SetResearchTargetResponse> {
+  try {
+    logger.debug(`Sending setResearchTarget request for ${techId}`);
+
+    const result = await setResearchTargetFunction({ techId });
+
+    if (result.data.success) {
+      logger.success(`Research target set to ${techId}`);
+    } else {
+      logger.error('Set research target failed:', result.data.message);
+    }
+
+    return result.data;
+  } catch (error: any) {
+    logger.error(`Error setting research target to ${techId}:`, error);
+
+    const errorCode = error.code || 'unknown';
+    const errorMessage = error.message || 'Unknown error setting research target';
+
+    return {
+      success: false,
+      message: `Error (${errorCode}): ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Collection of warmupable research cloud functions
+ */
+export const WarmupableResearchFunctions = createWarmupableRegistry({
+  setResearchTarget: makeWarmupable('setResearchTarget', setResearchTargetFunction)
+});
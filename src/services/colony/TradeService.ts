@@ -0,0 +1,148 @@
+import { httpsCallable } from 'firebase/functions';
+import { auth, functions } from '@/config/firebase';
+import {
+  FetchTradeHistoryResponse,
+  FetchTradeOffersRequest,
+  FetchTradeOffersResponse,
+  TradeOffer
+} from '@/types/trade';
+import { makeWarmupable, createWarmupableRegistry } from '@/utils/functionUtils';
+import { invalidateColonyCache } from './colony';
+import logger from '@/utils/logger';
+import type { CreateTradeOfferRequest, FetchTradeHistoryRequest, TradeOfferActionRequest } from '@shared/requests';
+
+export interface TradeResponse {
+  success: boolean;
+  offer?: TradeOffer;
+  message?: string;
+}
+
+// Create callable function references
+const fetchTradeOffersFunction = httpsCallable<FetchTradeOffersRequest, FetchTradeOffersResponse>(functions, 'fetchTradeOffers');
+const fetchTradeHistoryFunction = httpsCallable<FetchTradeHistoryRequest, FetchTradeHistoryResponse>(functions, 'fetchTradeHistory');
+const createTradeOfferFunction = httpsCallable<CreateTradeOfferRequest, TradeResponse>(functions, 'createTradeOffer');
+const acceptTradeOfferFunction = httpsCallable<TradeOfferActionRequest, TradeResponse>(functions, 'acceptTradeOffer');
+const cancelTradeOfferFunction = httpsCallable<TradeOfferActionRequest, TradeResponse>(functions, 'cancelTradeOffer');
+
+/**
+ * Run a trade callable, turning errors into a failed response
+ * Every trade moves resources in or out of the stockpile, so a successful one
+ * leaves the cached colony stale.
+ * @param action Description of the action for logging
+ * @param call The callable to run
+ */
+async function callTradeFunction(
+  action: string,
+  call: () => Promise<{ data: TradeResponse }>
+): Promise<TradeResponse> {
+  try {
+    logger.debug(`Sending ${action} request`);
+
+    const result = await call();
+
+    if (result.data.success) {
+      const uid = auth.currentUser?.uid;
+      if (uid) {
+        invalidateColonyCache(uid);
+      }
+    } else {
+      logger.error(`${action} failed:`, result.data.message);
+    }
+
+    return result.data;
+  } catch (error: any) {
+    logger.error(`Error with ${action}:`, error);
+
+    const errorCode = error.code || 'unknown';
+    const errorMessage = error.message || `Unknown error with ${action}`;
+
+    return {
+      success: false,
+      message: `Error (${errorCode}): ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Fetch a page of open offers from the marketplace, newest first
+ * @param filters Resource type to filter by and whether to show only the user's offers
+ * @param startAfter Cursor from the previous page, omitted for the first page
+ * @returns The page of offers and the cursor for the next one
+ */
+export async function fetchTradeOffers(
+  filters: Pick<FetchTradeOffersRequest, 'resourceType' | 'mine'> = {},
+  startAfter?: string
+): Promise<FetchTradeOffersResponse> {
+  try {
+    const result = await fetchTradeOffersFunction({ ...filters, startAfter });
+
+    if (!result.data.success) {
+      throw new Error(result.data.message || 'Failed to fetch trade offers');
+    }
+
+    logger.debug(`Fetched ${result.data.offers.length} trade offers`);
+    return result.data;
+  } catch (error) {
+    logger.error('Error fetching trade offers:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch a page of the colony's closed offers, most recently closed first
+ * @param startAfter Cursor from the previous page, omitted for the first page
+ * @returns The page of history entries and the cursor for the next one
+ */
+export async function fetchTradeHistory(startAfter?: string): Promise<FetchTradeHistoryResponse> {
+  try {
+    const result = await fetchTradeHistoryFunction({ startAfter });
+
+    if (!result.data.success) {
+      throw new Error(result.data.message || 'Failed to fetch trade history');
+    }
+
+    logger.debug(`Fetched ${result.data.entries.length} trade history entries`);
+    return result.data;
+  } catch (error) {
+    logger.error('Error fetching trade history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Post an offer to the marketplace, moving the offered resources into escrow
+ * @param request What to offer, what to ask for and how long to keep the offer open
+ * @returns Object containing success status and the new offer if successful
+ */
+export async function createTradeOffer(request: CreateTradeOfferRequest): Promise<TradeResponse> {
+  return callTradeFunction('createTradeOffer', () => createTradeOfferFunction(request));
+}
+
+/**
+ * Accept another colony's offer, paying what it requests
+ * @param offerId ID of the offer
+ * @returns Object containing success status and the closed offer if successful
+ */
+export async function acceptTradeOffer(offerId: string): Promise<TradeResponse> {
+  return callTradeFunction('acceptTradeOffer', () => acceptTradeOfferFunction({ offerId }));
+}
+
+/**
+ * Withdraw one of the user's offers, returning the escrowed resources
+ * @param offerId ID of the offer
+ * @returns Object containing success status and the closed offer if successful
+ */
+export async function cancelTradeOffer(offerId: string): Promise<TradeResponse> {
+  return callTradeFunction('cancelTradeOffer', () => cancelTradeOfferFunction({ offerId }));
+}
+
+/**
+ * Collection of warmupable trade cloud functions
+ */
+export const WarmupableTradeFunctions = createWarmupableRegistry({
+  fetchTradeOffers: makeWarmupable('fetchTradeOffers', fetchTradeOffersFunction),
+  fetchTradeHistory: makeWarmupable('fetchTradeHistory', fetchTradeHistoryFunction),
+  createTradeOffer: makeWarmupable('createTradeOffer', createTradeOfferFunction),
+  acceptTradeOffer: makeWarmupable('acceptTradeOffer', acceptTradeOfferFunction),
+  cancelTradeOffer: makeWarmupable('cancelTradeOffer', cancelTradeOfferFunction)
+});
@@ -0,0 +1,151 @@
+import { httpsCallable } from 'firebase/functions';
+import { auth, functions } from '@/config/firebase';
+import { Unit } from '@/types/units';
+import { BattleReport } from '@/types/battle';
+import { AnomalyEvent } from '@/types/anomaly';
+import { makeWarmupable, createWarmupableRegistry } from '@/utils/functionUtils';
+import { invalidateColonyCache } from './colony';
+import { ActionCooldown } from '../TilesBaseService';
+import logger from '@/utils/logger';
+import type { MoveType, MoveUnitRequest, PlaceUnitRequest } from '@shared/requests';
+
+// Sublight moves pay terrain costs step by step; FTL jumps need research; relay jumps need linked relays
+export type { MoveType };
+
+export interface MoveUnitResponse {
+  success: boolean;
+  unit?: Unit;
+  path?: { q: number; r: number; s: number }[];
+  cost?: number;
+  battle?: BattleReport | null;  // Battle fought at the destination, if any
+  anomalies?: AnomalyEvent[];    // Anomalies the unit explored first along the way
+  retryAfterMs?: number;         // Set while rate limited
+  message?: string;
+}
+
+export interface PlaceUnitResponse {
+  success: boolean;
+  unit?: Unit;
+  battle?: BattleReport | null;  // Battle fought where the unit was placed, if any
+  message?: string;
+}
+
+// When the server's rate limit lets the user move again
+const moveUnitCooldown = new ActionCooldown();
+
+// Create callable function references
+const moveUnitFunction = httpsCallable<MoveUnitRequest, MoveUnitResponse>(functions, 'moveUnit');
+const placeUnitFunction = httpsCallable<PlaceUnitRequest, PlaceUnitResponse>(functions, 'placeUnit');
+
+/**
+ * Move one of the user's units to a new tile
+ * @param unitId ID of the unit to move
+ * @param q Destination Q coordinate
+ * @param r Destination R coordinate
+ * @param s Destination S coordinate
+ * @param moveType Whether to fly sublight, make an FTL jump or jump along the relay network
+ * @returns Object containing success status and the moved unit if successful, or retryAfterMs while rate limited
+ */
+export async function moveUnit(
+  unitId: string,
+  q: number,
+  r: number,
+  s: number,
+  moveType: MoveType = 'sublight'
+): Promise<MoveUnitResponse> {
+  // Don't call the server again until the rate limit has refilled
+  const remainingMs = moveUnitCooldown.getRemainingMs();
+  if (remainingMs > 0) {
+    return {
+      success: false,
+      retryAfterMs: remainingMs,
+      message: `Too many moves. Try again in ${Math.ceil(remainingMs / 1000)} seconds.`
+    };
+  }
+
+  try {
+    logger.debug(`Sending moveUnit request (${moveType}) for unit ${unitId} to q=${q}, r=${r}, s=${s}`);
+
+    const result = await moveUnitFunction({ unitId, q, r, s, moveType });
+
+    if (result.data.success) {
+      logger.success(`Moved unit ${unitId}`);
+
+      // Units live on the colony document, so the cached colony is now stale
+      const uid = auth.currentUser?.uid;
+      if (uid) {
+        invalidateColonyCache(uid);
+      }
+    } else {
+      logger.error('Move unit failed:', result.data.message);
+    }
+
+    return result.data;
+  } catch (error: any) {
+    // Rate limits say how long to wait in the error's details
+    const retryAfterMs = error.details?.retryAfterMs;
+    if (error.code === 'functions/resource-exhausted' && typeof retryAfterMs === 'number') {
+      logger.warn(`Rate limited moving unit ${unitId}, retry in ${retryAfterMs}ms`);
+      moveUnitCooldown.start(retryAfterMs);
+      return { success: false, retryAfterMs, message: error.message };
+    }
+
+    logger.error(`Error moving unit ${unitId} to [${q},${r},${s}]:`, error);
+
+    const errorCode = error.code || 'unknown';
+    const errorMessage = error.message || 'Unknown error moving unit';
+
+    return {
+      success: false,
+      message: `Error (${errorCode}): ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Deploy one of the colony's unplaced units onto a tile
+ * @param unplacedIndex Index of the unit in the colony's unplacedUnits
+ * @param q Target Q coordinate
+ * @param r Target R coordinate
+ * @param s Target S coordinate
+ * @returns Object containing success status and the placed unit if successful
+ */
+export async function placeUnit(unplacedIndex: number, q: number, r: number, s: number): Promise<PlaceUnitResponse> {
+  try {
+    logger.debug(`Sending placeUnit request for unplaced unit ${unplacedIndex} at q=${q}, r=${r}, s=${s}`);
+
+    const result = await placeUnitFunction({ unplacedIndex, q, r, s });
+
+    if (result.data.success) {
+      logger.success(`Placed unit ${result.data.unit?.id}`);
+
+      // Units live on the colony document, so the cached colony is now stale
+      const uid = auth.currentUser?.uid;
+      if (uid) {
+        invalidateColonyCache(uid);
+      }
+    } else {
+      logger.error('Place unit failed:', result.data.message);
+    }
+
+    return result.data;
+  } catch (error: any) {
+    logger.error(`Error placing unplaced unit ${unplacedIndex} at [${q},${r},${s}]:`, error);
+
+    const errorCode = error.code || 'unknown';
+    const errorMessage = error.message || 'Unknown error placing unit';
+
+    return {
+      success: false,
+      message: `Error (${errorCode}): ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Collection of warmupable unit cloud functions
+ */
+export const WarmupableUnitFunctions = createWarmupableRegistry({
+  moveUnit: makeWarmupable('moveUnit', moveUnitFunction),
+  placeUnit: makeWarmupable('placeUnit', placeUnitFunction)
+});
@@ -14,6 +14,7 @@ import {
 } from 'firebase/firestore';
 import { httpsCallable } from 'firebase/functions';
 import { Colony, CreateColonyRequest, CreateColonyResponse } from '@/types/colony';
+import type { CreateColonyRequest as CreateColonyFunctionRequest } from '@shared/requests';
 import { Tile } from '@/types/tiles';
 import { callFunction, getFunctionUrl } from '@/utils/api';
 import { auth, firestore, functions } from '@/config/firebase';
@@ -22,7 +23,7 @@ import logger from '@/utils/logger';
 
 // Create callable function references
 const createColonyFunction = httpsCallable<
-  { name: string, color?: string },
+  CreateColonyFunctionRequest,
   { success: boolean; colony: CreateColonyResponse; message?: string }
 >(functions, 'createColony');
 
@@ -118,7 +119,7 @@ export async function fetchUserColony(
       ? colonyData.createdAt.toDate() 
       : colonyData.createdAt;
     
-    // Create colony object with tileIds
+    // Territory isn't loaded here - its size is territoryScore and its tiles come from chunk fetches
     const colony: Colony = {
       id: colonyDoc.id,
       uid: colonyData.uid,
@@ -126,11 +127,15 @@ export async function fetchUserColony(
       color: colonyData.color,
       createdAt,
       startCoordinates: colonyData.startCoordinates,
-      tileIds: colonyData.tileIds || [],
       units: colonyData.units || [],
       unplacedUnits: colonyData.unplacedUnits || [],
       territoryScore: colonyData.territoryScore || 0,
-      visibilityRadius: colonyData.visibilityRadius || 0
+      visibilityRadius: colonyData.visibilityRadius || 0,
+      stockpile: colonyData.stockpile || {},
+      resourceRates: colonyData.resourceRates || {},
+      constructionQueue: colonyData.constructionQueue || [],
+      orderQueue: colonyData.orderQueue || [],
+      allianceId: colonyData.allianceId ?? null
     };
 
     // Save to cache
@@ -178,11 +183,13 @@ export async function createColony(colonyData: CreateColonyRequest): Promise<Col
       color: responseData.color,
       createdAt: new Date(),
       startCoordinates: responseData.startCoordinates,
-      tileIds: responseData.tileIds,
       units: responseData.units,
       unplacedUnits: responseData.unplacedUnits,
       territoryScore: responseData.territoryScore,
-      visibilityRadius: responseData.visibilityRadius
+      visibilityRadius: responseData.visibilityRadius,
+      stockpile: {},
+      resourceRates: {},
+      constructionQueue: []
     };
     
     logger.success(`Colony created with ID: ${colony.id}`);
@@ -210,109 +217,3 @@ export function invalidateColonyCache(uid: string): void {
     logger.warn('Error invalidating colony cache:', error);
   }
 }
-
-/**
- * Update the colony cache to include a new tile ID
- * @param uid User ID whose colony to update
- * @param tileId Tile ID to add to the colony
- */
-export async function updateColonyCacheWithNewTile(uid: string, tileId: string): Promise<void> {
-  if (typeof window === 'undefined') return;
-  
-  try {
-    // Get colony cache key
-    const cacheKey = getColonyCacheKey(uid);
-    
-    // Try to get the colony from cache
-    const cachedColonyJson = localStorage.getItem(cacheKey);
-    if (!cachedColonyJson) {
-      logger.debug('Colony not found in cache, will be updated on next fetch');
-      return;
-    }
-    
-    // Parse the cached colony data
-    const cachedData = JSON.parse(cachedColonyJson);
-    const colony = cachedData.data;
-    
-    // Check if the colony has a tileIds array
-    if (!colony || !Array.isArray(colony.tileIds)) {
-      logger.warn('Invalid colony data in cache');
-      return;
-    }
-    
-    // Check if tile is already in the colony's tileIds
-    if (colony.tileIds.includes(tileId)) {
-      logger.debug(`Tile ${tileId} already exists in colony cache`);
-      return;
-    }
-    
-    // Add the new tile ID to the tileIds array
-    colony.tileIds.push(tileId);
-    
-    // Update territory score (optional)
-    if (typeof colony.territoryScore === 'number') {
-      colony.territoryScore = colony.tileIds.length;
-    }
-    
-    // Update the cache with the modified colony data
-    cachedData.data = colony;
-    localStorage.setItem(cacheKey, JSON.stringify(cachedData));
-    
-    logger.debug(`Updated colony cache with new tile: ${tileId}`);
-  } catch (error) {
-    logger.warn('Error updating colony cache with new tile:', error);
-  }
-}
-
-/**
- * Remove a tile ID from the colony cache
- * @param uid User ID whose colony to update
- * @param tileId Tile ID to remove from the colony
- */
-export async function removeColonyCacheWithTile(uid: string, tileId: string): Promise<void> {
-  if (typeof window === 'undefined') return;
-  
-  try {
-    // Get colony cache key
-    const cacheKey = getColonyCacheKey(uid);
-    
-    // Try to get the colony from cache
-    const cachedColonyJson = localStorage.getItem(cacheKey);
-    if (!cachedColonyJson) {
-      logger.debug('Colony not found in cache, will be updated on next fetch');
-      return;
-    }
-    
-    // Parse the cached colony data
-    const cachedData = JSON.parse(cachedColonyJson);
-    const colony = cachedData.data;
-    
-    // Check if the colony has a tileIds array
-    if (!colony || !Array.isArray(colony.tileIds)) {
-      logger.warn('Invalid colony data in cache');
-      return;
-    }
-    
-    // Check if tile exists in the colony's tileIds
-    if (!colony.tileIds.includes(tileId)) {
-      logger.debug(`Tile ${tileId} does not exist in colony cache`);
-      return;
-    }
-    
-    // Remove the tile ID from the tileIds array
-    colony.tileIds = colony.tileIds.filter((id: string) => id !== tileId);
-    
-    // Update territory score (optional)
-    if (typeof colony.territoryScore === 'number') {
-      colony.territoryScore = colony.tileIds.length;
-    }
-    
-    // Update the cache with the modified colony data
-    cachedData.data = colony;
-    localStorage.setItem(cacheKey, JSON.stringify(cachedData));
-    
-    logger.debug(`Removed tile ${tileId} from colony cache`);
-  } catch (error) {
-    logger.warn('Error removing tile from colony cache:', error);
-  }
-}
\ No newline at end of file
@@ -1,4 +1,16 @@
 export * from './ColonyTilesService';
+export * from './UnitsService';
+export * from './ResearchService';
+export * from './BasesService';
+export * from './RelayService';
+export * from './OrdersService';
+export * from './BattleService';
+export * from './GalaxyService';
+export * from './LeaderboardService';
+export * from './ProfileService';
+export * from './AllianceService';
+export * from './MessagingService';
+export * from './TradeService';
 export * from './colony';
 
 // Add additional colony-related exports here as needed 
\ No newline at end of file
@@ -12,6 +12,7 @@ import { firestore } from '@/config/firebase';
 import { RoadmapItem } from '@/contexts/RoadmapContext';
 import { getFromCache, saveToCache } from '@/utils/cache';
 import logger from '@/utils/logger';
+import type { DeleteRoadmapItemRequest, RoadmapItemRequest, UpdateRoadmapItemRequest } from '@shared/requests';
 
 // Constants
 const COLLECTION_NAME = 'roadmapItems';
@@ -22,9 +23,9 @@ const ROADMAP_CACHE_EXPIRY = 5 * 60 * 1000; // 5 minutes
 const functions = getFunctions();
 
 // Function references
-const addRoadmapItemFunction = httpsCallable(functions, 'addRoadmapItem');
-const updateRoadmapItemFunction = httpsCallable(functions, 'updateRoadmapItem');
-const deleteRoadmapItemFunction = httpsCallable(functions, 'deleteRoadmapItem');
+const addRoadmapItemFunction = httpsCallable<RoadmapItemRequest>(functions, 'addRoadmapItem');
+const updateRoadmapItemFunction = httpsCallable<UpdateRoadmapItemRequest>(functions, 'updateRoadmapItem');
+const deleteRoadmapItemFunction = httpsCallable<DeleteRoadmapItemRequest>(functions, 'deleteRoadmapItem');
 
 /**
  * Fetch all roadmap items from Firestore
@@ -93,7 +94,7 @@ export async function fetchRoadmapItems(
  * @returns The created roadmap item with an ID
  */
 export async function addRoadmapItem(
-  item: Omit<RoadmapItem, 'id'>
+  item: RoadmapItemRequest
 ): Promise<RoadmapItem> {
   try {
     logger.info('Adding roadmap item via Cloud Function');
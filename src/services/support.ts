@@ -1,13 +1,6 @@
 import { getFunctions, httpsCallable } from 'firebase/functions';
 import { getApp } from 'firebase/app';
-
-interface SupportSubmissionRequest {
-  category: 'idea' | 'problem' | 'other';
-  title: string;
-  description: string;
-  userId: string;
-  userEmail: string;
-}
+import type { SupportSubmissionRequest } from '@shared/requests';
 
 interface SupportSubmissionResponse {
   success: boolean;
@@ -0,0 +1,42 @@
+/**
+ * Alliance types - mirrors functions/src/types/alliance.ts
+ */
+
+// A colony that belongs to an alliance
+export interface AllianceMember {
+  uid: string;
+  colonyId: string;
+  name: string;
+  joinedAt: number;
+}
+
+// An alliance the user belongs to
+export interface Alliance {
+  id: string;
+  name: string;
+  color: string;
+  founderUid: string;
+  members: AllianceMember[];
+  memberUids: string[];
+  invitedUids: string[];
+  sharedVisibility: boolean;  // Members see everything the other members see
+  territoryScore: number;     // Combined territory of every member
+  createdAt: number;
+}
+
+// What other players can see of an alliance
+export interface AllianceSummary {
+  id: string;
+  name: string;
+  color: string;
+  memberCount: number;
+  territoryScore: number;
+}
+
+// Fetch alliance response type
+export interface FetchAllianceResponse {
+  success: boolean;
+  alliance: Alliance | null;
+  invites: AllianceSummary[];
+  message?: string;
+}
@@ -0,0 +1,46 @@
+/**
+ * Anomaly event types - mirrors functions/src/types/anomaly.ts
+ */
+import { Unit } from './units';
+
+interface CubeCoordinates {
+  q: number;
+  r: number;
+  s: number;
+}
+
+// The kinds of effect an anomaly event can have
+export type AnomalyEffectKind = 'resource_cache' | 'derelict_ship' | 'hazard' | 'map_reveal';
+
+// A patch of the map a colony can see for a while, whatever its units can scan
+export interface RevealedArea {
+  position: CubeCoordinates;
+  radius: number;
+  expiresAt: number;
+}
+
+// What an anomaly event actually did once its rolls were made
+export interface AnomalyOutcome {
+  resources: Record<string, number>;  // Added to the stockpile
+  unitsGained: Unit[];
+  damagedUnitId: string | null;
+  levelsLost: number;
+  unitDestroyed: boolean;
+  revealedArea: RevealedArea | null;
+}
+
+// Record of an explored anomaly, sent directly to the explorer
+export interface AnomalyEvent {
+  id: string;           // The anomaly's tile ID; each anomaly triggers once
+  position: CubeCoordinates;
+  eventId: string;      // ID of the event drawn from the table
+  name: string;
+  description: string;
+  kind: AnomalyEffectKind;
+  seed: number;         // Seed for the event's RNG so it can be replayed
+  uid: string;          // Player whose unit explored the anomaly
+  colonyId: string;
+  unitId: string;
+  occurredAt: number;
+  outcome: AnomalyOutcome;
+}
@@ -0,0 +1,52 @@
+/**
+ * Combat types - mirrors functions/src/types/battle.ts
+ */
+
+interface CubeCoordinates {
+  q: number;
+  r: number;
+  s: number;
+}
+
+// What happened to a ship in a battle
+export type ShipOutcome = 'survived' | 'retreated' | 'destroyed';
+
+// One colony's side of a battle
+export interface BattleSide {
+  uid: string;
+  colonyId: string;
+  ships: { id: string; level: number }[];
+  strength: number;  // Combined ship levels, including any terrain modifier
+  roll: number;      // Strength after the random swing; the highest roll wins
+}
+
+// The result for a single ship
+export interface BattleShipResult {
+  unitId: string;
+  ownerUid: string;
+  outcome: ShipOutcome;
+  retreatedTo?: CubeCoordinates;
+}
+
+// Battle report for a single engagement
+export interface BattleReport {
+  id: string;
+  position: CubeCoordinates;
+  tileType: string;
+  occurredAt: number;
+  seed: number;
+  attackerUid: string;
+  participantUids: string[];
+  sides: BattleSide[];
+  winnerUid: string;
+  winnerUids?: string[];  // The winner and its allies; missing on reports from before alliances
+  results: BattleShipResult[];
+}
+
+// Fetch battle reports response type
+export interface FetchBattleReportsResponse {
+  success: boolean;
+  battles: BattleReport[];
+  count: number;
+  message?: string;
+}
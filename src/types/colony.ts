@@ -1,8 +1,9 @@
 /**
  * Types for colony management - UI specific models
  */
-import { Unit, UnplacedUnit } from './units';
+import { Unit, UnitType, UnplacedUnit } from './units';
 import { Tile } from './tiles';
+import type { CreateColonyRequest as CreateColonyFunctionRequest } from '@shared/requests';
 
 // Colony data structure
 export interface Colony {
@@ -16,18 +17,62 @@ export interface Colony {
     r: number;
     s: number;
   };
-  tileIds: string[]; // References to tiles in the 'tiles' collection
   units: Unit[];
   unplacedUnits: UnplacedUnit[];
   // Territory metrics
   territoryScore: number;
   visibilityRadius: number;
+  // Economy
+  stockpile: Record<string, number>;      // Accumulated resources by type
+  resourceRates: Record<string, number>;  // Resources gained in the last economy tick
+  // Construction
+  constructionQueue: ConstructionOrder[];
+  // Queued orders, resolved by the game clock
+  orderQueue?: QueuedOrder[];  // Missing on colonies created before the game clock
+  // Diplomacy
+  allianceId?: string | null;
 }
 
-// Colony creation request type
-export interface CreateColonyRequest {
+// The public view of a colony - mirrors ColonyProfile in functions/src/types/colony.ts
+export interface ColonyProfile {
+  id: string;
+  uid: string;
   name: string;
-  color?: string; // Colony color for visual identification
+  color?: string;
+  territoryScore: number;
+  foundedAt: number | null;
+  homeSector: { q: number; r: number; s: number };  // Center of the sector the colony started in
+}
+
+// A sublight move queued for a unit and carried out a few steps per tick
+export interface QueuedOrder {
+  id: string;
+  unitId: string;
+  destination: { q: number; r: number; s: number };
+  path: { q: number; r: number; s: number }[];  // Steps still to take
+  queuedAt: number;
+  queuedTick: number;  // Tick the order was queued in; it first moves on the tick after
+}
+
+// A base or relay being built, or a base being upgraded
+export interface ConstructionOrder {
+  id: string;
+  kind: 'build' | 'upgrade';
+  unitType?: UnitType.BASE | UnitType.RELAY;  // Structure being built; missing on orders from before relays, which are bases
+  unitId: string;        // The structure being upgraded, or the ID the new structure will get
+  position: {
+    q: number;
+    r: number;
+    s: number;
+  };
+  targetLevel: number;
+  cost: Record<string, number>;
+  startedAt: number;
+  completesAt: number;
+}
+
+// Colony creation request type; uid is only used client-side and isn't sent to createColony
+export interface CreateColonyRequest extends CreateColonyFunctionRequest {
   uid: string;
 }
 
@@ -0,0 +1,44 @@
+/**
+ * Galaxy generation types - mirrors functions/src/types/galaxy.ts
+ */
+
+// Terrain of a tile as generated from the galaxy seed, before anything is persisted
+export interface ProceduralTile {
+  id: string;
+  q: number;
+  r: number;
+  s: number;
+  type: string;
+  trait: string | null;
+  resourceDensity: number;
+}
+
+// Open/closed cycle of an unstable wormhole, measured in minutes since the epoch
+export interface WormholeSchedule {
+  periodMinutes: number;
+  openMinutes: number;
+  offsetMinutes: number;
+}
+
+// A natural wormhole linking two distant tiles
+export interface Wormhole {
+  id: string;
+  endpoints: [{ q: number; r: number; s: number }, { q: number; r: number; s: number }];
+  oneWay: boolean;                    // Ships can only travel from the first endpoint to the second
+  schedule: WormholeSchedule | null;  // Null for stable wormholes, which are always open
+}
+
+// Fetch galaxy region request type, shared with the functions
+export type { FetchGalaxyRegionRequest } from '@shared/requests';
+
+// Fetch galaxy region response type
+export interface FetchGalaxyRegionResponse {
+  success: boolean;
+  version: number;
+  tiles: ProceduralTile[];
+  wormholes: Wormhole[];  // Wormholes with at least one endpoint in the region
+  message?: string;
+}
+
+// Terrain and wormholes of a region of the galaxy
+export type GalaxyRegion = Pick<FetchGalaxyRegionResponse, 'tiles' | 'wormholes'>;
@@ -0,0 +1,41 @@
+/**
+ * Leaderboard types - mirrors functions/src/types/leaderboard.ts
+ */
+import type { LeaderboardWindow } from '@shared/requests';
+import { AllianceSummary } from './alliance';
+
+// Time windows the leaderboard can be ranked over
+export type { LeaderboardWindow };
+
+// A colony's standing on the leaderboard
+export interface LeaderboardEntry {
+  colonyId: string;
+  uid: string;
+  name: string;
+  color?: string;
+  location: { q: number; r: number; s: number };  // Center of the colony's home sector
+  territoryScore: number;
+  weeklyGain: number;     // Territory gained since the week started
+  updatedAt: number;
+}
+
+// Fetch leaderboard request type, shared with the functions
+export type { FetchLeaderboardRequest } from '@shared/requests';
+
+// Fetch leaderboard response type
+export interface FetchLeaderboardResponse {
+  success: boolean;
+  window: LeaderboardWindow;
+  entries: LeaderboardEntry[];
+  nextCursor: string | null;  // Pass as startAfter to get the next page; null on the last page
+  weekStartedAt: number;
+  message?: string;
+}
+
+// Fetch alliance leaderboard response type
+export interface FetchAllianceLeaderboardResponse {
+  success: boolean;
+  entries: AllianceSummary[];  // Ranked by combined territory
+  nextCursor: string | null;   // Alliance ID to pass as startAfter; null on the last page
+  message?: string;
+}
@@ -0,0 +1,65 @@
+/**
+ * Messaging types - mirrors functions/src/types/message.ts
+ */
+import type { MessageChannel } from '@shared/requests';
+
+interface CubeCoordinates {
+  q: number;
+  r: number;
+  s: number;
+}
+
+// Where a message was sent: straight to one colony, to the sender's alliance, or from a beacon
+export type { MessageChannel };
+
+// A message the user sent or received
+export interface GameMessage {
+  id: string;
+  channel: MessageChannel;
+  senderUid: string;
+  senderColonyId: string;
+  senderName: string;
+  body: string;
+  sentAt: number;
+  recipientUids: string[];   // Everyone who can read the message, including the sender
+  unreadUids: string[];      // Recipients who haven't read it yet
+  allianceId: string | null;
+  beaconId: string | null;
+  position: CubeCoordinates | null;  // Where the beacon was placed, on beacon messages
+}
+
+// A beacon broadcasting from a tile
+export interface Beacon {
+  id: string;
+  ownerUid: string;
+  colonyId: string;
+  colonyName: string;
+  color?: string;
+  position: CubeCoordinates;
+  message: string;
+  range: number;
+  placedAt: number;
+  expiresAt: number;
+}
+
+// Fetch messages response type
+export interface FetchMessagesResponse {
+  success: boolean;
+  messages: GameMessage[];
+  nextCursor: string | null;
+  unread: Record<MessageChannel, number>;
+  message?: string;
+}
+
+// Fetch beacons response type
+export interface FetchBeaconsResponse {
+  success: boolean;
+  beacons: Beacon[];
+  message?: string;
+}
+
+// Payload of the event sent to each recipient of a new message
+export interface MessageEventPayload {
+  message: GameMessage;
+  beacon: Beacon | null;
+}
@@ -0,0 +1,38 @@
+/**
+ * Tech tree types - mirrors functions/src/types/tech.ts
+ */
+
+// Capabilities a completed tech grants to its colony
+export interface TechEffects {
+  ftlTier?: number;             // Highest FTL tier the colony's ships can use
+  baseInfluenceBonus?: number;  // Extra influence radius for every base
+  scanRadiusBonus?: number;     // Extra scan radius for every scan source
+  wormholeTransit?: boolean;    // Ships can travel through natural wormholes
+}
+
+// A single node in the tech tree
+export interface TechDefinition {
+  id: string;
+  name: string;
+  description: string;
+  cost: number;              // Research points needed to complete the tech
+  prerequisites: string[];   // Tech IDs that must be completed first
+  effects: TechEffects;
+}
+
+// A colony's research progress
+export interface ResearchState {
+  activeTechId: string | null;
+  completedTechs: string[];
+  progress: Record<string, number>;  // Research points spent on each tech so far
+}
+
+// Fetch tech tree response type
+export interface FetchTechTreeResponse {
+  success: boolean;
+  techs: TechDefinition[];
+  research: ResearchState;
+  effects: Required<TechEffects>;  // Combined effects of every completed tech
+  researchRate: number;            // Research points gained in the last economy tick
+  message?: string;
+}
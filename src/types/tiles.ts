@@ -16,6 +16,7 @@ export interface Tile {
 
 export interface ColonyTile extends Tile {
   type: string;
+  trait?: string | null;  // Secondary trait layer (nebula, void, gravity_well, anomaly)
   visibility: 'visible' | 'unexplored'; // TODO TW: Discuss unexplored
   resourceDensity: number; // Value from 0-1 indicating resource richness
   resources?: {
@@ -0,0 +1,56 @@
+/**
+ * Trade types - mirrors functions/src/types/trade.ts
+ */
+
+// Where an offer is in its life: open on the marketplace, or closed one of three ways
+export type TradeStatus = 'open' | 'accepted' | 'cancelled' | 'expired';
+
+// An offer on the marketplace
+export interface TradeOffer {
+  id: string;
+  creatorUid: string;
+  creatorColonyId: string;
+  creatorName: string;
+  offered: Record<string, number>;     // Held in escrow while the offer is open
+  requested: Record<string, number>;
+  resourceTypes: string[];
+  status: TradeStatus;
+  createdAt: number;
+  expiresAt: number;
+  closedAt: number | null;
+  acceptorUid: string | null;
+  acceptorColonyId: string | null;
+  acceptorName: string | null;
+}
+
+// A closed offer from the colony's side
+export interface TradeHistoryEntry {
+  offerId: string;
+  role: 'creator' | 'acceptor';
+  status: Exclude<TradeStatus, 'open'>;
+  counterpartyUid: string | null;
+  counterpartyName: string | null;
+  gave: Record<string, number>;
+  received: Record<string, number>;
+  createdAt: number;
+  closedAt: number;
+}
+
+// Fetch trade offers request type, shared with the functions
+export type { FetchTradeOffersRequest } from '@shared/requests';
+
+// Fetch trade offers response type
+export interface FetchTradeOffersResponse {
+  success: boolean;
+  offers: TradeOffer[];
+  nextCursor: string | null;
+  message?: string;
+}
+
+// Fetch trade history response type
+export interface FetchTradeHistoryResponse {
+  success: boolean;
+  entries: TradeHistoryEntry[];
+  nextCursor: string | null;
+  message?: string;
+}
@@ -13,6 +13,7 @@ export interface BaseUnit {
   };
   level: number;
   ownerUid: string;  // Firebase user ID of the owner
+  moveReadyAt?: number;  // Time in milliseconds when the unit can make another sublight move
 }
 
 // Possible unit types
@@ -21,12 +22,13 @@ export enum UnitType {
   BASE = 'base',
   MINING_SITE = 'mining_site',
   RESEARCH_SITE = 'research_site',
+  RELAY = 'relay',
 }
 
 // Ship unit for exploration and combat
 export interface Ship extends BaseUnit {
   type: UnitType.SHIP;
-  // Add ship-specific properties here
+  ftlReadyAt?: number;  // Time in milliseconds when the ship can jump again
 }
 
 // Base unit for establishing territory
@@ -49,11 +51,18 @@ export interface ResearchSite extends BaseUnit {
   researchRate: number;
 }
 
+// Relay station linking friendly space for fast travel
+export interface Relay extends BaseUnit {
+  type: UnitType.RELAY;
+  range: number;  // Furthest another relay can be and still link to this one
+}
+
 // Union type for all possible units
-export type Unit = Ship | Base | MiningSite | ResearchSite;
+export type Unit = Ship | Base | MiningSite | ResearchSite | Relay;
 
 // Helper type for unplaced units (during colony creation)
 export interface UnplacedUnit {
   type: UnitType;
   level: number;
+  resourceType?: string; // Optional resource type for mining sites
 } 
\ No newline at end of file
@@ -6,8 +6,12 @@
  */
 
 import { Tile } from '@/types/tiles';
-import { Colony } from '@/types/colony';
-import { Unit } from '@/types/units';
+import { Colony, ConstructionOrder } from '@/types/colony';
+import { Base, Unit } from '@/types/units';
+import { BattleReport } from '@/types/battle';
+import { TickSummary, TickTiming } from '@/types/tick';
+import { MessageEventPayload } from '@/types/message';
+import { AnomalyEvent } from '@/types/anomaly';
 
 export interface WebSocketMessage<T = any> {}
 
@@ -24,7 +28,7 @@ export interface ColonyWebSocketMessage<T = any> extends WebSocketMessage{
 export interface DrawingEventsWebsocketMessage<T = any> extends Tile, WebSocketMessage {}
 
 // Available payload types
-export type PayloadType = 'tile' | 'colony' | 'unit' | 'building' | 'event' | 'notification';
+export type PayloadType = 'tile' | 'colony' | 'unit' | 'building' | 'battle' | 'tick' | 'message' | 'event' | 'notification';
 
 // For tile payloads, use the existing Tile type
 export type TilePayload = Tile;
@@ -32,6 +36,32 @@ export type TilePayload = Tile;
 // For colony payloads, use the existing Colony type
 export type ColonyPayload = Colony;
 
+// Unit payloads carry the updated unit along with the route it travelled
+// Other players' units only come with the tiles their scans cover, and null where they're hidden
+export type UnitPayload = Unit & {
+  from?: { q: number; r: number; s: number } | null;
+  path?: { q: number; r: number; s: number }[];
+};
+
+// Building payloads carry a finished construction order and the base it produced
+// Other players who can see the base only get the unit
+export interface BuildingPayload {
+  order: ConstructionOrder;
+  unit: Base;
+}
+
+// Battle payloads carry the full battle report, sent directly to each participant
+export type BattlePayload = BattleReport;
+
+// Tick payloads carry the tick's timing, broadcast on tick-events, and each player's own orders sent directly to them
+export type TickPayload = TickTiming | TickSummary;
+
+// Message payloads carry a new message, and its beacon if it came from one, sent directly to each recipient
+export type MessagePayload = MessageEventPayload;
+
+// Event payloads carry an anomaly a unit explored, sent directly to the explorer
+export type EventPayload = AnomalyEvent;
+
 // Simple ping/pong message for connection testing
 export interface PingPongMessage {
   type: 'ping' | 'pong';
@@ -56,3 +86,39 @@ export const isColonyMessage = (
 ): message is ColonyWebSocketMessage<ColonyPayload> => {
   return message.payloadType === 'colony';
 };
+
+export const isUnitMessage = (
+  message: ColonyWebSocketMessage
+): message is ColonyWebSocketMessage<UnitPayload> => {
+  return message.payloadType === 'unit';
+};
+
+export const isBattleMessage = (
+  message: ColonyWebSocketMessage
+): message is ColonyWebSocketMessage<BattlePayload> => {
+  return message.payloadType === 'battle';
+};
+
+export const isBuildingMessage = (
+  message: ColonyWebSocketMessage
+): message is ColonyWebSocketMessage<BuildingPayload> => {
+  return message.payloadType === 'building';
+};
+
+export const isTickMessage = (
+  message: ColonyWebSocketMessage
+): message is ColonyWebSocketMessage<TickPayload> => {
+  return message.payloadType === 'tick';
+};
+
+export const isInboxMessage = (
+  message: ColonyWebSocketMessage
+): message is ColonyWebSocketMessage<MessagePayload> => {
+  return message.payloadType === 'message';
+};
+
+export const isEventMessage = (
+  message: ColonyWebSocketMessage
+): message is ColonyWebSocketMessage<EventPayload> => {
+  return message.payloadType === 'event';
+};
@@ -0,0 +1,42 @@
+import { chunkRules } from '@shared/gameRules'
+
+/**
+ * Get the ID of the chunk a tile belongs to.
+ * Mirrors getChunkId in functions/src/utils/tiles/chunks.ts - chunks are squares in axial coordinates,
+ * sized by the shared chunk rules.
+ */
+export function getChunkId(q: number, r: number): string {
+  const { size } = chunkRules
+  return `${Math.floor(q / size)}#${Math.floor(r / size)}`
+}
+
+/**
+ * Get the chunks holding a set of tiles
+ * @param tileIds Tile IDs in q#r#s format
+ * @returns IDs of every chunk any of the tiles falls in
+ */
+export function getChunkIdsForTiles(tileIds: Iterable<string>): string[] {
+  const chunkIds = new Set<string>()
+  Array.from(tileIds).forEach((tileId) => {
+    const [q, r] = tileId.split('#').map(Number)
+    chunkIds.add(getChunkId(q, r))
+  })
+  return Array.from(chunkIds)
+}
+
+/**
+ * Get the chunks covering a hexagonal area, e.g. the area around the camera
+ * @param centerQ Q coordinate of the center
+ * @param centerR R coordinate of the center
+ * @param radius Radius of the area in tiles
+ * @returns IDs of every chunk the area overlaps
+ */
+export function getChunkIdsInRadius(centerQ: number, centerR: number, radius: number): string[] {
+  const chunkIds = new Set<string>()
+  for (let qOffset = -radius; qOffset <= radius; qOffset++) {
+    for (let rOffset = Math.max(-radius, -qOffset - radius); rOffset <= Math.min(radius, -qOffset + radius); rOffset++) {
+      chunkIds.add(getChunkId(centerQ + qOffset, centerR + rOffset))
+    }
+  }
+  return Array.from(chunkIds)
+}
@@ -0,0 +1,124 @@
+import { gameConfig } from '@/config/gameConfig'
+import { Colony } from '@/types/colony'
+import { UnitType } from '@/types/units'
+import { hexDistance } from '@/utils/gridUtils'
+import { CubeCoords } from '@/utils/pathfinding'
+
+// Unit types that occupy a tile and can't share it with another structure
+const STRUCTURE_UNIT_TYPES: UnitType[] = [UnitType.BASE, UnitType.MINING_SITE, UnitType.RESEARCH_SITE, UnitType.RELAY]
+
+const NEIGHBOR_OFFSETS: CubeCoords[] = [
+  { q: 1, r: -1, s: 0 },
+  { q: 1, r: 0, s: -1 },
+  { q: 0, r: 1, s: -1 },
+  { q: -1, r: 1, s: 0 },
+  { q: -1, r: 0, s: 1 },
+  { q: 0, r: -1, s: 1 },
+]
+
+/**
+ * Look up the stats for a base tier
+ */
+export function getBaseTier(level: number) {
+  return gameConfig.bases.tiers.find((tier) => tier.level === level)
+}
+
+/**
+ * Format a resource cost for display, e.g. "200 metal"
+ */
+export function formatCost(cost: Record<string, number>): string {
+  return Object.entries(cost).map(([resourceType, amount]) => `${amount} ${resourceType}`).join(', ')
+}
+
+/**
+ * Check whether the colony's stockpile covers a cost
+ */
+export function canAfford(colony: Colony, cost: Record<string, number>): boolean {
+  return Object.entries(cost).every(([resourceType, amount]) => (colony.stockpile?.[resourceType] ?? 0) >= amount)
+}
+
+/**
+ * Get the tiles in or next to the colony's territory, where new bases may go
+ * @param territory Tiles the colony controls
+ */
+export function getBaseCandidateTiles(territory: ReadonlySet<string>): CubeCoords[] {
+  const candidates = new Map<string, CubeCoords>()
+
+  territory.forEach((tileId) => {
+    const [q, r, s] = tileId.split('#').map(Number)
+    ;[{ q: 0, r: 0, s: 0 }, ...NEIGHBOR_OFFSETS].forEach((offset) => {
+      const coords = { q: q + offset.q, r: r + offset.r, s: s + offset.s }
+      candidates.set(`${coords.q}#${coords.r}#${coords.s}`, coords)
+    })
+  })
+
+  return Array.from(candidates.values())
+}
+
+/**
+ * Check whether a new base can be built on a position.
+ * Mirrors getBaseSiteError in functions/src/utils/construction.ts, but only knows about the
+ * player's own bases - the server also checks spacing from other players and is authoritative.
+ * @param territory Tiles the colony controls
+ * @returns A reason the site is unsuitable, or null if the base can be built there
+ */
+export function getBaseSiteError(position: CubeCoords, colony: Colony, territory: ReadonlySet<string>): string | null {
+  const tileId = `${position.q}#${position.r}#${position.s}`
+  const inOrNextToTerritory = territory.has(tileId) ||
+    NEIGHBOR_OFFSETS.some((offset) =>
+      territory.has(`${position.q + offset.q}#${position.r + offset.r}#${position.s + offset.s}`)
+    )
+
+  if (!inOrNextToTerritory) {
+    return 'Bases must be built inside or next to your territory'
+  }
+
+  const occupied = colony.units.some((unit) =>
+    STRUCTURE_UNIT_TYPES.includes(unit.type) &&
+    unit.position.q === position.q &&
+    unit.position.r === position.r &&
+    unit.position.s === position.s
+  )
+  if (occupied) {
+    return 'There is already a structure on this tile'
+  }
+
+  const basePositions = [
+    ...colony.units.filter((unit) => unit.type === UnitType.BASE).map((unit) => unit.position),
+    ...colony.constructionQueue
+      .filter((order) => order.kind === 'build' && (order.unitType ?? UnitType.BASE) === UnitType.BASE)
+      .map((order) => order.position),
+  ]
+  const { minBaseSpacing } = gameConfig.bases
+  const tooClose = basePositions.some((base) =>
+    hexDistance(base.q, base.r, base.s, position.q, position.r, position.s) < minBaseSpacing
+  )
+  if (tooClose) {
+    return `Bases must be at least ${minBaseSpacing} tiles from any other base`
+  }
+
+  return null
+}
+
+/**
+ * Check whether a relay can be built on a position.
+ * Mirrors getRelaySiteError in functions/src/utils/construction.ts - the server is authoritative.
+ * @param territory Tiles the colony controls
+ * @returns A reason the site is unsuitable, or null if the relay can be built there
+ */
+export function getRelaySiteError(position: CubeCoords, colony: Colony, territory: ReadonlySet<string>): string | null {
+  const tileId = `${position.q}#${position.r}#${position.s}`
+  if (!territory.has(tileId)) {
+    return 'Relays must be built inside your territory'
+  }
+
+  const isSameTile = (coords: CubeCoords) =>
+    coords.q === position.q && coords.r === position.r && coords.s === position.s
+  const occupied = colony.units.some((unit) => STRUCTURE_UNIT_TYPES.includes(unit.type) && isSameTile(unit.position)) ||
+    colony.constructionQueue.some((order) => order.kind === 'build' && isSameTile(order.position))
+  if (occupied) {
+    return 'There is already a structure on this tile'
+  }
+
+  return null
+}
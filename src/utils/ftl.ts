@@ -0,0 +1,52 @@
+import { gameConfig } from '@/config/gameConfig'
+import { CubeCoords } from '@/utils/pathfinding'
+import { getTileTraitInfo } from '@/utils/tileTraits'
+
+/**
+ * Check whether an FTL jump is allowed by the colony's researched FTL tier.
+ * Mirrors getFtlJumpError in functions/src/utils/movement.ts - the server is authoritative.
+ * @returns A reason the jump is not allowed, or null if it is
+ */
+export function getFtlJumpError(from: CubeCoords, to: CubeCoords, ftlTier: number): string | null {
+  const { jumpRange, sectorRadius } = gameConfig.ftl
+  const distance = Math.max(Math.abs(from.q - to.q), Math.abs(from.r - to.r), Math.abs(from.s - to.s))
+
+  if (ftlTier < 1) {
+    return 'FTL jumps have not been researched yet'
+  }
+
+  if (ftlTier >= 3) {
+    return distance <= sectorRadius ? null : `Teleports are limited to ${sectorRadius} tiles`
+  }
+
+  if (distance > jumpRange) {
+    return `Jumps are limited to ${jumpRange} tiles`
+  }
+
+  // A straight hex line keeps one coordinate fixed
+  const isStraightLine = from.q === to.q || from.r === to.r || from.s === to.s
+  if (ftlTier === 1 && !isStraightLine) {
+    return 'Tier 1 jumps must follow a straight line'
+  }
+
+  return null
+}
+
+/**
+ * Check whether tile traits allow an FTL jump between two tiles.
+ * Mirrors getFtlTraitError in functions/src/utils/movement.ts - the server is authoritative.
+ * @returns A reason the jump is not allowed, or null if it is
+ */
+export function getFtlTraitError(originTrait: string | null | undefined, destinationTrait: string | null | undefined): string | null {
+  const { blockedOriginTraits, blockedDestinationTraits } = gameConfig.ftl
+
+  if (originTrait && blockedOriginTraits.includes(originTrait)) {
+    return `FTL drives cannot spool up inside a ${getTileTraitInfo(originTrait)?.name.toLowerCase() ?? originTrait}`
+  }
+
+  if (destinationTrait && blockedDestinationTraits.includes(destinationTrait)) {
+    return `Ships cannot jump into a ${getTileTraitInfo(destinationTrait)?.name.toLowerCase() ?? destinationTrait}`
+  }
+
+  return null
+}
@@ -0,0 +1,23 @@
+import { gameConfig } from '@/config/gameConfig'
+
+/**
+ * Length of one tick in milliseconds
+ */
+export function getTickLength(): number {
+  return gameConfig.gameClock.tickMinutes * 60000
+}
+
+/**
+ * Get the tick a time falls in
+ * Mirrors getTickNumber in functions/src/utils/gameClock.ts - ticks are counted from the epoch
+ */
+export function getTickNumber(time: number): number {
+  return Math.floor(time / getTickLength())
+}
+
+/**
+ * Get when the tick after the given time starts, which is when queued orders next move
+ */
+export function getNextTickAt(time: number): number {
+  return (getTickNumber(time) + 1) * getTickLength()
+}
@@ -0,0 +1,12 @@
+import type { CubeCoordinates } from '@shared/requests'
+
+// The search lives in shared/ so the previewed route is the one the server validates
+export {
+  findPath,
+  getMaximumStepCost,
+  getMinimumStepCost,
+  getTerrainCost,
+} from '@shared/pathfinding'
+export type { FindPathOptions, PathEdge, PathResult, StepCostFunction } from '@shared/pathfinding'
+
+export type CubeCoords = CubeCoordinates
@@ -0,0 +1,32 @@
+import { gameConfig } from '@/config/gameConfig'
+import { ColonyTile } from '@/types/tiles'
+import { Unit, UnitType, UnplacedUnit } from '@/types/units'
+
+// Unit types that occupy a tile and can't share it with another structure
+const STRUCTURE_UNIT_TYPES: UnitType[] = [UnitType.BASE, UnitType.MINING_SITE, UnitType.RESEARCH_SITE, UnitType.RELAY]
+
+/**
+ * Check whether an unplaced unit can be deployed onto a tile.
+ * Mirrors getPlacementError in functions/src/utils/placement.ts - the server is authoritative.
+ * @returns A reason the tile is unsuitable, or null if the unit can be placed there
+ */
+export function getPlacementError(unplaced: UnplacedUnit, tile: ColonyTile, units: Unit[]): string | null {
+  const isStructure = STRUCTURE_UNIT_TYPES.includes(unplaced.type)
+  const occupied = units.some((unit) =>
+    STRUCTURE_UNIT_TYPES.includes(unit.type) &&
+    unit.position.q === tile.q &&
+    unit.position.r === tile.r &&
+    unit.position.s === tile.s
+  )
+
+  if (isStructure && occupied) {
+    return 'There is already a structure on this tile'
+  }
+
+  if (unplaced.type === UnitType.MINING_SITE &&
+      (tile.resourceDensity ?? 0) < gameConfig.sites.minMiningResourceDensity) {
+    return 'This tile does not have enough resources for a mining site'
+  }
+
+  return null
+}
@@ -0,0 +1,94 @@
+import { Colony } from '@/types/colony'
+import { Relay, UnitType } from '@/types/units'
+import { hexDistance } from '@/utils/gridUtils'
+import { CubeCoords } from '@/utils/pathfinding'
+
+// A link between two relays that ships can jump along
+export interface RelayLink {
+  fromId: string;
+  toId: string;
+  from: CubeCoords;
+  to: CubeCoords;
+}
+
+// A colony's units plus the tiles it controls, which decide whether its relays are online
+export type RelayOwner = Pick<Colony, 'units'> & { tileIds: string[] }
+
+const toTileId = (coords: CubeCoords) => `${coords.q}#${coords.r}#${coords.s}`
+
+/**
+ * Get the relays a colony has that are currently online.
+ * A relay only operates while it stands in its owner's territory.
+ */
+export function getActiveRelays(colony: RelayOwner): Relay[] {
+  const tileIds = new Set(colony.tileIds)
+  return colony.units.filter(
+    (unit): unit is Relay => unit.type === UnitType.RELAY && tileIds.has(toTileId(unit.position))
+  )
+}
+
+/**
+ * Compute which of a colony's relays are linked.
+ * Mirrors getRelayNetwork in functions/src/utils/relays.ts - the server is authoritative.
+ * @returns The direct links and the network each active relay belongs to
+ */
+export function getRelayNetwork(colony: RelayOwner): { links: RelayLink[]; networkIds: Map<string, number> } {
+  const relays = getActiveRelays(colony)
+  const links: RelayLink[] = []
+  const neighbors = new Map<string, string[]>(relays.map((relay) => [relay.id, []]))
+
+  relays.forEach((a, i) => {
+    relays.slice(i + 1).forEach((b) => {
+      const distance = hexDistance(a.position.q, a.position.r, a.position.s, b.position.q, b.position.r, b.position.s)
+      if (distance > Math.min(a.range, b.range)) return
+
+      links.push({ fromId: a.id, toId: b.id, from: a.position, to: b.position })
+      neighbors.get(a.id)!.push(b.id)
+      neighbors.get(b.id)!.push(a.id)
+    })
+  })
+
+  // Flood each unvisited relay to label its network
+  const networkIds = new Map<string, number>()
+  let networkCount = 0
+  relays.forEach((relay) => {
+    if (networkIds.has(relay.id)) return
+
+    const networkId = networkCount++
+    const stack = [relay.id]
+    while (stack.length > 0) {
+      const relayId = stack.pop()!
+      if (networkIds.has(relayId)) continue
+      networkIds.set(relayId, networkId)
+      stack.push(...neighbors.get(relayId)!)
+    }
+  })
+
+  return { links, networkIds }
+}
+
+/**
+ * Check whether a ship can relay jump between two tiles.
+ * Mirrors getRelayJumpError in functions/src/utils/relays.ts - the server is authoritative.
+ * @returns A reason the jump is not allowed, or null if it is
+ */
+export function getRelayJumpError(colony: RelayOwner, from: CubeCoords, to: CubeCoords): string | null {
+  const relays = getActiveRelays(colony)
+  const origin = relays.find((relay) => toTileId(relay.position) === toTileId(from))
+  const destination = relays.find((relay) => toTileId(relay.position) === toTileId(to))
+
+  if (!origin) {
+    return 'Relay jumps must start from one of your active relays'
+  }
+
+  if (!destination) {
+    return 'Relay jumps must end at one of your active relays'
+  }
+
+  const { networkIds } = getRelayNetwork(colony)
+  if (networkIds.get(origin.id) !== networkIds.get(destination.id)) {
+    return 'These relays are not linked'
+  }
+
+  return null
+}
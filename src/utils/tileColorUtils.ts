@@ -12,9 +12,18 @@ export function getTileColor(
     colonyColor?: string;
     distance?: number;
     enemyColor?: string;
+    alliedUids?: string[];   // Players in the user's alliance
+    allianceColor?: string;
   }
 ): string {
 
+  // Handle allied tiles: the ally's color blended with the alliance's, so allies stand apart from enemies
+  if (tile.controllerUid && currentUserUid && tile.controllerUid !== currentUserUid &&
+      options?.alliedUids?.includes(tile.controllerUid)) {
+    const allyColor = new THREE.Color(options.enemyColor || '#FF3333');
+    return `#${allyColor.lerp(new THREE.Color(options.allianceColor || '#A855F7'), 0.5).getHexString()}`;
+  }
+
   // Handle enemy tiles
   if (tile.controllerUid && currentUserUid && tile.controllerUid !== currentUserUid) {
     // Get the enemy color
@@ -96,4 +105,19 @@ export function getTileColor(
     0.5 + 0.3 * Math.sin(tile.r * 0.5 + tile.s * 0.4),
     0.6 + 0.4 * Math.sin(tile.s * 0.6 + tile.q * 0.2)
   ).getStyle();
-} 
\ No newline at end of file
+}
+
+// Muted colors for terrain previewed under the fog of war
+const TERRAIN_PREVIEW_COLORS: Record<string, string> = {
+  star_rich: '#6b6a4e',
+  normal: '#5c5c5c',
+  dead_zone: '#3f3f46',
+  barrier: '#4b3f5c',
+};
+
+/**
+ * Get the fog of war color for an unexplored tile of a procedural terrain type
+ */
+export function getTerrainPreviewColor(type: string): string {
+  return TERRAIN_PREVIEW_COLORS[type] ?? '#666666';
+}
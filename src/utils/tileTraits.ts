@@ -0,0 +1,39 @@
+/**
+ * Display details for tile traits.
+ * Trait values mirror TileTrait in functions/src/utils/noise.ts.
+ */
+export interface TileTraitInfo {
+  name: string;
+  description: string;
+  color: string;  // Overlay color on the grid
+}
+
+export const TILE_TRAITS: Record<string, TileTraitInfo> = {
+  nebula: {
+    name: 'Nebula',
+    description: 'Slows movement and reduces scan range.',
+    color: '#a855f7',
+  },
+  void: {
+    name: 'Void',
+    description: 'Ships cannot make FTL jumps into or out of a void.',
+    color: '#0f172a',
+  },
+  gravity_well: {
+    name: 'Gravity Well',
+    description: 'Blocks FTL jumps in. Ships inside can still jump out.',
+    color: '#38bdf8',
+  },
+  anomaly: {
+    name: 'Anomaly',
+    description: 'Something strange is out here. The first ship to explore an anomaly triggers a special event.',
+    color: '#facc15',
+  },
+}
+
+/**
+ * Get the display details for a trait, if the tile has a known one
+ */
+export function getTileTraitInfo(trait: string | null | undefined): TileTraitInfo | null {
+  return trait ? TILE_TRAITS[trait] ?? null : null
+}
@@ -1,6 +1,6 @@
 import { Tile, TileMap, toTileMap } from '@/types/tiles';
 import { updateTileCache } from '@/services/colony/ColonyTilesService';
-import { removeColonyCacheWithTile } from '@/services/colony/colony';
+import { invalidateColonyCache } from '@/services/colony/colony';
 import { User } from 'firebase/auth';
 import { ColonyTilesState } from './predicates';
 import logger from '@/utils/logger';
@@ -12,7 +12,7 @@ export interface HandlerContext {
   addColonyTile: (tile: Tile) => void;
   removeColonyTile: (tile: Tile) => void;
   setViewableTiles: React.Dispatch<React.SetStateAction<TileMap>>;
-  fetchColonyColor: (uid: string) => Promise<string | null>;
+  fetchColonyColors: (uids: string[]) => Promise<Record<string, string>>;
 }
 
 /**
@@ -47,14 +47,14 @@ export async function handleOpponentTile(tile: Tile, ctx: HandlerContext) {
   // Remove the tile from our colony
   ctx.removeColonyTile(tile);
   
-  // Update the cache without updating colony state directly
+  // Drop the cached colony so its territory score is reloaded, without updating colony state directly
   // This avoids triggering a colony state change which causes grid reloading
   if (ctx.user && ctx.user.uid) {
-    await removeColonyCacheWithTile(ctx.user.uid, tile.id);
+    invalidateColonyCache(ctx.user.uid);
   }
   
   // Get the colony color of the new controller
   if (tile.controllerUid) {
-    await ctx.fetchColonyColor(tile.controllerUid);
+    await ctx.fetchColonyColors([tile.controllerUid]);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { Wormhole } from '@/types/galaxy'
+import { CubeCoords, PathEdge } from '@/utils/pathfinding'
+
+/**
+ * Check whether a wormhole is open at a given time
+ * Mirrors isWormholeOpen in functions/src/utils/wormholes.ts - the server is authoritative
+ */
+export function isWormholeOpen(wormhole: Wormhole, now: number): boolean {
+  if (!wormhole.schedule) return true
+
+  const { periodMinutes, openMinutes, offsetMinutes } = wormhole.schedule
+  const minutes = Math.floor(now / 60000) + offsetMinutes
+  return minutes % periodMinutes < openMinutes
+}
+
+/**
+ * Get the directions ships can currently travel through the wormholes
+ * Mirrors getWormholeEdges in functions/src/utils/wormholes.ts
+ */
+export function getWormholeEdges(wormholes: Wormhole[], now: number): PathEdge[] {
+  return wormholes
+    .filter((wormhole) => isWormholeOpen(wormhole, now))
+    .flatMap(({ endpoints: [a, b], oneWay }) => (
+      oneWay ? [{ from: a, to: b }] : [{ from: a, to: b }, { from: b, to: a }]
+    ))
+}
+
+/**
+ * Find the wormhole with an endpoint on a tile, along with the endpoint at its other end
+ * @returns The wormhole and its far endpoint, or null if there is no wormhole on the tile
+ */
+export function getWormholeAt(
+  wormholes: Wormhole[],
+  coords: CubeCoords
+): { wormhole: Wormhole; destination: CubeCoords; isEntrance: boolean } | null {
+  for (const wormhole of wormholes) {
+    const index = wormhole.endpoints.findIndex(
+      (endpoint) => endpoint.q === coords.q && endpoint.r === coords.r && endpoint.s === coords.s
+    )
+    if (index !== -1) {
+      // One-way wormholes can only be entered at their first endpoint
+      return { wormhole, destination: wormhole.endpoints[1 - index], isEntrance: index === 0 || !wormhole.oneWay }
+    }
+  }
+  return null
+}